@@ -1,4 +1,11 @@
-const CACHE_NAME = 'sceneread-v4';
+const CACHE_NAME = 'sceneread-v7';
+// Downloaded on request (offline speech recognition) - kept across versions
+const KEPT_CACHES = ['sceneread-stt-models'];
+
+// The app runs in this one page - it's the only page kept for opening with no signal
+const APP_SHELL = '/';
+// Build output the cached shell loads, to tell when a new build has been deployed
+const SHELL_ASSETS_KEY = '/__shell-assets.json';
 
 // Only cache static assets, NOT the main page
 const PRECACHE_ASSETS = [
@@ -6,6 +13,7 @@ const PRECACHE_ASSETS = [
   '/icon-192.png',
   '/icon-512.png',
   '/apple-touch-icon.png',
+  '/pdf.worker.min.mjs',
 ];
 
 // Install event - cache static assets only
@@ -24,7 +32,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== CACHE_NAME && !KEPT_CACHES.includes(name))
           .map((name) => caches.delete(name))
       );
     })
@@ -32,6 +40,35 @@ self.addEventListener('activate', (event) => {
   self.clients.claim();
 });
 
+// /_next/static/ paths a page's HTML refers to
+function shellAssets(html) {
+  const paths = html.match(/\/_next\/static\/[^"'\s)\\?]+/g) || [];
+  return [...new Set(paths)].sort();
+}
+
+// Keep the latest app shell. A shell loading different build output means a new
+// deploy - cached build output the new shell doesn't load belongs to an old build.
+async function cacheShell(response) {
+  const cache = await caches.open(CACHE_NAME);
+  const assets = shellAssets(await response.clone().text());
+  const saved = await cache.match(SHELL_ASSETS_KEY);
+  const previous = saved ? await saved.json() : null;
+  await cache.put(APP_SHELL, response);
+  if (previous && previous.join('\n') === assets.join('\n')) return;
+
+  await cache.put(SHELL_ASSETS_KEY, new Response(JSON.stringify(assets), { headers: { 'Content-Type': 'application/json' } }));
+  const current = new Set(assets);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => {
+        const path = new URL(request.url).pathname;
+        return path.startsWith('/_next/static/') && !current.has(path);
+      })
+      .map((request) => cache.delete(request))
+  );
+}
+
 // Fetch event - NETWORK FIRST for everything
 self.addEventListener('fetch', (event) => {
   if (event.request.method !== 'GET') return;
@@ -48,10 +85,36 @@ self.addEventListener('fetch', (event) => {
   }
 
   // For navigation requests (page loads), ALWAYS go to network
+  // (the app shell is kept only so the app opens with no signal)
   if (event.request.mode === 'navigate') {
     event.respondWith(
-      fetch(event.request).catch(() => {
-        return caches.match('/') || new Response('Offline', { status: 503 });
+      fetch(event.request)
+        .then((response) => {
+          if (response.ok && !response.redirected && url.pathname === APP_SHELL) {
+            event.waitUntil(cacheShell(response.clone()));
+          }
+          return response;
+        })
+        .catch(() => {
+          return caches.match(APP_SHELL).then((cached) => cached || new Response('Offline', { status: 503 }));
+        })
+    );
+    return;
+  }
+
+  // Build output is content-hashed and never changes - cache it as it's fetched
+  // (an old build's files are dropped when a new shell arrives, see cacheShell)
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(event.request).then((cached) => {
+        if (cached) return cached;
+        return fetch(event.request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+          }
+          return response;
+        });
       })
     );
     return;
@@ -0,0 +1,145 @@
+// Score recorded transcripts against a script from the command line
+//
+//   npm run accuracy -- <script.json> <transcripts.json|.txt> [--profile standard] [--language vi] [--format json|table]
+//
+// script.json: { script?, lines, characters?, lexicon? } or just an array of lines
+// transcripts: a JSON array of strings (one per user line, in order), an array of
+// { line | id | line_number, text }, an object keyed by line id or number, or a
+// text file with one take per user line
+
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { listAccuracyProfiles } from '../src/lib/accuracy'
+import { scoreScript, ScoreOptions, ScriptLineInput, ScriptScore } from '../src/lib/scorer'
+
+interface ScriptFile {
+  script?: { language?: string | null; accent_hint?: string | null }
+  lines: (ScriptLineInput & { is_user_line?: boolean; line_type?: string })[]
+  characters?: { name: string }[]
+  lexicon?: { term: string; variants: string[] }[]
+}
+
+const USAGE = 'Usage: npm run accuracy -- <script.json> <transcripts.json|.txt> [--profile <id>] [--language <code>] [--format json|table]'
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+function parseArgs(argv: string[]) {
+  const files: string[] = []
+  const flags: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--help' || arg === '-h') fail(USAGE)
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split('=', 2)
+      const value = inline ?? argv[++i]
+      if (value === undefined) fail(`--${name} needs a value\n${USAGE}`)
+      flags[name] = value
+    } else {
+      files.push(arg)
+    }
+  }
+  if (files.length !== 2) fail(USAGE)
+  const format = flags.format || 'json'
+  if (format !== 'json' && format !== 'table') fail(`Unknown format "${format}"\n${USAGE}`)
+  const profiles = listAccuracyProfiles().map(p => p.id)
+  if (flags.profile && !profiles.includes(flags.profile)) fail(`Unknown profile "${flags.profile}" - one of ${profiles.join(', ')}`)
+  return { scriptPath: files[0], transcriptPath: files[1], profile: flags.profile, language: flags.language, format }
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'))
+  } catch (err) {
+    fail(`Could not read ${file}: ${err instanceof Error ? err.message : err}`)
+  }
+}
+
+function readScript(file: string): ScriptFile {
+  const data = readJson(file) as ScriptFile | ScriptFile['lines']
+  const script = Array.isArray(data) ? { lines: data } : data
+  if (!Array.isArray(script?.lines)) fail(`${file} has no lines`)
+  // Number lines that don't carry one so transcripts can refer to them
+  script.lines = script.lines
+    .filter(l => !l.line_type || l.line_type === 'dialogue')
+    .map((l, i) => ({ ...l, line_number: l.line_number ?? i + 1 }))
+  return script
+}
+
+// Takes keyed by line id or line number
+function readTranscripts(file: string, lines: ScriptFile['lines']): Map<string, string> {
+  const userLines = lines.some(l => l.is_user_line) ? lines.filter(l => l.is_user_line) : lines
+  const keyOf = (i: number) => {
+    const line = userLines[i]
+    if (!line) fail(`${file} has more takes than the script has lines to say`)
+    return line.id || String(line.line_number)
+  }
+
+  const transcripts = new Map<string, string>()
+  if (path.extname(file).toLowerCase() !== '.json') {
+    readFileSync(file, 'utf8').split(/\r?\n/).filter(t => t.trim()).forEach((text, i) => transcripts.set(keyOf(i), text))
+    return transcripts
+  }
+
+  const data = readJson(file)
+  if (Array.isArray(data)) {
+    data.forEach((entry, i) => {
+      if (typeof entry === 'string') return transcripts.set(keyOf(i), entry)
+      const key = entry?.line ?? entry?.id ?? entry?.line_number
+      if (key === undefined || typeof entry.text !== 'string') fail(`${file}: take ${i + 1} needs a line and a text`)
+      transcripts.set(String(key), entry.text)
+    })
+  } else if (data && typeof data === 'object') {
+    for (const [key, text] of Object.entries(data)) {
+      if (typeof text === 'string') transcripts.set(key, text)
+    }
+  } else {
+    fail(`${file} is not a list or map of takes`)
+  }
+  return transcripts
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + '…' : text.padEnd(width)
+}
+
+function printTable(score: ScriptScore) {
+  const rows = score.lines.map(l => [
+    String(l.line_number ?? ''),
+    l.isCorrect ? 'ok' : 'x',
+    `${l.accuracy}%`,
+    truncate(l.expected, 40),
+    truncate(l.spoken, 40),
+    [...l.missingWords.map(w => `-${w}`), ...l.wrongWords, ...l.paraphrasedWords, ...l.extraWords.map(w => `+${w}`)].join(', '),
+  ])
+  const header = ['#', '', 'acc', 'expected', 'spoken', 'issues']
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()
+
+  console.log(format(header))
+  console.log(widths.map(w => '-'.repeat(w)).join('  '))
+  rows.forEach(r => console.log(format(r)))
+  console.log()
+  console.log(`${score.summary.correct}/${score.summary.lines} correct, ${score.summary.accuracy}% average (profile ${score.profile}, language ${score.language}, scorer ${score.version})`)
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const script = readScript(args.scriptPath)
+  const transcripts = readTranscripts(args.transcriptPath, script.lines)
+
+  const options: ScoreOptions = {
+    profile: args.profile,
+    language: args.language || script.script?.language || script.script?.accent_hint,
+    characterNames: [...(script.characters || []).map(c => c.name), ...script.lines.map(l => l.character_name || '')],
+    lexicon: script.lexicon,
+  }
+  const score = scoreScript(script.lines, transcripts, options)
+
+  if (args.format === 'table') printTable(score)
+  else console.log(JSON.stringify(score, null, 2))
+}
+
+main()
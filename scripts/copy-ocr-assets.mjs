@@ -0,0 +1,29 @@
+// Copy the Tesseract worker, WASM cores and English model into /public/tesseract
+// so scanned-PDF OCR runs without a CDN (see createTesseractEngine in src/lib/ocr.ts)
+
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+
+const require = createRequire(import.meta.url)
+const packageDir = (name) => path.dirname(require.resolve(`${name}/package.json`))
+const target = path.join(process.cwd(), 'public', 'tesseract')
+
+// The LSTM engine is the default - tesseract.js picks the core build the browser supports
+const files = [
+  [path.join(packageDir('tesseract.js'), 'dist', 'worker.min.js'), 'worker.min.js'],
+  ...['tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js', 'tesseract-core-relaxedsimd-lstm.wasm.js']
+    .map(file => [path.join(packageDir('tesseract.js-core'), file), path.join('core', file)]),
+  [path.join(packageDir('@tesseract.js-data/eng'), '4.0.0_best_int', 'eng.traineddata.gz'), path.join('lang', 'eng.traineddata.gz')],
+]
+
+for (const [source, name] of files) {
+  if (!existsSync(source)) {
+    console.error(`[ocr-assets] ${source} not found - are tesseract.js and @tesseract.js-data/eng installed?`)
+    process.exit(1)
+  }
+  const destination = path.join(target, name)
+  mkdirSync(path.dirname(destination), { recursive: true })
+  copyFileSync(source, destination)
+}
+console.log('[ocr-assets] Copied to public/tesseract')
@@ -0,0 +1,18 @@
+// Copy the pdf.js worker into /public so the app serves it itself
+// (no CDN at runtime - PDF import keeps working offline and behind proxies)
+
+import { copyFileSync, existsSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+
+const require = createRequire(import.meta.url)
+const source = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'build', 'pdf.worker.min.mjs')
+const target = path.join(process.cwd(), 'public', 'pdf.worker.min.mjs')
+
+if (!existsSync(source)) {
+  console.error(`[pdf-worker] ${source} not found - is pdfjs-dist installed?`)
+  process.exit(1)
+}
+
+copyFileSync(source, target)
+console.log('[pdf-worker] Copied to public/pdf.worker.min.mjs')
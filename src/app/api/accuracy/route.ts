@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { lineAttemptRows, parseAccuracyBatch, scoreAccuracyBatch } from '@/lib/accuracyBatch'
+import { SCORER_VERSION } from '@/lib/scorer'
+
+// Scores batches of expected/spoken pairs with the same engine as the app for the
+// signed-in user, and saves them to line_attempts as that user (row-level security applies)
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to check accuracy' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const batch = parseAccuracyBatch(body)
+    if (typeof batch === 'string') {
+      return NextResponse.json({ error: batch }, { status: 400 })
+    }
+
+    const scores = scoreAccuracyBatch(batch)
+    let attemptIds: (string | null)[] = scores.map(() => null)
+
+    if (batch.persist) {
+      const { data: saved, error } = await supabase
+        .from('line_attempts')
+        .insert(lineAttemptRows(batch, scores, user.id, new Date().toISOString()))
+        .select('id')
+
+      if (error) {
+        console.error('[Accuracy] Failed to save attempts:', error.message)
+        return NextResponse.json({ error: 'Failed to save attempts', details: error.message }, { status: 500 })
+      }
+
+      attemptIds = scores.map((_, i) => saved?.[i]?.id ?? null)
+    }
+
+    return NextResponse.json({
+      version: SCORER_VERSION,
+      profile: batch.profile.id,
+      results: scores.map((score, i) => ({ ...score, attemptId: attemptIds[i] })),
+    })
+  } catch (error) {
+    console.error('[Accuracy] Error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createRateLimiter } from '@/lib/rateLimit'
+
+// A key only has to be valid when the socket opens - a minute covers a slow connect
+const KEY_TTL_SECONDS = 60
+
+// Keys are reused client-side until they expire, so a handful a minute is plenty
+const limiter = createRateLimiter({ limit: 10, windowMs: 60_000 })
+
+// Deepgram keys belong to a project - look it up once if it isn't configured
+let projectId = process.env.DEEPGRAM_PROJECT_ID || ''
+
+async function getProjectId(apiKey: string): Promise<string> {
+  if (projectId) return projectId
+  const response = await fetch('https://api.deepgram.com/v1/projects', {
+    headers: { Authorization: `Token ${apiKey}` },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to list projects (${response.status})`)
+  }
+  const data = await response.json()
+  projectId = data.projects?.[0]?.project_id || ''
+  if (!projectId) throw new Error('No Deepgram project for this API key')
+  return projectId
+}
+
+// Issues a short-lived key that can only stream audio for transcription,
+// so the account key stays on the server
+export async function POST() {
+  try {
+    const apiKey = process.env.DEEPGRAM_API_KEY
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'Deepgram API key not configured' }, { status: 500 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to use speech recognition' }, { status: 401 })
+    }
+
+    const { allowed, retryAfterMs } = limiter.take(user.id)
+    if (!allowed) {
+      console.warn('[Deepgram Token] Rate limited:', user.id)
+      return NextResponse.json(
+        { error: 'Too many speech recognition sessions, try again shortly' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } },
+      )
+    }
+
+    const response = await fetch(`https://api.deepgram.com/v1/projects/${await getProjectId(apiKey)}/keys`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Token ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        comment: `sceneread ${user.id}`,
+        scopes: ['usage:write'],
+        time_to_live_in_seconds: KEY_TTL_SECONDS,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[Deepgram Token] Failed to create key:', response.status, errorText)
+      return NextResponse.json({ error: 'Failed to create key', details: errorText }, { status: response.status })
+    }
+
+    const data = await response.json()
+    return NextResponse.json({
+      key: data.key,
+      expires_at: Date.now() + KEY_TTL_SECONDS * 1000,
+    })
+  } catch (error) {
+    console.error('[Deepgram Token] Error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
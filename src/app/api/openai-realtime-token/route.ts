@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
+import { resolveLanguage } from '@/lib/accuracy'
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const apiKey = process.env.OPENAI_API_KEY
     
@@ -8,6 +9,9 @@ export async function GET() {
       return NextResponse.json({ error: 'OpenAI API key not configured' }, { status: 500 })
     }
 
+    // The script's language, as a base code ("vi") - English unless given
+    const language = resolveLanguage(new URL(request.url).searchParams.get('language'))
+
     // GA endpoint: /v1/realtime/client_secrets with type: "transcription"
     // Using the correct GA format with audio.input structure
     const response = await fetch('https://api.openai.com/v1/realtime/client_secrets', {
@@ -27,7 +31,7 @@ export async function GET() {
               },
               transcription: {
                 model: 'gpt-4o-transcribe',
-                language: 'en',
+                language,
               },
               turn_detection: {
                 type: 'server_vad',
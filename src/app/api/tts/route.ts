@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { parseTtsRequest, ttsCacheKey, voiceLanguageCode } from '@/lib/tts'
+
+// Private bucket, a folder per user like recordings - see README
+const TTS_BUCKET = 'tts-cache'
+
+// Synthesizes speech with Google TTS for the signed-in user and returns MP3.
+// Results are kept in storage by content hash, so repeat lines skip Google entirely.
+export async function POST(request: Request) {
+  try {
+    const apiKey = process.env.GOOGLE_API_KEY
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'Google API key not configured' }, { status: 500 })
+    }
+
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to play lines' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const tts = parseTtsRequest(body)
+    if (typeof tts === 'string') {
+      return NextResponse.json({ error: tts }, { status: 400 })
+    }
+
+    const path = `${user.id}/${await ttsCacheKey(tts)}.mp3`
+    const { data: cached } = await supabase.storage.from(TTS_BUCKET).download(path)
+    if (cached) {
+      return new NextResponse(cached, {
+        headers: { 'Content-Type': 'audio/mpeg', 'X-TTS-Cache': 'hit' },
+      })
+    }
+
+    const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        input: { text: tts.text },
+        voice: { languageCode: voiceLanguageCode(tts.voice), name: tts.voice },
+        audioConfig: { audioEncoding: 'MP3', speakingRate: tts.rate, pitch: tts.pitch },
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('[TTS] Google TTS failed:', response.status, errorText)
+      return NextResponse.json({ error: 'Failed to synthesize speech', details: errorText }, { status: response.status })
+    }
+
+    const data = await response.json()
+    if (!data.audioContent) {
+      return NextResponse.json({ error: 'No audio content in Google TTS response' }, { status: 502 })
+    }
+    const audio = Buffer.from(data.audioContent, 'base64')
+
+    // A failed cache write only costs a resynthesis next time
+    const { error: uploadError } = await supabase.storage.from(TTS_BUCKET).upload(path, audio, {
+      contentType: 'audio/mpeg',
+      upsert: true,
+    })
+    if (uploadError) console.warn('[TTS] Cache write failed:', uploadError.message)
+
+    return new NextResponse(audio, {
+      headers: { 'Content-Type': 'audio/mpeg', 'X-TTS-Cache': 'miss' },
+    })
+  } catch (error) {
+    console.error('[TTS] Error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server'
+import { resolveLanguage } from '@/lib/accuracy'
 
 export async function POST(request: Request) {
   try {
@@ -11,6 +12,7 @@ export async function POST(request: Request) {
     const formData = await request.formData()
     const audio = formData.get('audio') as Blob | null
     const prompt = formData.get('prompt') as string | null
+    const language = resolveLanguage(formData.get('language') as string | null)
 
     if (!audio) {
       return NextResponse.json({ error: 'No audio provided' }, { status: 400 })
@@ -31,7 +33,7 @@ export async function POST(request: Request) {
     const whisperForm = new FormData()
     whisperForm.append('file', audio, `audio.${ext}`)
     whisperForm.append('model', 'gpt-4o-transcribe')
-    whisperForm.append('language', 'en')
+    whisperForm.append('language', language)
 
     // Prompt biases Whisper toward expected words (max 224 tokens)
     if (prompt) {
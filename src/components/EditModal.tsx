@@ -1,10 +1,15 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useStore } from '@/store'
 import { Button } from './ui'
-import { GOOGLE_TTS_VOICES, EMOTION_TAGS, CHARACTER_ARCHETYPES, AGE_RANGES, VOCAL_TONES, ACCENTS, buildVoiceId, getAuthHeaders } from '@/lib/supabase'
+import { GOOGLE_TTS_VOICES, EMOTION_TAGS, CHARACTER_ARCHETYPES, AGE_RANGES, VOCAL_TONES, ACCENTS, SCRIPT_LANGUAGES, buildVoiceId, getAuthHeaders } from '@/lib/supabase'
+import { exportFountain } from '@/lib/fountain'
+import { exportSidesPDF } from '@/lib/sidesPdf'
+import { REVISION_COLORS } from '@/lib/revision'
+import { markLineRegions, parseLineMarkup, stripLineMarkup } from '@/lib/accuracy'
+import type { LineRevision } from '@/lib/supabase'
 
 interface EditModalProps {
   isOpen: boolean
@@ -38,19 +43,24 @@ export function EditModal({ isOpen, onClose, type, data, onSave, onDelete, onAdd
           sort_order: data.sort_order || 0,
           afterLineId: data.afterLineId || null
         })
+      } else if (type === 'line') {
+        // Dialogue is edited as markup, so its regions can be marked
+        setFormData({ ...data, content: markLineRegions(data.content || '', data.regions) })
       } else {
         setFormData({ ...data })
       }
     }
-  }, [data, mode])
+  }, [data, mode, type])
 
   const handleSave = async () => {
     setSaving(true)
     try {
+      // Lines are stored as the words said, with the regions beside them
+      const saved = type === 'line' ? { ...formData, ...parseLineMarkup(formData.content || '') } : formData
       if (mode === 'add' && onAddLine) {
-        await onAddLine(formData.afterLineId, formData)
+        await onAddLine(saved.afterLineId, saved)
       } else {
-        await onSave(formData)
+        await onSave(saved)
       }
       onClose()
     } catch (e) {
@@ -217,8 +227,27 @@ export function EditModal({ isOpen, onClose, type, data, onSave, onDelete, onAdd
   )
 }
 
+// Markup for stretches of dialogue that needn't be said word for word (see markLineRegions in lib/accuracy)
+// `empty` is inserted at the cursor when nothing is selected
+const REGION_MARKUP = [
+  { label: 'Ad-lib', open: '{', close: '}', empty: '{}' },
+  { label: 'Optional', open: '[', close: ']', empty: null },
+  { label: 'Overlap', open: '/ ', close: ' /', empty: '/ ' },
+]
+
 function LineEditForm({ formData, setFormData, mode }: { formData: any; setFormData: (d: any) => void; mode?: 'edit' | 'add' }) {
   const { characters } = useStore()
+  const contentRef = useRef<HTMLTextAreaElement>(null)
+
+  const markRegion = (markup: typeof REGION_MARKUP[number]) => {
+    const content: string = formData.content || ''
+    const start = contentRef.current?.selectionStart ?? content.length
+    const end = contentRef.current?.selectionEnd ?? content.length
+    const selected = content.slice(start, end)
+    const inserted = selected.trim() ? `${markup.open}${selected.trim()}${markup.close}` : markup.empty
+    if (inserted === null) return
+    setFormData({ ...formData, content: content.slice(0, start) + inserted + content.slice(end) })
+  }
   
   return (
     <div className="space-y-4">
@@ -268,6 +297,7 @@ function LineEditForm({ formData, setFormData, mode }: { formData: any; setFormD
       <div>
         <label className="block text-xs text-text-muted mb-1.5 uppercase tracking-wide">Dialogue</label>
         <textarea
+          ref={contentRef}
           value={formData.content || ''}
           onChange={(e) => setFormData({ ...formData, content: e.target.value })}
           rows={4}
@@ -275,6 +305,20 @@ function LineEditForm({ formData, setFormData, mode }: { formData: any; setFormD
           autoFocus={mode === 'add'}
           className="w-full px-3 py-2.5 bg-bg-surface border border-border rounded-lg text-text resize-none focus:outline-none focus:border-accent"
         />
+        <div className="flex items-center gap-2 mt-1.5">
+          <span className="text-xs text-text-muted flex-1">Mark the selection as</span>
+          {REGION_MARKUP.map(markup => (
+            <button
+              key={markup.label}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()} // Keep the textarea's selection
+              onClick={() => markRegion(markup)}
+              className="px-2 py-1 rounded-md bg-bg-surface border border-border text-xs text-text-muted hover:text-text hover:border-accent"
+            >
+              {markup.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Is User Line */}
@@ -405,7 +449,7 @@ Examples:
       <div className="p-3 bg-bg rounded-lg border border-border/50">
         <div className="text-[10px] text-text-subtle uppercase tracking-wide mb-1">Line Preview</div>
         <div className="text-xs text-accent font-mono mb-1">{formData.character_name}</div>
-        <div className="text-sm text-text">{formData.content}</div>
+        <div className="text-sm text-text">{stripLineMarkup(formData.content || '')}</div>
       </div>
     </div>
   )
@@ -450,6 +494,29 @@ function LineMetadataView({ formData }: { formData: any }) {
         </div>
       </div>
 
+      {/* Revision history - newest first */}
+      {formData.revisions?.length > 0 && (
+        <div className="p-3 bg-bg-surface rounded-lg border border-border">
+          <div className="text-xs text-text-muted uppercase tracking-wide mb-3">Revision History</div>
+          <div className="space-y-3">
+            {[...formData.revisions].reverse().map((rev: LineRevision, i: number) => {
+              const color = REVISION_COLORS.find(c => c.value === rev.color)
+              return (
+                <div key={i} className="text-sm">
+                  <div className="flex items-center gap-2 text-xs text-text-muted">
+                    {color && <span className="w-2.5 h-2.5 rounded-full border border-border" style={{ backgroundColor: color.hex }} />}
+                    <span>{color ? `${color.label} · ` : ''}{rev.source === 'revision' ? 'Imported revision' : 'Edited'}</span>
+                    <span className="ml-auto">{new Date(rev.at).toLocaleString()}</span>
+                  </div>
+                  {rev.by_name && <div className="text-[11px] text-text-subtle mt-0.5">by {rev.by_name}</div>}
+                  <p className="text-text-muted mt-1 line-through">{rev.previous_content ?? '(new line)'}</p>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Audio Preview */}
       {formData.audio_url && (
         <div className="p-3 bg-bg-surface rounded-lg border border-border">
@@ -649,6 +716,47 @@ function CharacterEditForm({ formData, setFormData }: { formData: any; setFormDa
 }
 
 function ScriptEditForm({ formData, setFormData }: { formData: any; setFormData: (d: any) => void }) {
+  const { scenes, lines } = useStore()
+  const scriptScenes = scenes
+    .filter(s => s.script_id === formData.id)
+    .sort((a, b) => a.sort_order - b.sort_order)
+  const lastSceneIndex = Math.max(0, scriptScenes.length - 1)
+  const [sidesRange, setSidesRange] = useState<[number, number]>([0, lastSceneIndex])
+  const [exportingSides, setExportingSides] = useState(false)
+  const [exportError, setExportError] = useState('')
+
+  // Scenes load after the modal opens and change with the script - start from all of them again
+  useEffect(() => {
+    setSidesRange([0, lastSceneIndex])
+  }, [formData.id, lastSceneIndex])
+
+  const fileBase = (formData.title || 'Script').replace(/\s+/g, '_')
+
+  const handleExportFountain = () => {
+    const text = exportFountain(formData, scenes, lines.filter(l => l.script_id === formData.id))
+    downloadFile(text, `${fileBase}.fountain`, 'text/plain')
+  }
+
+  const handleExportSides = async () => {
+    setExportingSides(true)
+    setExportError('')
+    try {
+      const [from, to] = sidesRange[0] <= sidesRange[1] ? sidesRange : [sidesRange[1], sidesRange[0]]
+      const bytes = await exportSidesPDF(
+        { title: formData.title || 'Script' },
+        scriptScenes,
+        lines.filter(l => l.script_id === formData.id),
+        { sceneRange: [from, to] }
+      )
+      downloadFile(bytes.slice().buffer, `${fileBase}_sides.pdf`, 'application/pdf')
+    } catch (err) {
+      console.error('Failed to export sides:', err)
+      setExportError('Could not create the PDF sides. Please try again.')
+    } finally {
+      setExportingSides(false)
+    }
+  }
+
   return (
     <div className="space-y-4">
       {/* Title */}
@@ -746,19 +854,34 @@ function ScriptEditForm({ formData, setFormData }: { formData: any; setFormData:
         </div>
       </div>
 
-      {/* Accent */}
-      <div>
-        <label className="block text-xs text-text-muted mb-1.5 uppercase tracking-wide">Default Accent</label>
-        <select
-          value={formData.accent_hint || 'australian'}
-          onChange={(e) => setFormData({ ...formData, accent_hint: e.target.value })}
-          className="w-full px-3 py-2.5 bg-bg-surface border border-border rounded-lg text-text focus:outline-none focus:border-accent"
-        >
-          <option value="australian">Australian</option>
-          <option value="british">British</option>
-          <option value="american">American</option>
-          <option value="indian">Indian</option>
-        </select>
+      {/* Accent & Language */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-text-muted mb-1.5 uppercase tracking-wide">Default Accent</label>
+          <select
+            value={formData.accent_hint || 'australian'}
+            onChange={(e) => setFormData({ ...formData, accent_hint: e.target.value })}
+            className="w-full px-3 py-2.5 bg-bg-surface border border-border rounded-lg text-text focus:outline-none focus:border-accent"
+          >
+            <option value="australian">Australian</option>
+            <option value="british">British</option>
+            <option value="american">American</option>
+            <option value="indian">Indian</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1.5 uppercase tracking-wide">Language</label>
+          <select
+            value={formData.language || ''}
+            onChange={(e) => setFormData({ ...formData, language: e.target.value || null })}
+            className="w-full px-3 py-2.5 bg-bg-surface border border-border rounded-lg text-text focus:outline-none focus:border-accent"
+          >
+            <option value="">From accent</option>
+            {SCRIPT_LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Writer & Draft */}
@@ -796,10 +919,68 @@ function ScriptEditForm({ formData, setFormData }: { formData: any; setFormData:
           className="w-full px-3 py-2.5 bg-bg-surface border border-border rounded-lg text-text resize-none focus:outline-none focus:border-accent"
         />
       </div>
+
+      {/* Export */}
+      <div className="p-3 bg-bg-surface rounded-lg border border-border">
+        <div className="text-xs text-text-muted uppercase tracking-wide mb-2">Export</div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExportFountain}
+            disabled={lines.length === 0}
+            className="px-3 py-2 text-sm bg-bg rounded-lg border border-border text-text hover:border-accent transition-colors disabled:opacity-50"
+          >
+            Download .fountain
+          </button>
+        </div>
+
+        {/* PDF sides - user lines highlighted, notes in the margin */}
+        {scriptScenes.length > 0 && (
+          <div className="mt-3">
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              {(['From', 'To'] as const).map((label, i) => (
+                <label key={label} className="block">
+                  <span className="block text-[10px] text-text-muted mb-1 uppercase tracking-wide">{label} scene</span>
+                  <select
+                    value={sidesRange[i]}
+                    onChange={(e) => {
+                      const next: [number, number] = [...sidesRange]
+                      next[i] = parseInt(e.target.value)
+                      setSidesRange(next)
+                    }}
+                    className="w-full px-2 py-2 bg-bg border border-border rounded-lg text-text text-sm focus:outline-none focus:border-accent"
+                  >
+                    {scriptScenes.map((scene, idx) => (
+                      <option key={scene.id} value={idx}>{scene.scene_number}. {scene.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleExportSides}
+              disabled={exportingSides || lines.length === 0}
+              className="px-3 py-2 text-sm bg-bg rounded-lg border border-border text-text hover:border-accent transition-colors disabled:opacity-50"
+            >
+              {exportingSides ? 'Preparing PDF...' : 'Download PDF sides'}
+            </button>
+            {exportError && <p className="text-error text-sm mt-2">{exportError}</p>}
+          </div>
+        )}
+      </div>
     </div>
   )
 }
 
+// Trigger a browser download for generated file content
+function downloadFile(content: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
 // Export the edit helpers
 export async function updateLine(lineId: string, updates: any): Promise<boolean> {
   const headers = await getAuthHeaders()
@@ -2,10 +2,15 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useStore } from '@/store'
-import { supabase, getAuthHeaders, Script, Character, Folder, ELEVENLABS_VOICES } from '@/lib/supabase'
+import { useStore, useScriptPractice } from '@/store'
+import { supabase, getAuthHeaders, Script, Scene, Line, Character, Folder, ELEVENLABS_VOICES } from '@/lib/supabase'
 import { api } from '@/lib/api'
 import { getPDFInfo, extractPagesFromPDF, extractAllPagesFromPDF, getPDFPreview, extractScenesByIds, extractPagesAsPDF, PDFInfo, PDFPreview, DetectedScene } from '@/lib/pdfExtractor'
+import { tokenizeFountain } from '@/lib/fountain'
+import { tokenizeFdx } from '@/lib/fdx'
+import { LOW_OCR_CONFIDENCE } from '@/lib/ocr'
+import { describeProvenance, movePick, SidesPick } from '@/lib/sidesBuilder'
+import { nextRevisionColor, REVISION_COLORS, RevisionChange, RevisionPreview, WordDiff } from '@/lib/revision'
 import PDFVisualPreview from './PDFVisualPreview'
 import { Card, Badge, Button, EmptyState, Spinner } from './ui'
 import { IconSearch, IconUpload, IconLibrary } from './icons'
@@ -120,7 +125,9 @@ export function LibraryScreen() {
   const scriptsArray = Array.isArray(scripts) ? scripts : []
   const [loading, setLoading] = useState(scriptsArray.length === 0)
   const [showImport, setShowImport] = useState(false)
+  const [showSidesBuilder, setShowSidesBuilder] = useState(false)
   const [voiceSetupScript, setVoiceSetupScript] = useState<Script | null>(null)
+  const [revisionScript, setRevisionScript] = useState<Script | null>(null)
   const [generatingScriptIds, setGeneratingScriptIds] = useState<Set<string>>(new Set())
   const [swipedScriptId, setSwipedScriptId] = useState<string | null>(null)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
@@ -702,6 +709,14 @@ export function LibraryScreen() {
             </div>
           </div>
         </Card>
+        {scriptsArray.length > 0 && (
+          <button
+            onClick={() => setShowSidesBuilder(true)}
+            className="w-full mt-2 text-xs text-accent hover:text-accent/80 py-1"
+          >
+            Build sides from existing scenes
+          </button>
+        )}
       </div>
 
       <div className="px-5">
@@ -808,6 +823,15 @@ export function LibraryScreen() {
                                 </svg>
                                 Voices
                               </button>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); setRevisionScript(script); setSwipedScriptId(null); }}
+                                className="flex-1 py-2.5 rounded-lg bg-bg-surface flex items-center justify-center gap-2 text-sm text-text-muted hover:text-accent transition-colors"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                </svg>
+                                Revise
+                              </button>
                               <button
                                 onClick={(e) => { e.stopPropagation(); setMoveToFolderScriptId(script.id); }}
                                 className="flex-1 py-2.5 rounded-lg bg-bg-surface flex items-center justify-center gap-2 text-sm text-text-muted hover:text-blue-400 transition-colors"
@@ -858,6 +882,26 @@ export function LibraryScreen() {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {showSidesBuilder && (
+          <SidesBuilderModal
+            scripts={scriptsArray}
+            onClose={() => setShowSidesBuilder(false)}
+            onSuccess={handleImportSuccess}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {revisionScript && (
+          <RevisionModal
+            script={revisionScript}
+            onClose={() => setRevisionScript(null)}
+            onApplied={() => { setRevisionScript(null); fetchScripts() }}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {voiceSetupScript && (
           <VoiceSetupModal 
@@ -996,6 +1040,7 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
   const [pdfInfo, setPdfInfo] = useState<PDFInfo | null>(null)
   const [pdfPreview, setPdfPreview] = useState<PDFPreview | null>(null)
   const [extractingPdf, setExtractingPdf] = useState(false)
+  const [pdfStatus, setPdfStatus] = useState('')
   const [selectionMode] = useState<'pages'>('pages')
   const [selectedSceneIds, setSelectedSceneIds] = useState<string[]>([])
   const [customSelectedText, setCustomSelectedText] = useState('')
@@ -1081,12 +1126,46 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
       setFilePreview('')
     }
 
+    // Fountain files are already structured - read the cast straight from the cues
+    if (file.name.toLowerCase().endsWith('.fountain')) {
+      try {
+        const { titlePage, blocks } = tokenizeFountain(await file.text())
+        const names = new Set<string>()
+        blocks.forEach(b => { if (b.kind === 'dialogue') names.add(b.character) })
+        setDetectedCharacters(Array.from(names).sort())
+        if (titlePage.title && !scriptTitle) {
+          setScriptTitle(titlePage.title.replace(/[*_]/g, '').replace(/\n/g, ' '))
+        }
+      } catch (err) {
+        console.error('Failed to read Fountain file:', err)
+        setError('Could not read Fountain file. Please try another file.')
+      }
+    }
+
+    // Final Draft files tag every cue, so the cast is exact
+    if (file.name.toLowerCase().endsWith('.fdx')) {
+      try {
+        const { title, blocks } = tokenizeFdx(await file.text())
+        const names = new Set<string>()
+        blocks.forEach(b => { if (b.kind === 'dialogue') names.add(b.character) })
+        setDetectedCharacters(Array.from(names).sort())
+        if (title && !scriptTitle) setScriptTitle(title)
+      } catch (err) {
+        console.error('Failed to read Final Draft file:', err)
+        setError('Could not read Final Draft file. Please try another file.')
+      }
+    }
+
     // Get PDF preview with scene detection
     if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
       try {
         setExtractingPdf(true)
-        const preview = await getPDFPreview(file)
+        setPdfStatus('')
+        const preview = await getPDFPreview(file, { onProgress: setPdfStatus })
         setPdfPreview(preview)
+        if (!preview.fullText.trim()) {
+          setError('No readable text found in this PDF. Try a clearer scan or a different file.')
+        }
         setPdfInfo({ totalPages: preview.totalPages, title: preview.title })
         
         // Auto-set title from PDF metadata if available and not already set
@@ -1102,6 +1181,7 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
         setError('Could not read PDF. Please try another file.')
       } finally {
         setExtractingPdf(false)
+        setPdfStatus('')
       }
     }
   }
@@ -1148,13 +1228,13 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
         try {
           if (pageRange && pageRange.start && pageRange.end) {
             // Extract selected pages as a NEW PDF file using pdf-lib
-            // This preserves formatting and lets n8n handle text extraction
+            // The importer reads the text back out of just these pages
             addDebug(`Extracting pages ${pageRange.start} to ${pageRange.end} as PDF`)
             fileToSend = await extractPagesAsPDF(selectedFile, pageRange.start, pageRange.end)
-            textToSend = '' // Let n8n extract the text from the PDF
+            textToSend = '' // Importer extracts the text from the PDF
             addDebug(`Created new PDF: ${fileToSend.name} (${fileToSend.size} bytes)`)
           } else if (pdfPreview) {
-            // Full PDF - send the original file, let n8n extract
+            // Full PDF - import the original file
             addDebug(`Sending full PDF file`)
             fileToSend = selectedFile
             textToSend = ''
@@ -1173,11 +1253,12 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
       }
 
       // Fire the import request and use returned scriptId
-      console.log('[Import] Sending to n8n...', { userId, userRole, hasFile: !!fileToSend, hasText: !!textToSend })
-      addDebug('Sending to n8n webhook...')
+      console.log('[Import] Parsing script...', { userId, userRole, hasFile: !!fileToSend, hasText: !!textToSend })
+      addDebug('Parsing script...')
       
-      // Store scriptId when we get it from n8n
+      // Store scriptId when we get it from the importer
       let importedScriptId: string | null = null
+      let importError: string | null = null
       
       api.importScript({
         userId,
@@ -1190,16 +1271,17 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
         accentHint: accentHint || undefined,
       })
         .then(data => {
-          console.log('[Import] n8n response:', data)
-          addDebug(`n8n response: ${JSON.stringify(data).substring(0, 100)}`)
+          console.log('[Import] Import response:', data)
+          addDebug(`Import response: ${JSON.stringify(data).substring(0, 100)}`)
           if (data.scriptId) {
             importedScriptId = data.scriptId
             addDebug(`Got scriptId: ${importedScriptId}`)
           }
         })
         .catch(err => {
-          console.error('[Import] n8n error:', err)
-          addDebug(`n8n error: ${err.message}`)
+          console.error('[Import] Import error:', err)
+          addDebug(`Import error: ${err.message}`)
+          importError = err.message || 'Failed to import script'
         })
 
       // Poll for the script to be ready
@@ -1226,10 +1308,18 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
           addDebug(`Poll attempt ${attempts}, ${elapsed}s elapsed, scriptId=${importedScriptId || 'waiting'}`)
         }
         
-        // Wait until we have the scriptId from n8n
+        // Parsing failed - stop polling and let the user try again
+        if (importError) {
+          clearInterval(checkInterval)
+          setError(importError)
+          setStep('role')
+          return
+        }
+
+        // Wait until we have the scriptId from the importer
         if (!importedScriptId) {
           if (attempts === 1) {
-            addDebug('Waiting for n8n response with scriptId...')
+            addDebug('Waiting for import response with scriptId...')
           }
           return
         }
@@ -1256,7 +1346,7 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
                 clearInterval(checkInterval)
                 addDebug(`SUCCESS! Script ready: ${script.id}`)
 
-                // If user provided a custom title, override whatever n8n set
+                // If user provided a custom title, override whatever the importer set
                 if (scriptTitle && scriptTitle.trim() && script.title !== scriptTitle.trim()) {
                   const userTitle = scriptTitle.trim()
                   addDebug(`Overriding title: "${script.title}" → "${userTitle}"`)
@@ -1592,10 +1682,35 @@ function ImportModal({ onClose, onSuccess, onStartPractice }: {
                   {extractingPdf ? (
                     <div className="flex items-center justify-center gap-2 py-8 text-text-muted">
                       <Spinner size={20} />
-                      <span>Analyzing PDF...</span>
+                      <span>{pdfStatus || 'Analyzing PDF...'}</span>
                     </div>
                   ) : pdfPreview ? (
                     <>
+                      {/* Scanned pages - show how confident OCR was per page */}
+                      {pdfPreview.ocrPages.length > 0 && (
+                        <div className="p-3 bg-bg-surface rounded-lg border border-border">
+                          <p className="text-text text-xs font-medium mb-2">
+                            {pdfPreview.ocrPages.length === pdfPreview.totalPages ? 'Scanned PDF' : 'Some pages are scanned'} - text was read with OCR
+                          </p>
+                          <div className="flex flex-wrap gap-1.5">
+                            {pdfPreview.ocrPages.map(p => (
+                              <span
+                                key={p.pageNumber}
+                                className={`px-2 py-0.5 rounded text-[11px] font-mono ${
+                                  p.confidence >= LOW_OCR_CONFIDENCE ? 'bg-success/10 text-success' : 'bg-error/10 text-error'
+                                }`}
+                              >
+                                p{p.pageNumber} · {Math.round(p.confidence)}%
+                              </span>
+                            ))}
+                          </div>
+                          {pdfPreview.ocrPages.some(p => p.confidence < LOW_OCR_CONFIDENCE) && (
+                            <p className="text-text-muted text-[11px] mt-2">
+                              Low-confidence pages may have misread words - check those lines after importing.
+                            </p>
+                          )}
+                        </div>
+                      )}
                       {/* Page Selection - Visual Preview */}
                       {selectedFile && (
                         <PDFVisualPreview 
@@ -1901,6 +2016,515 @@ No, she hasn't been in yet."
   )
 }
 
+function SidesBuilderModal({ scripts, onClose, onSuccess }: {
+  scripts: Script[]
+  onClose: () => void
+  onSuccess: (script: Script) => void
+}) {
+  const { user } = useStore()
+  const [picks, setPicks] = useState<SidesPick[]>([])
+  const [expandedScriptId, setExpandedScriptId] = useState<string | null>(null)
+  const [sources, setSources] = useState<Record<string, { scenes: Scene[]; lines: Line[]; characters: Character[] }>>({})
+  const [pdfs, setPdfs] = useState<{ fileName: string; scenes: DetectedScene[] }[]>([])
+  const [loadingSource, setLoadingSource] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+  const [userRole, setUserRole] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const toggleScript = async (script: Script) => {
+    if (expandedScriptId === script.id) {
+      setExpandedScriptId(null)
+      return
+    }
+    setExpandedScriptId(script.id)
+    if (sources[script.id]) return
+
+    setLoadingSource(script.id)
+    try {
+      const headers = await getAuthHeaders()
+      const [scenesRes, linesRes, charsRes] = await Promise.all([
+        fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/scenes?script_id=eq.${script.id}&order=sort_order.asc`, { headers }),
+        fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/lines?script_id=eq.${script.id}&order=sort_order.asc`, { headers }),
+        fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/characters?script_id=eq.${script.id}`, { headers }),
+      ])
+      const source = {
+        scenes: scenesRes.ok ? await scenesRes.json() : [],
+        lines: linesRes.ok ? await linesRes.json() : [],
+        characters: charsRes.ok ? await charsRes.json() : [],
+      }
+      setSources(prev => ({ ...prev, [script.id]: source }))
+    } catch (err) {
+      console.error('[Sides] Error fetching scenes:', err)
+      setError('Could not load scenes for this script')
+    } finally {
+      setLoadingSource(null)
+    }
+  }
+
+  const handlePdfSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setLoadingSource(file.name)
+    setError('')
+    try {
+      const preview = await getPDFPreview(file)
+      if (!preview.fullText.trim()) throw new Error('No readable text in this PDF')
+      setPdfs(prev => [...prev.filter(p => p.fileName !== file.name), { fileName: file.name, scenes: preview.scenes }])
+    } catch (err: any) {
+      console.error('[Sides] Error reading PDF:', err)
+      setError(err.message || 'Could not read this PDF')
+    } finally {
+      setLoadingSource(null)
+    }
+  }
+
+  const addPick = (pick: SidesPick) => {
+    setPicks(prev => [...prev, pick])
+    if (!title && pick.kind === 'script') setTitle(`${pick.script.title} - Sides`)
+  }
+
+  const renamePick = (index: number, name: string) => {
+    setPicks(prev => prev.map((p, i) => i === index ? { ...p, name } : p))
+  }
+
+  // Everyone who speaks in the picked scenes
+  const pickedCharacters = Array.from(new Set(picks.flatMap(pick => pick.kind === 'script'
+    ? pick.lines.filter(l => l.scene_id === pick.scene.id && l.line_type === 'dialogue').map(l => l.character_name)
+    : extractCharactersFromText(pick.scene.fullText)
+  ))).sort()
+
+  const handleCreate = async () => {
+    if (!user?.id || picks.length === 0 || !userRole.trim()) return
+    setSaving(true)
+    setError('')
+    try {
+      const { scriptId } = await api.createSides(picks, {
+        userId: user.id,
+        userRole,
+        title: title.trim() || 'Untitled Sides',
+        scriptType: 'audition',
+        sourceCharacters: Object.values(sources).flatMap(s => s.characters),
+      })
+      const headers = await getAuthHeaders()
+      const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/scripts?id=eq.${scriptId}`, { headers })
+      const [script] = response.ok ? await response.json() : []
+      if (script) onSuccess(script)
+      onClose()
+    } catch (err: any) {
+      console.error('[Sides] Error creating sides:', err)
+      setError(err.message || 'Failed to create sides')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && !saving && onClose()}
+    >
+      <motion.div
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="absolute inset-0 bg-bg flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 py-4 border-b border-border">
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-full flex items-center justify-center hover:bg-overlay-5 transition-colors"
+          >
+            <svg className="w-6 h-6 text-text" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h2 className="text-lg font-medium text-text">Build Sides</h2>
+            <p className="text-text-muted text-sm">Combine scenes from your scripts and PDFs</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {/* Picked scenes, in practice order */}
+          <div>
+            <div className="text-[11px] font-semibold text-text-subtle tracking-widest uppercase mb-3">Your Sides ({picks.length})</div>
+            {picks.length === 0 ? (
+              <p className="text-text-muted text-sm">Add scenes from the sources below.</p>
+            ) : (
+              <div className="space-y-2">
+                {picks.map((pick, i) => (
+                  <div key={i} className="p-3 bg-bg-surface rounded-lg border border-border">
+                    <div className="flex items-center gap-2">
+                      <span className="text-text-subtle text-xs font-mono w-5">{i + 1}.</span>
+                      <input
+                        type="text"
+                        value={pick.name ?? (pick.kind === 'script' ? pick.scene.name : pick.scene.heading)}
+                        onChange={(e) => renamePick(i, e.target.value)}
+                        className="flex-1 min-w-0 px-2 py-1 bg-transparent border border-transparent rounded text-text text-sm focus:outline-none focus:border-accent"
+                      />
+                      <button onClick={() => setPicks(prev => movePick(prev, i, -1))} disabled={i === 0} className="p-1 text-text-muted hover:text-text disabled:opacity-30">↑</button>
+                      <button onClick={() => setPicks(prev => movePick(prev, i, 1))} disabled={i === picks.length - 1} className="p-1 text-text-muted hover:text-text disabled:opacity-30">↓</button>
+                      <button onClick={() => setPicks(prev => prev.filter((_, j) => j !== i))} className="p-1 text-text-subtle hover:text-error">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                    <p className="text-text-subtle text-[11px] mt-1 ml-7">from {describeProvenance(pick)}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Sources */}
+          <div>
+            <div className="text-[11px] font-semibold text-text-subtle tracking-widest uppercase mb-3">Sources</div>
+            <input ref={fileInputRef} type="file" accept=".pdf" onChange={handlePdfSelect} className="hidden" />
+            <Button variant="secondary" className="w-full mb-3" onClick={() => fileInputRef.current?.click()}>
+              Upload PDF sides
+            </Button>
+
+            <div className="space-y-2">
+              {pdfs.map(pdf => (
+                <div key={pdf.fileName} className="p-3 bg-bg-surface rounded-lg border border-border">
+                  <p className="text-text text-sm font-medium truncate mb-2">{pdf.fileName}</p>
+                  {pdf.scenes.map(scene => (
+                    <button
+                      key={scene.id}
+                      onClick={() => addPick({ kind: 'pdf', fileName: pdf.fileName, scene })}
+                      className="w-full flex items-center justify-between px-2 py-1.5 rounded text-left text-sm text-text-muted hover:bg-overlay-5 hover:text-text"
+                    >
+                      <span className="truncate">{scene.heading}</span>
+                      <span className="text-accent text-xs flex-shrink-0 ml-2">+ Add</span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+
+              {scripts.map(script => (
+                <div key={script.id} className="bg-bg-surface rounded-lg border border-border">
+                  <button
+                    onClick={() => toggleScript(script)}
+                    className="w-full flex items-center justify-between p-3 text-left"
+                  >
+                    <span className="text-text text-sm font-medium truncate">{script.title}</span>
+                    <span className="text-text-subtle text-xs">{expandedScriptId === script.id ? 'Hide' : 'Scenes'}</span>
+                  </button>
+                  {expandedScriptId === script.id && (
+                    <div className="px-3 pb-3">
+                      {loadingSource === script.id ? (
+                        <div className="flex justify-center py-3"><Spinner size={18} /></div>
+                      ) : (sources[script.id]?.scenes || []).map(scene => (
+                        <button
+                          key={scene.id}
+                          onClick={() => addPick({ kind: 'script', script, scene, lines: sources[script.id].lines })}
+                          className="w-full flex items-center justify-between px-2 py-1.5 rounded text-left text-sm text-text-muted hover:bg-overlay-5 hover:text-text"
+                        >
+                          <span className="truncate">{scene.scene_number}. {scene.name}</span>
+                          <span className="text-accent text-xs flex-shrink-0 ml-2">+ Add</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {loadingSource && !scripts.some(s => s.id === loadingSource) && (
+                <div className="flex items-center justify-center gap-2 py-3 text-text-muted text-sm">
+                  <Spinner size={18} />
+                  <span>Reading {loadingSource}...</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Details */}
+          <div>
+            <label className="block text-text text-sm mb-2">Title</label>
+            <input
+              type="text"
+              placeholder="e.g. Callback Sides - Amerie"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-4 py-2.5 bg-bg-surface border border-border rounded-lg text-text text-sm focus:outline-none focus:border-accent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-text text-sm mb-2">Your Character</label>
+            {pickedCharacters.length > 0 ? (
+              <select
+                value={userRole}
+                onChange={(e) => setUserRole(e.target.value)}
+                className="w-full px-4 py-3 bg-bg-surface border border-border rounded-lg text-text focus:outline-none focus:border-accent uppercase font-mono tracking-wide appearance-none cursor-pointer"
+              >
+                <option value="">Select your character...</option>
+                {pickedCharacters.map(char => (
+                  <option key={char} value={char}>{char}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                placeholder="e.g. MARCUS"
+                value={userRole}
+                onChange={(e) => setUserRole(e.target.value.toUpperCase())}
+                className="w-full px-4 py-3 bg-bg-surface border border-border rounded-lg text-text focus:outline-none focus:border-accent uppercase font-mono tracking-wide"
+              />
+            )}
+          </div>
+
+          {error && <p className="text-error text-sm">{error}</p>}
+        </div>
+
+        <div className="flex-shrink-0 px-5 pt-4 pb-8 border-t border-border bg-bg flex gap-3">
+          <Button variant="secondary" onClick={onClose} className="flex-1" disabled={saving}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={saving || picks.length === 0 || !userRole.trim()} className="flex-1">
+            {saving ? 'Creating...' : 'Create Sides'}
+          </Button>
+        </div>
+      </motion.div>
+    </motion.div>
+  )
+}
+
+const REVISION_BADGES: Record<Exclude<RevisionChange, 'unchanged'>, { label: string; className: string }> = {
+  revised: { label: 'Revised', className: 'bg-accent/10 text-accent' },
+  added: { label: 'Added', className: 'bg-success/10 text-success' },
+  deleted: { label: 'Deleted', className: 'bg-error/10 text-error' },
+}
+
+function WordDiffText({ words }: { words: WordDiff[] }) {
+  return (
+    <>
+      {words.map((w, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          {w.op === 'equal' ? w.text
+            : w.op === 'insert' ? <span className="bg-success/15 text-success rounded px-0.5">{w.text}</span>
+            : <span className="bg-error/15 text-error line-through rounded px-0.5">{w.text}</span>}
+        </span>
+      ))}
+    </>
+  )
+}
+
+function RevisionModal({ script, onClose, onApplied }: { script: Script; onClose: () => void; onApplied: () => void }) {
+  const { user } = useStore()
+  const [rawText, setRawText] = useState('')
+  const [preview, setPreview] = useState<RevisionPreview | null>(null)
+  const [color, setColor] = useState(nextRevisionColor(script.revision_color))
+  const [skip, setSkip] = useState<number[]>([])
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadRevision = async (source: { file?: File; rawText?: string }) => {
+    setLoading(true)
+    setError('')
+    try {
+      const result = await api.previewRevision(script, source)
+      setPreview(result)
+      setSkip([])
+    } catch (err: any) {
+      console.error('[Revision] Error reading revision:', err)
+      setError(err.message || 'Could not read the revised script')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) loadRevision({ file })
+  }
+
+  const toggleSkip = (index: number) => {
+    setSkip(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index])
+  }
+
+  const handleApply = async () => {
+    if (!preview) return
+    setApplying(true)
+    setError('')
+    try {
+      const plan = await api.applyRevision(preview, {
+        color,
+        skip,
+        editor: user ? { id: user.id, name: user.full_name } : undefined,
+      })
+      useScriptPractice.getState().forgetLines(script.id, [...plan.resetLineIds, ...plan.lines.remove])
+      onApplied()
+    } catch (err: any) {
+      console.error('[Revision] Error applying revision:', err)
+      setError(err.message || 'Failed to apply revision')
+      setApplying(false)
+    }
+  }
+
+  const changes = preview ? preview.diff.entries.map((entry, index) => ({ entry, index })).filter(({ entry }) => entry.change !== 'unchanged') : []
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && !applying && onClose()}
+    >
+      <motion.div
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="absolute inset-0 bg-bg flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 py-4 border-b border-border">
+          <button
+            onClick={preview && !applying ? () => setPreview(null) : onClose}
+            className="w-10 h-10 rounded-full flex items-center justify-center hover:bg-overlay-5 transition-colors"
+          >
+            <svg className="w-6 h-6 text-text" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div className="min-w-0">
+            <h2 className="text-lg font-medium text-text">Import Revision</h2>
+            <p className="text-text-muted text-sm truncate">{script.title}</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-text-muted">
+              <Spinner size={20} />
+              <span>Comparing with your current script...</span>
+            </div>
+          ) : !preview ? (
+            <>
+              <p className="text-text-muted text-sm">
+                Upload the revised pages. Lines that haven&apos;t changed keep their notes and practice progress.
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.txt,.fdx,.fountain"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                className="border-2 border-dashed border-border rounded-xl p-8 text-center cursor-pointer hover:bg-overlay-5 transition-all hover:border-accent"
+              >
+                <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-accent/10 flex items-center justify-center">
+                  <IconUpload size={24} className="text-accent" />
+                </div>
+                <p className="text-text font-medium mb-1">Upload revised script</p>
+                <p className="text-text-muted text-xs">PDF, Final Draft, Fountain or text</p>
+              </div>
+              <textarea
+                value={rawText}
+                onChange={(e) => setRawText(e.target.value)}
+                placeholder="...or paste the revised script here"
+                rows={6}
+                className="w-full px-4 py-3 bg-bg-surface border border-border rounded-lg text-text text-sm font-mono resize-none focus:outline-none focus:border-accent"
+              />
+              <Button variant="secondary" className="w-full" disabled={!rawText.trim()} onClick={() => loadRevision({ rawText })}>
+                Compare Pasted Text
+              </Button>
+            </>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {(['unchanged', 'revised', 'added', 'deleted'] as RevisionChange[]).map(change => (
+                  <div key={change} className="p-2 bg-bg-surface rounded-lg border border-border">
+                    <div className="text-text text-lg font-medium">{preview.diff.counts[change]}</div>
+                    <div className="text-text-subtle text-[10px] uppercase tracking-wide">{change}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Revision colour */}
+              <div>
+                <label className="block text-text text-sm mb-2">Revision colour</label>
+                <div className="flex flex-wrap gap-2">
+                  {REVISION_COLORS.map(c => (
+                    <button
+                      key={c.value}
+                      onClick={() => setColor(c.value)}
+                      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-xs transition-all ${
+                        color === c.value ? 'border-accent text-text' : 'border-border text-text-muted hover:text-text'
+                      }`}
+                    >
+                      <span className="w-3 h-3 rounded-full border border-border" style={{ backgroundColor: c.hex }} />
+                      {c.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Changes for review */}
+              {changes.length === 0 ? (
+                <p className="text-text-muted text-sm py-4 text-center">No changes found - this draft matches your script.</p>
+              ) : (
+                <div className="space-y-2">
+                  {changes.map(({ entry, index }) => {
+                    const line = entry.newLine || entry.oldLine!
+                    const badge = REVISION_BADGES[entry.change as keyof typeof REVISION_BADGES]
+                    const reviewable = entry.change === 'added' || entry.change === 'deleted'
+                    const skipped = skip.includes(index)
+                    return (
+                      <div key={index} className={`p-3 bg-bg-surface rounded-lg border border-border ${skipped ? 'opacity-50' : ''}`}>
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${badge.className}`}>{badge.label}</span>
+                            {line.character_name && <span className="text-text-muted text-xs font-mono">{line.character_name}</span>}
+                          </div>
+                          {reviewable && (
+                            <label className="flex items-center gap-1.5 text-xs text-text-muted cursor-pointer">
+                              <input type="checkbox" checked={!skipped} onChange={() => toggleSkip(index)} className="accent-accent" />
+                              {entry.change === 'added' ? 'Add' : 'Remove'}
+                            </label>
+                          )}
+                        </div>
+                        <p className={`text-sm text-text ${entry.change === 'deleted' ? 'line-through text-text-muted' : ''}`}>
+                          {entry.words ? <WordDiffText words={entry.words} /> : line.content}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-error text-sm">{error}</p>}
+        </div>
+
+        {preview && (
+          <div className="flex-shrink-0 px-5 pt-4 pb-8 border-t border-border bg-bg flex gap-3">
+            <Button variant="secondary" onClick={() => setPreview(null)} className="flex-1" disabled={applying}>Back</Button>
+            <Button onClick={handleApply} disabled={applying || changes.length === 0} className="flex-1">
+              {applying ? 'Applying...' : 'Apply Revision'}
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  )
+}
+
 function VoiceSetupModal({ script, onClose }: { script: Script; onClose: () => void }) {
   const [characters, setCharacters] = useState<Character[]>([])
   const [loading, setLoading] = useState(true)
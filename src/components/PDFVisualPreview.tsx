@@ -4,6 +4,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { getPdfJs } from '@/lib/pdfExtractor'
 
 interface PDFVisualPreviewProps {
   file: File
@@ -46,8 +47,7 @@ export function PDFVisualPreview({
     
     async function init() {
       try {
-        const pdfjs = await import('pdfjs-dist')
-        pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`
+        const pdfjs = await getPdfJs()
         
         const arrayBuffer = await file.arrayBuffer()
         const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise
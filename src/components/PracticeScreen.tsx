@@ -3,12 +3,19 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence, PanInfo } from 'framer-motion'
 import { useStore, useSettings, useScriptPractice } from '@/store'
-import { checkAccuracy, getSubsequenceWordMatch, getWordByWordResults } from '@/lib/accuracy'
+import { AlignmentOp, buildLexiconIndex, checkAccuracy, getAccuracyProfile, getSubsequenceWordMatch, getWordByWordResults, LineRegionKind, listAccuracyProfiles, markLineRegions, parseLineMarkup, resolveLanguage, splitLineRegions, stripLineMarkup, WordResult } from '@/lib/accuracy'
+import { LexiconTerm, lexiconEquivalents, lexiconKeyterms, mergeLexicon, removeLexiconTerm, saveLexiconTerm, seedLexicon } from '@/lib/lexicon'
 import { Card, Button, ProgressBar } from './ui'
 import { IconPlay, IconPause, IconSkipBack, IconSkipForward, IconMic, IconCheck, IconLoop, IconSettings } from './icons'
 import { EditModal, updateLine, updateCharacter, updateScript, deleteLine, addLine } from './EditModal'
-import { supabase, getAuthHeaders } from '@/lib/supabase'
-import { useDeepgram } from '@/hooks/useDeepgram'
+import { supabase, getAuthHeaders, Line } from '@/lib/supabase'
+import { api } from '@/lib/api'
+import type { VerdictSource } from '@/lib/accuracyBatch'
+import { changedSince, revisionColor, withLineRevision } from '@/lib/revision'
+import { createTranscriptRecorder } from '@/lib/transcriptCorpus'
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition'
+import { createSttHealth, hasFailedOver, reportSttFailure, reportSttSuccess, SILENT_SPEECH_MS, STT_ENGINE_LABELS, SttEngine, SttFailure } from '@/lib/sttFailover'
+import { DEFAULT_VOICE, NARRATOR_VOICE } from '@/lib/tts'
 import { triggerAchievementCheck } from '@/hooks/useAchievements'
 
 import { audioManager, playTone as audioPlayTone } from '@/lib/audioManager'
@@ -146,6 +153,33 @@ const transformText = (text: string, mode: 'full' | 'first-letter' | 'blurred' |
   return text
 }
 
+// Ad-libs, optional words and overlap cues set apart from the line as written (see splitLineRegions)
+const REGION_STYLES: Record<LineRegionKind, string> = {
+  adlib: 'italic',
+  optional: 'opacity-60',
+  overlap: 'underline decoration-dashed decoration-text-muted/60 underline-offset-4',
+}
+const REGION_LABELS: Record<LineRegionKind, string> = {
+  adlib: 'Ad-lib',
+  optional: 'Optional',
+  overlap: 'Overlap',
+}
+
+// The line with its regions marked up - what's scored, shown and edited
+const lineMarkup = (line: Line) => markLineRegions(line.content, line.regions)
+
+function LineText({ text }: { text: string }) {
+  return (
+    <>
+      {splitLineRegions(text).map((part, i) => {
+        if (!part.kind) return part.text
+        if (!part.text.trim()) return <span key={i} className="text-text-muted/50 italic text-xs mx-1">(ad lib)</span>
+        return <span key={i} className={REGION_STYLES[part.kind]} title={REGION_LABELS[part.kind]}>{part.text}</span>
+      })}
+    </>
+  )
+}
+
 type Status = 'idle' | 'ai' | 'narrator' | 'connecting' | 'listening' | 'checking' | 'correct' | 'wrong' | 'segment' | 'user-listen'
 type LearningMode = 'listen' | 'repeat' | 'practice'
 type InlineAddType = 'dialogue' | 'action' | 'transition' | 'narration'
@@ -321,6 +355,8 @@ export function PracticeScreen() {
   const [showSettings, setShowSettings] = useState(false)
   const [showSummary, setShowSummary] = useState(false)
   const [showNotes, setShowNotes] = useState(true) // Toggle for showing/hiding line notes
+  const [changedOnly, setChangedOnly] = useState(false) // Drill only lines changed since the last session
+  const [lastSessionAt, setLastSessionAt] = useState<string | null>(null)
   const [stats, setStats] = useState({ correct: 0, wrong: 0, completed: new Set<string>() })
   const [editModal, setEditModal] = useState<{ type: 'line' | 'character' | 'script'; data: any; mode?: 'edit' | 'add' } | null>(null)
   const [micReady, setMicReady] = useState(false)
@@ -328,6 +364,8 @@ export function PracticeScreen() {
   const [learningMode, setLearningMode] = useState<LearningMode>('listen') // Default to Listen mode (first in progression)
   const [includeDirections, setIncludeDirections] = useState(true)
   const [directionsMode, setDirectionsMode] = useState<'spoken' | 'shown' | 'muted'>('spoken')
+  const [accuracyProfileId, setAccuracyProfileId] = useState<string | undefined>(undefined) // Unset = global default
+  const [lexiconEdits, setLexiconEdits] = useState<LexiconTerm[]>([]) // Actor's changes to the seeded lexicon
   const [currentSegmentIndex, setCurrentSegmentIndex] = useState(0)
   const [segments, setSegments] = useState<string[]>([])
   const [segmentPhase, setSegmentPhase] = useState<'listen' | 'repeat' | 'complete'>('listen')
@@ -337,7 +375,7 @@ export function PracticeScreen() {
   const [hasError, setHasError] = useState(false)
   const [errorPopup, setErrorPopup] = useState<string | null>(null) // Shows what user got wrong
   const [animatedWordIndex, setAnimatedWordIndex] = useState(0) // Words lit up while speaking (gray→white)
-  const [wordResults, setWordResults] = useState<Array<'correct' | 'wrong' | 'missing'>>([]) // Per-word results after evaluation
+  const [wordResults, setWordResults] = useState<WordResult[]>([]) // Per-word results after evaluation
   // Build mode progress tracking
   const [buildProgress, setBuildProgress] = useState(0) // How many segments mastered (for underline)
   const [lastCheckpoint, setLastCheckpoint] = useState(0) // Last saved checkpoint segment index
@@ -422,20 +460,73 @@ export function PracticeScreen() {
   const characterNameSet = useMemo(() => {
     const names = new Set<string>()
     characters.forEach(c => {
-      const parts = c.name.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/)
+      const parts = c.name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').split(/\s+/)
       parts.forEach(p => { if (p.length >= 2) names.add(p) })
     })
     return names
   }, [characters])
 
-  // Deepgram Nova-3 streaming STT with subsequence matching for real-time feedback
+  // Accuracy profile for this script - drives live matching and the final check
+  const accuracyProfile = useMemo(
+    () => getAccuracyProfile(accuracyProfileId || settings.accuracyProfileId, settings.accuracyProfiles),
+    [accuracyProfileId, settings.accuracyProfileId, settings.accuracyProfiles]
+  )
+  const accuracyProfileRef = useRef(accuracyProfile)
+  useEffect(() => { accuracyProfileRef.current = accuracyProfile }, [accuracyProfile])
 
-  const stt = useDeepgram({
+  // Names and jargon for this script - accepted variants, keyword boosts for STT
+  const lexicon = useMemo(
+    () => mergeLexicon(seedLexicon(lines, characters), lexiconEdits),
+    [lines, characters, lexiconEdits]
+  )
+  const lexiconIndex = useMemo(() => buildLexiconIndex(lexiconEquivalents(lexicon)), [lexicon])
+  const keyterms = useMemo(() => lexiconKeyterms(lexicon), [lexicon])
+  const lexiconRef = useRef(lexicon)
+  const lexiconIndexRef = useRef(lexiconIndex)
+  useEffect(() => { lexiconRef.current = lexicon }, [lexicon])
+  useEffect(() => { lexiconIndexRef.current = lexiconIndex }, [lexiconIndex])
+
+  // Language the lines are matched in (fillers, equivalents, word breaks)
+  const scriptLanguage = resolveLanguage(currentScript?.language, currentScript?.accent_hint)
+  const scriptLanguageRef = useRef(scriptLanguage)
+  useEffect(() => { scriptLanguageRef.current = scriptLanguage }, [scriptLanguage])
+
+  // What speech recognition heard for each finished line, when the actor opts in (Profile > Matching)
+  const transcriptRecorderRef = useRef(createTranscriptRecorder(settings.sttProvider))
+
+  // Which engine is listening - the provider from settings until it fails, then the next
+  // in the failover chain, ending with the actor grading themselves
+  const [sttHealth, setSttHealth] = useState(() => createSttHealth(settings.sttProvider))
+  const sttHealthRef = useRef(sttHealth)
+  useEffect(() => { setSttHealth(sttHealthRef.current = createSttHealth(settings.sttProvider)) }, [settings.sttProvider])
+  const selfGrading = sttHealth.active === 'self-grade'
+
+  const failSttEngine = (engine: SttEngine, reason: SttFailure) => {
+    const next = reportSttFailure(sttHealthRef.current, engine, reason)
+    if (next === sttHealthRef.current) return
+    if (next.active !== engine) console.warn(`[STT] ${engine} failed (${reason}) - switching to ${next.active}`)
+    setSttHealth(sttHealthRef.current = next)
+  }
+  const markSttWorking = (engine: SttEngine) => {
+    lineHealthRef.current.settled = true
+    const next = reportSttSuccess(sttHealthRef.current, engine)
+    if (next !== sttHealthRef.current) setSttHealth(sttHealthRef.current = next)
+  }
+
+  // Speech the mic heard during the current line, until a transcript shows the engine is working
+  const lineHealthRef = useRef({ speechMs: 0, lastLevelAt: 0, settled: false })
+
+  // Streaming STT (Deepgram Nova-3 unless changed in settings) with subsequence matching for real-time feedback
+
+  const stt = useSpeechRecognition(sttHealth.active === 'self-grade' ? settings.sttProvider : sttHealth.active, {
+    language: scriptLanguage,
     onPartialTranscript: (data) => {
       if (!listeningRef.current) return
       if (!data.text.trim()) return
       // Reject stale results during settling period
       if (Date.now() - listenSessionRef.current < 500) return
+      transcriptRecorderRef.current.record('interim', data.text)
+      markSttWorking(stt.id)
 
       // Track cue pickup speed: first speech after AI finished
       const isFirstSpeech = !transcriptRef.current.trim() && !deepgramFinalTextRef.current.trim()
@@ -458,7 +549,7 @@ export function PracticeScreen() {
       lastSpeechRef.current = Date.now()
 
       // Subsequence match for green word highlighting (allows gaps)
-      const result = getSubsequenceWordMatch(expectedLineRef.current, fullText, characterNameSet)
+      const result = getSubsequenceWordMatch(expectedLineRef.current, fullText, characterNameSet, accuracyProfileRef.current, lexiconIndexRef.current, scriptLanguageRef.current)
       matchedIndicesRef.current = result.matchedIndices
       setMatchedWordCount(result.matchedCount)
 
@@ -474,6 +565,8 @@ export function PracticeScreen() {
       if (!listeningRef.current) return
       if (!data.text.trim()) return
       if (Date.now() - listenSessionRef.current < 500) return
+      transcriptRecorderRef.current.record('final', data.text)
+      markSttWorking(stt.id)
 
       // Accumulate final transcripts
       deepgramFinalTextRef.current = deepgramFinalTextRef.current
@@ -484,7 +577,7 @@ export function PracticeScreen() {
       lastSpeechRef.current = Date.now()
 
       // Update subsequence match with finals
-      const result = getSubsequenceWordMatch(expectedLineRef.current, deepgramFinalTextRef.current, characterNameSet)
+      const result = getSubsequenceWordMatch(expectedLineRef.current, deepgramFinalTextRef.current, characterNameSet, accuracyProfileRef.current, lexiconIndexRef.current, scriptLanguageRef.current)
       matchedIndicesRef.current = result.matchedIndices
       setMatchedWordCount(result.matchedCount)
 
@@ -495,15 +588,16 @@ export function PracticeScreen() {
       }
     },
     onSessionStarted: () => {
-      console.log('[STT] Deepgram session started')
+      console.log(`[STT] ${stt.id} session started`)
       setMicReady(true)
       if (!listeningRef.current) setStatus('idle')
     },
     onError: (error) => {
-      console.error('[STT] Deepgram error:', error)
+      console.error(`[STT] ${stt.id} error:`, error)
+      failSttEngine(stt.id, 'error')
     },
     onDisconnect: () => {
-      console.log('[STT] Deepgram disconnected')
+      console.log(`[STT] ${stt.id} disconnected`)
       setMicReady(false)
       if (isPlayingRef.current && reconnectRef.current) {
         console.log('[STT] Reconnecting due to unexpected disconnect...')
@@ -516,6 +610,18 @@ export function PracticeScreen() {
     },
     onAudioLevel: (level) => {
       setAudioLevel(level)
+
+      // Speech on the mic that never comes back as a transcript - the engine has gone quiet
+      const health = lineHealthRef.current
+      const now = Date.now()
+      if (listeningRef.current && !health.settled && level > 0.2) {
+        health.speechMs += Math.min(500, now - health.lastLevelAt)
+        if (health.speechMs > SILENT_SPEECH_MS) {
+          health.settled = true // Once per line
+          failSttEngine(stt.id, 'silent')
+        }
+      }
+      health.lastLevelAt = now
     },
   })
   
@@ -530,12 +636,13 @@ export function PracticeScreen() {
   useEffect(() => {
     reconnectRef.current = async () => {
       console.log('[STT] Attempting reconnect...')
-      const success = await stt.startSession()
+      const success = await stt.reconnect()
       if (success) {
         console.log('[STT] Reconnected successfully')
         setMicReady(true)
       } else {
         console.error('[STT] Failed to reconnect')
+        failSttEngine(stt.id, 'disconnect')
       }
     }
   }, [stt])
@@ -544,6 +651,10 @@ export function PracticeScreen() {
   useEffect(() => {
     if (!scriptId || !savedState) return
     
+    // Remember when the last session was, before this one starts updating it
+    setLastSessionAt(savedState.lastPracticedAt)
+    setChangedOnly(false)
+
     // Restore position
     setCurrentSceneIndex(savedState.sceneIndex)
     setCurrentLineIndex(savedState.lineIndex)
@@ -557,6 +668,8 @@ export function PracticeScreen() {
     setLoop(savedState.loop)
     setIncludeDirections(savedState.includeDirections)
     setDirectionsMode(savedState.directionsMode)
+    setAccuracyProfileId(savedState.accuracyProfileId)
+    setLexiconEdits(savedState.lexicon || [])
     
     // Restore progress
     setStats({
@@ -602,10 +715,12 @@ export function PracticeScreen() {
       loop,
       includeDirections,
       directionsMode,
+      accuracyProfileId,
+      lexicon: lexiconEdits,
       playbackSpeed: settings.playbackSpeed,
       textVisibility: settings.textVisibility
     })
-  }, [scriptId, loop, includeDirections, directionsMode, settings.playbackSpeed, settings.textVisibility])
+  }, [scriptId, loop, includeDirections, directionsMode, accuracyProfileId, lexiconEdits, settings.playbackSpeed, settings.textVisibility])
   
   // Auto-scroll to current line when it changes
   useEffect(() => {
@@ -633,7 +748,11 @@ export function PracticeScreen() {
     ? lines.filter(l => l.scene_id === currentSceneData.id).sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0))
     : []
   
-  const playableLines = includeDirections ? sceneLines : sceneLines.filter(l => l.line_type === 'dialogue')
+  const visibleLines = includeDirections ? sceneLines : sceneLines.filter(l => l.line_type === 'dialogue')
+  const playableLines = changedOnly ? visibleLines.filter(l => changedSince(l, lastSessionAt)) : visibleLines
+  // The drill steps through this scene - other scenes' changes are counted so they aren't missed
+  const sceneChangedCount = visibleLines.filter(l => changedSince(l, lastSessionAt)).length
+  const scriptChangedCount = lines.filter(l => l.script_id === currentScript?.id && changedSince(l, lastSessionAt)).length
   const currentLine = playableLines[currentLineIndex]
   const userLines = playableLines.filter(l => l.is_user_line)
   const completedUserLines = userLines.filter(l => stats.completed.has(l.id))
@@ -674,6 +793,14 @@ export function PracticeScreen() {
       connectMic() 
     }
   }, [isPlaying, micReady, learningMode])
+
+  // The next engine after a failover connects straight away
+  useEffect(() => {
+    if (isPlayingRef.current && learningMode !== 'listen' && hasFailedOver(sttHealth)) {
+      setMicReady(false)
+      connectMic()
+    }
+  }, [sttHealth.active])
   
   // CRITICAL: Pause audio sending when not actively listening
   // This keeps the connection warm but stops billing
@@ -749,18 +876,22 @@ export function PracticeScreen() {
   const isStaleMount = (nonce: number) => nonce !== mountNonceRef.current
 
   const connectMic = async (retryCount = 0) => {
+    // Self-grading has no mic session - lines go straight to the grade buttons
+    if (sttHealthRef.current.active === 'self-grade') {
+      setMicReady(true)
+      return
+    }
     setStatus('connecting')
     try {
-      console.log('[STT] Starting Deepgram session (audio paused until listening)...')
+      console.log(`[STT] Starting ${stt.id} session (audio paused until listening)...`)
 
-      // Build keyterms from character names for Deepgram keyword boosting
-      const keyterms = Array.from(characterNameSet)
+      // Keyterms from the script lexicon (names and jargon) for keyword boosting
       const success = await stt.startSession(keyterms)
       if (!success) {
-        throw new Error('Failed to connect to Deepgram')
+        throw new Error(`Failed to connect to ${stt.id}`)
       }
 
-      console.log('[STT] Deepgram session connected (audio paused)')
+      console.log(`[STT] ${stt.id} session connected (audio paused)`)
 
     } catch (e) {
       console.error('[STT] Failed to connect:', e)
@@ -770,8 +901,9 @@ export function PracticeScreen() {
         await new Promise(r => setTimeout(r, 1000 * (retryCount + 1)))
         return connectMic(retryCount + 1)
       }
-      // After retries, keep playing but without mic — partner lines still work
+      // After retries, move to the next engine - partner lines keep playing meanwhile
       console.error('[STT] Mic connection failed after retries. Partner lines will still play.')
+      failSttEngine(stt.id, 'connect')
       setStatus('idle')
     }
   }
@@ -1085,7 +1217,7 @@ export function PracticeScreen() {
     return segments.filter(s => s.trim().length > 0)
   }
 
-  // Play segment audio via live TTS (Google Chirp 3 HD - direct API call)
+  // Play segment audio via live TTS (Google Chirp 3 HD through /api/tts)
   const playSegmentLiveTTS = async (segmentText: string, voiceName?: string): Promise<void> => {
     // Validate input first
     if (!segmentText || segmentText.trim().length === 0) {
@@ -1100,48 +1232,14 @@ export function PracticeScreen() {
     try {
       // Get the character's voice for this line
       const charVoice = characters.find(c => c.name === currentLine?.character_name)
-      const voice = voiceName || charVoice?.voice_id || 'en-AU-Chirp3-HD-Aoede'
-      
-      // Extract language code from voice name (e.g., "en-AU-Chirp3-HD-Aoede" -> "en-AU")
-      const languageCode = voice.split('-').slice(0, 2).join('-')
-      
-      console.log('[TTS] Using voice:', voice, 'languageCode:', languageCode)
-      console.log('[TTS] API Key present:', !!process.env.NEXT_PUBLIC_GOOGLE_API_KEY)
-      
-      // Call Google TTS API directly
-      const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${process.env.NEXT_PUBLIC_GOOGLE_API_KEY}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input: { text: segmentText },
-          voice: { languageCode, name: voice },
-          audioConfig: { audioEncoding: 'MP3', speakingRate: 1.0, pitch: 0 }
-        })
-      })
+      const voice = voiceName || charVoice?.voice_id || DEFAULT_VOICE
       
-      console.log('[TTS] Response status:', response.status)
+      console.log('[TTS] Using voice:', voice)
       
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.warn('Google TTS failed, status:', response.status, 'error:', errorText)
-        return
-      }
-      
-      const data = await response.json()
-      if (!data.audioContent) {
-        console.warn('No audio content in Google TTS response')
-        return
-      }
-      
-      console.log('[TTS] Got audio content, length:', data.audioContent.length)
+      const audioBlob = await api.synthesizeSpeech(segmentText, { voice })
+
+      console.log('[TTS] Got audio, size:', audioBlob.size)
       
-      // Convert base64 to blob
-      const audioBytes = atob(data.audioContent)
-      const audioArray = new Uint8Array(audioBytes.length)
-      for (let i = 0; i < audioBytes.length; i++) {
-        audioArray[i] = audioBytes.charCodeAt(i)
-      }
-      const audioBlob = new Blob([audioArray], { type: 'audio/mpeg' })
       const audioUrl = URL.createObjectURL(audioBlob)
       
       console.log('[TTS] Playing audio...')
@@ -1285,30 +1383,7 @@ export function PracticeScreen() {
     // Fall back to live TTS
     try {
       // Use the character's assigned voice, or fall back to a default
-      const voice = voiceId || 'en-AU-Chirp3-HD-Aoede'
-      const languageCode = voice.split('-').slice(0, 2).join('-')
-      
-      const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${process.env.NEXT_PUBLIC_GOOGLE_API_KEY}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input: { text: characterName },
-          voice: { languageCode, name: voice },
-          audioConfig: { audioEncoding: 'MP3', speakingRate: 1.1, pitch: 0 }
-        })
-      })
-      
-      if (!response.ok) return
-      
-      const data = await response.json()
-      if (!data.audioContent) return
-      
-      const audioBytes = atob(data.audioContent)
-      const audioArray = new Uint8Array(audioBytes.length)
-      for (let i = 0; i < audioBytes.length; i++) {
-        audioArray[i] = audioBytes.charCodeAt(i)
-      }
-      const audioBlob = new Blob([audioArray], { type: 'audio/mpeg' })
+      const audioBlob = await api.synthesizeSpeech(characterName, { voice: voiceId || DEFAULT_VOICE, rate: 1.1 })
       const audioUrl = URL.createObjectURL(audioBlob)
       
       if (audioRef.current) {
@@ -1346,30 +1421,8 @@ export function PracticeScreen() {
     
     // Fall back to live TTS with narrator voice
     try {
-      const voice = 'en-AU-Chirp3-HD-Rasalgethi' // Male narrator voice
-      const languageCode = 'en-AU'
-      
-      const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${process.env.NEXT_PUBLIC_GOOGLE_API_KEY}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          input: { text: parenthetical },
-          voice: { languageCode, name: voice },
-          audioConfig: { audioEncoding: 'MP3', speakingRate: 1.0, pitch: -2 } // Slightly lower pitch for narrator
-        })
-      })
-      
-      if (!response.ok) return
-      
-      const data = await response.json()
-      if (!data.audioContent) return
-      
-      const audioBytes = atob(data.audioContent)
-      const audioArray = new Uint8Array(audioBytes.length)
-      for (let i = 0; i < audioBytes.length; i++) {
-        audioArray[i] = audioBytes.charCodeAt(i)
-      }
-      const audioBlob = new Blob([audioArray], { type: 'audio/mpeg' })
+      // Male narrator voice, slightly lower pitch
+      const audioBlob = await api.synthesizeSpeech(parenthetical, { voice: NARRATOR_VOICE, pitch: -2 })
       const audioUrl = URL.createObjectURL(audioBlob)
       
       if (audioRef.current) {
@@ -1829,6 +1882,35 @@ export function PracticeScreen() {
     }
   }
 
+  // Tell the recognizer the line that's coming (the offline model listens for its words,
+  // OpenAI is prompted with it; unchanged keyterms don't reconnect Deepgram)
+  // and record its transcripts. Only takes that reach finishListening are kept -
+  // a new line drops an unfinished one
+  const startLineRecognition = (expectedText: string) => {
+    lineHealthRef.current = { speechMs: 0, lastLevelAt: Date.now(), settled: false }
+    stt.updateKeyterms(keyterms, { expectedLine: expectedText, lexicon })
+    if (!settings.recordTranscripts) return
+    transcriptRecorderRef.current.startLine(expectedText, {
+      provider: stt.id,
+      lineId: currentLine?.id,
+      profileId: accuracyProfileRef.current.id,
+      language: scriptLanguageRef.current,
+    })
+  }
+
+  // Start sending audio for a line - reconnecting first if the connection died.
+  // 'failed' hands the line back to the play loop, on the next engine if this one is done;
+  // 'self-grade' means no engine is left and the actor taps how the line went
+  const startSttForLine = async (): Promise<'listening' | 'self-grade' | 'failed'> => {
+    if (sttHealthRef.current.active === 'self-grade') return 'self-grade'
+    if (stt.startListening()) return 'listening'
+    console.log('[STT] Connection lost, reconnecting...')
+    if (await stt.startSession(keyterms) && stt.startListening()) return 'listening'
+    console.error('[STT] Failed to start listening after reconnect')
+    failSttEngine(stt.id, 'connect')
+    return 'failed'
+  }
+
   // Start listening with silence timeout for build mode
   const startListeningForBuild = async (expectedText: string) => {
     // Increment session nonce to invalidate any pending transcripts from previous session
@@ -1836,7 +1918,8 @@ export function PracticeScreen() {
     transcriptRef.current = ''
     deepgramFinalTextRef.current = ''
     matchedIndicesRef.current = new Set()
-    expectedLineRef.current = expectedText
+    expectedLineRef.current = markLineRegions(expectedText) // Built from the words alone - nothing in them is markup
+    startLineRecognition(expectedLineRef.current)
     setTranscript('')
     setMissingWords([])
     setWrongWords([])
@@ -1853,18 +1936,16 @@ export function PracticeScreen() {
     setStatus('connecting')
 
     // Start sending audio — if connection died, reconnect first
-    let started = stt.startListening()
-    if (!started) {
-      console.log('[STT] Connection lost, reconnecting...')
-      await stt.startSession(Array.from(characterNameSet))
-      started = stt.startListening()
-      if (!started) {
-        console.error('[STT] Failed to start listening after reconnect')
-        setStatus('idle')
-        listeningRef.current = false
-        busyRef.current = false
-        return
-      }
+    const mic = await startSttForLine()
+    if (mic === 'failed') {
+      setStatus('idle')
+      listeningRef.current = false
+      busyRef.current = false
+      return
+    }
+    if (mic === 'self-grade') {
+      setStatus('listening')
+      return
     }
 
     // NOW audio is flowing — safe to show "listening"
@@ -1953,7 +2034,8 @@ export function PracticeScreen() {
     transcriptRef.current = '';
     deepgramFinalTextRef.current = '';
     matchedIndicesRef.current = new Set();
-    expectedLineRef.current = stripParentheticals(currentLine?.content || '');
+    expectedLineRef.current = currentLine ? stripParentheticals(lineMarkup(currentLine)) : '';
+    startLineRecognition(expectedLineRef.current)
     setTranscript('');
     setMissingWords([]);
     setWrongWords([]);
@@ -1969,18 +2051,16 @@ export function PracticeScreen() {
     setStatus('connecting');
 
     // Start sending audio — if connection died, reconnect first
-    let started = stt.startListening()
-    if (!started) {
-      console.log('[STT] Connection lost, reconnecting...')
-      await stt.startSession(Array.from(characterNameSet))
-      started = stt.startListening()
-      if (!started) {
-        console.error('[STT] Failed to start listening after reconnect')
-        setStatus('idle')
-        listeningRef.current = false
-        busyRef.current = false
-        return
-      }
+    const mic = await startSttForLine()
+    if (mic === 'failed') {
+      setStatus('idle')
+      listeningRef.current = false
+      busyRef.current = false
+      return
+    }
+    if (mic === 'self-grade') {
+      setStatus('listening')
+      return
     }
 
     // NOW audio is flowing — safe to show "listening" and start the clock
@@ -2029,7 +2109,8 @@ export function PracticeScreen() {
     transcriptRef.current = '';
     deepgramFinalTextRef.current = '';
     matchedIndicesRef.current = new Set();
-    expectedLineRef.current = segment;
+    expectedLineRef.current = markLineRegions(segment);
+    startLineRecognition(expectedLineRef.current)
     setTranscript('');
     setMissingWords([]);
     setWrongWords([]);
@@ -2046,18 +2127,16 @@ export function PracticeScreen() {
     // Start recording audio for Whisper judgment
     stt.startRecording()
     // Start sending audio — if connection died, reconnect first
-    let started = stt.startListening()
-    if (!started) {
-      console.log('[STT] Connection lost, reconnecting...')
-      await stt.startSession(Array.from(characterNameSet))
-      started = stt.startListening()
-      if (!started) {
-        console.error('[STT] Failed to start listening after reconnect')
-        setStatus('idle')
-        listeningRef.current = false
-        busyRef.current = false
-        return
-      }
+    const mic = await startSttForLine()
+    if (mic === 'failed') {
+      setStatus('idle')
+      listeningRef.current = false
+      busyRef.current = false
+      return
+    }
+    if (mic === 'self-grade') {
+      setStatus('listening')
+      return
     }
 
     // Silence timer - coverage-aware (same as practice mode)
@@ -2088,6 +2167,7 @@ export function PracticeScreen() {
     if (!listeningRef.current) return
     listeningRef.current = false
     setShowWaitingNudge(false)
+    transcriptRecorderRef.current.endLine()
 
     // CRITICAL: Stop sending audio to STT immediately (billing stops)
     stt.pauseListening()
@@ -2095,6 +2175,7 @@ export function PracticeScreen() {
     if (silenceTimerRef.current) clearInterval(silenceTimerRef.current)
 
     const deepgramSpoken = transcriptRef.current.trim()
+    const engine = sttHealthRef.current.active
 
     // Stop recording and get audio blob
     const blob = await stt.stopRecording()
@@ -2107,17 +2188,24 @@ export function PracticeScreen() {
 
     // Azure PA is the primary accuracy authority — runs on every line with audio
     let spoken = deepgramSpoken
-    let azurePAResult: { isCorrect: boolean; accuracy: number; missingWords: string[]; extraWords: string[]; wrongWords: string[]; wordResults: Array<'correct' | 'wrong' | 'missing'> } | null = null
-    const isStrictCheck = isRunThroughRef.current ? true : settings.strictMode
+    let azurePAResult: { isCorrect: boolean; accuracy: number; missingWords: string[]; extraWords: string[]; wrongWords: string[]; paraphrasedWords: string[]; alignment: AlignmentOp[]; wordResults: WordResult[] } | null = null
+    // Run-throughs are an off-book check unless the script's profile is already word perfect
+    const checkProfile = isRunThroughRef.current && accuracyProfile.wordTolerance > 0
+      ? getAccuracyProfile('off-book', settings.accuracyProfiles)
+      : accuracyProfile
 
     // Show "checking" state immediately so user knows mic is off and we're processing
     setStatus('checking')
 
-    if (expectedLineRef.current && blob && blob.size > 1024) {
+    // Offline recognition keeps the take on the device, and a self-graded take is the actor's call.
+    // Pronunciation assessment is set up for English only.
+    const canAssess = stt.id !== 'offline' && navigator.onLine && engine !== 'self-grade'
+    const canAssessPronunciation = canAssess && scriptLanguageRef.current === 'en'
+    if (expectedLineRef.current && blob && blob.size > 1024 && canAssessPronunciation) {
       try {
         const formData = new FormData()
         formData.append('audio', blob, 'audio.webm')
-        formData.append('referenceText', expectedLineRef.current)
+        formData.append('referenceText', stripLineMarkup(expectedLineRef.current))
         const resp = await fetch('/api/pronunciation-assess', { method: 'POST', body: formData })
         if (resp.ok) {
           const data = await resp.json()
@@ -2137,20 +2225,36 @@ export function PracticeScreen() {
             const azureWords: Array<{ word: string; errorType: string; accuracyScore: number }> = data.words
             const missingWords: string[] = []
             const wrongWords: string[] = []
-            const wordResults: Array<'correct' | 'wrong' | 'missing'> = []
+            const wordResults: WordResult[] = []
+            const alignment: AlignmentOp[] = []
+            let expectedPos = 0
+            let spokenPos = 0
+            const align = (type: AlignmentOp['type'], word: string, inExpected: boolean, inSpoken: boolean) => {
+              alignment.push({
+                type,
+                expected: { start: expectedPos, end: expectedPos + (inExpected ? 1 : 0), text: inExpected ? word : '' },
+                spoken: { start: spokenPos, end: spokenPos + (inSpoken ? 1 : 0), text: inSpoken ? word : '' },
+              })
+              if (inExpected) expectedPos++
+              if (inSpoken) spokenPos++
+            }
 
             for (const w of azureWords) {
               if (w.errorType === 'None') {
                 wordResults.push('correct')
+                align('match', w.word, true, true)
               } else if (w.errorType === 'Omission') {
                 wordResults.push('missing')
                 missingWords.push(w.word)
+                align('delete', w.word, true, false)
               } else if (w.errorType === 'Insertion') {
                 // Insertions are extra words the user said — skip from word results
+                align('insert', w.word, false, true)
               } else {
                 // Mispronunciation or other error
                 wordResults.push('wrong')
                 wrongWords.push(`"${w.word}"`)
+                align('substitute', w.word, true, true)
               }
             }
 
@@ -2161,7 +2265,7 @@ export function PracticeScreen() {
             // If Azure returned null scores (webm format limitation), fall back to word-level verdicts
             // All words recognized correctly (no wrong/missing) = correct
             const scoresAvailable = pronScore !== null
-            const minScore = isStrictCheck ? 85 : 70
+            const minScore = checkProfile.wordTolerance === 0 ? 85 : 70
             const isCorrect = scoresAvailable
               ? (pronScore >= minScore && wrongWords.length === 0)
               : (wrongWords.length === 0 && missingWords.length === 0)
@@ -2177,13 +2281,15 @@ export function PracticeScreen() {
               missingWords,
               extraWords: [],
               wrongWords,
+              paraphrasedWords: [],
+              alignment,
               wordResults,
             }
 
             console.log('[Azure PA] verdict:', isCorrect ? 'CORRECT' : 'WRONG', 'pronScore:', pronScore, 'accuracy:', overallAccuracy, 'completeness:', completeness)
 
             setAzureDebug({
-              referenceText: expectedLineRef.current,
+              referenceText: stripLineMarkup(expectedLineRef.current),
               displayText: data.displayText || '',
               words: azureWords,
               overall: { accuracyScore: overallAccuracy ?? 0, fluencyScore: data.overall?.fluencyScore ?? 0, completenessScore: completeness ?? 0, pronScore: pronScore ?? 0 },
@@ -2199,6 +2305,29 @@ export function PracticeScreen() {
       setAzureDebug(null)
     }
 
+    // No Azure verdict - re-read the take with Whisper, prompted with the line and the script's
+    // names and jargon, which streaming recognition tends to mangle
+    if (!azurePAResult && expectedLineRef.current && blob && blob.size > 1024 && canAssess) {
+      isCheckingWhisperRef.current = true
+      try {
+        const whisperSpoken = (await api.transcribeWithWhisper(blob, {
+          expectedText: stripLineMarkup(expectedLineRef.current),
+          lexicon: lexiconRef.current,
+          language: scriptLanguageRef.current,
+        })).trim()
+        console.log('[Whisper] transcript:', JSON.stringify(whisperSpoken), 'streaming:', JSON.stringify(deepgramSpoken))
+        if (whisperSpoken) {
+          spoken = whisperSpoken
+          setTranscript(spoken)
+          transcriptRef.current = spoken
+        }
+      } catch (e) {
+        console.warn('[Whisper] Failed, keeping the streaming transcript:', e)
+      } finally {
+        isCheckingWhisperRef.current = false
+      }
+    }
+
     // Calculate pacing comparison
     const userDuration = speechStartTimeRef.current > 0 ? Date.now() - speechStartTimeRef.current : 0
     const targetDuration = targetDurationRef.current
@@ -2213,6 +2342,18 @@ export function PracticeScreen() {
     const segs = segmentsRef.current
     const segIdx = currentSegmentIndexRef.current
 
+    // Save a self-graded take with the actor's verdict - selfGrade leaves the line as written for
+    // "Got it" and nothing for "Missed it", so there's nothing for the server to rescore
+    if (user && currentLine && engine === 'self-grade') {
+      api.checkAccuracy([{ lineId: currentLine.id, expected: expectedLineRef.current, spoken, selfGraded: spoken !== '' }], {
+        scriptId: currentLine.script_id,
+        sttProvider: engine,
+        profile: checkProfile,
+        language: scriptLanguageRef.current,
+        persist: true,
+      }).catch(err => console.warn('[finishListening] Self-graded attempt not saved:', err))
+    }
+
     console.log('[finishListening] spoken:', JSON.stringify(spoken), 'expected:', JSON.stringify(expectedLineRef.current), 'deepgramFinal:', JSON.stringify(deepgramFinalTextRef.current), 'segIdx:', segIdx, 'segs.length:', segs.length)
     
     if (!spoken || !currentLine) {
@@ -2221,7 +2362,7 @@ export function PracticeScreen() {
 
       // Get word-by-word results even for empty transcript (all words will be "missing")
       if (expectedLineRef.current) {
-        const wordByWord = getWordByWordResults(expectedLineRef.current, spoken || '', characterNameSet)
+        const wordByWord = getWordByWordResults(expectedLineRef.current, spoken || '', characterNameSet, checkProfile, lexiconIndexRef.current, scriptLanguageRef.current)
         setWordResults(wordByWord.results)
       }
 
@@ -2233,7 +2374,7 @@ export function PracticeScreen() {
           if (segmentNonceRef.current !== nonce || !isPlayingRef.current) return
           setWordResults([])
           setStatus('segment')
-          const fullText = expectedLineRef.current
+          const fullText = stripLineMarkup(expectedLineRef.current)
           if (currentLine?.audio_url) {
             await playAudio(currentLine.audio_url)
           } else {
@@ -2310,18 +2451,22 @@ export function PracticeScreen() {
     }
     
     // Azure PA is primary; checkAccuracy is fallback if Azure didn't run or failed
-    let result = azurePAResult ?? checkAccuracy(expectedLineRef.current, spoken, isStrictCheck, characterNameSet)
+    let result = azurePAResult ?? checkAccuracy(expectedLineRef.current, spoken, checkProfile, characterNameSet, lexiconIndexRef.current, scriptLanguageRef.current)
+    let verdictSource: VerdictSource = azurePAResult ? 'azure' : 'scorer'
 
     // TRUST REAL-TIME MATCHING: If subsequence matching showed all (or nearly all) expected words
     // were spoken, override a failed accuracy check. STT can revise/drop words between partial and
     // committed transcripts (e.g. dropping "Of" from "Of my sister? Yes, I am."), causing
     // checkAccuracy to fail even though the user said everything correctly (words went green).
     const expectedWordCount = expectedLineRef.current.split(/\s+/).filter((w: string) => w.length > 0).length
-    if (!result.isCorrect && expectedWordCount > 0) {
+    // (Not for a paraphrase the profile won't accept or a reordered phrase - those words light up too)
+    const wordsOutOfOrder = result.alignment.filter(op => op.type === 'transpose')
+    if (!result.isCorrect && expectedWordCount > 0 && result.paraphrasedWords.length === 0 && wordsOutOfOrder.length === 0) {
       const matchedCoverage = matchedIndicesRef.current.size / expectedWordCount
       if (matchedCoverage >= 0.9) {
         console.log('[finishListening] Overriding accuracy with real-time match: matched', matchedIndicesRef.current.size, '/', expectedWordCount, '(', Math.round(matchedCoverage * 100), '%)')
-        result = { isCorrect: true, accuracy: Math.round(matchedCoverage * 100), missingWords: [], extraWords: [], wrongWords: [] }
+        result = { isCorrect: true, accuracy: Math.round(matchedCoverage * 100), missingWords: [], extraWords: [], wrongWords: [], paraphrasedWords: [], alignment: [] }
+        verdictSource = 'realtime'
       }
     }
     setTranscript(spoken)
@@ -2329,6 +2474,21 @@ export function PracticeScreen() {
     setWrongWords(result.wrongWords)
     setLastLineAccuracy(result.accuracy)
 
+    // Save the take to line_attempts - rescored on the server so the record doesn't depend on this device,
+    // with the verdict shown here saved beside it (self-graded takes were saved above)
+    if (user && currentLine && engine !== 'self-grade') {
+      const shown = { isCorrect: result.isCorrect, accuracy: result.accuracy, source: verdictSource }
+      api.checkAccuracy([{ lineId: currentLine.id, expected: expectedLineRef.current, spoken, shown }], {
+        scriptId: currentLine.script_id,
+        sttProvider: engine,
+        profile: checkProfile,
+        language: scriptLanguageRef.current,
+        characterNames: Array.from(characterNameSet),
+        lexicon: lexiconRef.current,
+        persist: true,
+      }).catch(err => console.warn('[finishListening] Attempt not saved:', err))
+    }
+
     // Track per-line attempts for weak line report (functional setState to avoid dep issues)
     if (currentLine?.id) {
       const lineId = currentLine.id
@@ -2482,13 +2642,17 @@ export function PracticeScreen() {
       if (azurePAResult?.wordResults) {
         setWordResults(azurePAResult.wordResults)
       } else {
-        const wordByWord = getWordByWordResults(expectedLineRef.current, spoken, characterNameSet)
+        const wordByWord = getWordByWordResults(expectedLineRef.current, spoken, characterNameSet, checkProfile, lexiconIndexRef.current, scriptLanguageRef.current)
         setWordResults(wordByWord.results)
       }
       
       // Show error popup with what they got wrong
       const errorMsg = result.wrongWords.length > 0 
         ? result.wrongWords[0] // e.g. '"old" instead of "young"'
+        : wordsOutOfOrder.length > 0
+        ? `Out of order: "${wordsOutOfOrder[0].expected.text}"` // e.g. 'Out of order: "salt and pepper"'
+        : result.paraphrasedWords.length > 0
+        ? `Said ${result.paraphrasedWords[0]}` // e.g. 'Said "gonna" for "going to"'
         : result.missingWords.length > 0 
         ? `Missing: "${result.missingWords[0]}"` 
         : 'Try again'
@@ -2508,7 +2672,7 @@ export function PracticeScreen() {
           if (segmentNonceRef.current !== nonce || !isPlayingRef.current) return
           setWordResults([])
           setStatus('segment')
-          const fullText = expectedLineRef.current
+          const fullText = stripLineMarkup(expectedLineRef.current)
           if (currentLine?.audio_url) {
             await playAudio(currentLine.audio_url)
           } else {
@@ -2628,9 +2792,16 @@ export function PracticeScreen() {
         }
       }
     }
-  }, [currentLine, settings.autoAdvanceOnCorrect, settings.autoAdvanceDelay, settings.autoRepeatOnWrong, settings.repeatFullLineTimes, settings.restartOnFail, settings.repeatFullLineOnFail, settings.strictMode, learningMode, segments, currentSegmentIndex, lastCheckpoint, consecutiveWrongs, consecutiveLineFails, fullLineCompletions])
+  }, [stt, currentLine, settings.autoAdvanceOnCorrect, settings.autoAdvanceDelay, settings.autoRepeatOnWrong, settings.repeatFullLineTimes, settings.restartOnFail, settings.repeatFullLineOnFail, settings.accuracyProfiles, accuracyProfile, learningMode, segments, currentSegmentIndex, lastCheckpoint, consecutiveWrongs, consecutiveLineFails, fullLineCompletions])
   
   useEffect(() => { finishListeningRef.current = finishListening }, [finishListening])
+
+  // Self-grading: the actor's tap stands in for a transcript - the line as written, or nothing
+  const selfGrade = (gotIt: boolean) => {
+    if (!listeningRef.current) return
+    transcriptRef.current = gotIt ? stripLineMarkup(expectedLineRef.current) : ''
+    finishListeningRef.current()
+  }
   
   // Hard stop - doesn't evaluate, just stops
   const stopListening = () => {
@@ -2707,16 +2878,22 @@ export function PracticeScreen() {
     }
   }
 
-  const handleEditLineSave = async (lineId: string, newContent: string) => {
-    if (!newContent.trim()) return
+  // Wording changes are kept in the line's revision history
+  const reviseLine = (line: Line, updates: Partial<Line>) =>
+    withLineRevision(line, updates, user ? { id: user.id, name: user.full_name } : null, currentScript?.revision_color)
+
+  // Edits come back as markup (see lineMarkup)
+  const handleEditLineSave = async (lineId: string, newMarkup: string) => {
+    if (!newMarkup.trim()) return
     const line = lines.find(l => l.id === lineId)
-    if (!line || line.content === newContent) {
+    if (!line || lineMarkup(line) === newMarkup) {
       setEditingLineId(null)
       return
     }
     try {
-      await updateLine(lineId, { content: newContent })
-      useStore.getState().setLines(lines.map(l => l.id === lineId ? { ...l, content: newContent } : l))
+      const changes = reviseLine(line, parseLineMarkup(newMarkup))
+      await updateLine(lineId, changes)
+      useStore.getState().setLines(lines.map(l => l.id === lineId ? { ...l, ...changes } : l))
     } catch (e) {
       console.error('Failed to save line edit:', e)
     }
@@ -2800,18 +2977,19 @@ export function PracticeScreen() {
     }
     isSplittingRef.current = true
     try {
-      await updateLine(lineId, { content: beforeText.trim() })
+      const changes = reviseLine(line, parseLineMarkup(beforeText.trim()))
+      await updateLine(lineId, changes)
       const newLine = await addLine({
         script_id: line.script_id,
         scene_id: line.scene_id,
         character_name: line.character_name,
-        content: afterText.trim(),
+        ...parseLineMarkup(afterText.trim()),
         is_user_line: line.is_user_line,
         line_type: line.line_type,
         emotion: line.emotion || 'neutral',
         sort_order: getInsertSortOrder(lineId),
       })
-      const updatedLines = lines.map(l => l.id === lineId ? { ...l, content: beforeText.trim() } : l)
+      const updatedLines = lines.map(l => l.id === lineId ? { ...l, ...changes } : l)
       if (newLine) {
         useStore.getState().setLines([...updatedLines, newLine].sort((a, b) => a.sort_order - b.sort_order))
       } else {
@@ -2832,7 +3010,7 @@ export function PracticeScreen() {
       script_id: afterLine.script_id,
       scene_id: afterLine.scene_id,
       character_name: data.character_name || '',
-      content: data.content,
+      ...parseLineMarkup(data.content),
       is_user_line: data.is_user_line || false,
       line_type: lineType,
       emotion: data.emotion || 'neutral',
@@ -3026,6 +3204,15 @@ export function PracticeScreen() {
         
         <div className="flex items-center gap-2">
           {micReady && <span className="w-2 h-2 rounded-full bg-success" />}
+          {/* Speech engine in use - highlighted once practice has failed over from the chosen one */}
+          {learningMode !== 'listen' && (isPlaying || hasFailedOver(sttHealth)) && (
+            <span
+              title={sttHealth.lastFailure ? `${STT_ENGINE_LABELS[sttHealth.lastFailure.engine]} stopped working (${sttHealth.lastFailure.reason})` : 'Speech recognition'}
+              className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${hasFailedOver(sttHealth) ? 'bg-warning/20 text-warning' : 'bg-bg-surface text-text-subtle'}`}
+            >
+              {STT_ENGINE_LABELS[sttHealth.active]}
+            </span>
+          )}
           {/* Notes visibility toggle */}
           <button
             onClick={() => setShowNotes(!showNotes)}
@@ -3249,6 +3436,43 @@ export function PracticeScreen() {
                     </div>
                   )}
 
+                  {/* Accuracy profile (per script) */}
+                  {learningMode === 'practice' && (
+                    <div>
+                      <label className="text-xs text-text-muted uppercase tracking-wide block mb-3">Accuracy</label>
+                      <div className="space-y-2">
+                        {listAccuracyProfiles(settings.accuracyProfiles).map(profile => (
+                          <button
+                            key={profile.id}
+                            onClick={() => setAccuracyProfileId(profile.id === settings.accuracyProfileId ? undefined : profile.id)}
+                            className={`w-full text-left px-4 py-3 rounded-xl transition-all ${
+                              accuracyProfile.id === profile.id
+                                ? 'bg-accent/15 border border-accent/40'
+                                : 'bg-bg-surface border border-transparent hover:bg-bg-surface-hover'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className={`text-sm font-medium ${accuracyProfile.id === profile.id ? 'text-accent' : 'text-text'}`}>{profile.name}</span>
+                              {profile.id === settings.accuracyProfileId && (
+                                <span className="text-[10px] text-text-subtle uppercase tracking-wide">Default</span>
+                              )}
+                            </div>
+                            <p className="text-xs text-text-muted mt-0.5">{profile.description}</p>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Names & jargon (per script) */}
+                  {learningMode === 'practice' && (
+                    <LexiconSettings
+                      lexicon={lexicon}
+                      onSave={term => setLexiconEdits(prev => saveLexiconTerm(prev, term))}
+                      onRemove={term => setLexiconEdits(prev => removeLexiconTerm(prev, term))}
+                    />
+                  )}
+
                   {/* Key behavior toggles */}
                   {learningMode !== 'listen' && (
                     <div className="space-y-1">
@@ -3594,12 +3818,33 @@ export function PracticeScreen() {
         )}
       </AnimatePresence>
 
+      {/* Lines changed since the last session - drill just those before a shoot */}
+      {(scriptChangedCount > 0 || changedOnly) && !isEditMode && (
+        <button
+          onClick={() => { setChangedOnly(!changedOnly); setCurrentLineIndex(0) }}
+          className={`mx-4 mb-2 px-3 py-1.5 rounded-lg text-xs text-left transition-colors ${
+            changedOnly ? 'bg-accent/15 text-accent' : 'bg-overlay-5 text-text-muted hover:text-text'
+          }`}
+        >
+          {changedOnly
+            ? `Showing ${sceneChangedCount} changed line${sceneChangedCount === 1 ? '' : 's'} in this scene`
+            : `${sceneChangedCount} line${sceneChangedCount === 1 ? '' : 's'} changed in this scene since you last practiced`}
+          {scriptChangedCount !== sceneChangedCount && ` (${scriptChangedCount} in the script)`}
+          {changedOnly ? ' · Show all' : ' · Drill changes'}
+        </button>
+      )}
+
       {/* Progress bar for current scene */}
       <ProgressBar value={playableLines.length > 0 ? ((currentLineIndex + 1) / playableLines.length) * 100 : 0} color="var(--ai)" height={2} />
 
       {/* Lines */}
       <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2" onClick={() => setSelectedLineId(null)}>
-        {playableLines.length === 0 && (
+        {playableLines.length === 0 && changedOnly && (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <p className="text-text-muted text-sm">No changes in this scene</p>
+          </div>
+        )}
+        {playableLines.length === 0 && !changedOnly && (
           <div className="flex flex-col items-center justify-center py-16 text-center">
             <p className="text-text-muted text-sm mb-4">No lines in this scene yet</p>
             <button
@@ -3626,7 +3871,7 @@ export function PracticeScreen() {
                 onClick={() => {
                   if (isEditMode) {
                     setEditingLineId(line.id)
-                    setEditingContent(line.content)
+                    setEditingContent(lineMarkup(line))
                   } else if (canInteract) {
                     goTo(i, true)
                   }
@@ -3746,7 +3991,7 @@ export function PracticeScreen() {
           const handleLineTap = () => {
             if (isEditMode) {
               setEditingLineId(line.id)
-              setEditingContent(line.content)
+              setEditingContent(lineMarkup(line))
               return
             }
             if (!canInteract) return
@@ -3780,6 +4025,15 @@ export function PracticeScreen() {
                   {charVoice?.voice_name && <span className="text-[10px] text-text-subtle px-1 py-0.5 bg-overlay-5 rounded">{charVoice.voice_name}</span>}
                   {(line.parenthetical || line.delivery_note) && <span className="text-[10px] text-warning/80 italic">({line.parenthetical || line.delivery_note})</span>}
                   {line.notes && <span className="text-[10px] text-ai font-medium">•</span>}
+                  {line.revision_status && (
+                    <span
+                      className="flex items-center gap-1 text-[10px] text-accent px-1 py-0.5 bg-accent/10 rounded"
+                      title={line.previous_content ? `Was: ${line.previous_content}` : undefined}
+                    >
+                      {revisionColor(line) && <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: revisionColor(line) }} />}
+                      {line.revision_status === 'added' ? 'New' : 'Revised'}
+                    </span>
+                  )}
                   
                   {/* Action buttons - hidden in edit mode to reduce clutter */}
                   {!isEditMode && (
@@ -3853,7 +4107,7 @@ export function PracticeScreen() {
                     {(() => {
                       // Split content into parts: spoken words and parentheticals
                       // Regex captures parentheticals as separate parts
-                      const parts = line.content.split(/(\([^)]*\))/)
+                      const parts = lineMarkup(line).split(/(\([^)]*\))/)
                       
                       // Calculate which words are in the "built" portion (segments 0 to buildProgress-1)
                       const builtText = segments.slice(0, buildProgress).join(' ')
@@ -3876,51 +4130,66 @@ export function PracticeScreen() {
                           )
                         }
                         
-                        // Regular spoken text - split into words and apply highlighting
-                        return part.split(/(\s+)/).map((word, wordIdx) => {
-                          const isSpace = !word.trim()
-                          if (isSpace) return <span key={`${partIdx}-${wordIdx}`}>{word}</span>
+                        // Regular spoken text - split into words and apply highlighting, with marked regions set apart
+                        return splitLineRegions(part).map((region, regionIdx) => {
+                          const key = `${partIdx}-${regionIdx}`
+                          if (region.kind && !region.text.trim()) {
+                            return <span key={key} className="text-text-muted/50 italic text-xs mx-1">(ad lib)</span>
+                          }
+                          const words = region.text.split(/(\s+)/).map((word, wordIdx) => {
+                            const isSpace = !word.trim()
+                            if (isSpace) return <span key={`${key}-${wordIdx}`}>{word}</span>
                           
-                          const currentWordIndex = spokenWordIndex
-                          spokenWordIndex++ // Increment for next spoken word
+                            const currentWordIndex = spokenWordIndex
+                            spokenWordIndex++ // Increment for next spoken word
                           
-                          const isBuilt = currentWordIndex < builtWordCount
+                            const isBuilt = currentWordIndex < builtWordCount
                           
-                          // Use word-by-word results when showing wrong status
-                          const wordResult = wordResults[currentWordIndex]
-                          const useWordResults = status === 'wrong' && wordResults.length > 0
+                            // Use word-by-word results when showing wrong status
+                            const wordResult = wordResults[currentWordIndex]
+                            const useWordResults = status === 'wrong' && wordResults.length > 0
                           
-                          // Determine word color
-                          let colorClass = 'text-text-muted' // Default gray
+                            // Determine word color
+                            let colorClass = 'text-text-muted' // Default gray
                           
-                          if (useWordResults) {
-                            // Show word-by-word results after evaluation
-                            if (wordResult === 'correct') {
+                            if (useWordResults) {
+                              // Show word-by-word results after evaluation
+                              if (wordResult === 'correct') {
+                                colorClass = 'text-success'
+                              } else if (wordResult === 'wrong') {
+                                colorClass = 'text-error underline decoration-error'
+                              } else if (wordResult === 'missing') {
+                                colorClass = 'text-warning/70 underline decoration-warning/50'
+                              } else if (wordResult === 'paraphrase') {
+                                colorClass = 'text-warning underline decoration-dotted decoration-warning/70'
+                              } else if (wordResult === 'transposed') {
+                                colorClass = 'text-warning underline decoration-wavy decoration-warning/70'
+                              }
+                              // Marked regions don't have to be said as written
+                              if (region.kind && wordResult !== 'correct') colorClass = 'text-text-muted'
+                            } else if (status === 'listening') {
+                              // While listening: gray → green only (subsequence matching)
+                              if (matchedIndicesRef.current.has(currentWordIndex)) {
+                                colorClass = 'text-success'
+                              }
+                            } else if (status === 'correct') {
                               colorClass = 'text-success'
-                            } else if (wordResult === 'wrong') {
-                              colorClass = 'text-error underline decoration-error'
-                            } else if (wordResult === 'missing') {
-                              colorClass = 'text-warning/70 underline decoration-warning/50'
+                            } else if (isBuilt) {
+                              colorClass = 'text-success underline decoration-success/50 decoration-2 underline-offset-2'
                             }
-                          } else if (status === 'listening') {
-                            // While listening: gray → green only (subsequence matching)
-                            if (matchedIndicesRef.current.has(currentWordIndex)) {
-                              colorClass = 'text-success'
-                            }
-                          } else if (status === 'correct') {
-                            colorClass = 'text-success'
-                          } else if (isBuilt) {
-                            colorClass = 'text-success underline decoration-success/50 decoration-2 underline-offset-2'
-                          }
                           
-                          return (
-                            <span 
-                              key={`${partIdx}-${wordIdx}`}
-                              className={`${useWordResults ? '' : 'transition-colors duration-100'} ${colorClass}`}
-                            >
-                              {word}
-                            </span>
-                          )
+                            return (
+                              <span 
+                                key={`${key}-${wordIdx}`}
+                                className={`${useWordResults ? '' : 'transition-colors duration-100'} ${colorClass}`}
+                              >
+                                {word}
+                              </span>
+                            )
+                          })
+                          return region.kind
+                            ? <span key={key} className={REGION_STYLES[region.kind]} title={REGION_LABELS[region.kind]}>{words}</span>
+                            : <span key={key}>{words}</span>
                         })
                       })
                     })()}
@@ -3930,7 +4199,7 @@ export function PracticeScreen() {
                     // Apply text visibility settings ONLY for user lines
                     if (!isUser) {
                       // AI/other character lines - show full content
-                      return <p className="text-sm leading-relaxed text-text">{line.content}</p>
+                      return <p className="text-sm leading-relaxed text-text"><LineText text={lineMarkup(line)} /></p>
                     }
                     // User lines - apply visibility settings
                     
@@ -3949,12 +4218,12 @@ export function PracticeScreen() {
                       if (visibility === 'hidden') return 'opacity-0'
                       return ''
                     }
-                    let displayText = visibility === 'first-letter'
+                    let displayText: React.ReactNode = visibility === 'first-letter'
                       ? transformText(line.content, 'first-letter')
-                      : line.content
+                      : <LineText text={lineMarkup(line)} />
                     // Cue-only: show only first N words
                     if (settings.cueOnlyWords > 0 && visibility === 'full') {
-                      const words = displayText.split(' ')
+                      const words = line.content.split(' ')
                       if (words.length > settings.cueOnlyWords) {
                         displayText = words.slice(0, settings.cueOnlyWords).join(' ') + ' ...'
                       }
@@ -4130,14 +4399,21 @@ export function PracticeScreen() {
                     <span className="w-2 h-2 rounded-full bg-ai animate-pulse" />
                   )}
                   <span className={`flex-1 text-sm truncate ${status === 'checking' ? 'text-text-secondary' : 'text-ai'}`}>
-                    {status === 'checking' ? 'Checking...' : (transcript || 'Listening...')}
+                    {status === 'checking' ? 'Checking...' : selfGrading ? 'Say your line, then grade it' : (transcript || 'Listening...')}
                   </span>
-                  {status === 'listening' && (
+                  {status === 'listening' && !selfGrading && (
                     <div className="w-12 h-1.5 bg-black/20 rounded-full overflow-hidden">
                       <div className="h-full bg-ai transition-all" style={{ width: `${audioLevel}%` }} />
                     </div>
                   )}
                 </div>
+                {/* No speech recognition left - the actor grades the take */}
+                {status === 'listening' && selfGrading && (
+                  <div className="flex gap-2 mt-3">
+                    <Button size="sm" onClick={() => selfGrade(true)} className="flex-1">Got it</Button>
+                    <Button size="sm" variant="secondary" onClick={() => selfGrade(false)} className="flex-1">Missed it</Button>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -4505,8 +4781,10 @@ export function PracticeScreen() {
         onSave={async (data) => { 
           if (!editModal) return
           if (editModal.type === 'line') { 
-            await updateLine(data.id, data)
-            useStore.getState().setLines(lines.map(l => l.id === data.id ? { ...l, ...data } : l)) 
+            const previous = lines.find(l => l.id === data.id)
+            const changes = previous ? reviseLine(previous, data) : data
+            await updateLine(data.id, changes)
+            useStore.getState().setLines(lines.map(l => l.id === data.id ? { ...l, ...changes } : l)) 
           } else if (editModal.type === 'character') { 
             await updateCharacter(data.id, data)
             useStore.getState().setCharacters(characters.map(c => c.id === data.id ? { ...c, ...data } : c)) 
@@ -4602,3 +4880,82 @@ function SettingsToggle({ label, value, onChange }: { label: string; value: bool
     </div>
   )
 }
+
+// Per-script names and jargon: what speech-to-text may hear instead, and how it's said
+function LexiconSettings({ lexicon, onSave, onRemove }: {
+  lexicon: LexiconTerm[]
+  onSave: (term: LexiconTerm) => void
+  onRemove: (term: LexiconTerm) => void
+}) {
+  const [openTerm, setOpenTerm] = useState<string | null>(null)
+  const [newTerm, setNewTerm] = useState('')
+  const visible = lexicon.filter(t => !t.hidden)
+  const hidden = lexicon.filter(t => t.hidden)
+
+  const addTerm = () => {
+    const term = newTerm.trim()
+    if (!term) return
+    onSave({ term, variants: [], source: 'user' })
+    setOpenTerm(term)
+    setNewTerm('')
+  }
+
+  return (
+    <div>
+      <label className="text-xs text-text-muted uppercase tracking-wide block mb-1">Names & Jargon</label>
+      <p className="text-xs text-text-subtle mb-3">Boosted for speech recognition. Add what it mishears them as.</p>
+      <div className="space-y-1.5 max-h-72 overflow-y-auto">
+        {visible.map(t => (
+          <div key={t.term} className="bg-bg-surface rounded-xl">
+            <button
+              onClick={() => setOpenTerm(openTerm === t.term ? null : t.term)}
+              className="w-full flex items-center justify-between px-3 py-2 text-left"
+            >
+              <span className="text-sm text-text">{t.term}</span>
+              <span className="text-[10px] text-text-subtle truncate ml-2">
+                {t.variants.length > 0 ? t.variants.join(', ') : t.source === 'character' ? 'Character' : ''}
+              </span>
+            </button>
+            {openTerm === t.term && (
+              <div className="px-3 pb-3 space-y-2">
+                <input
+                  defaultValue={t.variants.join(', ')}
+                  onBlur={e => onSave({ ...t, variants: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                  placeholder="Heard as, e.g. oh car for, okra for"
+                  className="w-full bg-bg-elevated rounded-lg px-3 py-2 text-sm text-text placeholder:text-text-subtle outline-none"
+                />
+                <input
+                  defaultValue={t.phonetic || ''}
+                  onBlur={e => onSave({ ...t, phonetic: e.target.value.trim() || null })}
+                  placeholder="Sounds like, e.g. oh-KAH-for"
+                  className="w-full bg-bg-elevated rounded-lg px-3 py-2 text-sm text-text placeholder:text-text-subtle outline-none"
+                />
+                <button onClick={() => onRemove(t)} className="text-xs text-error">
+                  {t.source === 'user' ? 'Delete' : 'Ignore this word'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <input
+          value={newTerm}
+          onChange={e => setNewTerm(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addTerm() }}
+          placeholder="Add a name or term"
+          className="flex-1 bg-bg-surface rounded-xl px-3 py-2 text-sm text-text placeholder:text-text-subtle outline-none"
+        />
+        <button onClick={addTerm} className="px-3 py-2 rounded-xl bg-accent/15 text-accent text-sm">Add</button>
+      </div>
+      {hidden.length > 0 && (
+        <button
+          onClick={() => hidden.forEach(t => onSave({ ...t, hidden: false }))}
+          className="text-xs text-text-muted mt-2"
+        >
+          Restore {hidden.length} ignored
+        </button>
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,10 @@ import { IconLogout } from './icons'
 import { supabase, getAuthHeaders } from '@/lib/supabase'
 import { useAchievements, Achievement } from '@/hooks/useAchievements'
 import { AchievementIcon } from './AchievementNotification'
+import { AccuracyProfile, getAccuracyProfile, isBuiltInProfile, listAccuracyProfiles } from '@/lib/accuracy'
+import { clearTranscriptCorpus, loadTranscriptCorpus } from '@/lib/transcriptCorpus'
+import { STT_PROVIDERS } from '@/lib/stt'
+import { downloadOfflineModel, isOfflineModelCached, removeOfflineModel } from '@/lib/offlineStt'
 
 export function ProfileScreen() {
   const { user, setUser, setActiveTab } = useStore()
@@ -832,12 +836,44 @@ export function ProfileScreen() {
                     {/* Matching */}
                     <div className="border-t border-border pt-6 space-y-4">
                       <h3 className="text-xs font-medium text-text-muted uppercase tracking-wide">Matching</h3>
+                      <AccuracyProfileSettings
+                        profiles={settings.accuracyProfiles}
+                        defaultId={settings.accuracyProfileId}
+                        onChangeDefault={(id) => updateSettings({ accuracyProfileId: id })}
+                        onChangeProfiles={(profiles) => updateSettings({ accuracyProfiles: profiles })}
+                      />
                       <ToggleSetting
-                        label="Strict Mode"
-                        description="Require exact word matching instead of fuzzy similarity"
-                        value={settings.strictMode}
-                        onChange={(v) => updateSettings({ strictMode: v })}
+                        label="Record Transcripts"
+                        description="Keep what speech recognition heard for each line on this device, to tune matching"
+                        value={settings.recordTranscripts}
+                        onChange={(v) => updateSettings({ recordTranscripts: v })}
                       />
+                      {settings.recordTranscripts && <TranscriptCorpusActions />}
+                    </div>
+
+                    {/* Speech Recognition */}
+                    <div className="border-t border-border pt-6">
+                      <h3 className="text-xs font-medium text-text-muted uppercase tracking-wide mb-4">Speech Recognition</h3>
+                      {/* The mock provider is for development builds */}
+                      <div className="grid grid-cols-2 gap-2">
+                        {STT_PROVIDERS.filter(p => p.id !== 'mock' || process.env.NODE_ENV !== 'production' || settings.sttProvider === 'mock').map((provider) => (
+                          <button
+                            key={provider.id}
+                            onClick={() => updateSettings({ sttProvider: provider.id })}
+                            className={`py-2.5 px-3 rounded-lg text-sm font-medium transition-colors ${
+                              settings.sttProvider === provider.id
+                                ? 'bg-accent text-white'
+                                : 'bg-bg-surface text-text-muted hover:text-text'
+                            }`}
+                          >
+                            {provider.label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-text-muted mt-2">
+                        {STT_PROVIDERS.find(p => p.id === settings.sttProvider)?.description}
+                      </p>
+                      {settings.sttProvider === 'offline' && <OfflineModelActions />}
                     </div>
 
                     {/* Retry Behaviour */}
@@ -1164,3 +1200,235 @@ function ToggleSetting({
     </div>
   )
 }
+
+// Download or clear the recorded transcripts (see lib/transcriptCorpus)
+function TranscriptCorpusActions() {
+  const [count, setCount] = useState(() => loadTranscriptCorpus().length)
+
+  const download = () => {
+    const blob = new Blob([JSON.stringify(loadTranscriptCorpus(), null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `sceneread-transcripts-${new Date().toISOString().slice(0, 10)}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const clear = () => {
+    clearTranscriptCorpus()
+    setCount(0)
+  }
+
+  return (
+    <div className="flex items-center gap-4 text-xs">
+      <span className="flex-1 text-text-muted">{count} {count === 1 ? 'line' : 'lines'} recorded</span>
+      <button onClick={download} disabled={count === 0} className="font-medium text-accent disabled:opacity-40">
+        Download
+      </button>
+      <button onClick={clear} disabled={count === 0} className="font-medium text-red-400 hover:text-red-300 disabled:opacity-40">
+        Clear
+      </button>
+    </div>
+  )
+}
+
+// The on-device recognition model - downloaded once, then practice works with no signal
+function OfflineModelActions() {
+  const [status, setStatus] = useState<'checking' | 'missing' | 'downloading' | 'ready' | 'error'>('checking')
+
+  useEffect(() => {
+    isOfflineModelCached()
+      .then(cached => setStatus(cached ? 'ready' : 'missing'))
+      .catch(() => setStatus('missing'))
+  }, [])
+
+  const download = async () => {
+    setStatus('downloading')
+    try {
+      await downloadOfflineModel()
+      setStatus('ready')
+    } catch (err) {
+      console.error('[Offline STT] Model download failed:', err)
+      setStatus('error')
+    }
+  }
+
+  const remove = async () => {
+    await removeOfflineModel()
+    setStatus('missing')
+  }
+
+  const label = {
+    checking: 'Checking for the speech model...',
+    missing: 'Speech model not downloaded (about 40 MB)',
+    downloading: 'Downloading speech model...',
+    ready: 'Speech model ready - works offline',
+    error: "Couldn't download the speech model",
+  }[status]
+
+  return (
+    <div className="flex items-center gap-4 text-xs mt-3">
+      <span className="flex-1 text-text-muted">{label}</span>
+      {status === 'ready' ? (
+        <button onClick={remove} className="font-medium text-red-400 hover:text-red-300">
+          Remove
+        </button>
+      ) : (
+        <button onClick={download} disabled={status === 'checking' || status === 'downloading'} className="font-medium text-accent disabled:opacity-40">
+          Download
+        </button>
+      )}
+    </div>
+  )
+}
+
+// Accuracy profiles - pick the default for new scripts and edit the tolerances
+function AccuracyProfileSettings({
+  profiles,
+  defaultId,
+  onChangeDefault,
+  onChangeProfiles,
+}: {
+  profiles: AccuracyProfile[]
+  defaultId: string
+  onChangeDefault: (id: string) => void
+  onChangeProfiles: (profiles: AccuracyProfile[]) => void
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const editing = editingId ? getAccuracyProfile(editingId, profiles) : null
+
+  const save = (profile: AccuracyProfile) => {
+    onChangeProfiles([...profiles.filter(p => p.id !== profile.id), profile])
+  }
+
+  const update = (changes: Partial<AccuracyProfile>) => {
+    if (editing) save({ ...editing, ...changes })
+  }
+
+  const createProfile = () => {
+    const profile = { ...getAccuracyProfile(defaultId, profiles), id: crypto.randomUUID(), name: 'My profile' }
+    save(profile)
+    setEditingId(profile.id)
+  }
+
+  const removeProfile = (id: string) => {
+    onChangeProfiles(profiles.filter(p => p.id !== id))
+    // Built-ins just lose their edits; a deleted custom default falls back to Standard
+    if (!isBuiltInProfile(id) && id === defaultId) onChangeDefault('standard')
+    setEditingId(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-text-muted">
+        How closely your lines have to match the script. This is the default for every script; change it for one script in its practice settings.
+      </div>
+      {listAccuracyProfiles(profiles).map(profile => (
+        <div
+          key={profile.id}
+          className={`rounded-xl border ${profile.id === defaultId ? 'border-accent/40 bg-accent/10' : 'border-border bg-bg-surface'}`}
+        >
+          <div className="flex items-center gap-3 px-4 py-3">
+            <button onClick={() => onChangeDefault(profile.id)} className="flex-1 text-left">
+              <div className={`text-sm font-medium ${profile.id === defaultId ? 'text-accent' : 'text-text'}`}>{profile.name}</div>
+              <div className="text-xs text-text-muted">{profile.description}</div>
+            </button>
+            <button
+              onClick={() => setEditingId(editingId === profile.id ? null : profile.id)}
+              className="text-xs font-medium text-text-muted hover:text-text"
+            >
+              {editingId === profile.id ? 'Done' : 'Edit'}
+            </button>
+          </div>
+
+          {editing && editing.id === profile.id && (
+            <div className="px-4 pb-4 space-y-4 border-t border-border pt-4">
+              <div>
+                <label className="block text-sm font-medium text-text mb-2">Name</label>
+                <input
+                  value={editing.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg bg-bg border border-border text-sm text-text"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-2">
+                  Word Tolerance: {editing.wordTolerance === 0 ? 'word perfect' : `${editing.wordTolerance} per 10 words`}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="5"
+                  step="1"
+                  value={editing.wordTolerance}
+                  onChange={(e) => update({ wordTolerance: parseInt(e.target.value) })}
+                  className="w-full accent-accent"
+                />
+                <p className="text-xs text-text-muted mt-1">Dropped or added words allowed before a line fails</p>
+              </div>
+              <ToggleSetting
+                label="Allow Paraphrasing"
+                description="Swapped words count towards the tolerance instead of failing the line"
+                value={editing.allowSubstitutions}
+                onChange={(v) => update({ allowSubstitutions: v })}
+              />
+              <ToggleSetting
+                label="Accept Spoken-Out Contractions"
+                description={`"I am" passes for "I'm", and the other way round`}
+                value={editing.contractions === 'either'}
+                onChange={(v) => update({ contractions: v ? 'either' : 'exact' })}
+              />
+              <ToggleSetting
+                label="Count Fillers"
+                description={`Ums count as extra words, and scripted "well", "so", "oh" must be said`}
+                value={editing.fillers === 'count'}
+                onChange={(v) => update({ fillers: v ? 'count' : 'ignore' })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-text mb-2">
+                  Name Matching: {Math.round(editing.properNounSimilarity * 100)}% confident
+                </label>
+                <input
+                  type="range"
+                  min="0.6"
+                  max="1"
+                  step="0.05"
+                  value={editing.properNounSimilarity}
+                  onChange={(e) => update({ properNounSimilarity: parseFloat(e.target.value) })}
+                  className="w-full accent-accent"
+                />
+                <p className="text-xs text-text-muted mt-1">How close a mispronounced or misheard name has to be</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text mb-2">
+                  Pass Threshold: {editing.passThreshold}%
+                </label>
+                <input
+                  type="range"
+                  min="50"
+                  max="100"
+                  step="5"
+                  value={editing.passThreshold}
+                  onChange={(e) => update({ passThreshold: parseInt(e.target.value) })}
+                  className="w-full accent-accent"
+                />
+              </div>
+              {profiles.some(p => p.id === editing.id) && (
+                <button
+                  onClick={() => removeProfile(editing.id)}
+                  className="text-xs font-medium text-red-400 hover:text-red-300"
+                >
+                  {isBuiltInProfile(editing.id) ? 'Reset to Default' : 'Delete Profile'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <button onClick={createProfile} className="text-sm font-medium text-accent">
+        + New Profile
+      </button>
+    </div>
+  )
+}
@@ -1,12 +1,14 @@
 'use client'
 
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, Button, Badge, Toggle } from './ui'
-import { useStore, useSettings, useRecordingSettings, RecordingSettings, SlateInfo, TeleprompterSettings } from '@/store'
-import { useOpenAIRealtime } from '@/hooks/useOpenAIRealtime'
+import { useStore, useSettings, useScriptPractice, useRecordingSettings, RecordingSettings, SlateInfo, TeleprompterSettings } from '@/store'
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition'
 import { supabase, Line, Script } from '@/lib/supabase'
-import { getLockedWordMatch, createFreshLockedState, LockedWordState, checkAccuracy } from '@/lib/accuracy'
+import { getLockedWordMatch, createFreshLockedState, LockedWordState, checkAccuracy, getAccuracyProfile, buildLexiconIndex, markLineRegions, resolveLanguage } from '@/lib/accuracy'
+import { lexiconEquivalents, mergeLexicon, seedLexicon } from '@/lib/lexicon'
+import { createTranscriptRecorder } from '@/lib/transcriptCorpus'
 import { triggerAchievementCheck } from '@/hooks/useAchievements'
 
 // ============================================================================
@@ -215,6 +217,25 @@ export default function RecordScreen() {
   const scriptLines = selectedScriptForRecording 
     ? lines.filter(l => l.script_id === selectedScriptForRecording.id)
     : []
+
+  // Same accuracy profile the script is practised with
+  const { settings: practiceSettings } = useSettings()
+  const { getScriptState } = useScriptPractice()
+  const accuracyProfile = getAccuracyProfile(
+    (selectedScriptForRecording && getScriptState(selectedScriptForRecording.id).accuracyProfileId) || practiceSettings.accuracyProfileId,
+    practiceSettings.accuracyProfiles
+  )
+  // ...and the same names and jargon
+  const savedLexicon = selectedScriptForRecording ? getScriptState(selectedScriptForRecording.id).lexicon : undefined
+  const lexiconIndex = useMemo(
+    () => buildLexiconIndex(lexiconEquivalents(mergeLexicon(
+      seedLexicon(lines.filter(l => l.script_id === selectedScriptForRecording?.id)),
+      savedLexicon
+    ))),
+    [lines, selectedScriptForRecording?.id, savedLexicon]
+  )
+  // ...in the script's language
+  const scriptLanguage = resolveLanguage(selectedScriptForRecording?.language, selectedScriptForRecording?.accent_hint)
   
   // Video ref callback
   const videoRefCallback = useCallback((node: HTMLVideoElement | null) => {
@@ -252,11 +273,18 @@ export default function RecordScreen() {
   const sceneLineIndexRef = useRef(0)
   const isRecordingRef = useRef(false)
   const advanceLineRef = useRef<() => void>(() => {})
+  const accuracyProfileRef = useRef(accuracyProfile)
+  const lexiconIndexRef = useRef(lexiconIndex)
+  const scriptLanguageRef = useRef(scriptLanguage)
+  const transcriptRecorderRef = useRef(createTranscriptRecorder('openai'))
   
   // Keep refs in sync
   useEffect(() => { scriptLinesRef.current = scriptLines }, [scriptLines])
   useEffect(() => { sceneLineIndexRef.current = sceneLineIndex }, [sceneLineIndex])
   useEffect(() => { isRecordingRef.current = isRecording }, [isRecording])
+  useEffect(() => { accuracyProfileRef.current = accuracyProfile }, [accuracyProfile])
+  useEffect(() => { lexiconIndexRef.current = lexiconIndex }, [lexiconIndex])
+  useEffect(() => { scriptLanguageRef.current = scriptLanguage }, [scriptLanguage])
   
   // Simple advance function
   const advanceToNextLine = useCallback(() => {
@@ -282,10 +310,20 @@ export default function RecordScreen() {
   // Keep advance ref updated
   useEffect(() => { advanceLineRef.current = advanceToNextLine }, [advanceToNextLine])
   
-  const { isListening: sttListening, startSession: startSTT, stopSession: stopSTT } = useOpenAIRealtime({
+  // OpenAI Realtime, or on-device recognition when the actor practices offline
+  const sttProvider = practiceSettings.sttProvider === 'offline' ? 'offline' : 'openai'
+  const {
+    isListening: sttListening,
+    startSession: startSTT,
+    startListening: startSTTListening,
+    stopSession: stopSTT,
+    updateKeyterms: updateSTTKeyterms,
+  } = useSpeechRecognition(sttProvider, {
+    language: scriptLanguage,
     onPartialTranscript: (data) => {
       if (!isRecordingRef.current) return
       if (!data.text.trim()) return
+      transcriptRecorderRef.current.record('interim', data.text)
       
       // Combine committed + partial for display
       const fullText = committedTranscriptRef.current
@@ -297,7 +335,7 @@ export default function RecordScreen() {
       // Real-time word matching with locking against current line
       const currentLine = scriptLinesRef.current[sceneLineIndexRef.current]
       if (currentLine?.is_user_line) {
-        const newState = getLockedWordMatch(currentLine.content, fullText, lockedStateRef.current)
+        const newState = getLockedWordMatch(markLineRegions(currentLine.content, currentLine.regions), fullText, lockedStateRef.current, undefined, accuracyProfileRef.current, lexiconIndexRef.current, scriptLanguageRef.current)
         lockedStateRef.current = newState
         setMatchedWordCount(newState.lockedCount)
         setHasWordError(newState.hasError)
@@ -306,6 +344,7 @@ export default function RecordScreen() {
     onCommittedTranscript: (data) => {
       if (!isRecordingRef.current) return
       if (!data.text.trim()) return
+      transcriptRecorderRef.current.record('final', data.text)
       
       // Accumulate committed transcripts
       const newCommitted = committedTranscriptRef.current
@@ -319,7 +358,7 @@ export default function RecordScreen() {
       // Update word matching with locking
       const currentLine = scriptLinesRef.current[sceneLineIndexRef.current]
       if (currentLine?.is_user_line) {
-        const newState = getLockedWordMatch(currentLine.content, newCommitted, lockedStateRef.current)
+        const newState = getLockedWordMatch(markLineRegions(currentLine.content, currentLine.regions), newCommitted, lockedStateRef.current, undefined, accuracyProfileRef.current, lexiconIndexRef.current, scriptLanguageRef.current)
         lockedStateRef.current = newState
         setMatchedWordCount(newState.lockedCount)
         setHasWordError(newState.hasError)
@@ -1464,13 +1503,39 @@ export default function RecordScreen() {
       // Extract unique words from user lines for Keyterm Prompting
       const userLines = scriptLines.filter(l => l.is_user_line)
       const allWords = userLines
-      console.log('[STT] Starting OpenAI Realtime session')
-      startSTT()
+      console.log(`[STT] Starting ${sttProvider} session`)
+      startSTT().then(connected => {
+        if (connected) startSTTListening()
+      })
     } else if (!shouldListen && sttListening) {
       console.log('[STT] Stopping session')
       stopSTT()
     }
-  }, [teleprompterSettings.mode, isRecording, isPaused, sttListening, startSTT, stopSTT, scriptLines])
+  }, [teleprompterSettings.mode, isRecording, isPaused, sttListening, startSTT, startSTTListening, stopSTT, scriptLines, sttProvider])
+
+  // Each user line is the recognizer's hint (OpenAI's prompt, the offline model's grammar)
+  useEffect(() => {
+    const line = scriptLines[sceneLineIndex]
+    if (teleprompterSettings.mode === 'stt' && line?.is_user_line) {
+      updateSTTKeyterms([], { expectedLine: markLineRegions(line.content, line.regions) })
+    }
+  }, [teleprompterSettings.mode, scriptLines, sceneLineIndex, sttListening, updateSTTKeyterms])
+
+  // What speech recognition heard for each user line, when the actor opts in (Profile > Matching)
+  useEffect(() => {
+    const recorder = transcriptRecorderRef.current
+    const line = scriptLines[sceneLineIndex]
+    if (practiceSettings.recordTranscripts && teleprompterSettings.mode === 'stt' && isRecording && line?.is_user_line) {
+      recorder.startLine(line.content, {
+        provider: sttProvider,
+        lineId: line.id,
+        profileId: accuracyProfileRef.current.id,
+        language: scriptLanguageRef.current,
+      })
+    }
+    // Saved when the line changes or recording stops
+    return () => { recorder.endLine() }
+  }, [practiceSettings.recordTranscripts, teleprompterSettings.mode, isRecording, scriptLines, sceneLineIndex, sttProvider])
   
   // Timed mode auto-advance (only affects display, not scene state)
   useEffect(() => {
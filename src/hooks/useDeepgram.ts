@@ -1,31 +1,18 @@
 // Deepgram Nova-3 streaming STT with keyterm prompting
 // Simpler architecture than OpenAI Realtime: open socket → send audio → receive transcripts
+// Sockets authenticate with a short-lived key from /api/deepgram-token
 //
 // COST OPTIMIZATION: Audio is only sent when isListening is true
 // Connection stays open but audio is gated by sendingAudioRef
 
 import { useState, useRef, useCallback } from 'react'
+import { createMicRecorder } from '@/lib/micRecorder'
+import type { SpeechRecognitionOptions, SpeechRecognitionProvider, TranscriptWord } from '@/lib/stt'
 
-export interface TranscriptWord {
-  word: string
-  start: number
-  end: number
-  confidence: number
-  punctuated_word: string
-}
-
-interface UseDeepgramOptions {
-  onPartialTranscript?: (data: { text: string; words: TranscriptWord[] }) => void
-  onCommittedTranscript?: (data: { text: string; words: TranscriptWord[] }) => void
-  onSessionStarted?: () => void
-  onError?: (error: Error) => void
-  onDisconnect?: () => void
-  onAudioLevel?: (level: number) => void
-}
-
-const DEEPGRAM_API_KEY = process.env.NEXT_PUBLIC_DEEPGRAM_API_KEY || ''
+// Keys are reused for new sockets until this close to expiring
+const KEY_EXPIRY_MARGIN_MS = 10_000
 
-export function useDeepgram(options: UseDeepgramOptions = {}) {
+export function useDeepgram(options: SpeechRecognitionOptions = {}): SpeechRecognitionProvider {
   const {
     onPartialTranscript,
     onCommittedTranscript,
@@ -33,6 +20,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     onError,
     onDisconnect,
     onAudioLevel,
+    language = 'en',
   } = options
 
   const [isConnected, setIsConnected] = useState(false)
@@ -46,10 +34,10 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
   const isConnectedRef = useRef(false) // Ref-based connection state (no stale closures)
   const keytermsRef = useRef<string[]>([]) // Current keyterms for reconnect
   const keepAliveRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const tokenRef = useRef<{ key: string; expiresAt: number } | null>(null)
 
   // Self-record playback: MediaRecorder captures mic audio alongside STT
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const recordingChunksRef = useRef<Blob[]>([])
+  const micRecorderRef = useRef(createMicRecorder())
 
   // Accumulated partial text between finals
   const partialAccumRef = useRef('')
@@ -82,11 +70,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     sendingAudioRef.current = false
     isConnectedRef.current = false
     stopKeepAlive()
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop()
-      mediaRecorderRef.current = null
-    }
-    recordingChunksRef.current = []
+    micRecorderRef.current.cancel()
     if (processorRef.current) {
       processorRef.current.disconnect()
       processorRef.current = null
@@ -153,7 +137,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
   const buildWsUrl = useCallback((keyterms: string[]) => {
     const params = new URLSearchParams({
       model: 'nova-3',
-      language: 'en',
+      language,
       encoding: 'linear16',
       sample_rate: '16000',
       channels: '1',
@@ -171,6 +155,22 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     })
 
     return `wss://api.deepgram.com/v1/listen?${params.toString()}`
+  }, [language])
+
+  // Temporary key for opening a socket - keyterm reconnects reuse it while it's fresh
+  const getToken = useCallback(async () => {
+    const cached = tokenRef.current
+    if (cached && cached.expiresAt - Date.now() > KEY_EXPIRY_MARGIN_MS) return cached.key
+
+    const tokenRes = await fetch('/api/deepgram-token', { method: 'POST' })
+    if (!tokenRes.ok) {
+      const errText = await tokenRes.text()
+      console.error('[Deepgram] Token error:', errText)
+      throw new Error('Failed to get Deepgram token')
+    }
+    const { key, expires_at } = await tokenRes.json()
+    tokenRef.current = { key, expiresAt: expires_at }
+    return key as string
   }, [])
 
   const startSession = useCallback(async (keyterms: string[] = []) => {
@@ -195,13 +195,16 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
       })
       streamRef.current = stream
 
-      // Step 2: Connect to Deepgram WebSocket (no token endpoint needed!)
+      // Step 2: Get a temporary key
+      const token = await getToken()
+
+      // Step 3: Connect to Deepgram WebSocket
       keytermsRef.current = keyterms
       const wsUrl = buildWsUrl(keyterms)
       console.log('[Deepgram] Connecting to WebSocket...')
 
       return new Promise<boolean>((resolve) => {
-        const socket = new WebSocket(wsUrl, ['token', DEEPGRAM_API_KEY])
+        const socket = new WebSocket(wsUrl, ['token', token])
         socketRef.current = socket
 
         socket.onopen = () => {
@@ -290,7 +293,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
       onError?.(err instanceof Error ? err : new Error('Failed to start session'))
       return false
     }
-  }, [cleanup, buildWsUrl, startKeepAlive, onPartialTranscript, onCommittedTranscript, onSessionStarted, onError, onDisconnect, startAudioCapture])
+  }, [cleanup, getToken, buildWsUrl, startKeepAlive, onPartialTranscript, onCommittedTranscript, onSessionStarted, onError, onDisconnect, startAudioCapture])
 
   // START listening - begins sending audio to Deepgram (billing starts)
   const startListening = useCallback(() => {
@@ -317,6 +320,10 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
   // Deepgram doesn't support dynamic param changes, so we reconnect
   // This is fast (~200ms) unlike OpenAI's 1-3 second session setup
   const updateKeyterms = useCallback(async (keyterms: string[]) => {
+    // Unchanged keyterms (the usual case line to line) keep the socket
+    if (keyterms.length === keytermsRef.current.length && keyterms.every((term, i) => term === keytermsRef.current[i])) {
+      return true
+    }
     keytermsRef.current = keyterms
     // Only reconnect if already connected — otherwise keyterms will be used on next startSession
     if (!isConnectedRef.current || !socketRef.current || socketRef.current.readyState !== WebSocket.OPEN) {
@@ -329,6 +336,15 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
 
     console.log('[Deepgram] Reconnecting with new keyterms:', keyterms.slice(0, 5).join(', '), '...')
 
+    // Key first - if it can't be had, the old socket keeps working
+    let token: string
+    try {
+      token = await getToken()
+    } catch (err) {
+      console.error('[Deepgram] Keyterm reconnect skipped:', err)
+      return false
+    }
+
     // Stop keepalive for old socket
     stopKeepAlive()
 
@@ -355,7 +371,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     // Open new socket with updated keyterms
     const wsUrl = buildWsUrl(keyterms)
     return new Promise<boolean>((resolve) => {
-      const socket = new WebSocket(wsUrl, ['token', DEEPGRAM_API_KEY])
+      const socket = new WebSocket(wsUrl, ['token', token])
       socketRef.current = socket
 
       socket.onopen = () => {
@@ -416,7 +432,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
         }
       }, 5000)
     })
-  }, [buildWsUrl, startKeepAlive, stopKeepAlive, startAudioCapture, onPartialTranscript, onCommittedTranscript, onDisconnect])
+  }, [getToken, buildWsUrl, startKeepAlive, stopKeepAlive, startAudioCapture, onPartialTranscript, onCommittedTranscript, onDisconnect])
 
   // Full disconnect
   const stopSession = useCallback(() => {
@@ -429,52 +445,17 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     return isConnectedRef.current && socketRef.current?.readyState === WebSocket.OPEN
   }, [])
 
-  // Start recording mic audio for playback (parallel to STT)
-  const startRecording = useCallback(() => {
-    if (!streamRef.current) return false
-    recordingChunksRef.current = []
-
-    const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', '']
-    let mimeType = ''
-    for (const c of candidates) {
-      if (!c || MediaRecorder.isTypeSupported(c)) { mimeType = c; break }
-    }
+  // Reconnect after a dropped connection, keeping the line's keyterms
+  const reconnect = useCallback(() => startSession(keytermsRef.current), [startSession])
 
-    try {
-      const recOptions: MediaRecorderOptions = { audioBitsPerSecond: 64000 }
-      if (mimeType) recOptions.mimeType = mimeType
-      const recorder = new MediaRecorder(streamRef.current, recOptions)
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) recordingChunksRef.current.push(e.data)
-      }
-      recorder.start(250)
-      mediaRecorderRef.current = recorder
-      return true
-    } catch (err) {
-      console.warn('[Recording] MediaRecorder error:', err)
-      return false
-    }
-  }, [])
+  // Start recording mic audio for playback (parallel to STT)
+  const startRecording = useCallback(() => micRecorderRef.current.start(streamRef.current), [])
 
   // Stop recording and return audio blob
-  const stopRecording = useCallback((): Promise<Blob | null> => {
-    const recorder = mediaRecorderRef.current
-    if (!recorder || recorder.state === 'inactive') {
-      return Promise.resolve(null)
-    }
-    return new Promise<Blob | null>((resolve) => {
-      recorder.onstop = () => {
-        const mt = recorder.mimeType || 'audio/webm'
-        const blob = new Blob(recordingChunksRef.current, { type: mt })
-        recordingChunksRef.current = []
-        mediaRecorderRef.current = null
-        resolve(blob)
-      }
-      recorder.stop()
-    })
-  }, [])
+  const stopRecording = useCallback(() => micRecorderRef.current.stop(), [])
 
   return {
+    id: 'deepgram',
     isConnected,
     isListening,
     startSession,      // Connect to Deepgram (audio paused until startListening)
@@ -482,6 +463,7 @@ export function useDeepgram(options: UseDeepgramOptions = {}) {
     pauseListening,     // Stop sending audio (billing stops, connection kept)
     stopSession,        // Full disconnect
     updateKeyterms,     // Reconnect with new keyterms for expected line
+    reconnect,          // New session with the last keyterms
     checkConnected,     // Ref-based connection check (never stale)
     startRecording,     // Start recording mic for playback
     stopRecording,      // Stop recording and get audio blob
@@ -0,0 +1,94 @@
+// Mock speech recognition - scripted transcripts, no microphone or network
+//
+// Connects instantly and delivers whatever it's told to "hear" through the same
+// callbacks as the real providers. While a session is open the engine is on
+// window.sceneReadMockSpeech, so a screen can be driven from the console or an
+// end-to-end test:  sceneReadMockSpeech.say('You are late.')
+
+import { useState, useRef, useCallback } from 'react'
+import { createMockSpeechEngine, MockSpeechEngine, SpeechRecognitionOptions, SpeechRecognitionProvider } from '@/lib/stt'
+
+export function useMockSpeech(options: SpeechRecognitionOptions = {}): SpeechRecognitionProvider {
+  const [isConnected, setIsConnected] = useState(false)
+  const [isListening, setIsListening] = useState(false)
+
+  const isConnectedRef = useRef(false)
+  const listeningRef = useRef(false)
+
+  // Callbacks change every render - the engine reads them through a ref
+  const callbacksRef = useRef(options)
+  callbacksRef.current = options
+
+  const engineRef = useRef<MockSpeechEngine | null>(null)
+  if (!engineRef.current) {
+    engineRef.current = createMockSpeechEngine({
+      isListening: () => listeningRef.current,
+      onPartialTranscript: data => callbacksRef.current.onPartialTranscript?.(data),
+      onCommittedTranscript: data => callbacksRef.current.onCommittedTranscript?.(data),
+      onDisconnect: () => {
+        listeningRef.current = false
+        isConnectedRef.current = false
+        setIsConnected(false)
+        setIsListening(false)
+        callbacksRef.current.onDisconnect?.()
+      },
+    })
+  }
+
+  const startSession = useCallback(async () => {
+    if (!isConnectedRef.current) {
+      console.log('[MockSpeech] Session started')
+      isConnectedRef.current = true
+      setIsConnected(true)
+      window.sceneReadMockSpeech = engineRef.current!
+      callbacksRef.current.onSessionStarted?.()
+    }
+    return true
+  }, [])
+
+  const startListening = useCallback(() => {
+    if (!isConnectedRef.current) return false
+    listeningRef.current = true
+    setIsListening(true)
+    return true
+  }, [])
+
+  const pauseListening = useCallback(() => {
+    listeningRef.current = false
+    setIsListening(false)
+  }, [])
+
+  const stopSession = useCallback(() => {
+    listeningRef.current = false
+    isConnectedRef.current = false
+    setIsConnected(false)
+    setIsListening(false)
+    if (window.sceneReadMockSpeech === engineRef.current) delete window.sceneReadMockSpeech
+  }, [])
+
+  const updateKeyterms = useCallback(async () => {}, [])
+  const checkConnected = useCallback(() => isConnectedRef.current, [])
+  const startRecording = useCallback(() => false, [])
+  const stopRecording = useCallback(async () => null, [])
+
+  return {
+    id: 'mock',
+    isConnected,
+    isListening,
+    startSession,
+    startListening,
+    pauseListening,
+    stopSession,
+    updateKeyterms,
+    reconnect: startSession,
+    checkConnected,
+    startRecording,    // Nothing to record
+    stopRecording,
+  }
+}
+
+declare global {
+  interface Window {
+    sceneReadMockSpeech?: MockSpeechEngine
+  }
+}
@@ -0,0 +1,214 @@
+// On-device speech recognition - Vosk (Kaldi) compiled to WASM, in vosk-browser's worker
+//
+// No network once the model is cached (see lib/offlineStt). A "session" is the
+// loaded model plus the mic; audio goes to the worker only while listening.
+// Each line gets a recognizer constrained to that line's words (updateKeyterms
+// with hints.expectedLine) - recreating one is local and near-instant.
+// Vosk partials cover the speech since the last result, like Deepgram interims.
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import type { KaldiRecognizer, Model } from 'vosk-browser'
+import { createMicRecorder } from '@/lib/micRecorder'
+import { lineGrammar, offlineModelUrl, offlineTranscript } from '@/lib/offlineStt'
+import type { RecognitionHints, SpeechRecognitionOptions, SpeechRecognitionProvider, TranscriptWord } from '@/lib/stt'
+
+export function useOfflineSpeech(options: SpeechRecognitionOptions = {}): SpeechRecognitionProvider {
+  const [isConnected, setIsConnected] = useState(false)
+  const [isListening, setIsListening] = useState(false)
+
+  const modelRef = useRef<Model | null>(null)
+  const recognizerRef = useRef<KaldiRecognizer | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const processorRef = useRef<ScriptProcessorNode | null>(null)
+  const sendingAudioRef = useRef(false)
+  const isConnectedRef = useRef(false)
+  const keytermsRef = useRef<string[]>([])
+  const grammarRef = useRef<string[] | null>(null) // null = free recognition, before a line is known
+  const micRecorderRef = useRef(createMicRecorder())
+
+  // Callbacks change every render - read them through a ref from worker events
+  const callbacksRef = useRef(options)
+  callbacksRef.current = options
+
+  // A recognizer for the current grammar; results are dropped unless listening
+  const createRecognizer = useCallback(() => {
+    const model = modelRef.current
+    const audioContext = audioContextRef.current
+    if (!model || !audioContext) return
+
+    recognizerRef.current?.remove()
+    const grammar = grammarRef.current
+    const recognizer = new model.KaldiRecognizer(audioContext.sampleRate, grammar ? JSON.stringify(grammar) : undefined)
+    recognizer.setWords(true)
+
+    recognizer.on('partialresult', (message) => {
+      if (!sendingAudioRef.current || message.event !== 'partialresult') return
+      const text = offlineTranscript(message.result.partial)
+      if (text) callbacksRef.current.onPartialTranscript?.({ text, words: [] })
+    })
+    recognizer.on('result', (message) => {
+      if (!sendingAudioRef.current || message.event !== 'result') return
+      const text = offlineTranscript(message.result.text)
+      if (!text) return
+      const words: TranscriptWord[] = (message.result.result || [])
+        .filter(w => offlineTranscript(w.word))
+        .map(w => ({ word: w.word, start: w.start, end: w.end, confidence: w.conf, punctuated_word: w.word }))
+      console.log('[Offline STT] Final:', text)
+      callbacksRef.current.onCommittedTranscript?.({ text, words })
+    })
+    recognizer.on('error', (message) => {
+      if (message.event !== 'error') return
+      console.error('[Offline STT] Recognizer error:', message.error)
+      callbacksRef.current.onError?.(new Error(message.error))
+    })
+
+    recognizerRef.current = recognizer
+  }, [])
+
+  const cleanup = useCallback(() => {
+    console.log('[Offline STT] Cleanup called')
+    sendingAudioRef.current = false
+    isConnectedRef.current = false
+    micRecorderRef.current.cancel()
+    recognizerRef.current?.remove()
+    recognizerRef.current = null
+    if (processorRef.current) {
+      processorRef.current.disconnect()
+      processorRef.current = null
+    }
+    if (audioContextRef.current) {
+      audioContextRef.current.close()
+      audioContextRef.current = null
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop())
+      streamRef.current = null
+    }
+    // The model stays loaded in its worker - reloading it takes seconds
+    setIsConnected(false)
+    setIsListening(false)
+  }, [])
+
+  const startSession = useCallback(async (keyterms: string[] = []) => {
+    if (isConnectedRef.current) return true
+
+    try {
+      cleanup()
+      keytermsRef.current = keyterms
+
+      if (!modelRef.current) {
+        console.log('[Offline STT] Loading model...')
+        const { createModel } = await import('vosk-browser')
+        const modelUrl = await offlineModelUrl()
+        try {
+          modelRef.current = await createModel(modelUrl)
+        } finally {
+          // The worker has read the model by now - don't hold a second copy in memory
+          if (modelUrl.startsWith('blob:')) URL.revokeObjectURL(modelUrl)
+        }
+        console.log('[Offline STT] Model loaded')
+      }
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: true },
+      })
+      streamRef.current = stream
+
+      const audioContext = new AudioContext()
+      audioContextRef.current = audioContext
+      createRecognizer()
+
+      const source = audioContext.createMediaStreamSource(stream)
+      const processor = audioContext.createScriptProcessor(4096, 1, 1)
+      processorRef.current = processor
+      processor.onaudioprocess = (e) => {
+        if (!sendingAudioRef.current) return
+        const inputData = e.inputBuffer.getChannelData(0)
+        if (callbacksRef.current.onAudioLevel) {
+          let sum = 0
+          for (let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i]
+          callbacksRef.current.onAudioLevel(Math.min(1, Math.sqrt(sum / inputData.length) * 10))
+        }
+        recognizerRef.current?.acceptWaveform(e.inputBuffer)
+      }
+      source.connect(processor)
+      // Zero-gain sink so the processor runs without the mic reaching the speakers
+      const silentGain = audioContext.createGain()
+      silentGain.gain.value = 0
+      processor.connect(silentGain)
+      silentGain.connect(audioContext.destination)
+
+      isConnectedRef.current = true
+      setIsConnected(true)
+      console.log('[Offline STT] Ready (audio paused until startListening)')
+      callbacksRef.current.onSessionStarted?.()
+      return true
+    } catch (err) {
+      console.error('[Offline STT] Start error:', err)
+      cleanup()
+      callbacksRef.current.onError?.(err instanceof Error ? err : new Error('Failed to start offline recognition'))
+      return false
+    }
+  }, [cleanup, createRecognizer])
+
+  const startListening = useCallback(() => {
+    if (!isConnectedRef.current) {
+      console.warn('[Offline STT] Cannot start listening - not connected')
+      return false
+    }
+    sendingAudioRef.current = true
+    setIsListening(true)
+    return true
+  }, [])
+
+  // Flush what's been heard so the next line starts clean - the flushed result is dropped
+  const pauseListening = useCallback(() => {
+    sendingAudioRef.current = false
+    setIsListening(false)
+    recognizerRef.current?.retrieveFinalResult()
+  }, [])
+
+  const stopSession = useCallback(() => {
+    console.log('[Offline STT] Stopping session completely...')
+    cleanup()
+  }, [cleanup])
+
+  // Constrain recognition to the line about to be said
+  const updateKeyterms = useCallback(async (keyterms: string[], hints: RecognitionHints = {}) => {
+    keytermsRef.current = keyterms
+    grammarRef.current = hints.expectedLine ? lineGrammar(hints.expectedLine, keyterms) : null
+    if (isConnectedRef.current) createRecognizer()
+    return true
+  }, [createRecognizer])
+
+  const reconnect = useCallback(() => startSession(keytermsRef.current), [startSession])
+
+  // The model's worker goes with the screen
+  useEffect(() => () => {
+    cleanup()
+    modelRef.current?.terminate()
+    modelRef.current = null
+  }, [cleanup])
+
+  const checkConnected = useCallback(() => isConnectedRef.current, [])
+
+  const startRecording = useCallback(() => micRecorderRef.current.start(streamRef.current), [])
+
+  const stopRecording = useCallback(() => micRecorderRef.current.stop(), [])
+
+  return {
+    id: 'offline',
+    isConnected,
+    isListening,
+    startSession,      // Load the model and open the mic (audio paused until startListening)
+    startListening,     // Start feeding audio to the recognizer
+    pauseListening,     // Stop feeding audio, flush the recognizer
+    stopSession,        // Release the mic (model stays loaded)
+    updateKeyterms,     // New recognizer constrained to the expected line
+    reconnect,          // Reopen the mic with the last keyterms
+    checkConnected,     // Ref-based connection check (never stale)
+    startRecording,     // Start recording mic for playback
+    stopRecording,      // Stop recording and get audio blob
+  }
+}
@@ -11,25 +11,14 @@
 // This prevents billing during TTS playback, beeps, and transitions.
 
 import { useState, useRef, useCallback } from 'react'
-
-export interface TranscriptWord {
-  word: string
-  start: number
-  end: number
-  confidence: number
-  punctuated_word: string
-}
-
-interface UseOpenAIRealtimeOptions {
-  onPartialTranscript?: (data: { text: string; words: TranscriptWord[] }) => void
-  onCommittedTranscript?: (data: { text: string; words: TranscriptWord[] }) => void
-  onSessionStarted?: () => void
-  onError?: (error: Error) => void
-  onDisconnect?: () => void
-  onAudioLevel?: (level: number) => void // 0-1 audio level for visualization
-}
-
-export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
+import { stripLineMarkup } from '@/lib/accuracy'
+import { LexiconTerm, lexiconPrompt } from '@/lib/lexicon'
+import { createMicRecorder } from '@/lib/micRecorder'
+import type { RecognitionHints, SpeechRecognitionOptions, SpeechRecognitionProvider } from '@/lib/stt'
+
+export function useOpenAIRealtime(options: SpeechRecognitionOptions = {}): SpeechRecognitionProvider & {
+  updatePrompt: (expectedLine: string, lexicon?: LexiconTerm[]) => void
+} {
   const {
     onPartialTranscript,
     onCommittedTranscript,
@@ -37,6 +26,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
     onError,
     onDisconnect,
     onAudioLevel,
+    language = 'en',
   } = options
 
   const [isConnected, setIsConnected] = useState(false)
@@ -59,8 +49,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
   const hadSpeechSinceCommitRef = useRef(false)
 
   // Self-record playback: MediaRecorder captures mic audio alongside STT
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const recordingChunksRef = useRef<Blob[]>([])
+  const micRecorderRef = useRef(createMicRecorder())
 
   const cleanup = useCallback(() => {
     console.log('[OpenAI Realtime] Cleanup called')
@@ -71,11 +60,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
       clearInterval(commitIntervalRef.current)
       commitIntervalRef.current = null
     }
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop()
-      mediaRecorderRef.current = null
-    }
-    recordingChunksRef.current = []
+    micRecorderRef.current.cancel()
     if (processorRef.current) {
       processorRef.current.disconnect()
       processorRef.current = null
@@ -159,7 +144,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
 
   const startSession = useCallback(async () => {
     // If already connected, just return true
-    if (isConnected && socketRef.current?.readyState === WebSocket.OPEN) {
+    if (isConnectedRef.current && socketRef.current?.readyState === WebSocket.OPEN) {
       console.log('[OpenAI Realtime] Already connected, reusing session')
       return true
     }
@@ -169,7 +154,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
 
       // Step 1: Get ephemeral token from our API
       console.log('[OpenAI Realtime] Fetching token...')
-      const tokenRes = await fetch('/api/openai-realtime-token')
+      const tokenRes = await fetch(`/api/openai-realtime-token?language=${encodeURIComponent(language)}`)
       if (!tokenRes.ok) {
         const errText = await tokenRes.text()
         console.error('[OpenAI Realtime] Token error:', errText)
@@ -311,11 +296,11 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
       onError?.(err instanceof Error ? err : new Error('Failed to start session'))
       return false
     }
-  }, [cleanup, isConnected, onPartialTranscript, onCommittedTranscript, onSessionStarted, onError, onDisconnect, startAudioCapture])
+  }, [cleanup, language, onPartialTranscript, onCommittedTranscript, onSessionStarted, onError, onDisconnect, startAudioCapture])
 
   // START listening - begins sending audio to OpenAI (billing starts)
   const startListening = useCallback(() => {
-    if (!isConnected) {
+    if (!isConnectedRef.current) {
       console.warn('[OpenAI Realtime] Cannot start listening - not connected')
       return false
     }
@@ -351,7 +336,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
 
     console.log('[OpenAI Realtime] Audio sending enabled + 3s commit interval started')
     return true
-  }, [isConnected])
+  }, [])
 
   // PAUSE listening - stops sending audio to OpenAI (billing stops)
   const pauseListening = useCallback(() => {
@@ -375,13 +360,14 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
   }, [])
 
   // Update Whisper prompt to bias transcription toward expected line text
-  const updatePrompt = useCallback((expectedLine: string) => {
+  // (and the script's names and jargon, so they come back spelled as written)
+  const updatePrompt = useCallback((expectedLine: string, lexicon: LexiconTerm[] = []) => {
     const socket = socketRef.current
     if (!socket || socket.readyState !== WebSocket.OPEN) return
 
-    // Prompt = expected line text only — biases Whisper toward the actual words
+    // Prompt = expected line text, then lexicon terms — biases Whisper toward the actual words
     // Do NOT add filler words (umm, hmm) — they cause Whisper to hallucinate fillers
-    const prompt = expectedLine.slice(0, 200)
+    const prompt = lexiconPrompt(lexicon, expectedLine).slice(0, 400)
 
     if (!prompt) return
     console.log('[OpenAI Realtime] Updating prompt:', prompt.slice(0, 60) + '...')
@@ -393,7 +379,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
           input: {
             transcription: {
               model: 'gpt-4o-transcribe',
-              language: 'en',
+              language,
               prompt,
             },
             turn_detection: {
@@ -406,7 +392,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
         },
       },
     }))
-  }, [])
+  }, [language])
 
   // Full disconnect
   const stopSession = useCallback(() => {
@@ -414,51 +400,21 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
     cleanup()
   }, [cleanup])
 
-  // Start recording mic audio for playback (parallel to STT)
-  const startRecording = useCallback(() => {
-    if (!streamRef.current) return false
-    recordingChunksRef.current = []
-
-    // Detect supported codec (webm for Chrome/Android, mp4 for iOS Safari)
-    const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', '']
-    let mimeType = ''
-    for (const c of candidates) {
-      if (!c || MediaRecorder.isTypeSupported(c)) { mimeType = c; break }
-    }
+  // Keyterms go into the prompt - the session takes a prompt per line, not a keyterm list
+  // (which is also why startSession ignores them)
+  const updateKeyterms = useCallback(async (keyterms: string[], hints: RecognitionHints = {}) => {
+    const lexicon = hints.lexicon || keyterms.map((term): LexiconTerm => ({ term, variants: [], source: 'user' }))
+    updatePrompt(hints.expectedLine ? stripLineMarkup(hints.expectedLine) : '', lexicon)
+  }, [updatePrompt])
 
-    try {
-      const options: MediaRecorderOptions = { audioBitsPerSecond: 64000 }
-      if (mimeType) options.mimeType = mimeType
-      const recorder = new MediaRecorder(streamRef.current, options)
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) recordingChunksRef.current.push(e.data)
-      }
-      recorder.start(250) // Collect chunks every 250ms
-      mediaRecorderRef.current = recorder
-      return true
-    } catch (err) {
-      console.warn('[Recording] MediaRecorder error:', err)
-      return false
-    }
-  }, [])
+  // Reconnect after a dropped connection
+  const reconnect = useCallback(() => startSession(), [startSession])
+
+  // Start recording mic audio for playback (parallel to STT)
+  const startRecording = useCallback(() => micRecorderRef.current.start(streamRef.current), [])
 
   // Stop recording and return audio blob
-  const stopRecording = useCallback((): Promise<Blob | null> => {
-    const recorder = mediaRecorderRef.current
-    if (!recorder || recorder.state === 'inactive') {
-      return Promise.resolve(null)
-    }
-    return new Promise<Blob | null>((resolve) => {
-      recorder.onstop = () => {
-        const mt = recorder.mimeType || 'audio/webm'
-        const blob = new Blob(recordingChunksRef.current, { type: mt })
-        recordingChunksRef.current = []
-        mediaRecorderRef.current = null
-        resolve(blob)
-      }
-      recorder.stop()
-    })
-  }, [])
+  const stopRecording = useCallback(() => micRecorderRef.current.stop(), [])
 
   // Check connection using ref (never stale in closures)
   const checkConnected = useCallback(() => {
@@ -466,6 +422,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
   }, [])
 
   return {
+    id: 'openai',
     isConnected,
     isListening,
     startSession,    // Connect to OpenAI (but don't send audio yet)
@@ -473,6 +430,8 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}) {
     pauseListening,  // Stop sending audio (billing stops, connection kept)
     stopSession,     // Full disconnect
     updatePrompt,    // Update Whisper prompt for expected line (instant, no reconnect!)
+    updateKeyterms,  // Same, from keyterms and hints
+    reconnect,       // New session after a dropped connection
     checkConnected,  // Ref-based connection check (never stale)
     startRecording,  // Start recording mic for playback
     stopRecording,   // Stop recording and get audio blob
@@ -0,0 +1,32 @@
+// The speech recognition provider picked in settings
+//
+// Every provider hook is called on every render (hooks can't be conditional) but
+// they're idle until startSession, so only the selected one ever connects.
+// Switching provider closes the previous one's session.
+
+import { useEffect } from 'react'
+import type { SpeechRecognitionOptions, SpeechRecognitionProvider, SttProviderId } from '@/lib/stt'
+import { useDeepgram } from './useDeepgram'
+import { useOpenAIRealtime } from './useOpenAIRealtime'
+import { useWebSpeech } from './useWebSpeech'
+import { useOfflineSpeech } from './useOfflineSpeech'
+import { useMockSpeech } from './useMockSpeech'
+
+export function useSpeechRecognition(
+  provider: SttProviderId,
+  options: SpeechRecognitionOptions = {}
+): SpeechRecognitionProvider {
+  const providers: Record<SttProviderId, SpeechRecognitionProvider> = {
+    deepgram: useDeepgram(options),
+    openai: useOpenAIRealtime(options),
+    webspeech: useWebSpeech(options),
+    offline: useOfflineSpeech(options),
+    mock: useMockSpeech(options),
+  }
+  const active = providers[provider] || providers.deepgram
+
+  const stopActive = active.stopSession
+  useEffect(() => () => stopActive(), [stopActive])
+
+  return active
+}
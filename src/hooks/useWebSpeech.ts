@@ -1,132 +1,188 @@
-// Web Speech API hook - simple, free, built-in end-of-speech detection
-import { useState, useRef, useCallback, useEffect } from 'react'
-
-interface UseWebSpeechOptions {
-  onResult?: (transcript: string, isFinal: boolean) => void
-  onEnd?: (finalTranscript: string) => void
-  onError?: (error: string) => void
-  language?: string
-  continuous?: boolean
-}
-
-interface UseWebSpeechReturn {
-  isListening: boolean
-  transcript: string
-  startListening: () => void
-  stopListening: () => void
-  isSupported: boolean
+// Web Speech API - the browser's built-in recognition, free and keyless
+//
+// Fits the streaming provider shape: a "session" is mic access plus a recognizer,
+// results are only passed on while listening, and each recognizer result is
+// reported as an interim (speech since the last final) or a final chunk.
+// No word timings or keyterms - the API doesn't expose them reliably.
+// Recognition ends on its own after silence, so it's restarted while listening.
+
+import { useState, useRef, useCallback } from 'react'
+import { createMicRecorder } from '@/lib/micRecorder'
+import type { SpeechRecognitionOptions, SpeechRecognitionProvider } from '@/lib/stt'
+
+export function isWebSpeechSupported() {
+  return typeof window !== 'undefined' &&
+    ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)
 }
 
-export function useWebSpeech(options: UseWebSpeechOptions = {}): UseWebSpeechReturn {
+export function useWebSpeech(options: SpeechRecognitionOptions = {}): SpeechRecognitionProvider {
   const {
-    onResult,
-    onEnd,
+    onSessionStarted,
     onError,
     language = 'en-US',
-    continuous = false,
   } = options
 
+  const [isConnected, setIsConnected] = useState(false)
   const [isListening, setIsListening] = useState(false)
-  const [transcript, setTranscript] = useState('')
-  const recognitionRef = useRef<any>(null)
-  const finalTranscriptRef = useRef('')
 
-  // Check browser support
-  const isSupported = typeof window !== 'undefined' && 
-    ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window)
-
-  useEffect(() => {
-    if (!isSupported) return
-
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
-    const recognition = new SpeechRecognition()
-    
-    recognition.continuous = continuous
-    recognition.interimResults = true
-    recognition.lang = language
-
-    recognition.onstart = () => {
-      console.log('[WebSpeech] Started listening')
-      setIsListening(true)
-      finalTranscriptRef.current = ''
-      setTranscript('')
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const recognitionRef = useRef<any>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const isConnectedRef = useRef(false)
+  const listeningRef = useRef(false)
+  const micRecorderRef = useRef(createMicRecorder())
+
+  // Callbacks change every render - read them through a ref from recognizer events
+  const callbacksRef = useRef(options)
+  callbacksRef.current = options
+
+  const cleanup = useCallback(() => {
+    console.log('[WebSpeech] Cleanup called')
+    listeningRef.current = false
+    isConnectedRef.current = false
+    micRecorderRef.current.cancel()
+    if (recognitionRef.current) {
+      recognitionRef.current.onend = null
+      recognitionRef.current.abort()
+      recognitionRef.current = null
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop())
+      streamRef.current = null
+    }
+    setIsConnected(false)
+    setIsListening(false)
+  }, [])
+
+  const startSession = useCallback(async () => {
+    if (isConnectedRef.current) return true
+    if (!isWebSpeechSupported()) {
+      onError?.(new Error('Speech recognition is not supported in this browser'))
+      return false
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    recognition.onresult = (event: any) => {
-      let interim = ''
-      let final = ''
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i]
-        if (result.isFinal) {
-          final += result[0].transcript
-        } else {
-          interim += result[0].transcript
+    try {
+      cleanup()
+
+      // Mic stream for recording and permission - recognition opens its own
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true })
+
+      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+      const recognition = new SpeechRecognition()
+      recognition.continuous = true
+      recognition.interimResults = true
+      recognition.lang = language
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      recognition.onresult = (event: any) => {
+        if (!listeningRef.current) return
+        let interim = ''
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i]
+          const text = result[0].transcript.trim()
+          if (!text) continue
+          if (result.isFinal) {
+            console.log('[WebSpeech] Final:', text)
+            callbacksRef.current.onCommittedTranscript?.({ text, words: [] })
+          } else {
+            interim = interim ? `${interim} ${text}` : text
+          }
         }
+        if (interim) callbacksRef.current.onPartialTranscript?.({ text: interim, words: [] })
       }
 
-      if (final) {
-        finalTranscriptRef.current += final
+      // Ends by itself after a pause - carry on while the line is still being listened for
+      recognition.onend = () => {
+        if (!listeningRef.current || recognitionRef.current !== recognition) return
+        try {
+          recognition.start()
+        } catch (e) {
+          console.error('[WebSpeech] Restart error:', e)
+        }
       }
 
-      const currentTranscript = finalTranscriptRef.current + interim
-      setTranscript(currentTranscript)
-      console.log('[WebSpeech] Result:', currentTranscript, 'isFinal:', !!final)
-      
-      onResult?.(currentTranscript, !!final)
-    }
-
-    recognition.onend = () => {
-      console.log('[WebSpeech] Ended, final transcript:', finalTranscriptRef.current || transcript)
-      setIsListening(false)
-      onEnd?.(finalTranscriptRef.current || transcript)
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    recognition.onerror = (event: any) => {
-      console.error('[WebSpeech] Error:', event.error)
-      setIsListening(false)
-      if (event.error !== 'no-speech' && event.error !== 'aborted') {
-        onError?.(event.error)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      recognition.onerror = (event: any) => {
+        if (event.error === 'no-speech' || event.error === 'aborted') return
+        console.error('[WebSpeech] Error:', event.error)
+        callbacksRef.current.onError?.(new Error(event.error))
+        if (event.error === 'not-allowed' || event.error === 'network') {
+          cleanup()
+          callbacksRef.current.onDisconnect?.()
+        }
       }
-    }
 
-    recognitionRef.current = recognition
-
-    return () => {
-      recognition.abort()
+      recognitionRef.current = recognition
+      isConnectedRef.current = true
+      setIsConnected(true)
+      console.log('[WebSpeech] Ready (recognition starts with startListening)')
+      onSessionStarted?.()
+      return true
+    } catch (err) {
+      console.error('[WebSpeech] Start error:', err)
+      onError?.(err instanceof Error ? err : new Error('Failed to start session'))
+      return false
     }
-  }, [isSupported, language, continuous, onResult, onEnd, onError, transcript])
+  }, [cleanup, language, onError, onSessionStarted])
 
   const startListening = useCallback(() => {
-    if (!recognitionRef.current || isListening) return
-    
-    try {
-      finalTranscriptRef.current = ''
-      setTranscript('')
-      recognitionRef.current.start()
-    } catch (e) {
-      console.error('[WebSpeech] Start error:', e)
+    const recognition = recognitionRef.current
+    if (!isConnectedRef.current || !recognition) {
+      console.warn('[WebSpeech] Cannot start listening - not connected')
+      return false
     }
-  }, [isListening])
-
-  const stopListening = useCallback(() => {
-    if (!recognitionRef.current || !isListening) return
-    
+    if (listeningRef.current) return true
     try {
-      recognitionRef.current.stop()
+      recognition.start()
     } catch (e) {
-      console.error('[WebSpeech] Stop error:', e)
+      // Still stopping from a pause - onend restarts it now that we're listening
+      console.warn('[WebSpeech] Start error:', e)
     }
-  }, [isListening])
+    listeningRef.current = true
+    setIsListening(true)
+    return true
+  }, [])
+
+  const pauseListening = useCallback(() => {
+    listeningRef.current = false
+    setIsListening(false)
+    try {
+      recognitionRef.current?.stop()
+    } catch (_) { /* not started */ }
+  }, [])
+
+  const stopSession = useCallback(() => {
+    console.log('[WebSpeech] Stopping session completely...')
+    cleanup()
+  }, [cleanup])
+
+  // Keyterms aren't supported by the API (SpeechGrammarList is ignored by browsers)
+  const updateKeyterms = useCallback(async () => {}, [])
+
+  const reconnect = useCallback(() => {
+    cleanup()
+    return startSession()
+  }, [cleanup, startSession])
+
+  const checkConnected = useCallback(() => isConnectedRef.current, [])
+
+  const startRecording = useCallback(() => micRecorderRef.current.start(streamRef.current), [])
+
+  const stopRecording = useCallback(() => micRecorderRef.current.stop(), [])
 
   return {
+    id: 'webspeech',
+    isConnected,
     isListening,
-    transcript,
-    startListening,
-    stopListening,
-    isSupported,
+    startSession,      // Mic access + recognizer (recognition starts with startListening)
+    startListening,     // Start recognition
+    pauseListening,     // Stop recognition, keep the recognizer
+    stopSession,        // Full disconnect
+    updateKeyterms,     // No-op
+    reconnect,          // Fresh recognizer
+    checkConnected,     // Ref-based connection check (never stale)
+    startRecording,     // Start recording mic for playback
+    stopRecording,      // Stop recording and get audio blob
   }
 }
 
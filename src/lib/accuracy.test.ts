@@ -5,6 +5,20 @@ import {
   getLockedWordMatch,
   getWordByWordResults,
   createFreshLockedState,
+  getAccuracyProfile,
+  getSubsequenceWordMatch,
+  listAccuracyProfiles,
+  matchEquivalence,
+  verbalize,
+  AccuracyProfile,
+  buildLexiconIndex,
+  doubleMetaphone,
+  phoneticSimilarity,
+  nameMatchConfidence,
+  resolveLanguage,
+  splitLineRegions,
+  parseLineMarkup,
+  markLineRegions,
 } from './accuracy'
 
 // ============================================================================
@@ -724,3 +738,434 @@ describe('realistic practice scenarios', () => {
     expect(r.isCorrect).toBe(true)
   })
 })
+
+// ============================================================================
+// Accuracy profiles
+// ============================================================================
+
+describe('accuracy profiles', () => {
+  const standard = getAccuracyProfile('standard')
+  const verbatim = getAccuracyProfile('verbatim')
+  const paraphrase = getAccuracyProfile('paraphrase')
+  const offBook = getAccuracyProfile('off-book')
+
+  it('falls back to the standard profile for unknown ids', () => {
+    expect(getAccuracyProfile('nope').id).toBe('standard')
+    expect(getAccuracyProfile(undefined).id).toBe('standard')
+  })
+
+  it('lets user edits override built-ins and lists custom profiles last', () => {
+    const edited: AccuracyProfile = { ...standard, passThreshold: 80 }
+    const custom: AccuracyProfile = { ...verbatim, id: 'mine', name: 'Mine' }
+    expect(getAccuracyProfile('standard', [edited]).passThreshold).toBe(80)
+    expect(listAccuracyProfiles([custom, edited]).map(p => p.id)).toEqual(['standard', 'verbatim', 'paraphrase', 'off-book', 'mine'])
+  })
+
+  it('strictMode true behaves like the off-book profile', () => {
+    const expected = 'I went to the store and bought some bread and milk and cheese'
+    const spoken = 'I went to the store and bought bread and milk and cheese'
+    expect(checkAccuracy(expected, spoken, true)).toEqual(checkAccuracy(expected, spoken, offBook))
+    expect(checkAccuracy(expected, spoken, false)).toEqual(checkAccuracy(expected, spoken, standard))
+  })
+
+  it('accepts spoken-out contractions only when the profile allows them', () => {
+    expect(checkAccuracy("I won't go", 'I will not go', offBook).isCorrect).toBe(false)
+    expect(checkAccuracy("I won't go", 'I will not go', paraphrase).isCorrect).toBe(true)
+    expect(checkAccuracy('I will not go', "I won't go", paraphrase).isCorrect).toBe(true)
+  })
+
+  it('counts fillers when the profile asks for verbatim delivery', () => {
+    expect(checkAccuracy('I know what you mean', 'um I know what you mean', offBook).isCorrect).toBe(true)
+    expect(checkAccuracy('I know what you mean', 'um I know what you mean', verbatim).isCorrect).toBe(false)
+    // Scripted "well" is a real word in verbatim; a scripted sigh never has to be said
+    expect(checkAccuracy('Well I know what you mean', 'I know what you mean', verbatim).isCorrect).toBe(false)
+    expect(checkAccuracy('sighs I know what you mean', 'I know what you mean', verbatim).isCorrect).toBe(true)
+  })
+
+  it('lets paraphrase profiles swap a word without failing', () => {
+    const r = checkAccuracy('I love the big old house', 'I adore the big old house', paraphrase)
+    expect(r.wrongWords.length).toBe(1)
+    expect(r.isCorrect).toBe(true)
+    expect(checkAccuracy('I love the big old house', 'I adore the big old house', standard).isCorrect).toBe(false)
+  })
+
+  it('applies the profile pass threshold', () => {
+    // 5 words, 1 missing → 80%
+    const lenient: AccuracyProfile = { ...standard, passThreshold: 80 }
+    expect(checkAccuracy('I am going home now', 'I am going home', standard).isCorrect).toBe(false)
+    expect(checkAccuracy('I am going home now', 'I am going home', lenient).isCorrect).toBe(true)
+  })
+
+  it('tightens name matching with proper-noun fuzziness', () => {
+    expect(checkAccuracy('Call Kowalski now', 'call kovalski now', standard).isCorrect).toBe(true)
+    expect(checkAccuracy('Call Kowalski now', 'call kovalski now', verbatim).isCorrect).toBe(false)
+  })
+
+  it('drives locked and word-by-word matching', () => {
+    const locked = getLockedWordMatch("I won't go", 'i will not go', null, undefined, paraphrase)
+    expect(locked).toMatchObject({ lockedCount: 3, hasError: false })
+    // Live matching locks a paraphrase under any profile; the final check reports it
+    expect(getLockedWordMatch("I won't go", 'i will not go', null).hasError).toBe(false)
+    // A half-spoken expansion waits for the next word instead of failing
+    expect(getLockedWordMatch("I won't go", 'i will', null, undefined, paraphrase)).toMatchObject({ lockedCount: 1, hasError: false })
+
+    expect(getWordByWordResults('Well I know', 'I know', undefined, verbatim).results[0]).toBe('wrong')
+    expect(getWordByWordResults('Well I know', 'I know').results).toEqual(['correct', 'correct', 'correct'])
+  })
+})
+
+// ============================================================================
+// Token equivalence engine
+// ============================================================================
+
+describe('verbalize', () => {
+  it('says numbers, money and percentages', () => {
+    expect(verbalize('1500')).toEqual(expect.arrayContaining(['one thousand five hundred', 'fifteen hundred']))
+    expect(verbalize('$1,500')).toContain('fifteen hundred dollars')
+    expect(verbalize('$2.50')).toEqual(expect.arrayContaining(['two dollars and fifty cents', 'two fifty']))
+    expect(verbalize('50%')).toContain('fifty percent')
+    expect(verbalize('2.5')).toEqual(['two point five'])
+    expect(verbalize('21st')).toEqual(['twenty first'])
+  })
+
+  it('says times, dates and years', () => {
+    expect(verbalize('9:30')).toEqual(['nine thirty', 'half past nine', 'half nine'])
+    expect(verbalize('10:45')).toContain('quarter to eleven')
+    expect(verbalize('3/14')).toEqual(expect.arrayContaining(['march fourteenth', 'the fourteenth of march']))
+    // Day-first dates are read both ways when they could be either
+    expect(verbalize('4/5')).toEqual(expect.arrayContaining(['april fifth', 'the fourth of may']))
+    expect(verbalize('1990')).toContain('nineteen ninety')
+    expect(verbalize('1905')).toContain('nineteen oh five')
+  })
+
+  it('leaves words alone', () => {
+    expect(verbalize('hello')).toEqual([])
+  })
+})
+
+describe('matchEquivalence', () => {
+  const words = (text: string) => text.split(' ')
+
+  it('matches phrasings of different lengths in either direction', () => {
+    expect(matchEquivalence(words('gonna win'), 0, words('going to win'), 0)).toEqual({ expected: 1, spoken: 2, kind: 'reduction' })
+    expect(matchEquivalence(words('going to win'), 0, words('gonna win'), 0)).toEqual({ expected: 2, spoken: 1, kind: 'reduction' })
+    expect(matchEquivalence(words('at 9:30'), 1, words('at half past nine'), 1)).toEqual({ expected: 1, spoken: 3, kind: 'number' })
+    expect(matchEquivalence(words('$1,500'), 0, words('1500 dollars'), 0)).toEqual({ expected: 1, spoken: 2, kind: 'number' })
+  })
+
+  it('reports a partial match while the rest is still being spoken', () => {
+    expect(matchEquivalence(words('9:30 sharp'), 0, words('nine'), 0, true)).toBe('partial')
+    expect(matchEquivalence(words('9:30 sharp'), 0, words('nine'), 0)).toBeNull()
+    expect(matchEquivalence(words('old'), 0, words('young'), 0, true)).toBeNull()
+  })
+})
+
+describe('checkAccuracy with equivalents', () => {
+  it('accepts spoken numbers, money, times and dates', () => {
+    expect(checkAccuracy('Be there at 9:30', 'be there at nine thirty', true).isCorrect).toBe(true)
+    expect(checkAccuracy('It cost $1,500 on 3/14', 'it cost fifteen hundred dollars on march fourteenth', true).isCorrect).toBe(true)
+    expect(checkAccuracy('Back in 1990 I was 21', 'back in nineteen ninety I was twenty one', true).isCorrect).toBe(true)
+  })
+
+  it('reports reductions as paraphrase under strict profiles', () => {
+    const r = checkAccuracy("I'm going to be there", "I'm gonna be there", true)
+    expect(r.paraphrasedWords).toEqual(['"gonna" for "going to"'])
+    expect(r.wrongWords).toEqual([])
+    expect(r.missingWords).toEqual([])
+    expect(r.isCorrect).toBe(false)
+  })
+
+  it('accepts reductions when the profile does', () => {
+    const r = checkAccuracy("I'm going to be there", "I'm gonna be there", getAccuracyProfile('paraphrase'))
+    expect(r.paraphrasedWords).toEqual([])
+    expect(r.isCorrect).toBe(true)
+  })
+
+  it('marks paraphrased words in word-by-word results', () => {
+    const r = getWordByWordResults("I'm going to win", "I'm gonna win", undefined, getAccuracyProfile('verbatim'))
+    expect(r.results).toEqual(['correct', 'paraphrase', 'paraphrase', 'correct'])
+    expect(r.spokenWords).toEqual(["i'm", 'gonna', '', 'win'])
+  })
+
+  it('lights up every word an equivalent covers', () => {
+    const r = getSubsequenceWordMatch('Meet me at 9:30 sharp', 'meet me at nine thirty sharp')
+    expect(r.coverage).toBe(1)
+  })
+
+  it('waits for the rest of a spoken number while locking', () => {
+    expect(getLockedWordMatch('Meet me at 9:30 sharp', 'meet me at nine', null)).toMatchObject({ lockedCount: 3, hasError: false })
+    expect(getLockedWordMatch('Meet me at 9:30 sharp', 'meet me at nine thirty sharp', null)).toMatchObject({ lockedCount: 5, hasError: false })
+  })
+})
+
+
+// ============================================================================
+// Alignment
+// ============================================================================
+
+describe('checkAccuracy alignment', () => {
+  const ops = (expected: string, spoken: string, profile: AccuracyProfile | boolean = false) =>
+    checkAccuracy(expected, spoken, profile).alignment.map(op => [op.type, op.expected.text, op.spoken.text])
+
+  it('matches every word of an exact read', () => {
+    expect(ops('Go home', 'go home')).toEqual([['match', 'go', 'go'], ['match', 'home', 'home']])
+  })
+
+  it('records substitutions, insertions and deletions with spans in both texts', () => {
+    expect(ops('The old man went home', 'the young man went home')).toContainEqual(['substitute', 'old', 'young'])
+    expect(ops('I went home yesterday', 'I went straight home yesterday')).toContainEqual(['insert', '', 'straight'])
+    expect(ops('I really went home', 'I went home')).toContainEqual(['delete', 'really', ''])
+
+    const r = checkAccuracy('I really went home', 'I went home')
+    expect(r.missingWords).toEqual(['really'])
+    expect(r.extraWords).toEqual([])
+    expect(r.alignment[1]).toMatchObject({ expected: { start: 1, end: 2 }, spoken: { start: 1, end: 1 } })
+  })
+
+  it('reports a reordered phrase as one transposition', () => {
+    const r = checkAccuracy('Pass the salt and pepper please', 'pass the pepper and salt please', true)
+    expect(r.alignment.map(op => op.type)).toEqual(['match', 'match', 'transpose', 'match'])
+    expect(r.alignment[2]).toEqual({
+      type: 'transpose',
+      expected: { start: 2, end: 5, text: 'salt and pepper' },
+      spoken: { start: 2, end: 5, text: 'pepper and salt' },
+    })
+    expect(r.wrongWords).toEqual([])
+    expect(r.accuracy).toBe(100)
+    expect(r.isCorrect).toBe(false)
+  })
+
+  it('lets the standard profile pass a single transposition', () => {
+    const r = checkAccuracy('I never said that I loved you', 'I never said that you I loved')
+    expect(r.alignment.some(op => op.type === 'transpose')).toBe(true)
+    expect(checkAccuracy('Pass the salt and pepper please', 'pass the pepper and salt please').isCorrect).toBe(true)
+  })
+
+  it('records unaccepted equivalents as paraphrase', () => {
+    expect(ops("I'm going to win", "I'm gonna win", true)).toEqual([
+      ['match', "i'm", "i'm"],
+      ['paraphrase', 'going to', 'gonna'],
+      ['match', 'win', 'win'],
+    ])
+    expect(ops("I'm going to win", "I'm gonna win", getAccuracyProfile('paraphrase'))[1][0]).toBe('match')
+  })
+})
+
+describe('getWordByWordResults transpositions', () => {
+  it('marks swapped words as transposed instead of wrong', () => {
+    expect(getWordByWordResults('salt and pepper', 'pepper and salt').results).toEqual(['transposed', 'correct', 'transposed'])
+    expect(getWordByWordResults('go home now', 'now go home').results).toEqual(['transposed', 'transposed', 'transposed'])
+  })
+})
+
+// ============================================================================
+// Script lexicon
+// ============================================================================
+
+describe('lexicon equivalents', () => {
+  const lexicon = buildLexiconIndex([
+    { term: 'Okafor', variants: ['oh car for', 'okra'] },
+    { term: 'Dr. Nakamura-Reyes', variants: ['doctor nakamura raise'] },
+    { term: 'tachycardia', variants: ['tacky cardia'] },
+  ])
+
+  it('indexes normalised terms and variants', () => {
+    expect(lexicon.get('okafor')).toEqual(['oh car for', 'okra'])
+    expect(lexicon.get('dr nakamura reyes')).toEqual(['doctor nakamura raise'])
+  })
+
+  it('accepts variants as the term in checkAccuracy, even off-book', () => {
+    expect(checkAccuracy('Page Okafor now', 'page oh car for now', true).isCorrect).toBe(false)
+    const r = checkAccuracy('Page Okafor now', 'page oh car for now', true, undefined, lexicon)
+    expect(r.isCorrect).toBe(true)
+    expect(r.alignment[1]).toMatchObject({ type: 'match', expected: { text: 'okafor' }, spoken: { text: 'oh car for' } })
+    expect(checkAccuracy("He's in tachycardia", "he's in tacky cardia", true, undefined, lexicon).isCorrect).toBe(true)
+    expect(checkAccuracy('Call Dr. Nakamura-Reyes', 'call doctor nakamura raise', true, undefined, lexicon).isCorrect).toBe(true)
+  })
+
+  it('locks lexicon variants while streaming', () => {
+    expect(getLockedWordMatch('Page Okafor now', 'page oh car', null, undefined, undefined, lexicon)).toMatchObject({ lockedCount: 1, hasError: false })
+    expect(getLockedWordMatch('Page Okafor now', 'page oh car for now', null, undefined, undefined, lexicon)).toMatchObject({ lockedCount: 3, hasError: false })
+  })
+
+  it('marks variants correct word by word', () => {
+    expect(getWordByWordResults('Page Okafor now', 'page okra now', undefined, undefined, lexicon).results).toEqual(['correct', 'correct', 'correct'])
+  })
+})
+
+
+// ============================================================================
+// Name matching benchmark
+// ============================================================================
+
+// Names as written in scripts, and what speech-to-text returned for them
+const HEARD_AS = [
+  ['katherine', 'catherine'], ['catherine', 'kathryn'], ['sean', 'shawn'], ['sean', 'shaun'],
+  ['stephen', 'steven'], ['jon', 'john'], ['aaron', 'erin'], ['philip', 'phillip'], ['geoff', 'jeff'],
+  ['zoe', 'zoey'], ['mackenzie', 'mckenzie'], ['kowalski', 'kovalski'], ['schmidt', 'smith'],
+  ['thompson', 'tomson'], ['caitlin', 'kaitlyn'], ['bryan', 'brian'], ['alistair', 'alastair'],
+  ['theresa', 'teresa'], ['lindsay', 'lindsey'], ['rachael', 'rachel'], ['sarah', 'sara'], ['carl', 'karl'],
+  ['eric', 'erik'], ['nicholas', 'nicolas'], ['okafor', 'okefor'], ['siobhan', 'shivaun'], ['niamh', 'neve'],
+  ['chloe', 'cloey'], ['xavier', 'zavier'], ['jose', 'hosay'], ['graham', 'gram'], ['leigh', 'lee'],
+  ['marc', 'mark'], ['ian', 'ean'], ['deirdre', 'deedra'],
+]
+
+// A different name was said - these must not pass
+const OTHER_NAME = [
+  ['tim', 'tom'], ['ben', 'dan'], ['mark', 'mike'], ['john', 'joan'], ['jack', 'jake'], ['max', 'mac'],
+  ['ella', 'ellen'], ['lisa', 'lily'], ['adam', 'aidan'], ['amy', 'emma'], ['sam', 'sara'], ['anna', 'hannah'],
+  ['paul', 'pam'], ['leo', 'lee'], ['kate', 'kit'], ['rob', 'rod'], ['nick', 'mick'], ['jill', 'jim'],
+  ['carl', 'karen'], ['eric', 'erin'], ['sean', 'sam'], ['nina', 'nora'], ['maria', 'mario'], ['dana', 'diana'],
+]
+
+describe('name matching benchmark', () => {
+  const threshold = getAccuracyProfile('standard').properNounSimilarity
+  const accepted = (pairs: string[][]) => pairs.filter(([a, b]) => nameMatchConfidence(a, b) >= threshold).length
+
+  it('encodes Double Metaphone primary and alternate codes', () => {
+    expect(doubleMetaphone('Catherine')).toEqual(['K0RN', 'KTRN'])
+    expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT'])
+    expect(doubleMetaphone('Rogier')).toEqual(['RJ', 'RKR'])
+    expect(doubleMetaphone('Filipowicz')).toEqual(['FLPTS', 'FLPFX'])
+  })
+
+  it('scores how alike two words sound', () => {
+    expect(phoneticSimilarity('catherine', 'kathryn')).toBe(1)
+    expect(phoneticSimilarity('nicholas', 'nicolas')).toBe(0.9) // Alternate code only
+    expect(phoneticSimilarity('tim', 'tom')).toBeLessThan(1) // Two-letter codes say little
+    expect(phoneticSimilarity('ben', 'dan')).toBeLessThan(0.5)
+  })
+
+  it('accepts most real misrecognitions of a name', () => {
+    expect(accepted(HEARD_AS) / HEARD_AS.length).toBeGreaterThanOrEqual(0.7)
+  })
+
+  it('rejects nearly all different names', () => {
+    expect(accepted(OTHER_NAME) / OTHER_NAME.length).toBeLessThanOrEqual(0.15)
+  })
+
+  it('keeps sound-alike short names apart in a line', () => {
+    expect(checkAccuracy('Tell Tim I said so', 'tell tom i said so').isCorrect).toBe(false)
+    expect(checkAccuracy('Tell Catherine I said so', 'tell kathryn i said so').isCorrect).toBe(true)
+  })
+})
+
+// ============================================================================
+// Non-English scripts
+// ============================================================================
+
+describe('non-English scripts', () => {
+  it('keeps accents and tone marks instead of stripping them', () => {
+    expect(checkAccuracy('Anh có khỏe không?', 'anh có khỏe không', undefined, undefined, undefined, 'vi').isCorrect).toBe(true)
+    expect(checkAccuracy('Café au lait, s’il vous plaît.', "café au lait s'il vous plaît", undefined, undefined, undefined, 'fr').isCorrect).toBe(true)
+  })
+
+  it('treats a different tone as a different Vietnamese word', () => {
+    const r = checkAccuracy('Tôi đi chợ mà.', 'tôi đi chợ má', undefined, undefined, undefined, 'vi')
+    expect(r.isCorrect).toBe(false)
+    expect(r.wrongWords).toEqual(['"má" instead of "mà"'])
+  })
+
+  it('reads old and new tone-mark placement as the same word', () => {
+    expect(checkAccuracy('Hóa đơn đây.', 'hoá đơn đây', undefined, undefined, undefined, 'vi').isCorrect).toBe(true)
+  })
+
+  it('splits unspaced scripts into words', () => {
+    expect(checkAccuracy('我们今天去北京。', '我们今天去北京', undefined, undefined, undefined, 'zh').isCorrect).toBe(true)
+    expect(getWordByWordResults('我们今天去北京', '我们明天去北京', undefined, undefined, undefined, 'zh').results)
+      .toEqual(['correct', 'wrong', 'correct', 'correct'])
+  })
+
+  it('uses the language\'s fillers and equivalents', () => {
+    expect(checkAccuracy('Anh không biết.', 'ừ anh ko biết', undefined, undefined, undefined, 'vi').isCorrect).toBe(true)
+    expect(checkAccuracy('Vamos para la casa.', 'eh vamos pa la casa', undefined, undefined, undefined, 'es').isCorrect).toBe(true)
+    expect(checkAccuracy('あのー、今日は東京に行きます。', '今日は東京に行きます', undefined, undefined, undefined, 'ja').isCorrect).toBe(true)
+    expect(getLockedWordMatch('Tôi không biết', 'tôi ko', null, undefined, undefined, undefined, 'vi-VN').lockedCount).toBe(2)
+  })
+
+  it('treats contractions in other languages as an acting choice', () => {
+    const r = checkAccuracy('Das gibt es nicht.', "das gibt's nicht", getAccuracyProfile('verbatim'), undefined, undefined, 'de')
+    expect(r.isCorrect).toBe(false)
+    expect(r.paraphrasedWords).toEqual([`"gibt's" for "gibt es"`])
+  })
+
+  it('picks the language from the script or its accent hint', () => {
+    expect(resolveLanguage('fr', 'en-AU')).toBe('fr')
+    expect(resolveLanguage(null, 'vi-VN')).toBe('vi')
+    expect(resolveLanguage(undefined, 'british')).toBe('en')
+    expect(resolveLanguage()).toBe('en')
+  })
+})
+
+describe('line regions', () => {
+  it('splits a line into written text and marked regions', () => {
+    expect(splitLineRegions("Get in. {Come on} We're [really] late / so go")).toEqual([
+      { kind: null, text: 'Get in. ' },
+      { kind: 'adlib', text: 'Come on' },
+      { kind: null, text: " We're " },
+      { kind: 'optional', text: 'really' },
+      { kind: null, text: ' late ' },
+      { kind: 'overlap', text: ' so go' },
+    ])
+    expect(splitLineRegions('Run. {}')).toEqual([{ kind: null, text: 'Run. ' }, { kind: 'adlib', text: '' }])
+  })
+
+  it('reads a closing dash as a cut-off last word, and keeps slashes in dates', () => {
+    expect(splitLineRegions('I was going to tell you--')).toEqual([
+      { kind: null, text: 'I was going to tell ' },
+      { kind: 'overlap', text: 'you--' },
+    ])
+    expect(splitLineRegions('It was 3/14.')).toEqual([{ kind: null, text: 'It was 3/14.' }])
+    expect(splitLineRegions('Cash and/or cards.')).toEqual([{ kind: null, text: 'Cash and/or cards.' }])
+  })
+
+  it('stores the words apart from the markup, and marks them up again the same way', () => {
+    const markup = "Get in. {Come on} We're [really] late / so go /"
+    const line = parseLineMarkup(markup)
+    expect(line).toEqual({
+      content: "Get in. Come on We're really late so go",
+      regions: [
+        { kind: 'adlib', start: 8, end: 15 },
+        { kind: 'optional', start: 22, end: 28 },
+        { kind: 'overlap', start: 34, end: 39 },
+      ],
+    })
+    expect(markLineRegions(line.content, line.regions)).toBe(markup)
+    expect(parseLineMarkup('Long time. {} Anyway.')).toEqual({ content: 'Long time. Anyway.', regions: [{ kind: 'adlib', start: 11, end: 11 }] })
+    expect(markLineRegions('Long time. Anyway.', [{ kind: 'adlib', start: 11, end: 11 }])).toBe('Long time. {} Anyway.')
+  })
+
+  it('reads brackets and slashes in a stored line as words unless they are stored regions', () => {
+    const markup = markLineRegions('Wait [beat] for me / please.')
+    expect(markup).toBe('Wait \\[beat\\] for me \\/ please.')
+    expect(splitLineRegions(markup)).toEqual([{ kind: null, text: 'Wait [beat] for me / please.' }])
+    // Not an overlap cue, so the end of the line still counts
+    expect(checkAccuracy(markup, 'wait beat for me').missingWords).toEqual(['please'])
+    expect(checkAccuracy('Wait for me / please.', 'wait for me').missingWords).toEqual([])
+  })
+
+  it('lets anything, or nothing, stand in for an ad-lib', () => {
+    const line = "Get in the car. {Come on, hurry up} We're late."
+    expect(checkAccuracy(line, "get in the car quick quick move it we're late").isCorrect).toBe(true)
+    expect(checkAccuracy(line, "get in the car we're late").accuracy).toBe(100)
+    expect(checkAccuracy('Get in the car. {}', 'get in the car oh man what a day').extraWords).toEqual([])
+    expect(checkAccuracy(line, 'get in the car come on we are late').isCorrect).toBe(true)
+    // The line never picked up again
+    expect(checkAccuracy(line, 'get in the car quick move it')).toMatchObject({ missingWords: ["we're", 'late'], extraWords: [] })
+  })
+
+  it('takes optional words either way, but not as other words', () => {
+    const line = 'I [really] need this job.'
+    expect(checkAccuracy(line, 'i need this job').accuracy).toBe(100)
+    expect(checkAccuracy(line, 'i really need this job').accuracy).toBe(100)
+    expect(checkAccuracy(line, 'i truly need this job').extraWords).toEqual(['truly'])
+  })
+
+  it('scores overlap cues loosely', () => {
+    const line = 'I told you I would / never go back there.'
+    expect(checkAccuracy(line, 'i told you i would').isCorrect).toBe(true)
+    expect(checkAccuracy(line, 'i told you i would never go hey what are you').extraWords).toEqual([])
+    expect(checkAccuracy('I was going to tell you--', 'i was going to tell').isCorrect).toBe(true)
+    expect(checkAccuracy('I was going to tell you--', 'i was going to').missingWords).toEqual(['tell'])
+  })
+})
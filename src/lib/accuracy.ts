@@ -116,6 +116,478 @@ function soundex(word: string): string {
   return (code + '000').slice(0, 4)
 }
 
+// ============================================================================
+// DOUBLE METAPHONE
+// Lawrence Philips' encoder: a primary and an alternate code per word, covering
+// Germanic, Slavic, Romance and Greek spellings that soundex lumps together
+// ============================================================================
+
+const SLAVO_GERMANIC = /W|K|CZ|WITZ/
+
+function isVowel(c: string): boolean {
+  return c !== '' && 'AEIOUY'.includes(c)
+}
+
+/**
+ * Double Metaphone codes for a word: [primary, alternate]
+ * Codes aren't cut to four characters - the whole name counts when comparing.
+ */
+export function doubleMetaphone(word: string): [string, string] {
+  const value = word.toUpperCase().replace(/[^A-Z]/g, '')
+  const length = value.length
+  const last = length - 1
+  const slavoGermanic = SLAVO_GERMANIC.test(value)
+  const germanic = /^(VAN|VON|SCH)/.test(value)
+
+  const at = (i: number) => (i < 0 ? '' : value.charAt(i))
+  const sub = (start: number, count: number) => (start < 0 ? '' : value.slice(start, start + count))
+  const isAny = (text: string, ...options: string[]) => text !== '' && options.includes(text)
+
+  let primary = ''
+  let alternate = ''
+  const add = (main: string, alt = main) => {
+    primary += main
+    alternate += alt
+  }
+
+  let index = 0
+  // Silent first letter: GNOME, KNIGHT, PNEUMONIA, WRITE, PSALM
+  if (isAny(sub(0, 2), 'GN', 'KN', 'PN', 'WR', 'PS')) index++
+  // Initial X sounds like S: XAVIER
+  if (at(0) === 'X') {
+    add('S')
+    index++
+  }
+
+  while (index < length) {
+    const c = at(index)
+    const prev = at(index - 1)
+    const next = at(index + 1)
+
+    switch (c) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Vowels only count at the start
+        if (index === 0) add('A')
+        index++
+        break
+
+      case 'B':
+        add('P')
+        index += next === 'B' ? 2 : 1
+        break
+
+      case 'C':
+        // Germanic: BACHER, MACHER
+        if (index > 1 && !isVowel(at(index - 2)) && sub(index - 1, 3) === 'ACH' &&
+            at(index + 2) !== 'I' && (at(index + 2) !== 'E' || isAny(sub(index - 2, 6), 'BACHER', 'MACHER'))) {
+          add('K')
+          index += 2
+          break
+        }
+        if (index === 0 && sub(0, 6) === 'CAESAR') {
+          add('S')
+          index += 2
+          break
+        }
+        // Italian: CHIANTI
+        if (sub(index, 4) === 'CHIA') {
+          add('K')
+          index += 2
+          break
+        }
+        if (next === 'H') {
+          // MICHAEL
+          if (index > 0 && sub(index, 4) === 'CHAE') {
+            add('K', 'X')
+            index += 2
+            break
+          }
+          // Greek roots: CHARACTER, CHORUS, CHEMISTRY
+          if (index === 0 && (isAny(sub(1, 5), 'HARAC', 'HARIS') || isAny(sub(1, 3), 'HOR', 'HYM', 'HIA', 'HEM')) &&
+              sub(0, 5) !== 'CHORE') {
+            add('K')
+            index += 2
+            break
+          }
+          // Germanic, Greek or otherwise a hard CH: ORCHESTRA, ARCHITECT, SCHMIDT
+          if (germanic || isAny(sub(index - 2, 6), 'ORCHES', 'ARCHIT', 'ORCHID') || isAny(at(index + 2), 'T', 'S') ||
+              ((isAny(prev, 'A', 'O', 'U', 'E') || index === 0) &&
+               (isAny(at(index + 2), 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W') || index + 1 === last))) {
+            add('K')
+          } else if (index > 0) {
+            if (sub(0, 2) === 'MC') add('K')
+            else add('X', 'K')
+          } else {
+            add('X')
+          }
+          index += 2
+          break
+        }
+        // CZERNY
+        if (next === 'Z' && sub(index - 2, 4) !== 'WICZ') {
+          add('S', 'X')
+          index += 2
+          break
+        }
+        // FOCACCIA
+        if (sub(index + 1, 3) === 'CIA') {
+          add('X')
+          index += 3
+          break
+        }
+        // Double C, but not McCLELLAN
+        if (next === 'C' && !(index === 1 && at(0) === 'M')) {
+          // BELLOCCHIO but not BACCHUS
+          if (isAny(at(index + 2), 'I', 'E', 'H') && sub(index + 2, 2) !== 'HU') {
+            // ACCIDENT, ACCEDE, SUCCEED vs BACCI, BERTUCCI
+            if ((index === 1 && prev === 'A') || isAny(sub(index - 1, 5), 'UCCEE', 'UCCES')) add('KS')
+            else add('X')
+            index += 3
+            break
+          }
+          add('K')
+          index += 2
+          break
+        }
+        if (isAny(next, 'K', 'G', 'Q')) {
+          add('K')
+          index += 2
+          break
+        }
+        if (isAny(next, 'I', 'E', 'Y')) {
+          // Italian vs English: CIAO
+          if (isAny(sub(index, 3), 'CIO', 'CIE', 'CIA')) add('S', 'X')
+          else add('S')
+          index += 2
+          break
+        }
+        add('K')
+        index += isAny(next, 'C', 'K', 'Q') && !isAny(sub(index + 1, 2), 'CE', 'CI') ? 2 : 1
+        break
+
+      case 'D':
+        if (next === 'G') {
+          // EDGE vs EDGAR
+          if (isAny(at(index + 2), 'I', 'E', 'Y')) {
+            add('J')
+            index += 3
+          } else {
+            add('TK')
+            index += 2
+          }
+          break
+        }
+        add('T')
+        index += isAny(next, 'T', 'D') ? 2 : 1
+        break
+
+      case 'F':
+        add('F')
+        index += next === 'F' ? 2 : 1
+        break
+
+      case 'G':
+        if (next === 'H') {
+          if (index > 0 && !isVowel(prev)) {
+            add('K')
+            index += 2
+            break
+          }
+          // GHISLANE, GHIRADELLI
+          if (index === 0) {
+            add(at(index + 2) === 'I' ? 'J' : 'K')
+            index += 2
+            break
+          }
+          // Parker's rule: HUGH, BOUGH, BROUGHTON are silent
+          if (isAny(at(index - 2), 'B', 'H', 'D') || isAny(at(index - 3), 'B', 'H', 'D') || isAny(at(index - 4), 'B', 'H')) {
+            index += 2
+            break
+          }
+          // LAUGH, COUGH, ROUGH, TOUGH
+          if (index > 2 && prev === 'U' && isAny(at(index - 3), 'C', 'G', 'L', 'R', 'T')) add('F')
+          else if (prev !== 'I') add('K')
+          index += 2
+          break
+        }
+        if (next === 'N') {
+          if (index === 1 && isVowel(at(0)) && !slavoGermanic) add('KN', 'N')
+          else if (sub(index + 2, 2) !== 'EY' && !slavoGermanic) add('N', 'KN')
+          else add('KN')
+          index += 2
+          break
+        }
+        // TAGLIARO
+        if (sub(index + 1, 2) === 'LI' && !slavoGermanic) {
+          add('KL', 'L')
+          index += 2
+          break
+        }
+        // GES-, GEP-, GEL- at the start
+        if (index === 0 && (next === 'Y' || isAny(sub(1, 2), 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J')
+          index += 2
+          break
+        }
+        // -GER-, -GY- but not DANGER, RANGER, MANGER, ROGY, OGY
+        if ((sub(index + 1, 2) === 'ER' || next === 'Y') && !isAny(sub(0, 6), 'DANGER', 'RANGER', 'MANGER') &&
+            !isAny(prev, 'E', 'I') && !isAny(sub(index - 1, 3), 'RGY', 'OGY')) {
+          add('K', 'J')
+          index += 2
+          break
+        }
+        // Italian: BIAGGI
+        if (isAny(next, 'E', 'I', 'Y') || isAny(sub(index - 1, 4), 'AGGI', 'OGGI')) {
+          if (germanic || sub(index + 1, 2) === 'ET') add('K')
+          else if (sub(index + 1, 3) === 'IER' && index + 3 === length) add('J')
+          else add('J', 'K')
+          index += 2
+          break
+        }
+        add('K')
+        index += next === 'G' ? 2 : 1
+        break
+
+      case 'H':
+        // Only between vowels or at the start before a vowel
+        if ((index === 0 || isVowel(prev)) && isVowel(next)) {
+          add('H')
+          index += 2
+        } else {
+          index++
+        }
+        break
+
+      case 'J':
+        // Spanish: JOSE, SAN JACINTO
+        if (sub(index, 4) === 'JOSE') {
+          if (index === 0 && index + 4 === length) add('H')
+          else add('J', 'H')
+          index++
+          break
+        }
+        if (index === 0) add('J', 'A') // YANKELOVICH / JANKELOWICZ
+        else if (isVowel(prev) && !slavoGermanic && isAny(next, 'A', 'O')) add('J', 'H')
+        else if (index === last) add('J', '')
+        else if (!isAny(next, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !isAny(prev, 'S', 'K', 'L')) add('J')
+        index += next === 'J' ? 2 : 1
+        break
+
+      case 'K':
+        add('K')
+        index += next === 'K' ? 2 : 1
+        break
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish: CABRILLO, GALLEGOS
+          if ((index === length - 3 && isAny(sub(index - 1, 4), 'ILLO', 'ILLA', 'ALLE')) ||
+              ((isAny(sub(last - 1, 2), 'AS', 'OS') || isAny(at(last), 'A', 'O')) && sub(index - 1, 4) === 'ALLE')) {
+            add('L', '')
+            index += 2
+            break
+          }
+          index += 2
+        } else {
+          index++
+        }
+        add('L')
+        break
+
+      case 'M':
+        add('M')
+        // DUMB, THUMB
+        index += (sub(index - 1, 3) === 'UMB' && (index + 1 === last || sub(index + 2, 2) === 'ER')) || next === 'M' ? 2 : 1
+        break
+
+      case 'N':
+        add('N')
+        index += next === 'N' ? 2 : 1
+        break
+
+      case 'P':
+        if (next === 'H') {
+          add('F')
+          index += 2
+          break
+        }
+        add('P')
+        index += isAny(next, 'P', 'B') ? 2 : 1
+        break
+
+      case 'Q':
+        add('K')
+        index += next === 'Q' ? 2 : 1
+        break
+
+      case 'R':
+        // French: ROGIER
+        if (index === last && !slavoGermanic && sub(index - 2, 2) === 'IE' && !isAny(sub(index - 4, 2), 'ME', 'MA')) add('', 'R')
+        else add('R')
+        index += next === 'R' ? 2 : 1
+        break
+
+      case 'S':
+        // ISLAND, CARLYSLE
+        if (isAny(sub(index - 1, 3), 'ISL', 'YSL')) {
+          index++
+          break
+        }
+        if (index === 0 && sub(0, 5) === 'SUGAR') {
+          add('X', 'S')
+          index++
+          break
+        }
+        if (next === 'H') {
+          // Germanic: HOLMHEIM
+          add(isAny(sub(index + 1, 4), 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X')
+          index += 2
+          break
+        }
+        // Italian and Armenian: SIOBHAN, ARMENIAN -SIAN
+        if (isAny(sub(index, 3), 'SIO', 'SIA')) {
+          if (slavoGermanic) add('S')
+          else add('S', 'X')
+          index += 3
+          break
+        }
+        // SMITH / SCHMIDT, SNIDER / SCHNEIDER, and -SZ- in Slavic names
+        if ((index === 0 && isAny(next, 'M', 'N', 'L', 'W')) || next === 'Z') {
+          add('S', 'X')
+          index += next === 'Z' ? 2 : 1
+          break
+        }
+        if (next === 'C') {
+          // Schlesinger's rule
+          if (at(index + 2) === 'H') {
+            // Dutch: SCHOOL, SCHENKER
+            if (isAny(sub(index + 3, 2), 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              if (isAny(sub(index + 3, 2), 'ER', 'EN')) add('X', 'SK')
+              else add('SK')
+              index += 3
+              break
+            }
+            if (index === 0 && !isVowel(at(3)) && at(3) !== 'W') add('X', 'S')
+            else add('X')
+            index += 3
+            break
+          }
+          add(isAny(at(index + 2), 'I', 'E', 'Y') ? 'S' : 'SK')
+          index += 3
+          break
+        }
+        // French: RESNAIS, ARTOIS
+        if (index === last && isAny(sub(index - 2, 2), 'AI', 'OI')) add('', 'S')
+        else add('S')
+        index += isAny(next, 'S', 'Z') ? 2 : 1
+        break
+
+      case 'T':
+        if (sub(index, 4) === 'TION' || isAny(sub(index, 3), 'TIA', 'TCH')) {
+          add('X')
+          index += 3
+          break
+        }
+        if (sub(index, 2) === 'TH' || sub(index, 3) === 'TTH') {
+          // THOMAS, THAMES
+          if (isAny(sub(index + 2, 2), 'OM', 'AM') || germanic) add('T')
+          else add('0', 'T')
+          index += 2
+          break
+        }
+        add('T')
+        index += isAny(next, 'T', 'D') ? 2 : 1
+        break
+
+      case 'V':
+        add('F')
+        index += next === 'V' ? 2 : 1
+        break
+
+      case 'W':
+        if (next === 'R') {
+          add('R')
+          index += 2
+          break
+        }
+        // WASSERMAN should match VASSERMAN
+        if (index === 0 && (isVowel(next) || next === 'H')) {
+          if (isVowel(next)) add('A', 'F')
+          else add('A')
+        }
+        // ARNOW should match ARNOFF
+        if ((index === last && isVowel(prev)) || isAny(sub(index - 1, 5), 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || sub(0, 3) === 'SCH') {
+          add('', 'F')
+          index++
+          break
+        }
+        // Polish: FILIPOWICZ
+        if (isAny(sub(index, 4), 'WICZ', 'WITZ')) {
+          add('TS', 'FX')
+          index += 4
+          break
+        }
+        index++
+        break
+
+      case 'X':
+        // French: BREAUX
+        if (!(index === last && (isAny(sub(index - 3, 3), 'IAU', 'EAU') || isAny(sub(index - 2, 2), 'AU', 'OU')))) add('KS')
+        index += isAny(next, 'C', 'X') ? 2 : 1
+        break
+
+      case 'Z':
+        // Chinese pinyin: ZHAO
+        if (next === 'H') {
+          add('J')
+          index += 2
+          break
+        }
+        if (isAny(sub(index + 1, 2), 'ZO', 'ZI', 'ZA') || (slavoGermanic && index > 0 && prev !== 'T')) add('S', 'TS')
+        else add('S')
+        index += next === 'Z' ? 2 : 1
+        break
+
+      default:
+        index++
+    }
+  }
+
+  return [primary, alternate]
+}
+
+/**
+ * How alike two words sound (0 to 1), from their Double Metaphone codes
+ * 1 when the primary codes agree, 0.9 via an alternate pronunciation, otherwise
+ * the edit similarity of the closest codes. Short codes say less (vowels aren't
+ * encoded, so "tim" and "tom" share one), so they're trusted less.
+ */
+export function phoneticSimilarity(a: string, b: string): number {
+  const [primaryA, alternateA] = doubleMetaphone(a)
+  const [primaryB, alternateB] = doubleMetaphone(b)
+  if (!primaryA || !primaryB) return 0
+
+  let score: number
+  if (primaryA === primaryB) {
+    score = 1
+  } else if (primaryA === alternateB || alternateA === primaryB || (alternateA && alternateA === alternateB)) {
+    score = 0.9
+  } else {
+    const closeness = (x: string, y: string) => x && y ? 1 - levenshtein(x, y) / Math.max(x.length, y.length) : 0
+    score = 0.8 * Math.max(
+      closeness(primaryA, primaryB), closeness(primaryA, alternateB),
+      closeness(alternateA, primaryB), closeness(alternateA, alternateB)
+    )
+  }
+  const codeLength = Math.min(primaryA.length, primaryB.length)
+  return score * Math.min(1, codeLength / 3)
+}
+
 // ============================================================================
 // EQUIVALENTS (Only transcription-related variations, NOT acting choices)
 // ============================================================================
@@ -210,6 +682,502 @@ const EQUIVALENTS: Record<string, string[]> = {
   "third": ["3rd"], "3rd": ["third"],
 }
 
+// Contractions and their spoken-out forms - an acting choice, so only
+// accepted when the profile's contraction policy is 'either'
+const CONTRACTIONS: Record<string, string[]> = {
+  "i'm": ["i am"], "you're": ["you are"], "we're": ["we are"], "they're": ["they are"],
+  "he's": ["he is", "he has"], "she's": ["she is", "she has"], "it's": ["it is", "it has"],
+  "that's": ["that is"], "what's": ["what is"], "there's": ["there is"], "who's": ["who is"],
+  "i've": ["i have"], "you've": ["you have"], "we've": ["we have"], "they've": ["they have"],
+  "i'll": ["i will"], "you'll": ["you will"], "we'll": ["we will"], "they'll": ["they will"],
+  "he'll": ["he will"], "she'll": ["she will"], "it'll": ["it will"],
+  "i'd": ["i would", "i had"], "you'd": ["you would", "you had"], "we'd": ["we would", "we had"],
+  "they'd": ["they would", "they had"], "he'd": ["he would", "he had"], "she'd": ["she would", "she had"],
+  "don't": ["do not"], "doesn't": ["does not"], "didn't": ["did not"],
+  "can't": ["cannot", "can not"], "cannot": ["can not"], "won't": ["will not"],
+  "isn't": ["is not"], "aren't": ["are not"], "wasn't": ["was not"], "weren't": ["were not"],
+  "haven't": ["have not"], "hasn't": ["has not"], "hadn't": ["had not"],
+  "wouldn't": ["would not"], "couldn't": ["could not"], "shouldn't": ["should not"],
+  "let's": ["let us"],
+}
+
+// Informal reductions - also an acting choice, same policy as contractions
+const REDUCTIONS: Record<string, string[]> = {
+  "gonna": ["going to"], "wanna": ["want to"], "gotta": ["got to", "have got to"],
+  "hafta": ["have to"], "hasta": ["has to"], "oughta": ["ought to"], "useta": ["used to"],
+  "gimme": ["give me"], "lemme": ["let me"], "gotcha": ["got you"], "betcha": ["bet you"],
+  "dunno": ["don't know", "do not know"], "kinda": ["kind of"], "sorta": ["sort of"],
+  "outta": ["out of"], "lotta": ["lot of"], "lotsa": ["lots of"], "coulda": ["could have"],
+  "woulda": ["would have"], "shoulda": ["should have"], "musta": ["must have"],
+  "ya": ["you"], "y'all": ["you all"], "'cause": ["because"], "cause": ["because"],
+  "cuz": ["because"], "cos": ["because"], "'em": ["them"], "em": ["them"],
+  "ain't": ["am not", "is not", "are not", "isn't", "aren't"], "c'mon": ["come on"],
+  "whaddya": ["what do you"], "whatcha": ["what are you", "what do you"], "didja": ["did you"],
+}
+
+// ============================================================================
+// TOKEN EQUIVALENCE ENGINE
+// One data-driven matcher for phrasings of different lengths (N:M): the tables
+// above, spoken forms of numbers, money, times and dates, and the script's lexicon
+// ============================================================================
+
+export type EquivalenceKind = 'lexicon' | 'spelling' | 'number' | 'contraction' | 'reduction'
+
+export interface EquivalenceMatch {
+  expected: number   // Expected words covered
+  spoken: number     // Spoken words covered
+  kind: EquivalenceKind
+}
+
+// Weakest first - a match is as much of a change as its strongest part
+const KIND_RANK: Record<EquivalenceKind, number> = { lexicon: 0, spelling: 1, number: 2, contraction: 3, reduction: 4 }
+
+function strongerKind(a: EquivalenceKind | null, b: EquivalenceKind | null): EquivalenceKind | null {
+  if (!a) return b
+  if (!b) return a
+  return KIND_RANK[a] >= KIND_RANK[b] ? a : b
+}
+
+type EquivalenceIndex = Map<string, { form: string; kind: EquivalenceKind }[]>
+
+const EQUIVALENCE_INDEXES = new Map<LanguagePack, EquivalenceIndex>()
+
+// Phrase → every phrase that may stand in for it (both directions of each of the language's tables)
+function equivalenceIndex(pack: LanguagePack): EquivalenceIndex {
+  const cached = EQUIVALENCE_INDEXES.get(pack)
+  if (cached) return cached
+  const index: EquivalenceIndex = new Map()
+  const tables: { kind: EquivalenceKind; entries: Record<string, string[]> }[] = [
+    { kind: 'spelling', entries: pack.equivalents },
+    { kind: 'contraction', entries: pack.contractions },
+    { kind: 'reduction', entries: pack.reductions },
+  ]
+  for (const { kind, entries } of tables) {
+    for (const [phrase, forms] of Object.entries(entries)) {
+      for (const form of forms) {
+        for (const [from, to] of [[phrase, form], [form, phrase]]) {
+          const list = index.get(from) || []
+          if (!list.some(e => e.form === to)) list.push({ form: to, kind })
+          index.set(from, list)
+        }
+      }
+    }
+  }
+  EQUIVALENCE_INDEXES.set(pack, index)
+  return index
+}
+
+/**
+ * Spoken forms of a script's names and jargon, keyed by the normalised term
+ * Built from the script lexicon (see lib/lexicon) with buildLexiconIndex
+ */
+export type LexiconIndex = Map<string, string[]>
+
+export function buildLexiconIndex(entries: { term: string; variants: string[] }[]): LexiconIndex {
+  const index: LexiconIndex = new Map()
+  for (const { term, variants } of entries) {
+    const key = normalize(preprocessStutters(term))
+    if (!key) continue
+    const forms = index.get(key) || []
+    for (const variant of variants) {
+      const form = normalize(variant)
+      if (form && form !== key && !forms.includes(form)) forms.push(form)
+    }
+    if (forms.length > 0) index.set(key, forms)
+  }
+  return index
+}
+
+// Longest span (in words) the engine considers on either side
+const MAX_SPAN = 7
+// Cap on spellings generated for one span, so long digit runs stay cheap
+const MAX_FORMS = 64
+
+// ---- Number verbalization ----
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+]
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const SCALES: [number, string][] = [[1e9, 'billion'], [1e6, 'million'], [1e3, 'thousand']]
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+const FRACTIONS: Record<string, string[]> = {
+  '1/2': ['a half', 'one half', 'half'], '1/3': ['a third', 'one third'], '2/3': ['two thirds'],
+  '1/4': ['a quarter', 'one quarter', 'quarter'], '3/4': ['three quarters'],
+}
+const CURRENCIES: Record<string, { one: string; many: string[]; cents: string }> = {
+  '$': { one: 'dollar', many: ['dollars', 'bucks'], cents: 'cents' },
+  '£': { one: 'pound', many: ['pounds', 'quid'], cents: 'pence' },
+  '€': { one: 'euro', many: ['euros'], cents: 'cents' },
+}
+
+// 1500 → "one thousand five hundred" ("one thousand and five hundred" with British "and")
+function cardinal(n: number, and = false): string {
+  if (n < 20) return ONES[n]
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ' ' + ONES[n % 10] : '')
+  if (n < 1000) {
+    const rest = n % 100
+    return ONES[Math.floor(n / 100)] + ' hundred' + (rest ? (and ? ' and ' : ' ') + cardinal(rest, and) : '')
+  }
+  for (const [size, name] of SCALES) {
+    if (n < size) continue
+    const rest = n % size
+    const joiner = rest && and && rest < 100 ? ' and ' : ' '
+    return cardinal(Math.floor(n / size), and) + ' ' + name + (rest ? joiner + cardinal(rest, and) : '')
+  }
+  return ''
+}
+
+// "twenty one" → "twenty first"
+function ordinal(n: number): string {
+  const words = cardinal(n).split(' ')
+  const last = words.pop()!
+  const irregular: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+  }
+  const spoken = irregular[last] || (last.endsWith('y') ? last.slice(0, -1) + 'ieth' : last + 'th')
+  return [...words, spoken].join(' ')
+}
+
+// Every usual way of saying a whole number
+function integerForms(n: number, digits?: string): string[] {
+  const forms = [cardinal(n), cardinal(n, true)]
+  // "a hundred", "a thousand"
+  for (const form of [...forms]) {
+    if (/^one (hundred|thousand|million|billion)/.test(form)) forms.push('a' + form.slice(3))
+  }
+  // 1500 → "fifteen hundred"
+  if (n > 1000 && n < 10000 && n % 1000 >= 100) {
+    const rest = n % 100
+    forms.push(cardinal(Math.floor(n / 100)) + ' hundred' + (rest ? ' ' + cardinal(rest) : ''))
+    if (rest) forms.push(cardinal(Math.floor(n / 100)) + ' hundred and ' + cardinal(rest))
+  }
+  // Years: 1990 → "nineteen ninety", 1905 → "nineteen oh five", 2010 → "twenty ten"
+  if (digits && /^\d{4}$/.test(digits) && n >= 1100 && n < 2100 && n % 100 !== 0) {
+    const rest = n % 100
+    forms.push(cardinal(Math.floor(n / 100)) + ' ' + (rest < 10 ? 'oh ' + ONES[rest] : cardinal(rest)))
+  }
+  return Array.from(new Set(forms))
+}
+
+// 9:30 → "nine thirty", "half past nine"...
+function timeForms(hours: number, minutes: number): string[] {
+  const hourWords = Array.from(new Set([hours, hours % 12 || 12])).map(h => cardinal(h))
+  const next = cardinal((hours % 12) + 1)
+  const forms: string[] = []
+  for (const h of hourWords) {
+    if (minutes === 0) forms.push(`${h} o'clock`, h, `${h} hundred`)
+    else if (minutes < 10) forms.push(`${h} oh ${ONES[minutes]}`)
+    else forms.push(`${h} ${cardinal(minutes)}`)
+  }
+  const hour = cardinal(hours % 12 || 12)
+  if (minutes === 15) forms.push(`quarter past ${hour}`, `a quarter past ${hour}`)
+  else if (minutes === 30) forms.push(`half past ${hour}`, `half ${hour}`)
+  else if (minutes === 45) forms.push(`quarter to ${next}`, `a quarter to ${next}`)
+  else if (minutes > 0 && minutes < 30) forms.push(`${cardinal(minutes)} past ${hour}`, `${cardinal(minutes)} minutes past ${hour}`)
+  else if (minutes > 30) forms.push(`${cardinal(60 - minutes)} to ${next}`, `${cardinal(60 - minutes)} minutes to ${next}`)
+  return forms
+}
+
+// 3/14 or 14/3 (with an optional year) → "march fourteenth", "the fourteenth of march"...
+function dateForms(a: number, b: number, year?: string): string[] {
+  const days: [number, number][] = []
+  if (a >= 1 && a <= 12 && b >= 1 && b <= 31) days.push([a, b])          // month/day
+  if (b >= 1 && b <= 12 && a >= 1 && a <= 31 && a !== b) days.push([b, a]) // day/month
+  const years = year
+    ? (year.length === 2 ? [cardinal(Number(year)), ...(Number(year) < 10 ? [`oh ${ONES[Number(year)]}`] : [])] : integerForms(Number(year), year))
+    : ['']
+  const forms: string[] = []
+  for (const [month, day] of days) {
+    const m = MONTHS[month - 1]
+    const d = ordinal(day)
+    for (const base of [`${m} ${d}`, `${m} ${cardinal(day)}`, `${m} the ${d}`, `${d} of ${m}`, `the ${d} of ${m}`]) {
+      for (const y of years) forms.push(y ? `${base} ${y}` : base)
+    }
+  }
+  return forms
+}
+
+/**
+ * Spoken forms of a token written with digits ("$1,500", "9:30", "3rd", "50%", "2.5", "3/14/90")
+ * Returns [] for anything else
+ */
+export function verbalize(token: string): string[] {
+  if (!/\d/.test(token)) return []
+  let match: RegExpMatchArray | null
+
+  if ((match = token.match(/^(\d{1,2}):(\d{2})$/))) {
+    const [hours, minutes] = [Number(match[1]), Number(match[2])]
+    return hours < 24 && minutes < 60 ? timeForms(hours, minutes) : []
+  }
+  if ((match = token.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/))) {
+    return [...(FRACTIONS[token] || []), ...dateForms(Number(match[1]), Number(match[2]), match[3])]
+  }
+  if ((match = token.match(/^(\d+)(st|nd|rd|th)$/))) {
+    return [ordinal(Number(match[1]))]
+  }
+  if ((match = token.match(/^([$£€])(\d[\d,]*)(?:\.(\d{2}))?$/))) {
+    const currency = CURRENCIES[match[1]]
+    const whole = Number(match[2].replace(/,/g, ''))
+    const cents = match[3] ? Number(match[3]) : 0
+    if (!Number.isSafeInteger(whole) || whole >= 1e12) return []
+    const units = whole === 1 ? [currency.one] : currency.many
+    const forms: string[] = []
+    for (const amount of integerForms(whole)) {
+      for (const unit of units) {
+        if (!cents) forms.push(`${amount} ${unit}`)
+        else forms.push(`${amount} ${unit} ${cardinal(cents)}`, `${amount} ${unit} and ${cardinal(cents)} ${currency.cents}`)
+      }
+      if (cents) forms.push(`${amount} ${cardinal(cents)}`)
+    }
+    if (!whole && cents) forms.push(`${cardinal(cents)} ${currency.cents}`)
+    return forms
+  }
+  if ((match = token.match(/^(\d[\d,]*)(?:\.(\d+))?(%?)$/))) {
+    const digits = match[1].replace(/,/g, '')
+    const whole = Number(digits)
+    if (!Number.isSafeInteger(whole) || whole >= 1e12) return []
+    let forms = integerForms(whole, match[1])
+    if (match[2]) forms = forms.map(f => `${f} point ${match![2].split('').map(d => ONES[Number(d)]).join(' ')}`)
+    if (match[3]) forms = forms.flatMap(f => [`${f} percent`, `${f} per cent`])
+    return forms
+  }
+  return []
+}
+
+// ---- Span matching ----
+
+// Every way the span words[start..start+length) could be said, with the kind of change it took
+function spanForms(
+  words: string[],
+  start: number,
+  length: number,
+  pack: LanguagePack,
+  lexicon?: LexiconIndex
+): { text: string; kind: EquivalenceKind | null }[] {
+  let forms: { text: string; kind: EquivalenceKind | null }[] = [{ text: '', kind: null }]
+  for (let i = start; i < start + length; i++) {
+    const tokenForms = [
+      { text: words[i], kind: null },
+      ...(pack.spokenNumbers ? verbalize(words[i]) : []).map(text => ({ text, kind: 'number' as const })),
+    ]
+    const next: typeof forms = []
+    for (const form of forms) {
+      for (const token of tokenForms) {
+        if (next.length >= MAX_FORMS) break
+        next.push({ text: form.text ? `${form.text} ${token.text}` : token.text, kind: strongerKind(form.kind, token.kind) })
+      }
+    }
+    forms = next
+  }
+  const literal = words.slice(start, start + length).join(' ')
+  for (const { form, kind } of equivalenceIndex(pack).get(literal) || []) forms.push({ text: form, kind })
+  for (const form of lexicon?.get(literal) || []) forms.push({ text: form, kind: 'lexicon' })
+  return forms
+}
+
+/**
+ * Find an equivalent phrasing starting at expected[expectedIdx] / spoken[spokenIdx]
+ * e.g. "gonna" ↔ "going to", "9:30" ↔ "nine thirty", "$1,500" ↔ "fifteen hundred dollars"
+ * Prefers the match covering the most words, then the mildest kind of change.
+ * With allowPartial, returns 'partial' when the spoken words so far are the start
+ * of an equivalent (streaming transcripts deliver "nine" before "thirty").
+ * A lexicon adds the script's own terms ("Okafor" heard as "oh car for"); the
+ * language picks the tables (English unless given, see resolveLanguage).
+ */
+export function matchEquivalence(
+  expectedWords: string[],
+  expectedIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  allowPartial?: false,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): EquivalenceMatch | null
+export function matchEquivalence(
+  expectedWords: string[],
+  expectedIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  allowPartial: boolean,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): EquivalenceMatch | 'partial' | null
+export function matchEquivalence(
+  expectedWords: string[],
+  expectedIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  allowPartial = false,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): EquivalenceMatch | 'partial' | null {
+  if (expectedIdx >= expectedWords.length || spokenIdx >= spokenWords.length) return null
+  const pack = getLanguagePack(language)
+
+  const spokenSpans: Map<string, EquivalenceKind | null>[] = []
+  for (let m = 1; m <= MAX_SPAN && spokenIdx + m <= spokenWords.length; m++) {
+    const forms = new Map<string, EquivalenceKind | null>()
+    for (const { text, kind } of spanForms(spokenWords, spokenIdx, m, pack)) {
+      const current = forms.get(text)
+      if (!forms.has(text) || (current && (!kind || KIND_RANK[kind] < KIND_RANK[current]))) forms.set(text, kind)
+    }
+    spokenSpans.push(forms)
+  }
+
+  let best: EquivalenceMatch | null = null
+  let partial = false
+  const spokenTail = spokenWords.length - spokenIdx <= MAX_SPAN ? spokenSpans[spokenSpans.length - 1] : null
+
+  for (let n = 1; n <= MAX_SPAN && expectedIdx + n <= expectedWords.length; n++) {
+    for (const form of spanForms(expectedWords, expectedIdx, n, pack, lexicon)) {
+      spokenSpans.forEach((spoken, i) => {
+        if (!spoken.has(form.text)) return
+        const kind = strongerKind(form.kind, spoken.get(form.text) ?? null)
+        if (!kind) return // Same words - not an equivalence
+        const candidate = { expected: n, spoken: i + 1, kind }
+        const size = candidate.expected + candidate.spoken
+        const bestSize = best ? best.expected + best.spoken : 0
+        if (!best || size > bestSize || (size === bestSize && KIND_RANK[kind] < KIND_RANK[best.kind])) best = candidate
+      })
+      if (allowPartial && spokenTail && !partial) {
+        for (const text of spokenTail.keys()) {
+          if (form.text.startsWith(text + ' ')) { partial = true; break }
+        }
+      }
+    }
+  }
+
+  if (best) return best
+  return partial ? 'partial' : null
+}
+
+// Contractions and reductions change the wording; spellings and numbers don't
+function isActingChoice(kind: EquivalenceKind): boolean {
+  return kind === 'contraction' || kind === 'reduction'
+}
+
+/**
+ * A lexicon term of several words starting here, matched whole
+ * Matchers try this before word by word, which would otherwise take "nakamura"
+ * and leave "reyes" (heard as "raise") to fail on its own.
+ */
+function matchLexiconPhrase(
+  expectedWords: string[],
+  expectedIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  lexicon: LexiconIndex | undefined,
+  language: string | null | undefined,
+  allowPartial = false
+): EquivalenceMatch | 'partial' | null {
+  if (!lexicon) return null
+  const prefix = expectedWords[expectedIdx] + ' '
+  for (const term of lexicon.keys()) {
+    if (term.startsWith(prefix)) return matchEquivalence(expectedWords, expectedIdx, spokenWords, spokenIdx, allowPartial, lexicon, language)
+  }
+  return null
+}
+
+// ============================================================================
+// ACCURACY PROFILES
+// ============================================================================
+
+export interface AccuracyProfile {
+  id: string
+  name: string
+  description: string
+  wordTolerance: number           // Missed/extra words allowed per 10 words of the line (0 = word perfect)
+  allowSubstitutions: boolean     // Swapped words count towards the tolerance instead of failing the line
+  contractions: 'exact' | 'either' // 'either' accepts "I am" for "I'm" and the other way round
+  fillers: 'ignore' | 'count'     // 'count' treats spoken ums as extra words and requires scripted "well", "so"...
+  properNounSimilarity: number    // Name-match confidence a name needs (1 = exact, see nameMatchConfidence)
+  passThreshold: number           // Minimum accuracy percentage
+}
+
+export const ACCURACY_PROFILES: AccuracyProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Forgives a slip or two and speech-recognition errors',
+    wordTolerance: 1,
+    allowSubstitutions: false,
+    contractions: 'exact',
+    fillers: 'ignore',
+    properNounSimilarity: 0.8,
+    passThreshold: 90,
+  },
+  {
+    id: 'verbatim',
+    name: 'Verbatim (film & TV)',
+    description: 'Every word as written, contractions and fillers included',
+    wordTolerance: 0,
+    allowSubstitutions: false,
+    contractions: 'exact',
+    fillers: 'count',
+    properNounSimilarity: 0.9,
+    passThreshold: 100,
+  },
+  {
+    id: 'paraphrase',
+    name: 'Paraphrase OK (theatre & improv)',
+    description: 'Sense over wording - a few swapped or dropped words still pass',
+    wordTolerance: 3,
+    allowSubstitutions: true,
+    contractions: 'either',
+    fillers: 'ignore',
+    properNounSimilarity: 0.75,
+    passThreshold: 70,
+  },
+  {
+    id: 'off-book',
+    name: 'Off-book check',
+    description: 'No dropped or added words, but ums and recognition slips are fine',
+    wordTolerance: 0,
+    allowSubstitutions: false,
+    contractions: 'exact',
+    fillers: 'ignore',
+    properNounSimilarity: 0.8,
+    passThreshold: 100,
+  },
+]
+
+export const DEFAULT_ACCURACY_PROFILE_ID = 'standard'
+
+const STANDARD_PROFILE = ACCURACY_PROFILES[0]
+
+/**
+ * Profile by id - user-edited profiles override the built-in ones
+ */
+export function getAccuracyProfile(id?: string | null, custom: AccuracyProfile[] = []): AccuracyProfile {
+  return custom.find(p => p.id === id)
+    || ACCURACY_PROFILES.find(p => p.id === id)
+    || custom.find(p => p.id === DEFAULT_ACCURACY_PROFILE_ID)
+    || STANDARD_PROFILE
+}
+
+/**
+ * Built-in profiles (with any user edits applied) followed by the user's own
+ */
+export function listAccuracyProfiles(custom: AccuracyProfile[] = []): AccuracyProfile[] {
+  const builtIn = ACCURACY_PROFILES.map(p => custom.find(c => c.id === p.id) || p)
+  return [...builtIn, ...custom.filter(c => !ACCURACY_PROFILES.some(p => p.id === c.id))]
+}
+
+export function isBuiltInProfile(id: string): boolean {
+  return ACCURACY_PROFILES.some(p => p.id === id)
+}
+
+// The old strictMode flag maps onto the off-book profile
+function resolveProfile(profile: AccuracyProfile | boolean | undefined): AccuracyProfile {
+  if (typeof profile === 'object') return profile
+  return profile ? getAccuracyProfile('off-book') : STANDARD_PROFILE
+}
+
 // ============================================================================
 // CORE FUNCTIONS
 // ============================================================================
@@ -227,10 +1195,44 @@ function preprocessStutters(text: string): string {
     .trim()
 }
 
-function normalize(text: string): string {
+// Numbers keep the punctuation that carries meaning: $1,500 / 9:30 / 3/14 / 2.5 / 50%
+// Letters of any script stay, with their accents and tone marks ("được", "café")
+const PUNCTUATION = /([$£€]?\d(?:[\d,.:/]*\d)?%?)|[^\p{L}\p{M}\p{N}\s']/gu
+
+function stripPunctuation(text: string, replacement: string): string {
+  return text.replace(PUNCTUATION, (char, number) => number || replacement)
+}
+
+// Scripts written without spaces between words (Chinese, Japanese, Thai...)
+const UNSPACED_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]+/gu
+
+// Dictionary-based word breaks where the runtime has them, else one character per word
+const WORD_SEGMENTER = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null
+
+// Vietnamese tone mark on the first vowel of oa/oe/uy (old style "hóa") - moved to the second ("hoá")
+const OLD_STYLE_TONE = /([oOuU])([\u0300\u0301\u0303\u0309\u0323])([aAeEyY])/g
+
+/**
+ * Unicode clean-up before splitting into words
+ * - Composed accents (STT engines send "é" either way), one tone-mark placement, straight apostrophes
+ * - Spaces between the words of unspaced scripts: "我们今天去" → "我们 今天 去"
+ */
+function segmentText(text: string): string {
   return text
-    .toLowerCase()
-    .replace(/[^\w\s']/g, '') // Remove punctuation except apostrophes
+    .normalize('NFD')
+    .replace(OLD_STYLE_TONE, '$1$3$2')
+    .normalize('NFC')
+    .replace(/[‘’ʼ`]/g, "'")
+    .replace(UNSPACED_RUN, run => {
+      const words = WORD_SEGMENTER ? Array.from(WORD_SEGMENTER.segment(run), s => s.segment) : Array.from(run)
+      return ` ${words.join(' ')} `
+    })
+}
+
+function normalize(text: string): string {
+  return stripPunctuation(segmentText(text).toLowerCase(), '') // Remove punctuation except apostrophes
     .replace(/\s+/g, ' ')
     .trim()
 }
@@ -241,7 +1243,7 @@ function getWords(text: string): string[] {
 
 // Get words but preserve original form for capitalization check
 function getWordsWithOriginal(text: string): { normalized: string; original: string }[] {
-  const cleaned = text.replace(/[^\w\s']/g, ' ').replace(/\s+/g, ' ').trim()
+  const cleaned = stripPunctuation(segmentText(text), ' ').replace(/\s+/g, ' ').trim()
   return cleaned.split(' ').filter(w => w.length > 0).map(w => ({
     normalized: w.toLowerCase(),
     original: w
@@ -293,10 +1295,207 @@ const SKIPPABLE_SCRIPT_WORDS = [
   'well', 'so',
 ]
 
+// Real words among the skippable ones - a profile that counts fillers wants these said
+const CONVERSATIONAL_SCRIPT_WORDS = ['well', 'so', 'then', 'oh', 'hey', 'wow', 'whoa', 'woah', 'huh', 'eh']
+
+// ============================================================================
+// LANGUAGES
+// Filler lists and equivalence tables per script language. English is the
+// default; resolveLanguage picks another from the script's language or accent.
+// ============================================================================
+
+export interface LanguagePack {
+  fillers: string[]                       // Said but not written - ignored when the profile ignores fillers
+  skippable: string[]                     // Written sounds speech-to-text tends to drop
+  conversational: string[]                // Real words among the skippable ones
+  equivalents: Record<string, string[]>   // Abbreviations, homophones, digits
+  contractions: Record<string, string[]>  // Acting choices - same policy as English contractions
+  reductions: Record<string, string[]>
+  spokenNumbers: boolean                  // "9:30" ↔ "nine thirty" (English number words)
+  fuzzyWords: boolean                     // Edit-distance/soundex slack for ordinary words - off where one mark is another word
+}
+
+// Digits for the number words 1-10
+function digitWords(words: string[]): Record<string, string[]> {
+  return Object.fromEntries(words.map((word, i) => [word, [String(i + 1)]]))
+}
+
+const ENGLISH: LanguagePack = {
+  fillers: FILLER_WORDS,
+  skippable: SKIPPABLE_SCRIPT_WORDS,
+  conversational: CONVERSATIONAL_SCRIPT_WORDS,
+  equivalents: EQUIVALENTS,
+  contractions: CONTRACTIONS,
+  reductions: REDUCTIONS,
+  spokenNumbers: true,
+  fuzzyWords: true,
+}
+
+const LANGUAGE_PACKS: Record<string, LanguagePack> = {
+  en: ENGLISH,
+  vi: {
+    fillers: ['à', 'ừ', 'ờ', 'ừm', 'ơ', 'ư', 'hừm'],
+    skippable: ['à', 'ừ', 'ờ', 'ừm', 'ơ', 'ư', 'hừm', 'hả', 'hử', 'ôi', 'chà', 'ồ', 'ô', 'ha', 'hừ', 'ui', 'suỵt'],
+    conversational: ['hả', 'ôi', 'chà'],
+    equivalents: {
+      ...digitWords(['một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín', 'mười']),
+      'không': ['ko', 'k', 'hông', 'hok'], 'được': ['đc', 'dc'], 'gì': ['j'], 'vậy': ['v', 'zậy', 'dzậy'],
+      'bác sĩ': ['bs'], 'ok': ['okay', 'ô kê'],
+    },
+    contractions: {},
+    reductions: { 'hổng': ['không'], 'hem': ['không'], 'nè': ['này'], 'hen': ['nhé'], 'nha': ['nhé'] },
+    spokenNumbers: false,
+    fuzzyWords: false,
+  },
+  es: {
+    fillers: ['eh', 'em', 'este', 'pues', 'bueno', 'ah', 'mm', 'hmm'],
+    skippable: ['eh', 'em', 'ah', 'oh', 'ay', 'uf', 'uy', 'mm', 'hmm', 'ja', 'jaja', 'bah', 'psst', 'bueno', 'pues'],
+    conversational: ['ay', 'bueno', 'pues'],
+    equivalents: {
+      ...digitWords(['uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez']),
+      'usted': ['ud'], 'ustedes': ['uds'], 'señor': ['sr'], 'señora': ['sra'], 'señorita': ['srta'],
+      'doctor': ['dr'], 'doctora': ['dra'], 'vale': ['ok', 'okay'],
+    },
+    contractions: { 'al': ['a el'], 'del': ['de el'] },
+    reductions: { 'pa': ['para'], "pa'l": ['para el'], "na'": ['nada'], "to'": ['todo'], 'pos': ['pues'], 'ta': ['está'] },
+    spokenNumbers: false,
+    fuzzyWords: true,
+  },
+  fr: {
+    fillers: ['euh', 'ben', 'bah', 'hein', 'bon', 'genre', 'mm', 'hmm'],
+    skippable: ['euh', 'ah', 'oh', 'ouf', 'hein', 'bah', 'ben', 'pff', 'hmm', 'mm', 'aïe', 'oups', 'chut', 'bon', 'alors'],
+    conversational: ['bon', 'alors', 'ben'],
+    equivalents: {
+      ...digitWords(['un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf', 'dix']),
+      'monsieur': ['m'], 'madame': ['mme'], 'mademoiselle': ['mlle'], 'docteur': ['dr'],
+      "d'accord": ['ok', 'okay'], 'ok': ['okay'],
+    },
+    contractions: {},
+    reductions: {
+      "j'suis": ['je suis'], 'chuis': ['je suis'], "t'es": ['tu es'], "t'as": ['tu as'], "j'sais": ['je sais'],
+      'chais': ['je sais'], "y'a": ['il y a'], "p'tit": ['petit'], "p'tite": ['petite'], 'ouais': ['oui'],
+    },
+    spokenNumbers: false,
+    fuzzyWords: true,
+  },
+  de: {
+    fillers: ['äh', 'ähm', 'öh', 'hm', 'hmm', 'mm', 'halt', 'eben'],
+    skippable: ['äh', 'ähm', 'öh', 'ach', 'oh', 'ah', 'hm', 'hmm', 'mm', 'na', 'tja', 'naja', 'ha', 'pst', 'uff', 'au'],
+    conversational: ['ach', 'na', 'tja', 'naja'],
+    equivalents: {
+      ...digitWords(['eins', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn']),
+      'doktor': ['dr'], 'professor': ['prof'], 'sankt': ['st'], 'okay': ['ok'],
+    },
+    contractions: {
+      "gibt's": ['gibt es'], "geht's": ['geht es'], "wie's": ['wie es'], "hab's": ['habe es', 'hab es'],
+      'im': ['in dem'], 'am': ['an dem'], 'zum': ['zu dem'], 'zur': ['zu der'], 'beim': ['bei dem'], 'vom': ['von dem'], 'ins': ['in das'],
+    },
+    reductions: { 'hab': ['habe'], 'nich': ['nicht'], 'nix': ['nichts'], "'ne": ['eine'], 'ne': ['eine'], 'nen': ['einen'], 'is': ['ist'], 'ham': ['haben'] },
+    spokenNumbers: false,
+    fuzzyWords: true,
+  },
+  zh: {
+    fillers: ['嗯', '呃', '额', '啊', '哦', '那个', '就是'],
+    skippable: ['嗯', '呃', '额', '啊', '哦', '唉', '哎', '诶', '哈', '哈哈', '哼', '嘿', '哇', '喂', '嘘'],
+    conversational: ['哇', '喂'],
+    equivalents: {
+      ...digitWords(['一', '二', '三', '四', '五', '六', '七', '八', '九', '十']),
+      '两': ['2'], '好的': ['ok', 'okay'],
+    },
+    contractions: {},
+    reductions: {},
+    spokenNumbers: false,
+    fuzzyWords: false,
+  },
+  ja: {
+    fillers: ['え', 'えー', 'えっ', 'えっと', 'あの', 'あのー', 'その', 'まあ', 'うーん'],
+    skippable: ['え', 'えー', 'えっ', 'えっと', 'あのー', 'あ', 'あー', 'あっ', 'うん', 'うーん', 'ああ', 'おお', 'まあ', 'ほら', 'はは', 'ふん', 'へえ', 'しっ'],
+    conversational: ['うん', 'まあ', 'ほら'],
+    equivalents: {
+      ...digitWords(['一', '二', '三', '四', '五', '六', '七', '八', '九', '十']),
+      'オッケー': ['ok', 'okay'],
+    },
+    contractions: {},
+    reductions: {},
+    spokenNumbers: false,
+    fuzzyWords: false,
+  },
+}
+
+// Languages without tables of their own: exact words, no fillers assumed
+const NEUTRAL: LanguagePack = {
+  fillers: [],
+  skippable: [],
+  conversational: [],
+  equivalents: {},
+  contractions: {},
+  reductions: {},
+  spokenNumbers: false,
+  fuzzyWords: false,
+}
+
+// Accent hints stored as names rather than locale codes
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en', australian: 'en', british: 'en', american: 'en', indian: 'en',
+  vietnamese: 'vi', spanish: 'es', french: 'fr', german: 'de', chinese: 'zh', mandarin: 'zh', japanese: 'ja',
+}
+
+/**
+ * The language a script's lines are matched in: its explicit language, else the
+ * language of its accent hint ("vi-VN", "british"), else English
+ * Returns the base code ("vi"); languages without tables still come back as themselves.
+ */
+export function resolveLanguage(...hints: (string | null | undefined)[]): string {
+  for (const hint of hints) {
+    const value = hint?.trim().toLowerCase()
+    if (!value) continue
+    if (LANGUAGE_NAMES[value]) return LANGUAGE_NAMES[value]
+    const code = value.split(/[-_]/)[0]
+    if (/^[a-z]{2,3}$/.test(code)) return code
+  }
+  return 'en'
+}
+
+export function getLanguagePack(language?: string | null): LanguagePack {
+  return LANGUAGE_PACKS[resolveLanguage(language)] || NEUTRAL
+}
+
+function isSkippableScriptWord(word: string, profile: AccuracyProfile, pack: LanguagePack): boolean {
+  if (!pack.skippable.includes(word)) return false
+  return profile.fillers === 'ignore' || !pack.conversational.includes(word)
+}
+
+function isIgnoredFiller(word: string, profile: AccuracyProfile, pack: LanguagePack): boolean {
+  return profile.fillers === 'ignore' && pack.fillers.includes(word)
+}
+
+// ============================================================================
+// WORD MATCHING
+// ============================================================================
+
+// Whether the profile counts this kind of equivalence as the line as written
+function acceptsEquivalence(kind: EquivalenceKind, profile: AccuracyProfile): boolean {
+  return !isActingChoice(kind) || profile.contractions === 'either'
+}
+
+/**
+ * Confidence (0 to 1) that a transcribed word is the name the script has
+ * Spelling similarity (Jaro-Winkler, edit distance), raised when the words sound
+ * alike and lowered when they don't (Double Metaphone). Weights are tuned on the
+ * misrecognition benchmark in accuracy.test.ts.
+ */
+export function nameMatchConfidence(expected: string, spoken: string): number {
+  if (expected === spoken) return 1
+  const spelling = jaroWinkler(expected, spoken)
+  const edits = 1 - levenshtein(expected, spoken) / Math.max(expected.length, spoken.length)
+  const sound = phoneticSimilarity(expected, spoken)
+  return Math.max(0, Math.min(1, spelling + 0.8 * (sound - 0.75) + 0.1 * (edits - 0.6)))
+}
+
 /**
  * Check if two words match
  * - Exact match required for regular words
- * - Fuzzy match (Jaro-Winkler) allowed for proper nouns only
+ * - Fuzzy match (name confidence) allowed for proper nouns only
  * - Equivalents (contractions, casual speech) always allowed
  */
 function wordsMatch(
@@ -304,24 +1503,25 @@ function wordsMatch(
   spoken: string,
   expectedOriginal?: string,
   isFirstWord: boolean = false,
-  characterNames?: Set<string>
+  characterNames?: Set<string>,
+  profile: AccuracyProfile = STANDARD_PROFILE,
+  pack: LanguagePack = ENGLISH
 ): boolean {
   // Exact match
   if (expected === spoken) return true
 
-  // Check equivalents (contractions, abbreviations, casual speech)
-  const equiv = EQUIVALENTS[expected]
-  if (equiv && equiv.includes(spoken)) return true
-  const equivSpoken = EQUIVALENTS[spoken]
-  if (equivSpoken && equivSpoken.includes(expected)) return true
+  // Check equivalents (abbreviations, homophones, and contractions when the profile allows)
+  const equivalent = equivalenceIndex(pack).get(expected)?.find(e => e.form === spoken)
+  if (equivalent && acceptsEquivalence(equivalent.kind, profile)) return true
 
-  // Fuzzy matching for proper nouns OR known character names
+  // Proper nouns OR known character names: one confidence score decides
+  // (the generic fallbacks below let too many different names through - "tim"/"tom")
   const isName = (expectedOriginal && isProperNoun(expectedOriginal, isFirstWord)) ||
                  (characterNames && characterNames.has(expected))
-  if (isName) {
-    const similarity = jaroWinkler(expected, spoken)
-    if (similarity >= 0.80) return true
-  }
+  if (isName) return nameMatchConfidence(expected, spoken) >= profile.properNounSimilarity
+
+  // Tone marks and single characters carry meaning in some languages ("má" ≠ "mà")
+  if (!pack.fuzzyWords) return false
 
   // Edit distance fallback for short words (<=5 chars)
   // Catches "hi"/"bye" won't match (dist 2), but "liv"/"live" (dist 1) will
@@ -344,51 +1544,354 @@ function wordsMatch(
   return false
 }
 
+// ============================================================================
+// TRANSPOSITIONS
+// ============================================================================
+
+// Longest block that can swap places with another ("salt and pepper" / "pepper and salt")
+const MAX_TRANSPOSED = 3
+
+/**
+ * Find a reordered phrase at this position: expected "A x B" spoken as "B x A"
+ * A and B are up to three words; x is at most one word that stays in place.
+ * Returns the word counts of each part, or null.
+ */
+function matchTransposition(
+  expectedWords: string[],
+  expectedOriginals: string[],
+  expectedIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  characterNames: Set<string> | undefined,
+  profile: AccuracyProfile,
+  pack: LanguagePack
+): { first: number; gap: number; second: number } | null {
+  const spansMatch = (e: number, s: number, length: number) => {
+    for (let i = 0; i < length; i++) {
+      if (!wordsMatch(expectedWords[e + i], spokenWords[s + i], expectedOriginals[e + i], e + i === 0, characterNames, profile, pack)) return false
+    }
+    return true
+  }
+
+  // Shortest swap first so a long block never swallows words said in place
+  for (let total = 2; total <= MAX_TRANSPOSED * 2 + 1; total++) {
+    if (expectedIdx + total > expectedWords.length || spokenIdx + total > spokenWords.length) break
+    for (let first = 1; first <= MAX_TRANSPOSED; first++) {
+      for (let gap = 0; gap <= 1; gap++) {
+        const second = total - first - gap
+        if (second < 1 || second > MAX_TRANSPOSED) continue
+        if (
+          spansMatch(expectedIdx + first + gap, spokenIdx, second) &&
+          spansMatch(expectedIdx + first, spokenIdx + second, gap) &&
+          spansMatch(expectedIdx, spokenIdx + second + gap, first)
+        ) {
+          return { first, gap, second }
+        }
+      }
+    }
+  }
+  return null
+}
+
+// ============================================================================
+// LINE REGIONS
+// Stretches of a line the actor needn't say word for word. Lines store them apart
+// from the words (Line.regions, offsets into content); they're written as markup
+// in the editor and by the parser, and scored from markup (markLineRegions):
+//   {Hey, how's it going}  ad-lib - the words are a suggestion ({} alone: room to ad-lib)
+//   [just]                 optional - may be left out, but said as written if said
+//   I told you / never     overlap cue - from a slash to the next one or the end,
+//                          the next speaker talks over it
+// A slash between letters or digits (and/or, 3/14) is just a slash, and a backslash
+// makes any markup character literal. A line that ends in "--" is cut off, so its
+// last word is an overlap cue too.
+// ============================================================================
+
+export type LineRegionKind = 'adlib' | 'optional' | 'overlap'
+
+export interface LinePart {
+  kind: LineRegionKind | null // null for the line as written
+  text: string                // Without the markup
+}
+
+export interface LineRegion {
+  kind: LineRegionKind
+  start: number // Character offset in the line's content
+  end: number   // Exclusive - equal to start for an empty ad-lib slot
+}
+
+const REGION_BRACKETS: Record<string, { kind: LineRegionKind; close: string }> = {
+  '{': { kind: 'adlib', close: '}' },
+  '[': { kind: 'optional', close: ']' },
+}
+
+const MARKUP_CHARS = '\\{}[]/'
+const WORD_CHAR = /[\p{L}\p{N}]/u
+
+// The last word before a closing "--", with what follows it
+const CUT_OFF = /(\S*[\p{L}\p{N}]\S*\s*--+[^\p{L}\p{N}]*)$/u
+
+// The markup as written, without reading a cut-off line's last word as an overlap
+function readLineMarkup(text: string): LinePart[] {
+  const parts: LinePart[] = []
+  let bracket: { kind: LineRegionKind; close: string } | null = null
+  let overlap = false
+  let current = ''
+
+  // Whitespace between regions is kept so the words can be put back together
+  const flush = (keepEmpty = false) => {
+    const kind = bracket?.kind ?? (overlap ? 'overlap' : null)
+    if (current.trim() || keepEmpty || (current && !kind)) parts.push({ kind, text: current })
+    current = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\' && i + 1 < text.length && MARKUP_CHARS.includes(text[i + 1])) {
+      current += text[++i]
+    } else if (bracket) {
+      if (char === bracket.close) {
+        flush(bracket.kind === 'adlib')
+        bracket = null
+      } else {
+        current += char
+      }
+    } else if (REGION_BRACKETS[char]) {
+      flush()
+      bracket = REGION_BRACKETS[char]
+    } else if (char === '/' && !(WORD_CHAR.test(text[i - 1] || '') && WORD_CHAR.test(text[i + 1] || ''))) {
+      flush()
+      overlap = !overlap
+    } else {
+      current += char
+    }
+  }
+  flush(bracket?.kind === 'adlib')
+  return parts
+}
+
+/**
+ * Split a line's markup into the text as written and its marked regions, in order
+ * Empty ad-lib slots are kept; unclosed brackets run to the end of the line.
+ */
+export function splitLineRegions(text: string): LinePart[] {
+  const parts = readLineMarkup(text)
+  const last = parts[parts.length - 1]
+  const cutOff = last && last.kind === null ? last.text.match(CUT_OFF) : null
+  if (cutOff) {
+    const before = last.text.slice(0, last.text.length - cutOff[1].length)
+    parts.splice(parts.length - 1, 1, ...(before.trim() ? [{ kind: null, text: before }] : []), { kind: 'overlap', text: cutOff[1] })
+  }
+  return parts
+}
+
+/**
+ * Markup as the parser or editor wrote it, as the words to store and their regions
+ * Markers stood between words, so the words are joined with single spaces where they were.
+ */
+export function parseLineMarkup(markup: string): { content: string; regions: LineRegion[] } {
+  let content = ''
+  const regions: LineRegion[] = []
+  for (const part of readLineMarkup(markup)) {
+    const text = !content || /\s$/.test(content) ? part.text.trimStart() : part.text
+    if (part.kind) {
+      const start = content.length
+      regions.push({ kind: part.kind, start, end: start + text.trimEnd().length })
+    }
+    content += text
+  }
+  content = content.trimEnd()
+  return {
+    content,
+    regions: regions.map(region => ({ ...region, start: Math.min(region.start, content.length), end: Math.min(region.end, content.length) })),
+  }
+}
+
+// The words of a line's markup, as they're said
+export function stripLineMarkup(markup: string): string {
+  return parseLineMarkup(markup).content
+}
+
+const escapeMarkup = (text: string) => [...text].map(char => MARKUP_CHARS.includes(char) ? `\\${char}` : char).join('')
+
+/**
+ * A stored line as markup, for scoring and editing - its own brackets and
+ * slashes are escaped, so only the stored regions read as regions
+ */
+export function markLineRegions(content: string, regions?: LineRegion[] | null): string {
+  let markup = ''
+  let at = 0
+  for (const region of [...(regions || [])].sort((a, b) => a.start - b.start)) {
+    // Offsets from before an edit that didn't go through the markup
+    if (region.start < at || region.end > content.length || region.end < region.start) continue
+    const text = escapeMarkup(content.slice(region.start, region.end))
+    markup += escapeMarkup(content.slice(at, region.start))
+    if (region.kind === 'adlib') markup += /\S/.test(content[region.end] || '') && !text ? '{} ' : `{${text}}`
+    else if (region.kind === 'optional') markup += `[${text}]`
+    else markup += `/ ${text} /`
+    at = region.end
+  }
+  return markup + escapeMarkup(content.slice(at))
+}
+
+interface WordRegion {
+  kind: LineRegionKind
+  start: number // Word index in the line
+  end: number   // Exclusive - equal to start for an empty ad-lib slot
+}
+
+// Words of the line as written, and the regions they fall in
+function getLineWords(text: string): { words: { normalized: string; original: string }[]; regions: WordRegion[] } {
+  const words: { normalized: string; original: string }[] = []
+  const regions: WordRegion[] = []
+  for (const part of splitLineRegions(text)) {
+    const partWords = getWordsWithOriginal(preprocessStutters(part.text))
+    if (part.kind) regions.push({ kind: part.kind, start: words.length, end: words.length + partWords.length })
+    words.push(...partWords)
+  }
+  return { words, regions }
+}
+
+// Where the written line picks up again after an ad-lib: the first spoken word that is
+// the next written word or an equivalent (or the one after, if that was dropped).
+// Everything before it was ad-libbed - the whole rest of the take if the line never resumes.
+function resumeAfterAdlib(
+  expectedWords: string[],
+  expectedOriginals: string[],
+  resumeIdx: number,
+  spokenWords: string[],
+  spokenIdx: number,
+  characterNames: Set<string> | undefined,
+  profile: AccuracyProfile,
+  pack: LanguagePack,
+  lexicon: LexiconIndex | undefined,
+  language: string | null | undefined
+): number {
+  for (let s = spokenIdx; s < spokenWords.length; s++) {
+    for (let e = resumeIdx; e < Math.min(resumeIdx + 2, expectedWords.length); e++) {
+      if (wordsMatch(expectedWords[e], spokenWords[s], expectedOriginals[e], e === 0, characterNames, profile, pack)) return s
+      if (matchEquivalence(expectedWords, e, spokenWords, s, false, lexicon, language)) return s
+    }
+  }
+  return spokenWords.length
+}
+
 // ============================================================================
 // MAIN ACCURACY CHECK
 // ============================================================================
 
+/**
+ * How one stretch of the line was said:
+ * - match: as written (including accepted equivalents, compounds and name slips)
+ * - substitute: different words in place of the written ones
+ * - insert / delete: words added / left out
+ * - transpose: the right words in a different order
+ * - paraphrase: an equivalent the profile doesn't accept ("gonna" for "going to")
+ */
+export type AlignmentOpType = 'match' | 'substitute' | 'insert' | 'delete' | 'transpose' | 'paraphrase'
+
+export interface AlignmentSpan {
+  start: number // Word index in the normalised text
+  end: number   // Exclusive - equal to start for an empty span
+  text: string
+}
+
+export interface AlignmentOp {
+  type: AlignmentOpType
+  expected: AlignmentSpan // Empty for inserts
+  spoken: AlignmentSpan   // Empty for deletes
+}
+
 export interface AccuracyResult {
   isCorrect: boolean
   accuracy: number
   missingWords: string[]
   extraWords: string[]
   wrongWords: string[]
+  paraphrasedWords: string[] // Contractions/slang the profile doesn't accept, e.g. '"gonna" for "going to"'
+  alignment: AlignmentOp[]   // Expected vs spoken, in order (skipped stutters, fillers, unsaid optional words and ad-libs left out)
+}
+
+function alignmentSpan(words: string[], start: number, length: number): AlignmentSpan {
+  return { start, end: start + length, text: words.slice(start, start + length).join(' ') }
 }
 
 /**
  * Check accuracy of spoken text vs expected script line
  * Strict matching for regular words, fuzzy only for proper nouns
+ * Tolerances come from the accuracy profile (`true` is the old strict mode)
+ * Variants in the script lexicon count as the term said correctly
+ * Fillers and equivalents follow the script's language (English by default)
+ * Ad-libs, optional words and overlap cues marked in the line are scored loosely (see splitLineRegions)
  */
-export function checkAccuracy(expected: string, spoken: string, strictMode: boolean = false, characterNames?: Set<string>): AccuracyResult {
-  // Pre-process to handle stutters/dashes in script
-  const processedExpected = preprocessStutters(expected)
-  const expectedWordsWithOrig = getWordsWithOriginal(processedExpected)
+export function checkAccuracy(
+  expected: string,
+  spoken: string,
+  accuracyProfile: AccuracyProfile | boolean = false,
+  characterNames?: Set<string>,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): AccuracyResult {
+  const profile = resolveProfile(accuracyProfile)
+  const pack = getLanguagePack(language)
+  // Pre-process to handle stutters/dashes in script, region by region
+  const { words: expectedWordsWithOrig, regions } = getLineWords(expected)
   const expectedWords = expectedWordsWithOrig.map(w => w.normalized)
+  const expectedOriginals = expectedWordsWithOrig.map(w => w.original)
   const spokenWords = getWords(spoken)
+  const regionAt = (i: number) => regions.find(r => r.start <= i && i < r.end)?.kind ?? null
+  // The next speaker's words may be transcribed too once an overlap cue starts
+  const talkedOver = (i: number) => regionAt(i) === 'overlap' || regionAt(i - 1) === 'overlap'
+  const adlibs = regions.filter(r => r.kind === 'adlib')
+  let nextAdlib = 0
   
   // Quick exact match
   if (expectedWords.join(' ') === spokenWords.join(' ')) {
-    return { isCorrect: true, accuracy: 100, missingWords: [], extraWords: [], wrongWords: [] }
+    const alignment = expectedWords.map((_, i): AlignmentOp => ({
+      type: 'match',
+      expected: alignmentSpan(expectedWords, i, 1),
+      spoken: alignmentSpan(spokenWords, i, 1),
+    }))
+    return { isCorrect: true, accuracy: 100, missingWords: [], extraWords: [], wrongWords: [], paraphrasedWords: [], alignment }
   }
   
   const missingWords: string[] = []
   const extraWords: string[] = []
   const wrongWords: string[] = []
+  const paraphrasedWords: string[] = []
+  const alignment: AlignmentOp[] = []
 
   let expectedIdx = 0
   let spokenIdx = 0
   let matchedCount = 0
   let skippedCount = 0
 
+  // Record how the words at the current position were said (call before advancing)
+  const align = (type: AlignmentOpType, expectedLength: number, spokenLength: number) => {
+    alignment.push({
+      type,
+      expected: alignmentSpan(expectedWords, expectedIdx, expectedLength),
+      spoken: alignmentSpan(spokenWords, spokenIdx, spokenLength),
+    })
+  }
+
   while (expectedIdx < expectedWords.length && spokenIdx < spokenWords.length) {
     const expWord = expectedWords[expectedIdx]
     const expOrig = expectedWordsWithOrig[expectedIdx].original
     const spkWord = spokenWords[spokenIdx]
     const isFirstWord = expectedIdx === 0
 
+    // Ad-lib: whatever was said until the written line resumes goes, and isn't in the denominator
+    if (nextAdlib < adlibs.length && adlibs[nextAdlib].start <= expectedIdx) {
+      const adlib = adlibs[nextAdlib++]
+      skippedCount += Math.max(0, adlib.end - expectedIdx)
+      expectedIdx = Math.max(expectedIdx, adlib.end)
+      spokenIdx = resumeAfterAdlib(expectedWords, expectedOriginals, expectedIdx, spokenWords, spokenIdx, characterNames, profile, pack, lexicon, language)
+      continue
+    }
+
     // Skip filler words in expected that Scribe might not pick up (um, uh, mmhmm, etc.)
-    if (SKIPPABLE_SCRIPT_WORDS.includes(expWord) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (isSkippableScriptWord(expWord, profile, pack) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       // Scribe didn't pick up this filler, skip it - don't count as missing or in denominator
       expectedIdx++
       skippedCount++
@@ -397,25 +1900,48 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
 
     // Skip repeated stutters - if this word is same as previous, user can skip it
     // e.g., "I--I am" becomes "I I am", user can say "I am" and skip the repeated "I"
-    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       // This is a repeated word (stutter), skip it - don't count in denominator
       expectedIdx++
       skippedCount++
       continue
     }
 
+    // Several-word lexicon term ("Nakamura-Reyes") - matched whole, not word by word
+    const lexiconPhrase = matchLexiconPhrase(expectedWords, expectedIdx, spokenWords, spokenIdx, lexicon, language) as EquivalenceMatch | null
+
     // Direct match (strict for regular words, fuzzy for proper nouns)
-    if (wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (!lexiconPhrase && wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
+      align('match', 1, 1)
       matchedCount++
       expectedIdx++
       spokenIdx++
       continue
     }
 
+    // Equivalent phrasing of a different length ("gonna" / "going to", "9:30" / "nine thirty")
+    const equivalent = lexiconPhrase || matchEquivalence(expectedWords, expectedIdx, spokenWords, spokenIdx, false, lexicon, language)
+    if (equivalent) {
+      // Said the line informally - counts towards accuracy, but the profile may report it
+      if (acceptsEquivalence(equivalent.kind, profile)) {
+        align('match', equivalent.expected, equivalent.spoken)
+      } else {
+        const said = spokenWords.slice(spokenIdx, spokenIdx + equivalent.spoken).join(' ')
+        const written = expectedWords.slice(expectedIdx, expectedIdx + equivalent.expected).join(' ')
+        paraphrasedWords.push(`"${said}" for "${written}"`)
+        align('paraphrase', equivalent.expected, equivalent.spoken)
+      }
+      matchedCount += equivalent.expected
+      expectedIdx += equivalent.expected
+      spokenIdx += equivalent.spoken
+      continue
+    }
+
     // Compound word: spoken "cork screw" → expected "corkscrew"
     if (spokenIdx + 1 < spokenWords.length) {
       const joined = spkWord + spokenWords[spokenIdx + 1]
-      if (wordsMatch(expWord, joined, expOrig, isFirstWord, characterNames)) {
+      if (wordsMatch(expWord, joined, expOrig, isFirstWord, characterNames, profile, pack)) {
+        align('match', 1, 2)
         matchedCount++
         expectedIdx++
         spokenIdx += 2
@@ -426,7 +1952,8 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
     // Split word: expected "corkscrew" vs spoken merged, or two expected words merged into one spoken
     if (expectedIdx + 1 < expectedWords.length) {
       const joinedExp = expWord + expectedWords[expectedIdx + 1]
-      if (wordsMatch(joinedExp, spkWord, expOrig, isFirstWord, characterNames)) {
+      if (wordsMatch(joinedExp, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
+        align('match', 2, 1)
         matchedCount += 2
         expectedIdx += 2
         spokenIdx++
@@ -434,51 +1961,32 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
       }
     }
 
-    // Check multi-word expansions (e.g., "i'm" vs "i am")
-    const expExpansions = EQUIVALENTS[expWord] || []
-    let foundExpansion = false
-
-    for (const expansion of expExpansions) {
-      const expWords = expansion.split(' ')
-      if (expWords.length > 1) {
-        const spokenSlice = spokenWords.slice(spokenIdx, spokenIdx + expWords.length)
-        if (spokenSlice.join(' ') === expansion) {
-          matchedCount++
-          expectedIdx++
-          spokenIdx += expWords.length
-          foundExpansion = true
-          break
-        }
-      }
-    }
-    if (foundExpansion) continue
-
-    // Reverse: spoken is contracted, expected is expanded
-    const spkExpansions = EQUIVALENTS[spkWord] || []
-    let foundContraction = false
-
-    for (const expansion of spkExpansions) {
-      const expWords = expansion.split(' ')
-      if (expWords.length > 1) {
-        const expectedSlice = expectedWords.slice(expectedIdx, expectedIdx + expWords.length)
-        if (expectedSlice.join(' ') === expansion) {
-          matchedCount++
-          expectedIdx += expWords.length
-          spokenIdx++
-          foundContraction = true
-          break
-        }
-      }
+    // Optional words and overlap cues that weren't said as written - left out, not missing
+    const region = regionAt(expectedIdx)
+    if (region === 'optional' || region === 'overlap') {
+      expectedIdx++
+      skippedCount++
+      continue
     }
-    if (foundContraction) continue
 
     // Skip filler words in spoken (user says "um", "uh" etc. mid-sentence)
     // Must be checked BEFORE look-ahead to prevent alignment disruption
-    if (FILLER_WORDS.includes(spkWord)) {
+    if (isIgnoredFiller(spkWord, profile, pack)) {
       spokenIdx++
       continue
     }
 
+    // Reordered phrase: "salt and pepper" said as "pepper and salt" - one slip, not two wrong words
+    const transposed = matchTransposition(expectedWords, expectedOriginals, expectedIdx, spokenWords, spokenIdx, characterNames, profile, pack)
+    if (transposed) {
+      const length = transposed.first + transposed.gap + transposed.second
+      align('transpose', length, length)
+      matchedCount += length
+      expectedIdx += length
+      spokenIdx += length
+      continue
+    }
+
     // No match - look ahead to determine if insertion, deletion, or substitution
     const lookAhead = 3
     let foundExpectedAhead = -1
@@ -486,14 +1994,14 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
 
     for (let i = 1; i <= lookAhead && expectedIdx + i < expectedWords.length; i++) {
       const aheadOrig = expectedWordsWithOrig[expectedIdx + i].original
-      if (wordsMatch(expectedWords[expectedIdx + i], spkWord, aheadOrig, false, characterNames)) {
+      if (wordsMatch(expectedWords[expectedIdx + i], spkWord, aheadOrig, false, characterNames, profile, pack)) {
         foundExpectedAhead = i
         break
       }
     }
 
     for (let i = 1; i <= lookAhead && spokenIdx + i < spokenWords.length; i++) {
-      if (wordsMatch(spokenWords[spokenIdx + i], expWord, expOrig, isFirstWord, characterNames)) {
+      if (wordsMatch(spokenWords[spokenIdx + i], expWord, expOrig, isFirstWord, characterNames, profile, pack)) {
         foundSpokenAhead = i
         break
       }
@@ -502,37 +2010,43 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
     if (foundExpectedAhead === -1 && foundSpokenAhead === -1) {
       // Substitution
       wrongWords.push(`"${spkWord}" instead of "${expWord}"`)
+      align('substitute', 1, 1)
       expectedIdx++
       spokenIdx++
-    } else if (foundSpokenAhead !== -1 && (foundExpectedAhead === -1 || foundSpokenAhead <= foundExpectedAhead)) {
-      // Missing word
+    } else if (foundExpectedAhead !== -1 && (foundSpokenAhead === -1 || foundExpectedAhead <= foundSpokenAhead)) {
+      // Missing word - what they said comes later in the line
       missingWords.push(expWord)
+      align('delete', 1, 0)
       expectedIdx++
     } else {
-      // Extra word - but ignore filler words
-      if (!FILLER_WORDS.includes(spkWord)) {
+      // Extra word - but ignore filler words and whatever was heard over an overlap
+      if (!isIgnoredFiller(spkWord, profile, pack) && !talkedOver(expectedIdx)) {
         extraWords.push(spkWord)
+        align('insert', 0, 1)
       }
       spokenIdx++
     }
   }
 
-  // Remaining expected = missing (but skip stutters and skippable words)
+  // Remaining expected = missing (but skip stutters, skippable words and marked regions)
   while (expectedIdx < expectedWords.length) {
     const word = expectedWords[expectedIdx]
-    if (SKIPPABLE_SCRIPT_WORDS.includes(word) ||
+    if (regionAt(expectedIdx) || isSkippableScriptWord(word, profile, pack) ||
         (expectedIdx > 0 && word === expectedWords[expectedIdx - 1])) {
       skippedCount++
     } else {
       missingWords.push(word)
+      align('delete', 1, 0)
     }
     expectedIdx++
   }
 
-  // Remaining spoken = extra (ignore fillers)
+  // Remaining spoken = extra (ignore fillers, and anything after an ad-lib or overlap that ends the line)
+  const openEnded = talkedOver(expectedWords.length) || adlibs.some(r => r.end === expectedWords.length)
   while (spokenIdx < spokenWords.length) {
-    if (!FILLER_WORDS.includes(spokenWords[spokenIdx])) {
+    if (!isIgnoredFiller(spokenWords[spokenIdx], profile, pack) && !openEnded) {
       extraWords.push(spokenWords[spokenIdx])
+      align('insert', 0, 1)
     }
     spokenIdx++
   }
@@ -541,32 +2055,45 @@ export function checkAccuracy(expected: string, spoken: string, strictMode: bool
   const effectiveWordCount = expectedWords.length - skippedCount
   const accuracy = effectiveWordCount > 0 ? Math.round((matchedCount / effectiveWordCount) * 100) : 100
 
-  // Scale tolerance based on effective line length and strict mode
+  // Scale tolerance based on effective line length and the profile
+  // (1 / 2 / 3 slips per unit of tolerance for up to 10 / 20 / more words)
   const wordCount = effectiveWordCount
-  const allowedMissing = strictMode ? 0 : (wordCount > 20 ? 3 : wordCount > 10 ? 2 : 1)
-  const allowedExtra = strictMode ? 0 : (wordCount > 20 ? 3 : wordCount > 10 ? 2 : 1)
-  const minAccuracy = strictMode ? 100 : (wordCount > 20 ? 85 : 90)
+  const allowedSlips = Math.min(Math.max(Math.ceil(wordCount / 10), 1), 3) * profile.wordTolerance
+  // Long lines get 5 points of slack when the profile tolerates slips at all
+  const minAccuracy = profile.wordTolerance > 0 && wordCount > 20
+    ? profile.passThreshold - 5
+    : profile.passThreshold
 
   // Pass criteria:
-  // - No wrong substitutions (saying "old" instead of "young" is always a fail)
-  // - Meet minimum accuracy threshold (scales with line length, or 100% in strict mode)
-  // - Within allowed missing/extra words (0 in strict mode)
+  // - No wrong substitutions (saying "old" instead of "young" fails unless the profile allows paraphrase)
+  // - Meet the profile's minimum accuracy threshold
+  // - Within allowed missing/extra words (paraphrases, reordered phrases, and swaps when allowed, count as missing)
+  const transpositions = alignment.filter(op => op.type === 'transpose').length
+  const slips = missingWords.length + paraphrasedWords.length + transpositions + (profile.allowSubstitutions ? wrongWords.length : 0)
   const isCorrect =
-    wrongWords.length === 0 &&
+    (profile.allowSubstitutions || wrongWords.length === 0) &&
     accuracy >= minAccuracy &&
-    missingWords.length <= allowedMissing &&
-    extraWords.length <= allowedExtra
+    slips <= allowedSlips &&
+    extraWords.length <= allowedSlips
   
-  return { isCorrect, accuracy, missingWords, extraWords, wrongWords }
+  return { isCorrect, accuracy, missingWords, extraWords, wrongWords, paraphrasedWords, alignment }
 }
 
 // ============================================================================
 // REAL-TIME WORD MATCHING (for live highlighting)
 // ============================================================================
 
-export function getRealtimeWordMatch(expected: string, spoken: string, characterNames?: Set<string>): { matched: number; hasError: boolean } {
+export function getRealtimeWordMatch(
+  expected: string,
+  spoken: string,
+  characterNames?: Set<string>,
+  profile: AccuracyProfile = STANDARD_PROFILE,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): { matched: number; hasError: boolean } {
+  const pack = getLanguagePack(language)
   // Pre-process to handle stutters/dashes in script
-  const processedExpected = preprocessStutters(expected)
+  const processedExpected = preprocessStutters(stripLineMarkup(expected))
   const expectedWordsWithOrig = getWordsWithOriginal(processedExpected)
   const expectedWords = expectedWordsWithOrig.map(w => w.normalized)
   const spokenWords = getWords(spoken)
@@ -583,21 +2110,33 @@ export function getRealtimeWordMatch(expected: string, spoken: string, character
     const isFirstWord = expectedIdx === 0
     
     // Skip stutters - if this expected word is same as previous, and doesn't match spoken, skip it
-    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       expectedIdx++
       continue
     }
     
     // Skip filler words in expected
-    if (SKIPPABLE_SCRIPT_WORDS.includes(expWord) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (isSkippableScriptWord(expWord, profile, pack) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       expectedIdx++
       continue
     }
     
-    if (wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    const lexiconPhrase = matchLexiconPhrase(expectedWords, expectedIdx, spokenWords, spokenIdx, lexicon, language, true)
+    if (lexiconPhrase === 'partial') break
+
+    if (!lexiconPhrase && wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       matched++
       expectedIdx++
       spokenIdx++
+      continue
+    }
+
+    const equivalent = lexiconPhrase || matchEquivalence(expectedWords, expectedIdx, spokenWords, spokenIdx, true, lexicon, language)
+    if (equivalent === 'partial') break
+    if (equivalent) {
+      matched += equivalent.expected
+      expectedIdx += equivalent.expected
+      spokenIdx += equivalent.spoken
     } else {
       hasError = true
       break
@@ -623,17 +2162,24 @@ export interface SubsequenceMatchResult {
  * Unlike sequential locking, this allows gaps — word 4 being wrong
  * doesn't prevent words 5-10 from turning green.
  *
- * @param expected - The expected line from the script
+ * @param expected - The expected line from the script, as markup (see markLineRegions)
  * @param spoken - Accumulated transcript from Deepgram (finals + partial)
  * @param characterNames - Optional set of character names for fuzzy matching
+ * @param profile - Accuracy profile for the script (word matching and fillers)
+ * @param lexicon - Spoken forms of the script's names and jargon
+ * @param language - Script language for fillers and equivalents (see resolveLanguage)
  * @returns Set of matched expected-word indices + coverage ratio
  */
 export function getSubsequenceWordMatch(
   expected: string,
   spoken: string,
-  characterNames?: Set<string>
+  characterNames?: Set<string>,
+  profile: AccuracyProfile = STANDARD_PROFILE,
+  lexicon?: LexiconIndex,
+  language?: string | null
 ): SubsequenceMatchResult {
-  const processedExpected = preprocessStutters(expected)
+  const pack = getLanguagePack(language)
+  const processedExpected = preprocessStutters(stripLineMarkup(expected))
   const expectedWordsWithOrig = getWordsWithOriginal(processedExpected)
   const expectedWords = expectedWordsWithOrig.map(w => w.normalized)
   const spokenWords = getWords(spoken)
@@ -644,7 +2190,7 @@ export function getSubsequenceWordMatch(
   let skippedCount = 0
   for (let i = 0; i < expectedWords.length; i++) {
     const w = expectedWords[i]
-    if (SKIPPABLE_SCRIPT_WORDS.includes(w)) {
+    if (isSkippableScriptWord(w, profile, pack)) {
       matchedIndices.add(i)
       skippedCount++
     } else if (i > 0 && w === expectedWords[i - 1]) {
@@ -674,7 +2220,7 @@ export function getSubsequenceWordMatch(
   // Filter out filler words from spoken
   const filteredSpoken: string[] = []
   for (const w of spokenWords) {
-    if (!FILLER_WORDS.includes(w)) {
+    if (!isIgnoredFiller(w, profile, pack)) {
       filteredSpoken.push(w)
     }
   }
@@ -692,6 +2238,7 @@ export function getSubsequenceWordMatch(
   // Greedy left-to-right scan: for each spoken word in order,
   // find the earliest unmatched expected word that matches.
   // This ensures green words light up sequentially from left to right.
+  const remainingExpected = expIndices.map(i => expectedWords[i])
   let expPtr = 0 // Next expected word to try matching
   for (let j = 0; j < filteredSpoken.length && expPtr < expIndices.length; j++) {
     // Try to match this spoken word against the next unmatched expected words
@@ -701,11 +2248,19 @@ export function getSubsequenceWordMatch(
       const expWord = expectedWords[ei]
       const expOrig = expectedWordsWithOrig[ei].original
       const isFirst = ei === 0
-      if (wordsMatch(expWord, filteredSpoken[j], expOrig, isFirst, characterNames)) {
+      if (wordsMatch(expWord, filteredSpoken[j], expOrig, isFirst, characterNames, profile, pack)) {
         matchedIndices.add(ei)
         expPtr = look + 1
         break
       }
+      // "nine thirty" for "9:30" lights up every word it covers
+      const equivalent = matchEquivalence(remainingExpected, look, filteredSpoken, j, false, lexicon, language)
+      if (equivalent) {
+        for (let k = look; k < look + equivalent.expected; k++) matchedIndices.add(expIndices[k])
+        expPtr = look + equivalent.expected
+        j += equivalent.spoken - 1
+        break
+      }
     }
   }
 
@@ -738,19 +2293,26 @@ export interface LockedWordState {
  * If STT later re-transcribes and changes that word, we ignore the change
  * and only look at NEW words beyond our locked position.
  * 
- * @param expected - The expected line from the script
+ * @param expected - The expected line from the script, as markup (see markLineRegions)
  * @param spoken - Full transcript from STT  
  * @param prevState - Previous locked state (or null for fresh start)
+ * @param profile - Accuracy profile for the script (word matching and fillers)
+ * @param lexicon - Spoken forms of the script's names and jargon
+ * @param language - Script language for fillers and equivalents (see resolveLanguage)
  * @returns New state with updated locked words
  */
 export function getLockedWordMatch(
   expected: string,
   spoken: string,
   prevState: LockedWordState | null,
-  characterNames?: Set<string>
+  characterNames?: Set<string>,
+  profile: AccuracyProfile = STANDARD_PROFILE,
+  lexicon?: LexiconIndex,
+  language?: string | null
 ): LockedWordState {
+  const pack = getLanguagePack(language)
   // Pre-process expected text
-  const processedExpected = preprocessStutters(expected)
+  const processedExpected = preprocessStutters(stripLineMarkup(expected))
   const expectedWordsWithOrig = getWordsWithOriginal(processedExpected)
   const expectedWords = expectedWordsWithOrig.map(w => w.normalized)
   const spokenWords = getWords(spoken)
@@ -794,23 +2356,38 @@ export function getLockedWordMatch(
     const isFirstWord = expectedIdx === 0
     
     // Skip stutters in expected
-    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1] && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       expectedIdx++
       continue
     }
     
     // Skip filler words in expected
-    if (SKIPPABLE_SCRIPT_WORDS.includes(expWord) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    if (isSkippableScriptWord(expWord, profile, pack) && !wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       expectedIdx++
       continue
     }
     
-    if (wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    // Several-word lexicon terms lock whole - wait until all of "doctor nakamura raise" is in
+    const lexiconPhrase = matchLexiconPhrase(expectedWords, expectedIdx, spokenWords, spokenIdx, lexicon, language, true)
+    if (lexiconPhrase === 'partial') break
+
+    if (!lexiconPhrase && wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       // Match! Lock this word
       lockedWords.push(spkWord)
       lockedCount++
       expectedIdx++
       spokenIdx++
+      continue
+    }
+
+    // Equivalent phrasing locks too - checkAccuracy reports it if the profile minds
+    const equivalent = lexiconPhrase || matchEquivalence(expectedWords, expectedIdx, spokenWords, spokenIdx, true, lexicon, language)
+    if (equivalent === 'partial') break // Wait for the rest of "nine thirty"
+    if (equivalent) {
+      lockedWords.push(...spokenWords.slice(spokenIdx, spokenIdx + equivalent.spoken))
+      lockedCount += equivalent.expected
+      expectedIdx += equivalent.expected
+      spokenIdx += equivalent.spoken
     } else {
       // Mismatch - mark error and stop
       hasError = true
@@ -830,24 +2407,39 @@ export function createFreshLockedState(): LockedWordState {
 
 /**
  * Get word-by-word comparison results
- * Returns an array with a result for each expected word: 'correct', 'wrong', or 'missing'
+ * Returns an array with a result for each expected word: 'correct', 'wrong', 'missing', 'paraphrase'
+ * or 'transposed' (part of a phrase said in a different order)
  * 
- * @param expected - The expected line from the script
+ * @param expected - The expected line from the script, as markup (see markLineRegions)
  * @param spoken - Full transcript from STT
+ * @param profile - Accuracy profile for the script (word matching and fillers)
+ * @param lexicon - Spoken forms of the script's names and jargon
+ * @param language - Script language for fillers and equivalents (see resolveLanguage)
  * @returns Array of results per expected word, plus the spoken word for wrong answers
  */
+export type WordResult = 'correct' | 'wrong' | 'missing' | 'paraphrase' | 'transposed'
+
 export interface WordByWordResult {
-  results: Array<'correct' | 'wrong' | 'missing'>
+  results: WordResult[]
   spokenWords: string[] // What user actually said (aligned to expected)
 }
 
-export function getWordByWordResults(expected: string, spoken: string, characterNames?: Set<string>): WordByWordResult {
-  const processedExpected = preprocessStutters(expected)
+export function getWordByWordResults(
+  expected: string,
+  spoken: string,
+  characterNames?: Set<string>,
+  profile: AccuracyProfile = STANDARD_PROFILE,
+  lexicon?: LexiconIndex,
+  language?: string | null
+): WordByWordResult {
+  const pack = getLanguagePack(language)
+  const processedExpected = preprocessStutters(stripLineMarkup(expected))
   const expectedWordsWithOrig = getWordsWithOriginal(processedExpected)
   const expectedWords = expectedWordsWithOrig.map(w => w.normalized)
+  const expectedOriginals = expectedWordsWithOrig.map(w => w.original)
   const spokenWords = getWords(spoken)
   
-  const results: Array<'correct' | 'wrong' | 'missing'> = []
+  const results: WordResult[] = []
   const alignedSpoken: string[] = []
   
   let expectedIdx = 0
@@ -861,7 +2453,7 @@ export function getWordByWordResults(expected: string, spoken: string, character
     // Skip stutters in expected
     if (expectedIdx > 0 && expWord === expectedWords[expectedIdx - 1]) {
       // This is a stutter repeat - mark as correct if we're past it
-      if (spokenIdx > 0 || (spokenIdx < spokenWords.length && wordsMatch(expWord, spokenWords[spokenIdx], expOrig, isFirstWord, characterNames))) {
+      if (spokenIdx > 0 || (spokenIdx < spokenWords.length && wordsMatch(expWord, spokenWords[spokenIdx], expOrig, isFirstWord, characterNames, profile, pack))) {
         results.push('correct')
         alignedSpoken.push(expWord) // Use expected word for stutters
         expectedIdx++
@@ -870,8 +2462,8 @@ export function getWordByWordResults(expected: string, spoken: string, character
     }
     
     // Skip filler words in expected that might not be transcribed
-    if (SKIPPABLE_SCRIPT_WORDS.includes(expWord)) {
-      if (spokenIdx < spokenWords.length && wordsMatch(expWord, spokenWords[spokenIdx], expOrig, isFirstWord, characterNames)) {
+    if (isSkippableScriptWord(expWord, profile, pack)) {
+      if (spokenIdx < spokenWords.length && wordsMatch(expWord, spokenWords[spokenIdx], expOrig, isFirstWord, characterNames, profile, pack)) {
         // User said the filler
         results.push('correct')
         alignedSpoken.push(spokenWords[spokenIdx])
@@ -895,8 +2487,9 @@ export function getWordByWordResults(expected: string, spoken: string, character
     
     const spkWord = spokenWords[spokenIdx]
     
-    // Check for match
-    if (wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames)) {
+    // Check for match (a several-word lexicon term first, as a whole)
+    const lexiconPhrase = matchLexiconPhrase(expectedWords, expectedIdx, spokenWords, spokenIdx, lexicon, language) as EquivalenceMatch | null
+    if (!lexiconPhrase && wordsMatch(expWord, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
       results.push('correct')
       alignedSpoken.push(spkWord)
       expectedIdx++
@@ -904,10 +2497,23 @@ export function getWordByWordResults(expected: string, spoken: string, character
       continue
     }
 
+    // Equivalent phrasing ("gonna" / "going to") - flagged if the profile wants it as written
+    const equivalent = lexiconPhrase || matchEquivalence(expectedWords, expectedIdx, spokenWords, spokenIdx, false, lexicon, language)
+    if (equivalent) {
+      const result = acceptsEquivalence(equivalent.kind, profile) ? 'correct' : 'paraphrase'
+      for (let i = 0; i < equivalent.expected; i++) {
+        results.push(result)
+        alignedSpoken.push(i === 0 ? spokenWords.slice(spokenIdx, spokenIdx + equivalent.spoken).join(' ') : '')
+      }
+      expectedIdx += equivalent.expected
+      spokenIdx += equivalent.spoken
+      continue
+    }
+
     // Compound word: spoken "cork screw" → expected "corkscrew"
     if (spokenIdx + 1 < spokenWords.length) {
       const joined = spkWord + spokenWords[spokenIdx + 1]
-      if (wordsMatch(expWord, joined, expOrig, isFirstWord, characterNames)) {
+      if (wordsMatch(expWord, joined, expOrig, isFirstWord, characterNames, profile, pack)) {
         results.push('correct')
         alignedSpoken.push(joined)
         expectedIdx++
@@ -919,7 +2525,7 @@ export function getWordByWordResults(expected: string, spoken: string, character
     // Split word: two expected words merged into one spoken word
     if (expectedIdx + 1 < expectedWords.length) {
       const joinedExp = expWord + expectedWords[expectedIdx + 1]
-      if (wordsMatch(joinedExp, spkWord, expOrig, isFirstWord, characterNames)) {
+      if (wordsMatch(joinedExp, spkWord, expOrig, isFirstWord, characterNames, profile, pack)) {
         results.push('correct')
         alignedSpoken.push(spkWord)
         expectedIdx++
@@ -932,47 +2538,20 @@ export function getWordByWordResults(expected: string, spoken: string, character
       }
     }
 
-    // Check multi-word expansions (e.g., "i'm" vs "i am")
-    const expExpansions = EQUIVALENTS[expWord] || []
-    let foundExpansion = false
-
-    for (const expansion of expExpansions) {
-      const expWords = expansion.split(' ')
-      if (expWords.length > 1) {
-        const spokenSlice = spokenWords.slice(spokenIdx, spokenIdx + expWords.length)
-        if (spokenSlice.join(' ') === expansion) {
-          results.push('correct')
-          alignedSpoken.push(spokenSlice.join(' '))
-          expectedIdx++
-          spokenIdx += expWords.length
-          foundExpansion = true
-          break
-        }
-      }
-    }
-    if (foundExpansion) continue
-
-    // Check multi-word contractions (e.g., "i am" vs "i'm")
-    const spkExpansions = EQUIVALENTS[spkWord] || []
-    for (const expansion of spkExpansions) {
-      const expWords = expansion.split(' ')
-      if (expWords.length > 1) {
-        const expectedSlice = expectedWords.slice(expectedIdx, expectedIdx + expWords.length)
-        if (expectedSlice.join(' ') === expansion) {
-          // Mark all words in the expansion as correct
-          for (let i = 0; i < expWords.length; i++) {
-            results.push('correct')
-            alignedSpoken.push(i === 0 ? spkWord : '')
-          }
-          expectedIdx += expWords.length
-          spokenIdx++
-          foundExpansion = true
-          break
-        }
+    // Reordered phrase - both blocks marked as transposed, the word between them (if any) correct
+    const transposed = !isIgnoredFiller(spkWord, profile, pack) && matchTransposition(expectedWords, expectedOriginals, expectedIdx, spokenWords, spokenIdx, characterNames, profile, pack)
+    if (transposed) {
+      const length = transposed.first + transposed.gap + transposed.second
+      for (let i = 0; i < length; i++) {
+        const inGap = transposed.gap > 0 && i === transposed.first
+        results.push(inGap ? 'correct' : 'transposed')
+        alignedSpoken.push(spokenWords[spokenIdx + i])
       }
+      expectedIdx += length
+      spokenIdx += length
+      continue
     }
-    if (foundExpansion) continue
-    
+
     // Not a match - mark as wrong and show what they said
     results.push('wrong')
     alignedSpoken.push(spkWord)
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { lineAttemptRows, parseAccuracyBatch, scoreAccuracyBatch, MAX_BATCH_ATTEMPTS, AccuracyBatch } from './accuracyBatch'
+import { SCORER_VERSION } from './scorer'
+
+const now = '2026-01-01T00:00:00.000Z'
+
+describe('parseAccuracyBatch', () => {
+  it('reads attempts and options', () => {
+    const batch = parseAccuracyBatch({
+      scriptId: 's1',
+      profile: 'verbatim',
+      language: 'vi-VN',
+      lexicon: [{ term: 'Okafor', variants: ['oh car for', 3] }, { term: 'bad' }],
+      persist: true,
+      attempts: [{ lineId: 'l1', expected: "You're late.", spoken: 'you are late' }],
+    }) as AccuracyBatch
+
+    expect(batch).toMatchObject({ scriptId: 's1', sessionId: null, sttProvider: null, language: 'vi-VN', persist: true })
+    expect(batch.profile.id).toBe('verbatim')
+    expect(batch.lexicon).toEqual([{ term: 'Okafor', variants: ['oh car for'] }])
+    expect(batch.attempts).toEqual([{ lineId: 'l1', expected: "You're late.", spoken: 'you are late' }])
+  })
+
+  it('rejects bodies it cannot score', () => {
+    expect(parseAccuracyBatch(null)).toBe('Expected a JSON body')
+    expect(parseAccuracyBatch({ attempts: [] })).toBe('No attempts provided')
+    expect(parseAccuracyBatch({ attempts: [{ expected: 'Hi' }] })).toBe('Attempt 1 needs expected and spoken text')
+    const tooMany = Array.from({ length: MAX_BATCH_ATTEMPTS + 1 }, () => ({ expected: 'a', spoken: 'a' }))
+    expect(parseAccuracyBatch({ attempts: tooMany })).toMatch(/^At most/)
+  })
+
+  it('takes the known settings of a custom profile', () => {
+    const batch = parseAccuracyBatch({
+      profile: { id: 'mine', name: 'Mine', wordTolerance: -2, contractions: 'either', passThreshold: 'high', extra: true },
+      attempts: [{ expected: 'a', spoken: 'a' }],
+    }) as AccuracyBatch
+    expect(batch.profile).toMatchObject({ id: 'mine', name: 'Mine', wordTolerance: 0, contractions: 'either', passThreshold: 90 })
+    expect(batch.profile).not.toHaveProperty('extra')
+  })
+})
+
+describe('scoring and rows', () => {
+  const batch = parseAccuracyBatch({
+    scriptId: 's1',
+    sessionId: 'p1',
+    sttProvider: 'webspeech',
+    profile: 'off-book',
+    attempts: [
+      { lineId: 'l1', expected: 'Go home, John.', spoken: 'go home john' },
+      { expected: 'It always is.', spoken: 'it is' },
+    ],
+  }) as AccuracyBatch
+
+  it('scores every attempt with the profile', () => {
+    const scores = scoreAccuracyBatch(batch)
+    expect(scores.map(s => s.isCorrect)).toEqual([true, false])
+    expect(scores[1].missingWords).toEqual(['always'])
+  })
+
+  it('builds line_attempts rows with the scorer version', () => {
+    const rows = lineAttemptRows(batch, scoreAccuracyBatch(batch), 'u1', now)
+    expect(rows[0]).toMatchObject({
+      user_id: 'u1',
+      line_id: 'l1',
+      script_id: 's1',
+      session_id: 'p1',
+      stt_provider: 'webspeech',
+      spoken_text: 'go home john',
+      is_correct: true,
+      accuracy: 100,
+      profile_id: 'off-book',
+      scorer_version: SCORER_VERSION,
+      created_at: now,
+    })
+    expect(rows[1]).toMatchObject({ line_id: null, is_correct: false, self_graded: null, missing_words: ['always'] })
+    expect(rows[1].alignment.some(op => op.type === 'delete')).toBe(true)
+  })
+  it('keeps self-graded verdicts instead of rescoring them', () => {
+    const selfGraded = parseAccuracyBatch({
+      sttProvider: 'self-grade',
+      attempts: [
+        { lineId: 'l1', expected: 'Go home, John.', spoken: '', selfGraded: true },
+        { lineId: 'l2', expected: 'It always is.', spoken: 'It always is.', selfGraded: false },
+      ],
+    }) as AccuracyBatch
+    expect(selfGraded.attempts[0].selfGraded).toBe(true)
+
+    const rows = lineAttemptRows(selfGraded, scoreAccuracyBatch(selfGraded), 'u1', now)
+    // Kept apart from scored takes - no is_correct or accuracy to count in stats
+    expect(rows[0]).toMatchObject({ stt_provider: 'self-grade', self_graded: true, is_correct: null, accuracy: null })
+    expect(rows[1]).toMatchObject({ stt_provider: 'self-grade', self_graded: false, is_correct: null, accuracy: null, alignment: [] })
+  })
+
+  it('only takes self-graded results in self-grade batches', () => {
+    expect(parseAccuracyBatch({ sttProvider: 'deepgram', attempts: [{ expected: 'Hi', spoken: 'no', selfGraded: true }] }))
+      .toBe('Attempt 1 can only be self-graded with sttProvider "self-grade"')
+    expect(parseAccuracyBatch({ attempts: [{ expected: 'Hi', spoken: 'no', selfGraded: true }] }))
+      .toBe('Attempt 1 can only be self-graded with sttProvider "self-grade"')
+    expect(parseAccuracyBatch({ sttProvider: 'self-grade', attempts: [{ expected: 'Hi', spoken: 'Hi' }] }))
+      .toBe('Attempt 1 needs the self-graded result')
+  })
+
+  it('saves the verdict the actor was shown beside the server score', () => {
+    const shown = parseAccuracyBatch({
+      sttProvider: 'deepgram',
+      attempts: [{ lineId: 'l1', expected: 'It always is.', spoken: 'It is.', shown: { isCorrect: true, accuracy: 92, source: 'realtime' } }],
+    }) as AccuracyBatch
+
+    const rows = lineAttemptRows(shown, scoreAccuracyBatch(shown), 'u1', now)
+    expect(rows[0]).toMatchObject({ is_correct: false, shown_correct: true, shown_accuracy: 92, shown_source: 'realtime' })
+    expect(lineAttemptRows(batch, scoreAccuracyBatch(batch), 'u1', now)[0])
+      .toMatchObject({ shown_correct: null, shown_accuracy: null, shown_source: null })
+  })
+
+  it('rejects a shown verdict it cannot save', () => {
+    const attempt = (shown: unknown) => parseAccuracyBatch({ attempts: [{ expected: 'Hi', spoken: 'Hi', shown }] })
+    expect(attempt({ isCorrect: 'yes', accuracy: 100, source: 'azure' })).toBe('Attempt 1: shown isCorrect must be true or false')
+    expect(attempt({ isCorrect: true, accuracy: 140, source: 'azure' })).toBe('Attempt 1: shown accuracy must be between 0 and 100')
+    expect(attempt({ isCorrect: true, accuracy: 100, source: 'guess' })).toBe('Attempt 1: shown source must be one of scorer, azure, realtime')
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * Accuracy batches for /api/accuracy
+ * Checks the request body, scores every attempt with the line scorer and turns
+ * the results into line_attempts rows - the server's record of how a take scored.
+ */
+
+import { AccuracyProfile, getAccuracyProfile } from './accuracy'
+import { LineScore, scoreLine, SCORER_VERSION } from './scorer'
+import type { LineAttempt } from './supabase'
+
+// Attempts per request and characters per text - a session's worth, not a corpus
+export const MAX_BATCH_ATTEMPTS = 100
+const MAX_TEXT_LENGTH = 2000
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// What decided the verdict the actor was shown
+export const VERDICT_SOURCES = ['scorer', 'azure', 'realtime'] as const
+export type VerdictSource = typeof VERDICT_SOURCES[number]
+
+export interface ShownVerdict {
+  isCorrect: boolean
+  accuracy: number
+  source: VerdictSource
+}
+
+export interface AccuracyAttemptInput {
+  lineId?: string | null
+  expected: string
+  spoken: string
+  selfGraded?: boolean           // The actor's own got-it/missed call - only in self-grade batches, never rescored
+  shown?: ShownVerdict           // What the app told the actor, saved beside the server's score
+}
+
+export interface AccuracyBatch {
+  scriptId: string | null
+  sessionId: string | null
+  sttProvider: string | null     // Speech recognition engine that heard the takes
+  profile: AccuracyProfile
+  language: string | null
+  characterNames: string[]
+  lexicon: { term: string; variants: string[] }[]
+  persist: boolean               // Save to line_attempts as the signed-in user
+  attempts: AccuracyAttemptInput[]
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const optionalString = (value: unknown) => isString(value) && value.trim() ? value.trim() : null
+
+function parseShownVerdict(value: unknown): ShownVerdict | string | undefined {
+  if (value === undefined || value === null) return undefined
+  const { isCorrect, accuracy, source } = value as Record<string, unknown>
+  if (typeof isCorrect !== 'boolean') return 'isCorrect must be true or false'
+  if (typeof accuracy !== 'number' || !(accuracy >= 0 && accuracy <= 100)) return 'accuracy must be between 0 and 100'
+  if (!VERDICT_SOURCES.includes(source as VerdictSource)) return `source must be one of ${VERDICT_SOURCES.join(', ')}`
+  return { isCorrect, accuracy, source: source as VerdictSource }
+}
+
+// A built-in profile id, or a custom profile - only its known settings are taken
+function parseProfile(value: unknown): AccuracyProfile {
+  if (!value || typeof value !== 'object') return getAccuracyProfile(isString(value) ? value : null)
+  const custom = value as Partial<AccuracyProfile>
+  const base = getAccuracyProfile(custom.id)
+  const number = (n: unknown, fallback: number) => typeof n === 'number' && Number.isFinite(n) ? n : fallback
+  return {
+    ...base,
+    id: isString(custom.id) ? custom.id : base.id,
+    name: isString(custom.name) ? custom.name : base.name,
+    wordTolerance: Math.max(0, number(custom.wordTolerance, base.wordTolerance)),
+    allowSubstitutions: typeof custom.allowSubstitutions === 'boolean' ? custom.allowSubstitutions : base.allowSubstitutions,
+    contractions: custom.contractions === 'exact' || custom.contractions === 'either' ? custom.contractions : base.contractions,
+    fillers: custom.fillers === 'ignore' || custom.fillers === 'count' ? custom.fillers : base.fillers,
+    properNounSimilarity: Math.min(1, Math.max(0, number(custom.properNounSimilarity, base.properNounSimilarity))),
+    passThreshold: Math.min(100, Math.max(0, number(custom.passThreshold, base.passThreshold))),
+  }
+}
+
+/**
+ * Check a request body - returns the batch, or what's wrong with it
+ */
+export function parseAccuracyBatch(body: unknown): AccuracyBatch | string {
+  if (!body || typeof body !== 'object') return 'Expected a JSON body'
+  const input = body as Record<string, unknown>
+
+  if (!Array.isArray(input.attempts) || input.attempts.length === 0) return 'No attempts provided'
+  if (input.attempts.length > MAX_BATCH_ATTEMPTS) return `At most ${MAX_BATCH_ATTEMPTS} attempts per request`
+
+  // A self-graded take is the actor's word, not a score - only a self-grade batch may carry one
+  const sttProvider = optionalString(input.sttProvider)
+  const selfGrade = sttProvider === 'self-grade'
+
+  const attempts: AccuracyAttemptInput[] = []
+  for (const [i, attempt] of input.attempts.entries()) {
+    const { lineId, expected, spoken, selfGraded, shown } = (attempt || {}) as Record<string, unknown>
+    if (!isString(expected) || !isString(spoken)) return `Attempt ${i + 1} needs expected and spoken text`
+    if (expected.length > MAX_TEXT_LENGTH || spoken.length > MAX_TEXT_LENGTH) return `Attempt ${i + 1} is too long`
+    if (selfGrade !== (typeof selfGraded === 'boolean')) {
+      return selfGrade ? `Attempt ${i + 1} needs the self-graded result` : `Attempt ${i + 1} can only be self-graded with sttProvider "self-grade"`
+    }
+    const verdict = parseShownVerdict(shown)
+    if (typeof verdict === 'string') return `Attempt ${i + 1}: shown ${verdict}`
+    attempts.push({
+      lineId: optionalString(lineId),
+      expected,
+      spoken,
+      ...(typeof selfGraded === 'boolean' && { selfGraded }),
+      ...(verdict && { shown: verdict }),
+    })
+  }
+
+  const lexicon = Array.isArray(input.lexicon)
+    ? input.lexicon
+        .filter((t): t is { term: string; variants: unknown[] } => isString(t?.term) && Array.isArray(t?.variants))
+        .map(t => ({ term: t.term, variants: t.variants.filter(isString) }))
+    : []
+
+  return {
+    scriptId: optionalString(input.scriptId),
+    sessionId: optionalString(input.sessionId),
+    sttProvider,
+    profile: parseProfile(input.profile),
+    language: optionalString(input.language),
+    characterNames: Array.isArray(input.characterNames) ? input.characterNames.filter(isString) : [],
+    lexicon,
+    persist: input.persist === true,
+    attempts,
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+// A self-graded take scores all or nothing on the actor's say-so - there's no transcript to check
+function selfGradedScore(attempt: AccuracyAttemptInput, gotIt: boolean): LineScore {
+  return {
+    isCorrect: gotIt,
+    accuracy: gotIt ? 100 : 0,
+    missingWords: [],
+    extraWords: [],
+    wrongWords: [],
+    paraphrasedWords: [],
+    alignment: [],
+    expected: attempt.expected,
+    spoken: attempt.spoken,
+    words: [],
+  }
+}
+
+export function scoreAccuracyBatch(batch: AccuracyBatch): LineScore[] {
+  const options = { profile: batch.profile, language: batch.language, characterNames: batch.characterNames, lexicon: batch.lexicon }
+  return batch.attempts.map(a => a.selfGraded !== undefined
+    ? selfGradedScore(a, a.selfGraded)
+    : scoreLine(a.expected, a.spoken, options))
+}
+
+/**
+ * line_attempts rows for a scored batch
+ */
+export function lineAttemptRows(
+  batch: AccuracyBatch,
+  scores: LineScore[],
+  userId: string,
+  now: string
+): Omit<LineAttempt, 'id'>[] {
+  return scores.map((score, i) => ({
+    user_id: userId,
+    line_id: batch.attempts[i].lineId ?? null,
+    script_id: batch.scriptId,
+    session_id: batch.sessionId,
+    stt_provider: batch.sttProvider,
+    expected_text: score.expected,
+    spoken_text: score.spoken,
+    is_correct: batch.attempts[i].selfGraded === undefined ? score.isCorrect : null,
+    accuracy: batch.attempts[i].selfGraded === undefined ? score.accuracy : null,
+    self_graded: batch.attempts[i].selfGraded ?? null,
+    shown_correct: batch.attempts[i].shown?.isCorrect ?? null,
+    shown_accuracy: batch.attempts[i].shown?.accuracy ?? null,
+    shown_source: batch.attempts[i].shown?.source ?? null,
+    missing_words: score.missingWords,
+    extra_words: score.extraWords,
+    wrong_words: score.wrongWords,
+    paraphrased_words: score.paraphrasedWords,
+    alignment: score.alignment,
+    profile_id: batch.profile.id,
+    language: batch.language,
+    scorer_version: SCORER_VERSION,
+    created_at: now,
+  }))
+}
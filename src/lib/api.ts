@@ -1,8 +1,21 @@
+import { getAuthHeaders, suggestVoice, Character, Line, Scene, Script } from './supabase'
+import { extractAllPagesFromPDF, extractPagesFromPDF, extractScreenplayFromPDF } from './pdfExtractor'
+import { buildScreenplay, parseScreenplay, ParsedScreenplay, ScreenplayBlock } from './scriptParser'
+import { parseFountain } from './fountain'
+import { parseFdx } from './fdx'
+import { buildSides, SidesOptions, SidesPick } from './sidesBuilder'
+import { diffScript, planRevision, RevisionOptions, RevisionPlan, RevisionPreview } from './revision'
+import { LexiconTerm, lexiconEquivalents, lexiconPrompt } from './lexicon'
+import type { AccuracyProfile } from './accuracy'
+import type { AccuracyAttemptInput } from './accuracyBatch'
+import type { LineScore } from './scorer'
+
 // API endpoints for n8n workflows
 const N8N_BASE_URL = 'https://n8n.textflow.com.au/webhook'
 
 export const api = {
-  // Import a script - supports both file upload and raw text (v14)
+  // Import a script - parsed locally and written straight to Supabase
+  // Image uploads still go to n8n since they need server-side OCR
   async importScript(options: {
     userId: string
     userRole: string
@@ -13,50 +26,102 @@ export const api = {
     scriptType?: string
     selectedPages?: number[]
     accentHint?: string
-  }) {
-    const { userId, userRole, userGender, rawText, file, title, scriptType, selectedPages, accentHint } = options
-    
-    if (file) {
-      // File upload - use multipart/form-data
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('userId', userId)
-      formData.append('userRole', userRole)
-      if (userGender) formData.append('userGender', userGender)
-      if (title) formData.append('title', title)
-      if (scriptType) formData.append('scriptType', scriptType)
-      if (selectedPages && selectedPages.length > 0) {
-        formData.append('selectedPages', JSON.stringify(selectedPages))
-      }
-      if (accentHint) formData.append('accentHint', accentHint)
-      
-      const response = await fetch(`${N8N_BASE_URL}/sceneread-upload-v14`, {
-        method: 'POST',
-        body: formData,
+  }): Promise<{ scriptId: string; totalLines: number; characters: string[] }> {
+    const parsed = await parseSource(options)
+    if (!parsed) return importViaWebhook(options)
+
+    await saveParsedScreenplay(parsed, options.accentHint)
+
+    // Audio is still generated by the n8n batch workflow - don't block import on it
+    api.generateBatchAudio(parsed.script.id).catch(err => {
+      console.error('[Import] Failed to start batch audio:', err)
+    })
+
+    return {
+      scriptId: parsed.script.id,
+      totalLines: parsed.lines.length,
+      characters: parsed.characters.map(c => c.name),
+    }
+  },
+
+  // Assemble picked scenes from several scripts/PDFs into a new practice script
+  async createSides(picks: SidesPick[], options: SidesOptions): Promise<{ scriptId: string; totalLines: number; characters: string[] }> {
+    if (picks.length === 0) throw new Error('Pick at least one scene')
+
+    const parsed = buildSides(picks, options)
+    if (parsed.lines.length === 0) throw new Error('No lines found in the picked scenes')
+
+    await saveParsedScreenplay(parsed, options.accentHint)
+
+    // Copied lines keep their audio; only new lines need generating
+    api.generateBatchAudio(parsed.script.id).catch(err => {
+      console.error('[Sides] Failed to start batch audio:', err)
+    })
+
+    return {
+      scriptId: parsed.script.id,
+      totalLines: parsed.lines.length,
+      characters: parsed.characters.map(c => c.name),
+    }
+  },
+
+  // Parse a revised draft of a saved script and diff it against the saved lines
+  async previewRevision(script: Script, source: { file?: File; rawText?: string; selectedPages?: number[] }): Promise<RevisionPreview> {
+    const parsed = await parseSource({
+      userId: script.user_id,
+      userRole: script.user_role,
+      title: script.title,
+      scriptType: script.script_type || script.type,
+      accentHint: script.accent_hint,
+      ...source,
+    })
+    if (!parsed) throw new Error('Revisions can be imported from PDF, Final Draft, Fountain or text')
+
+    const headers = await getAuthHeaders()
+    const [scenesRes, linesRes, charsRes] = await Promise.all([
+      fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/scenes?script_id=eq.${script.id}&order=sort_order.asc`, { headers }),
+      fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/lines?script_id=eq.${script.id}&order=sort_order.asc`, { headers }),
+      fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/characters?script_id=eq.${script.id}`, { headers }),
+    ])
+    if (!scenesRes.ok || !linesRes.ok || !charsRes.ok) throw new Error('Failed to load the current script')
+    const [scenes, lines, characters] = await Promise.all([scenesRes.json(), linesRes.json(), charsRes.json()])
+
+    return { script, scenes, lines, characters, parsed, diff: diffScript(lines, parsed.lines) }
+  },
+
+  // Apply a reviewed revision - unchanged lines keep their IDs, notes and progress
+  async applyRevision(preview: RevisionPreview, options: RevisionOptions = {}): Promise<RevisionPlan> {
+    const plan = planRevision(preview, preview.parsed, preview.diff, options)
+    const headers = await getAuthHeaders()
+    const write = async (path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: Scene[] | Character[] | Line[] | Partial<Script>) => {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/${path}`, {
+        method,
+        headers: { ...headers, 'Prefer': method === 'POST' ? 'resolution=merge-duplicates,return=minimal' : 'return=minimal' },
+        body: body && JSON.stringify(body),
       })
-      
-      if (!response.ok) throw new Error('Failed to import script')
-      return response.json()
-    } else if (rawText) {
-      const response = await fetch(`${N8N_BASE_URL}/sceneread-upload-v14`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          userId, 
-          userRole,
-          userGender,
-          rawText,
-          title,
-          scriptType,
-          accentHint
-        }),
+      if (!response.ok) throw new Error(`Failed to update ${path.split('?')[0]}`)
+    }
+    const ids = (list: string[]) => `in.(${list.join(',')})`
+
+    // Upserts first, deletes last - if a write fails nothing has been lost yet, and applying
+    // the revision again redoes the upserts harmlessly. Scenes and characters before lines, which reference them.
+    await write('scenes', 'POST', plan.scenes.upsert)
+    if (plan.characters.length > 0) await write('characters', 'POST', assignVoices(plan.characters, preview.script.accent_hint))
+    await write('lines', 'POST', plan.lines.upsert)
+    await write(`scripts?id=eq.${preview.script.id}`, 'PATCH', plan.script)
+    // Checkpoints saved against the old wording no longer line up
+    if (plan.resetLineIds.length > 0) await write(`line_practice_progress?line_id=${ids(plan.resetLineIds)}`, 'DELETE')
+    if (plan.lines.remove.length > 0) await write(`lines?id=${ids(plan.lines.remove)}`, 'DELETE')
+    if (plan.scenes.remove.length > 0) await write(`scenes?id=${ids(plan.scenes.remove)}`, 'DELETE')
+
+    // Revised and added lines need new audio
+    if (plan.lines.upsert.some(l => !l.audio_url)) {
+      api.generateBatchAudio(preview.script.id).catch(err => {
+        console.error('[Revision] Failed to start batch audio:', err)
       })
-      
-      if (!response.ok) throw new Error('Failed to import script')
-      return response.json()
-    } else {
-      throw new Error('No file or text provided')
     }
+
+    return plan
   },
 
   // Check audio generation status
@@ -133,18 +198,192 @@ export const api = {
     return response.json()
   },
 
-  // Check line accuracy
-  async checkAccuracy(expectedText: string, spokenText: string, strictMode: boolean = true) {
-    const response = await fetch(`${N8N_BASE_URL}/sceneread-accuracy`, {
+  // Transcribe a recording with Whisper, biased toward the line and the script's names and jargon
+  async transcribeWithWhisper(audioBlob: Blob, options: { expectedText?: string; lexicon?: LexiconTerm[]; language?: string } = {}): Promise<string> {
+    const formData = new FormData()
+    formData.append('audio', audioBlob)
+    if (options.language) formData.append('language', options.language)
+    const prompt = lexiconPrompt(options.lexicon || [], options.expectedText)
+    if (prompt) formData.append('prompt', prompt)
+
+    const response = await fetch('/api/whisper-transcribe', { method: 'POST', body: formData })
+    if (!response.ok) throw new Error('Failed to transcribe speech')
+    const data = await response.json()
+    return data.transcript || ''
+  },
+
+  // Synthesize speech through /api/tts (cached server-side by voice, text, rate and pitch)
+  async synthesizeSpeech(text: string, options: { voice?: string | null; rate?: number; pitch?: number } = {}): Promise<Blob> {
+    const response = await fetch('/api/tts', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ expectedText, spokenText, strictMode }),
+      body: JSON.stringify({ text, voice: options.voice || undefined, rate: options.rate, pitch: options.pitch }),
+    })
+    if (!response.ok) throw new Error(`Failed to synthesize speech (${response.status})`)
+    return response.blob()
+  },
+
+  // Score takes on the server with the app's own engine; `persist` saves them to line_attempts
+  async checkAccuracy(attempts: AccuracyAttemptInput[], options: {
+    scriptId?: string
+    sessionId?: string
+    sttProvider?: string
+    profile?: AccuracyProfile | string
+    language?: string | null
+    characterNames?: string[]
+    lexicon?: LexiconTerm[]
+    persist?: boolean
+  } = {}): Promise<{ version: string; profile: string; results: (LineScore & { attemptId: string | null })[] }> {
+    const { lexicon, ...rest } = options
+    const response = await fetch('/api/accuracy', {
+      method: 'POST',
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({ ...rest, lexicon: lexicon ? lexiconEquivalents(lexicon) : undefined, attempts }),
     })
     if (!response.ok) throw new Error('Failed to check accuracy')
     return response.json()
   },
 }
 
+// Legacy n8n import (v14) - only used for formats we can't read client-side
+async function importViaWebhook(options: {
+  userId: string
+  userRole: string
+  userGender?: string
+  file?: File
+  title?: string
+  scriptType?: string
+  selectedPages?: number[]
+  accentHint?: string
+}) {
+  const { userId, userRole, userGender, file, title, scriptType, selectedPages, accentHint } = options
+  const formData = new FormData()
+  if (file) formData.append('file', file)
+  formData.append('userId', userId)
+  formData.append('userRole', userRole)
+  if (userGender) formData.append('userGender', userGender)
+  if (title) formData.append('title', title)
+  if (scriptType) formData.append('scriptType', scriptType)
+  if (selectedPages && selectedPages.length > 0) {
+    formData.append('selectedPages', JSON.stringify(selectedPages))
+  }
+  if (accentHint) formData.append('accentHint', accentHint)
+
+  const response = await fetch(`${N8N_BASE_URL}/sceneread-upload-v14`, {
+    method: 'POST',
+    body: formData,
+  })
+
+  if (!response.ok) throw new Error('Failed to import script')
+  return response.json()
+}
+
+// Read an uploaded file or pasted text and parse it into database records
+// Returns null for formats that still need server-side OCR (images, Word)
+async function parseSource(options: {
+  userId: string
+  userRole: string
+  rawText?: string
+  file?: File
+  title?: string
+  scriptType?: string
+  selectedPages?: number[]
+  accentHint?: string
+}): Promise<ParsedScreenplay | null> {
+  const { userId, userRole, rawText, file, title, scriptType, selectedPages, accentHint } = options
+
+  let text = rawText || ''
+  let sourceFormat = 'text'
+  let blocks: ScreenplayBlock[] | null = null
+
+  if (file) {
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      sourceFormat = 'pdf'
+      const [startPage, endPage] = selectedPages && selectedPages.length > 0
+        ? [Math.min(...selectedPages), Math.max(...selectedPages)]
+        : [1, Infinity]
+      // Prefer the layout-aware pass; PDFs that aren't laid out as a screenplay
+      // (no cue/dialogue columns) fall back to plain text parsing
+      const layout = await extractScreenplayFromPDF(file, startPage, endPage)
+      if (layout.blocks.some(b => b.kind === 'dialogue')) {
+        blocks = layout.blocks
+        text = layout.text
+      } else {
+        text = endPage === Infinity
+          ? await extractAllPagesFromPDF(file)
+          : await extractPagesFromPDF(file, startPage, endPage)
+      }
+    } else if (/\.fountain$/i.test(file.name)) {
+      sourceFormat = 'fountain'
+      text = await file.text()
+    } else if (/\.fdx$/i.test(file.name)) {
+      sourceFormat = 'fdx'
+      text = await file.text()
+    } else if (file.type.startsWith('text/') || /\.txt$/i.test(file.name)) {
+      text = await file.text()
+    } else {
+      return null
+    }
+  }
+
+  if (!text.trim()) throw new Error('No file or text provided')
+
+  const parseOptions = { userId, userRole, title, scriptType, accentHint, sourceFormat }
+  const parsed = blocks ? buildScreenplay(blocks, parseOptions)
+    : sourceFormat === 'fountain' ? parseFountain(text, parseOptions)
+    : sourceFormat === 'fdx' ? parseFdx(text, parseOptions)
+    : parseScreenplay(text, parseOptions)
+  if (blocks) parsed.script.raw_content = text
+  if (parsed.lines.length === 0) throw new Error('No lines found in script')
+
+  return parsed
+}
+
+// Write a locally parsed script to Supabase (script first - scenes, characters and lines reference it)
+async function saveParsedScreenplay(parsed: ParsedScreenplay, accentHint?: string) {
+  const headers = await getAuthHeaders()
+  const insert = async (table: string, rows: Script | Scene[] | Character[] | Line[]) => {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/${table}`, {
+      method: 'POST',
+      headers: { ...headers, 'Prefer': 'return=minimal' },
+      body: JSON.stringify(rows),
+    })
+    if (!response.ok) throw new Error(`Failed to save ${table}`)
+  }
+
+  const characters = assignVoices(parsed.characters, accentHint)
+
+  await insert('scripts', parsed.script)
+  try {
+    await insert('scenes', parsed.scenes)
+    if (characters.length > 0) await insert('characters', characters)
+    await insert('lines', parsed.lines)
+  } catch (error) {
+    // Don't leave a half-saved script in the library - deleting it takes its scenes, characters and lines
+    await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/scripts?id=eq.${parsed.script.id}`, {
+      method: 'DELETE',
+      headers,
+    }).catch(err => console.error('[Save] Failed to remove partly saved script:', err))
+    throw error
+  }
+}
+
+// Assign a suggested voice to every scene partner
+function assignVoices(characters: Character[], accentHint?: string): Character[] {
+  return characters.map(c => {
+    // Sides keep the voices chosen in their source scripts
+    if (c.is_user_character || c.voice_id) return c
+    const suggested = suggestVoice(c.name)
+    return {
+      ...c,
+      voice_id: buildVoiceId(suggested.id, accentHint || 'en-AU'),
+      voice_name: suggested.name,
+      gender: suggested.gender,
+      suggested_voice_id: suggested.id,
+    }
+  })
+}
+
 function blobToBase64(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { parseFdx, tokenizeFdx } from './fdx'
+import { ParseOptions } from './scriptParser'
+
+const options = (overrides: Partial<ParseOptions> = {}): ParseOptions => {
+  let n = 0
+  return {
+    userId: 'user-1',
+    userRole: 'BRICK',
+    generateId: () => `id-${++n}`,
+    now: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const SAMPLE = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    <Paragraph Type="Scene Heading" Number="1">
+      <SceneProperties Length="1" Page="1" Title="">
+        <SceneArcBeats><CharacterArcBeat Name="BRICK"><Paragraph><Text>Not script text</Text></Paragraph></CharacterArcBeat></SceneArcBeats>
+      </SceneProperties>
+      <Text>EXT. BRICK'S PATIO - DAY</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>A gorgeous day. </Text><Text Style="Bold">Brick &amp; Steel</Text><Text> sit.</Text>
+    </Paragraph>
+    <Paragraph Type="Character"><Text>STEEL</Text></Paragraph>
+    <Paragraph Type="Parenthetical"><Text>(beer raised)</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>To retirement.</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>And to &#8220;us&#8221;.</Text></Paragraph>
+    <Paragraph Type="Parenthetical"><Text>(beat)</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>Cheers.</Text></Paragraph>
+    <Paragraph>
+      <DualDialogue>
+        <Paragraph Type="Character"><Text>BRICK (CONT'D)</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Cheers.</Text></Paragraph>
+        <Paragraph Type="Character"><Text>STEEL (O.S.)</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Cheers!</Text></Paragraph>
+      </DualDialogue>
+    </Paragraph>
+    <Paragraph Type="Transition"><Text>SMASH CUT TO:</Text></Paragraph>
+    <Paragraph Type="Scene Heading" Number="2A"><Text>INT. GARAGE - NIGHT</Text></Paragraph>
+    <Paragraph Type="Character"><Text>McCLANE (V.O.)</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text><![CDATA[Yippee <ki-yay>.]]></Text></Paragraph>
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center"><Text></Text></Paragraph>
+      <Paragraph Alignment="Center"><Text>Brick &amp; Steel</Text></Paragraph>
+      <Paragraph Alignment="Center"><Text>Written by</Text></Paragraph>
+    </Content>
+  </TitlePage>
+</FinalDraft>`
+
+describe('parseFdx', () => {
+  const parsed = parseFdx(SAMPLE, options())
+
+  it('takes the title from the title page', () => {
+    expect(parsed.script.title).toBe('Brick & Steel')
+    expect(parsed.script.source_format).toBe('fdx')
+    expect(parseFdx(SAMPLE, options({ title: 'My Sides' })).script.title).toBe('My Sides')
+  })
+
+  it('maps scene headings', () => {
+    expect(parsed.scenes.map(s => [s.name, s.int_ext, s.location, s.time_of_day])).toEqual([
+      ["EXT. BRICK'S PATIO - DAY", 'EXT', "BRICK'S PATIO", 'DAY'],
+      ['INT. GARAGE - NIGHT', 'INT', 'GARAGE', 'NIGHT'],
+    ])
+  })
+
+  it('maps paragraph types to lines in order', () => {
+    expect(parsed.lines.map(l => [l.line_type, l.character_name, l.content])).toEqual([
+      ['action', '', 'A gorgeous day. Brick & Steel sit.'],
+      ['dialogue', 'STEEL', 'To retirement. And to “us”.'],
+      ['dialogue', 'STEEL', 'Cheers.'],
+      ['dialogue', 'BRICK', 'Cheers.'],
+      ['dialogue', 'STEEL', 'Cheers!'],
+      ['transition', '', 'SMASH CUT TO:'],
+      ['dialogue', 'MCCLANE', 'Yippee <ki-yay>.'],
+    ])
+  })
+
+  it('fills parenthetical, extension and continuation from the cue', () => {
+    expect(parsed.lines.map(l => [l.parenthetical, l.extension, l.is_continued])).toEqual([
+      [null, null, false],
+      ['beer raised', null, false],
+      ['beat', null, true],
+      [null, null, true],
+      [null, 'O.S.', false],
+      [null, null, false],
+      [null, 'V.O.', false],
+    ])
+  })
+
+  it('marks the second speaker of dual dialogue', () => {
+    expect(parsed.lines.map(l => l.is_dual || false)).toEqual([false, false, false, false, true, false, false])
+  })
+
+  it('marks user lines', () => {
+    expect(parsed.lines.filter(l => l.is_user_line).map(l => l.content)).toEqual(['Cheers.'])
+  })
+})
+
+describe('tokenizeFdx', () => {
+  it('keeps scene numbers', () => {
+    const { blocks } = tokenizeFdx(SAMPLE)
+    expect(blocks.filter(b => b.kind === 'heading').map(b => b.kind === 'heading' && b.sceneNumber)).toEqual(['1', '2A'])
+  })
+
+  it('rejects documents that are not Final Draft', () => {
+    expect(() => tokenizeFdx('<html><body>Hi</body></html>')).toThrow('Not a Final Draft document')
+  })
+})
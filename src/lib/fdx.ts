@@ -0,0 +1,238 @@
+/**
+ * Final Draft (.fdx) import
+ * FDX is XML: every paragraph carries its element type (Scene Heading, Character,
+ * Dialogue...), so nothing has to be guessed from indentation or capitalisation.
+ */
+
+import {
+  buildScreenplay,
+  parseCharacterCue,
+  ParseOptions,
+  ParsedScreenplay,
+  ScreenplayBlock,
+} from './scriptParser'
+
+export interface FdxDocument {
+  title: string | null
+  blocks: ScreenplayBlock[]
+}
+
+// ============================================================================
+// MINIMAL XML READER
+// Enough XML for FDX files, and works outside the browser (no DOMParser)
+// ============================================================================
+
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+type XmlNode = XmlElement | string
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole
+    }
+    return ENTITIES[entity.toLowerCase()] ?? whole
+  })
+}
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const tag = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = tag.exec(xml)) !== null) {
+    const parent = stack[stack.length - 1]
+    if (match.index > lastIndex) parent.children.push(decodeEntities(xml.slice(lastIndex, match.index)))
+    lastIndex = tag.lastIndex
+
+    // Comments, <?xml?> and DOCTYPE match without any capture and are skipped
+    const [, cdata, closeName, openName, attrText, selfClose] = match
+    if (cdata !== undefined) {
+      parent.children.push(cdata)
+    } else if (closeName) {
+      // Pop back to the matching element, tolerating unclosed children
+      const idx = stack.map(e => e.name).lastIndexOf(closeName)
+      if (idx > 0) stack.length = idx
+    } else if (openName) {
+      const attributes: Record<string, string> = {}
+      const attr = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+      let a: RegExpExecArray | null
+      while ((a = attr.exec(attrText)) !== null) attributes[a[1]] = decodeEntities(a[2] ?? a[3] ?? '')
+      const element: XmlElement = { name: openName, attributes, children: [] }
+      parent.children.push(element)
+      if (!selfClose) stack.push(element)
+    }
+  }
+  if (lastIndex < xml.length) stack[stack.length - 1].children.push(decodeEntities(xml.slice(lastIndex)))
+  return root
+}
+
+function elements(node: XmlElement, name?: string): XmlElement[] {
+  return node.children.filter((c): c is XmlElement => typeof c !== 'string' && (!name || c.name === name))
+}
+
+function find(node: XmlElement, name: string): XmlElement | null {
+  for (const child of elements(node)) {
+    if (child.name === name) return child
+    const found = find(child, name)
+    if (found) return found
+  }
+  return null
+}
+
+// Text of a paragraph's own <Text> runs (ignores SceneProperties and friends)
+function paragraphText(paragraph: XmlElement): string {
+  return elements(paragraph, 'Text')
+    .map(t => t.children.map(c => typeof c === 'string' ? c : '').join(''))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Turn FDX paragraphs into screenplay blocks
+ * Dialogue paragraphs under one Character are joined until a Parenthetical
+ * splits them; the second speaker of a DualDialogue block is marked dual
+ */
+function readParagraphs(paragraphs: XmlElement[]): ScreenplayBlock[] {
+  const blocks: ScreenplayBlock[] = []
+  let cue: ReturnType<typeof parseCharacterCue> | null = null
+  let parenthetical: string | null = null
+  let speech: string[] = []
+  let isContinued = false
+  let dualPending = false
+
+  const emit = () => {
+    if (!cue || speech.length === 0) return
+    blocks.push({
+      kind: 'dialogue',
+      character: cue.name,
+      extension: cue.extension,
+      isContinued,
+      parenthetical,
+      text: speech.join(' '),
+      dual: dualPending,
+    })
+    speech = []
+    parenthetical = null
+    isContinued = true
+    dualPending = false
+  }
+
+  const endSpeech = () => {
+    emit()
+    cue = null
+    parenthetical = null
+  }
+
+  const read = (paragraph: XmlElement, dualSpeakers: number | null): number | null => {
+    const type = paragraph.attributes.Type || 'Action'
+    const text = paragraphText(paragraph)
+    if (!text) return dualSpeakers
+
+    switch (type) {
+      case 'Scene Heading':
+        endSpeech()
+        blocks.push({ kind: 'heading', text, sceneNumber: paragraph.attributes.Number || null })
+        break
+      case 'Character':
+        endSpeech()
+        cue = parseCharacterCue(text)
+        isContinued = cue.isContinued
+        // Every speaker after the first in a DualDialogue talks over the one before
+        if (dualSpeakers !== null) {
+          dualPending = dualSpeakers > 0
+          return dualSpeakers + 1
+        }
+        break
+      case 'Parenthetical':
+        if (!cue) {
+          blocks.push({ kind: 'action', text })
+          break
+        }
+        emit()
+        parenthetical = text.replace(/^\(\s*/, '').replace(/\s*\)$/, '').trim()
+        break
+      case 'Dialogue':
+      case 'Lyrics':
+        if (!cue) {
+          blocks.push({ kind: 'action', text })
+          break
+        }
+        speech.push(text)
+        break
+      case 'Transition':
+        endSpeech()
+        blocks.push({ kind: 'transition', text })
+        break
+      default:
+        // Action, General, Shot, New Act...
+        endSpeech()
+        blocks.push({ kind: 'action', text })
+    }
+    return dualSpeakers
+  }
+
+  for (const paragraph of paragraphs) {
+    // <Paragraph><DualDialogue>...</DualDialogue></Paragraph> holds both speeches
+    const dual = elements(paragraph, 'DualDialogue')[0]
+    if (dual) {
+      endSpeech()
+      let speakers: number | null = 0
+      for (const inner of elements(dual, 'Paragraph')) speakers = read(inner, speakers)
+      endSpeech()
+      continue
+    }
+    read(paragraph, null)
+  }
+
+  endSpeech()
+  return blocks
+}
+
+/**
+ * Read an FDX document into screenplay blocks
+ */
+export function tokenizeFdx(xml: string): FdxDocument {
+  const finalDraft = find(parseXml(xml), 'FinalDraft')
+  const content = finalDraft && elements(finalDraft, 'Content')[0]
+  if (!finalDraft || !content) throw new Error('Not a Final Draft document')
+
+  const blocks = readParagraphs(elements(content, 'Paragraph'))
+
+  const titlePage = elements(finalDraft, 'TitlePage')[0]
+  const titleParagraph = titlePage
+    ? elements(find(titlePage, 'Content') || titlePage, 'Paragraph').map(paragraphText).find(t => t.length > 0)
+    : null
+
+  return { title: titleParagraph || null, blocks }
+}
+
+/**
+ * Parse a Final Draft file into database records
+ */
+export function parseFdx(xml: string, options: ParseOptions): ParsedScreenplay {
+  const { title, blocks } = tokenizeFdx(xml)
+  const parsed = buildScreenplay(blocks, {
+    ...options,
+    title: options.title || title || undefined,
+    sourceFormat: 'fdx',
+  })
+  parsed.script.raw_content = blocks
+    .map(b => b.kind === 'dialogue' ? `${b.character}\n${b.parenthetical ? `(${b.parenthetical})\n` : ''}${b.text}` : b.text)
+    .join('\n\n')
+  return parsed
+}
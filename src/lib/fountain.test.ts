@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import { parseFountain, exportFountain, tokenizeFountain } from './fountain'
+import { ParseOptions } from './scriptParser'
+
+const options = (overrides: Partial<ParseOptions> = {}): ParseOptions => {
+  let n = 0
+  return {
+    userId: 'user-1',
+    userRole: 'BRICK',
+    generateId: () => `id-${++n}`,
+    now: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const SAMPLE = `Title: **Brick & Steel**
+Credit: Written by
+Author: Stu Maschwitz
+Draft date: 1/20/2012
+
+EXT. BRICK'S PATIO - DAY #1#
+
+A gorgeous day. The sun is shining. [[Shot on the backlot]]
+
+/* This joke never landed.
+STEEL
+Knock knock.
+*/
+
+STEEL
+(beer raised)
+To retirement.
+
+BRICK
+To retirement. [[Say it slower]]
+
+STEEL ^
+To *retirement*.
+
+.FLASHBACK - THE NEIGHBOURHOOD
+
+@McCLANE (V.O.)
+Yippee ki-yay.
+
+> SMASH CUT TO:
+
+!SILENCE.
+
+>THE END<`
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe('parseFountain', () => {
+  const parsed = parseFountain(SAMPLE, options())
+
+  it('uses the title page title with emphasis stripped', () => {
+    expect(parsed.script.title).toBe('Brick & Steel')
+    expect(parsed.script.writer).toBe('Stu Maschwitz')
+    expect(parsed.script.source_format).toBe('fountain')
+  })
+
+  it('prefers an explicit title over the title page', () => {
+    expect(parseFountain(SAMPLE, options({ title: 'My Sides' })).script.title).toBe('My Sides')
+  })
+
+  it('maps scene headings, scene numbers and forced headings', () => {
+    expect(parsed.scenes.map(s => [s.name, s.scene_number, s.int_ext, s.location, s.time_of_day])).toEqual([
+      ["EXT. BRICK'S PATIO - DAY", 1, 'EXT', "BRICK'S PATIO", 'DAY'],
+      ['FLASHBACK - THE NEIGHBOURHOOD', 2, null, null, null],
+    ])
+  })
+
+  it('maps elements to line types in order', () => {
+    expect(parsed.lines.map(l => [l.line_type, l.character_name, l.content])).toEqual([
+      ['action', '', 'A gorgeous day. The sun is shining.'],
+      ['dialogue', 'STEEL', 'To retirement.'],
+      ['dialogue', 'BRICK', 'To retirement.'],
+      ['dialogue', 'STEEL', 'To retirement.'],
+      ['dialogue', 'MCCLANE', 'Yippee ki-yay.'],
+      ['transition', '', 'SMASH CUT TO:'],
+      ['action', '', 'SILENCE.'],
+      ['action', '', 'THE END'],
+    ])
+  })
+
+  it('drops boneyard sections', () => {
+    expect(parsed.lines.some(l => l.content.includes('Knock knock'))).toBe(false)
+  })
+
+  it('attaches [[notes]] to their line', () => {
+    expect(parsed.lines[0].notes).toBe('Shot on the backlot')
+    expect(parsed.lines[2].notes).toBe('Say it slower')
+    expect(parsed.lines[1].notes).toBeNull()
+  })
+
+  it('fills parentheticals, extensions and dual dialogue', () => {
+    expect(parsed.lines[1].parenthetical).toBe('beer raised')
+    expect(parsed.lines[4].extension).toBe('V.O.')
+    expect(parsed.lines.map(l => l.is_dual || false)).toEqual([false, false, false, true, false, false, false, false])
+  })
+
+  it('marks user lines', () => {
+    expect(parsed.lines.filter(l => l.is_user_line).map(l => l.character_name)).toEqual(['BRICK'])
+  })
+})
+
+describe('tokenizeFountain', () => {
+  it('reads multi-line title page values', () => {
+    const { titlePage } = tokenizeFountain('Title:\n    Big Fish\nAuthor: John August\n\nINT. HOUSE - DAY\n')
+    expect(titlePage.title).toBe('Big Fish')
+    expect(titlePage.author).toBe('John August')
+  })
+
+  it('requires a blank line before a natural scene heading', () => {
+    const { blocks } = tokenizeFountain('She walks.\nint. house - day\n')
+    expect(blocks).toEqual([{ kind: 'action', text: 'She walks. int. house - day' }])
+  })
+
+  it('splits speeches around mid-speech parentheticals', () => {
+    const { blocks } = tokenizeFountain('\nSTEEL\nI know.\n(beat)\nI know.\n')
+    expect(blocks.map(b => b.kind === 'dialogue' && [b.parenthetical, b.isContinued, b.text])).toEqual([
+      [null, false, 'I know.'],
+      ['beat', true, 'I know.'],
+    ])
+  })
+})
+
+// ============================================================================
+// Export and round trip
+// ============================================================================
+
+describe('exportFountain', () => {
+  it('round-trips an imported script', () => {
+    const first = parseFountain(SAMPLE, options())
+    const text = exportFountain(first.script, first.scenes, first.lines)
+    const second = parseFountain(text, options())
+
+    expect(second.script.title).toBe(first.script.title)
+    expect(second.scenes.map(s => [s.name, s.int_ext, s.location, s.time_of_day])).toEqual(
+      first.scenes.map(s => [s.name, s.int_ext, s.location, s.time_of_day])
+    )
+    const shape = (l: typeof first.lines[number]) => [
+      l.line_type, l.character_name, l.content, l.parenthetical, l.extension, l.is_continued, l.is_dual || false, l.notes,
+    ]
+    expect(second.lines.map(shape)).toEqual(first.lines.map(shape))
+  })
+
+  it('keeps scene numbers, line regions and dual speeches', () => {
+    const source = '\nINT. ROOM - DAY #12#\n\nSTEEL\n(ad lib)\nHey, hey.\n\nBRICK ^\nI [really] said / no --\n(beat)\nNo.\n'
+    const first = parseFountain(source, options())
+    expect(first.lines.map(l => l.is_dual || false)).toEqual([false, true, true])
+
+    const text = exportFountain(first.script, first.scenes, first.lines)
+    expect(text).toContain('\nINT. ROOM - DAY #12#\n')
+    const second = parseFountain(text, options())
+    expect(second.scenes[0].scene_number).toBe(12)
+    expect(second.lines.map(l => [l.content, l.regions, l.is_dual || false])).toEqual(
+      first.lines.map(l => [l.content, l.regions, l.is_dual || false])
+    )
+    expect(second.lines.some(l => l.regions?.length)).toBe(true)
+  })
+
+  it('writes edited lines back out', () => {
+    const parsed = parseFountain(SAMPLE, options())
+    const edited = parsed.lines.map(l => l.character_name === 'BRICK' ? { ...l, content: 'To us.', notes: null } : l)
+    const text = exportFountain(parsed.script, parsed.scenes, edited)
+    expect(text).toContain('BRICK\nTo us.\n')
+    expect(text).not.toContain('Say it slower')
+  })
+
+  it('forces action that would read as a cue or heading', () => {
+    const parsed = parseFountain('\nINT. ROOM - DAY\n\n!BOOM.\n\n!INT. ERIOR DECORATING IS FUN\n', options())
+    const text = exportFountain(parsed.script, parsed.scenes, parsed.lines)
+    expect(text).toContain('\n!BOOM.\n')
+    expect(text).toContain('\n!INT. ERIOR DECORATING IS FUN\n')
+  })
+
+  it('forces headings that are not INT/EXT', () => {
+    const parsed = parseFountain('\n.OPENING CREDITS\n\nNames roll.\n', options())
+    expect(exportFountain(parsed.script, parsed.scenes, parsed.lines)).toContain('\n.OPENING CREDITS #1#\n')
+  })
+
+  it('escapes emphasis characters in content', () => {
+    const parsed = parseFountain('\nINT. ROOM - DAY\n\nSTEEL\nIt costs 5*3 dollars_total.\n', options())
+    const text = exportFountain(parsed.script, parsed.scenes, parsed.lines)
+    expect(parseFountain(text, options()).lines[0].content).toBe('It costs 5*3 dollars_total.')
+  })
+})
@@ -0,0 +1,356 @@
+/**
+ * Fountain (.fountain) import and export
+ * https://fountain.io/syntax
+ *
+ * Import produces the same ScreenplayBlocks as the plain-text parser, so
+ * Fountain scripts end up as ordinary Script / Scene / Line / Character records.
+ * Export writes those records back out so edited scripts can round-trip.
+ */
+
+import type { Script, Scene, Line } from './supabase'
+import { markLineRegions } from './accuracy'
+import {
+  buildScreenplay,
+  parseCharacterCue,
+  ParseOptions,
+  ParsedScreenplay,
+  ScreenplayBlock,
+} from './scriptParser'
+
+export interface FountainDocument {
+  titlePage: Record<string, string>  // Keys lowercased: title, credit, author, draft date...
+  blocks: ScreenplayBlock[]
+}
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+const FOUNTAIN_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i
+const SCENE_NUMBER = /\s*#([\w.\-]+)#\s*$/
+const TITLE_KEY = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/
+const NOTE_MARKER = /\u0000(\d+)\u0000/g
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Remove emphasis markup: *italic*, **bold**, ***bold italic***, _underline_
+ */
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\\([*_])/g, '$1')
+}
+
+function isUppercaseCue(line: string): boolean {
+  const name = line.replace(/\([^)]*\)/g, '').replace(/\^$/, '').trim()
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[!?.:]$/.test(name.replace(/\b(?:MR|MRS|MS|DR|ST)\.$/, ''))
+}
+
+function isTransitionLine(line: string): boolean {
+  return line === line.toUpperCase() && /TO:$/.test(line)
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse the title page (key: value pairs before the first blank line)
+ * Returns the index of the first line after the title page
+ */
+function readTitlePage(lines: string[], titlePage: Record<string, string>): number {
+  if (!lines[0] || !TITLE_KEY.test(lines[0].trim())) return 0
+
+  let key = ''
+  let i = 0
+  for (; i < lines.length && lines[i].trim(); i++) {
+    const match = lines[i].match(TITLE_KEY)
+    if (match && !/^\s/.test(lines[i])) {
+      key = match[1].toLowerCase()
+      titlePage[key] = match[2].trim()
+    } else if (key) {
+      titlePage[key] = [titlePage[key], lines[i].trim()].filter(Boolean).join('\n')
+    }
+  }
+  return i
+}
+
+/**
+ * Split Fountain text into a title page and screenplay blocks
+ * Boneyard (/* *\/) is dropped; [[notes]] are attached to the element they sit in,
+ * or to the previous element when they stand on their own
+ */
+export function tokenizeFountain(text: string): FountainDocument {
+  const notes: string[] = []
+  const source = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[([\s\S]*?)\]\]/g, (_, note: string) => {
+      notes.push(note.replace(/\s*\n\s*/g, ' ').trim())
+      return `\u0000${notes.length - 1}\u0000`
+    })
+
+  const lines = source.split('\n')
+  const titlePage: Record<string, string> = {}
+  const blocks: ScreenplayBlock[] = []
+  let pendingNotes: string[] = []
+
+  // Pull note markers out of a piece of text
+  const takeNotes = (value: string): { text: string; notes: string[] } => {
+    const found: string[] = []
+    const cleaned = value.replace(NOTE_MARKER, (_, idx: string) => {
+      found.push(notes[parseInt(idx, 10)])
+      return ''
+    })
+    return { text: stripEmphasis(cleaned.replace(/\s+/g, ' ').trim()), notes: found }
+  }
+
+  const push = (block: ScreenplayBlock, blockNotes: string[]) => {
+    const all = [...pendingNotes, ...blockNotes].filter(n => n.length > 0)
+    pendingNotes = []
+    if (all.length > 0 && block.kind !== 'heading') block.notes = all.join('\n')
+    blocks.push(block)
+  }
+
+  // A paragraph that was only [[notes]] belongs to the element above it
+  // (or the next one, straight after a scene heading)
+  const attachToPrevious = (found: string[]) => {
+    const last = blocks[blocks.length - 1]
+    if (last && last.kind !== 'heading') {
+      last.notes = [last.notes, ...found].filter(Boolean).join('\n')
+    } else {
+      pendingNotes.push(...found)
+    }
+  }
+
+  let i = readTitlePage(lines, titlePage)
+  let prevBlank = true
+
+  while (i < lines.length) {
+    const raw = lines[i]
+    const line = raw.trim()
+    const next = i + 1 < lines.length ? lines[i + 1].trim() : ''
+
+    if (!line) {
+      prevBlank = true
+      i++
+      continue
+    }
+
+    // Sections (#), synopses (=) and page breaks (===) carry no script content
+    if (/^#/.test(line) || /^=(?!=)/.test(line) || /^={3,}$/.test(line)) {
+      prevBlank = false
+      i++
+      continue
+    }
+
+    // Forced or natural scene heading
+    if ((/^\.[^.]/.test(line)) || (prevBlank && FOUNTAIN_HEADING.test(line))) {
+      let heading = line.startsWith('.') ? line.slice(1).trim() : line
+      const numberMatch = heading.match(SCENE_NUMBER)
+      const sceneNumber = numberMatch ? numberMatch[1] : null
+      if (numberMatch) heading = heading.replace(SCENE_NUMBER, '')
+      const { text: headingText, notes: found } = takeNotes(heading)
+      blocks.push({ kind: 'heading', text: headingText, sceneNumber })
+      pendingNotes.push(...found)
+      prevBlank = false
+      i++
+      continue
+    }
+
+    // Centered text (>THE END<) is action; otherwise > forces a transition
+    if (line.startsWith('>')) {
+      const centered = line.endsWith('<')
+      const { text: value, notes: found } = takeNotes(line.slice(1, centered ? -1 : undefined))
+      push({ kind: centered ? 'action' : 'transition', text: value }, found)
+      prevBlank = false
+      i++
+      continue
+    }
+
+    if (prevBlank && !next && isTransitionLine(line.replace(NOTE_MARKER, '').trim())) {
+      const { text: value, notes: found } = takeNotes(line)
+      push({ kind: 'transition', text: value }, found)
+      prevBlank = false
+      i++
+      continue
+    }
+
+    // Character cue: forced with @, or an uppercase line after a blank with dialogue below
+    const forcedCharacter = line.startsWith('@')
+    if (!line.startsWith('!') && next && (forcedCharacter || (prevBlank && isUppercaseCue(line.replace(NOTE_MARKER, ''))))) {
+      const { text: cueText, notes: cueNotes } = takeNotes(raw.replace(/^\s*@/, ''))
+      const dual = /\^\s*$/.test(cueText)
+      const cue = parseCharacterCue(cueText.replace(/\^\s*$/, ''))
+      let parenthetical: string | null = null
+      let speech: string[] = []
+      let speechNotes: string[] = [...cueNotes]
+      let isContinued = cue.isContinued
+
+      const emit = () => {
+        if (speech.length === 0) return
+        const { text: value, notes: found } = takeNotes(speech.join(' '))
+        if (value) {
+          push({
+            kind: 'dialogue',
+            character: cue.name,
+            extension: cue.extension,
+            isContinued,
+            parenthetical,
+            text: value,
+            dual,  // Every paragraph of the speech, so each is exported with its ^
+          }, [...speechNotes, ...found])
+          isContinued = true
+          speechNotes = []
+        } else {
+          speechNotes.push(...found)
+        }
+        speech = []
+        parenthetical = null
+      }
+
+      i++
+      while (i < lines.length && lines[i].trim()) {
+        const dialogueLine = lines[i].trim().replace(/^~\s*/, '')
+        if (dialogueLine.startsWith('(')) {
+          emit()
+          const parts = [dialogueLine]
+          while (!parts[parts.length - 1].includes(')') && i + 1 < lines.length && lines[i + 1].trim()) {
+            i++
+            parts.push(lines[i].trim())
+          }
+          const { text: value, notes: found } = takeNotes(parts.join(' '))
+          parenthetical = value.replace(/^\(\s*/, '').replace(/\s*\)$/, '').trim()
+          speechNotes.push(...found)
+        } else {
+          speech.push(dialogueLine)
+        }
+        i++
+      }
+      emit()
+      if (speechNotes.length > 0) attachToPrevious(speechNotes)
+      prevBlank = false
+      continue
+    }
+
+    // Action paragraph (! forces action)
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim()) {
+      paragraph.push(lines[i].trim().replace(/^!/, ''))
+      i++
+    }
+    const { text: value, notes: found } = takeNotes(paragraph.join(' '))
+    if (value) push({ kind: 'action', text: value }, found)
+    else if (found.length > 0) attachToPrevious(found)
+    prevBlank = false
+  }
+
+  return { titlePage, blocks }
+}
+
+/**
+ * Parse a Fountain script into database records
+ * The title page's Title is used when no title is given
+ */
+export function parseFountain(text: string, options: ParseOptions): ParsedScreenplay {
+  const { titlePage, blocks } = tokenizeFountain(text)
+  const parsed = buildScreenplay(blocks, {
+    ...options,
+    title: options.title || stripEmphasis(titlePage.title || '').replace(/\n/g, ' '),
+    sourceFormat: 'fountain',
+  })
+  parsed.script.raw_content = text
+  if (titlePage.author && !parsed.script.writer) parsed.script.writer = titlePage.author
+  return parsed
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// Escape characters Fountain would read as emphasis
+function escapeFountain(text: string): string {
+  return text.replace(/([*_])/g, '\\$1')
+}
+
+function formatNotes(notes: string | null | undefined): string | null {
+  if (!notes || !notes.trim()) return null
+  return `[[${notes.trim().replace(/\n\s*\n/g, '\n')}]]`
+}
+
+function formatHeading(scene: Scene): string {
+  const name = scene.name.trim()
+  const heading = FOUNTAIN_HEADING.test(name) ? name.toUpperCase() : `.${name}`
+  return `${heading} #${scene.scene_number}#`
+}
+
+function formatCue(line: Line): string {
+  const name = line.character_name.trim()
+  const forced = name !== name.toUpperCase() || !/[A-Z]/.test(name) || !isUppercaseCue(name)
+  let cue = `${forced ? '@' : ''}${name}`
+  if (line.extension) cue += ` (${line.extension})`
+  if (line.is_continued) cue += ` (CONT'D)`
+  if (line.is_dual) cue += ' ^'
+  return cue
+}
+
+function formatAction(content: string): string {
+  const text = escapeFountain(content.trim())
+  // Uppercase action would be read back as a cue, heading or transition
+  const ambiguous = FOUNTAIN_HEADING.test(text) || (/[A-Z]/.test(text) && text === text.toUpperCase()) ||
+    /^[.>@~=#!]/.test(text)
+  return ambiguous ? `!${text}` : text
+}
+
+/**
+ * Render a script's scenes and lines as Fountain text
+ */
+export function exportFountain(
+  script: Pick<Script, 'title'> & Partial<Pick<Script, 'writer'>>,
+  scenes: Scene[],
+  lines: Line[]
+): string {
+  const out: string[] = []
+
+  out.push(`Title: ${script.title}`)
+  if (script.writer) {
+    out.push('Credit: Written by')
+    out.push(`Author: ${script.writer}`)
+  }
+  out.push('')
+
+  const orderedScenes = [...scenes].sort((a, b) => a.sort_order - b.sort_order)
+  for (const scene of orderedScenes) {
+    out.push(formatHeading(scene))
+    out.push('')
+
+    const sceneLines = lines
+      .filter(l => l.scene_id === scene.id)
+      .sort((a, b) => a.sort_order - b.sort_order)
+
+    for (const line of sceneLines) {
+      const note = formatNotes(line.notes)
+
+      if (line.line_type === 'dialogue' && line.character_name) {
+        out.push(formatCue(line))
+        if (line.parenthetical) out.push(`(${line.parenthetical.replace(/^\(|\)$/g, '')})`)
+        // Ad-lib, optional and overlap regions go back into the speech as markup
+        out.push(escapeFountain(markLineRegions(line.content, line.regions).trim()))
+      } else if (line.line_type === 'transition') {
+        const text = line.content.trim().toUpperCase()
+        out.push(isTransitionLine(text) ? text : `> ${text}`)
+      } else {
+        out.push(formatAction(line.content))
+      }
+
+      // Notes ride on the element's last line so they re-import onto the same line
+      if (note) out[out.length - 1] += ` ${note}`
+      out.push('')
+    }
+  }
+
+  return out.join('\n').replace(/\n+$/, '\n')
+}
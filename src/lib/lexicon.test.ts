@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { lexiconEquivalents, lexiconKeyterms, lexiconPrompt, mergeLexicon, phoneticVariants, removeLexiconTerm, saveLexiconTerm, seedLexicon, LexiconTerm } from './lexicon'
+
+const dialogue = (character_name: string, content: string) => ({ character_name, content, line_type: 'dialogue' })
+
+const LINES = [
+  dialogue('DR. OKAFOR', 'Push one of epi. He is in V-fib.'),
+  dialogue('NURSE', 'Dr. Okafor, the CT is ready. Call Kowalski.'),
+  dialogue('DR. OKAFOR', 'Tell Kowalski to wait. This is Mercy General, not a Holiday Inn.'),
+  dialogue('NURSE', 'The holiday rota is up.'),
+  { character_name: '', content: 'INT. ER - NIGHT', line_type: 'action' },
+]
+
+describe('seedLexicon', () => {
+  const seed = seedLexicon(LINES, [{ name: "MARY-KATE O'BRIEN" }])
+
+  it('starts with character names as they are read', () => {
+    expect(seed.filter(t => t.source === 'character').map(t => t.term)).toEqual(['Mary-Kate', "O'Brien", 'Okafor', 'Nurse'])
+  })
+
+  it('adds capitalised words and acronyms from dialogue, most frequent first', () => {
+    expect(seed.filter(t => t.source === 'script').map(t => t.term)).toEqual(['Kowalski', 'V-fib', 'CT', 'Mercy', 'General', 'Inn'])
+  })
+
+  it('skips sentence starts, titles and words the script also uses in lower case', () => {
+    const terms = seed.map(t => t.term)
+    expect(terms).not.toContain('Push')
+    expect(terms).not.toContain('Dr')
+    expect(terms).not.toContain('Holiday')
+    expect(terms).not.toContain('INT')
+  })
+})
+
+describe('editing the lexicon', () => {
+  const seed = seedLexicon(LINES)
+  const okafor = seed.find(t => t.term === 'Okafor')!
+
+  it('overlays saved edits on the seeded terms', () => {
+    const saved = saveLexiconTerm([], { ...okafor, variants: ['oh car for'] })
+    const merged = mergeLexicon(seed, saveLexiconTerm(saved, { term: 'tachycardia', variants: ['tacky cardia'], source: 'user' }))
+
+    expect(merged.find(t => t.term === 'Okafor')?.variants).toEqual(['oh car for'])
+    expect(merged[merged.length - 1].term).toBe('tachycardia')
+    expect(merged).toHaveLength(seed.length + 1)
+  })
+
+  it('drops the actor\'s own terms and hides seeded ones', () => {
+    const own: LexiconTerm = { term: 'epi', variants: [], source: 'user' }
+    expect(removeLexiconTerm([own], own)).toEqual([])
+
+    const saved = removeLexiconTerm([], okafor)
+    expect(mergeLexicon(seed, saved).find(t => t.term === 'Okafor')?.hidden).toBe(true)
+    expect(lexiconKeyterms(mergeLexicon(seed, saved))).not.toContain('Okafor')
+  })
+})
+
+describe('lexicon uses', () => {
+  const lexicon: LexiconTerm[] = [
+    { term: 'Okafor', variants: ['okay for'], phonetic: 'oh-KAH-for', source: 'character' },
+    { term: 'Kowalski', variants: [], source: 'script' },
+    { term: 'CT', variants: ['cat scan'], source: 'script', hidden: true },
+  ]
+
+  it('turns phonetic spellings into transcriptions', () => {
+    expect(phoneticVariants('oh-KAH-for')).toEqual(['ohkahfor', 'oh kah for'])
+    expect(phoneticVariants('  ')).toEqual([])
+  })
+
+  it('lists accepted variants for matching', () => {
+    expect(lexiconEquivalents(lexicon)).toEqual([{ term: 'Okafor', variants: ['okay for', 'ohkahfor', 'oh kah for'] }])
+  })
+
+  it('builds keyterms and a Whisper prompt', () => {
+    expect(lexiconKeyterms(lexicon)).toEqual(['Okafor', 'Kowalski'])
+    expect(lexiconPrompt(lexicon, 'Page Dr. Okafor.')).toBe('Page Dr. Okafor. Okafor, Kowalski.')
+    expect(lexiconPrompt([])).toBe('')
+  })
+})
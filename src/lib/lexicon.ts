@@ -0,0 +1,163 @@
+/**
+ * Script lexicon
+ * Character names and jargon (medical, legal...) with the ways speech-to-text
+ * tends to hear them. Seeded from the script; the actor adds spoken variants
+ * and phonetic spellings. Feeds accuracy matching, keyword boosts and prompts.
+ */
+
+import type { Line, Character } from './supabase'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LexiconTerm {
+  term: string               // As written in the script, e.g. "Okafor" or "tachycardia"
+  variants: string[]         // Accepted transcriptions, e.g. "oh car for"
+  phonetic?: string | null   // How it's said, e.g. "oh-KAH-for"
+  source: 'character' | 'script' | 'user'
+  hidden?: boolean           // Seeded term the actor switched off
+}
+
+// ============================================================================
+// SEEDING
+// ============================================================================
+
+// Capitalised words that are ordinary speech, not names or jargon
+const COMMON_CAPITALISED = new Set([
+  'i', "i'm", "i've", "i'll", "i'd", 'ok', 'okay', 'mr', 'mrs', 'ms', 'dr', 'god', 'mom', 'mum', 'dad',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december',
+])
+
+function termKey(term: string): string {
+  return term.trim().toLowerCase()
+}
+
+/**
+ * Build the starting lexicon for a script: every character name, then
+ * capitalised words from dialogue that aren't just starting a sentence
+ * (most frequent first). Words the script also uses in lower case are skipped.
+ */
+export function seedLexicon(
+  lines: Pick<Line, 'content' | 'character_name' | 'line_type'>[],
+  characters: Pick<Character, 'name'>[] = []
+): LexiconTerm[] {
+  const terms = new Map<string, LexiconTerm>()
+
+  const names = [...characters.map(c => c.name), ...lines.map(l => l.character_name)]
+  for (const name of names) {
+    for (const part of (name || '').replace(/\(.*?\)/g, '').split(/\s+/)) {
+      const word = part.replace(/[^\p{L}'-]/gu, '')
+      if (word.length < 2 || COMMON_CAPITALISED.has(termKey(word)) || terms.has(termKey(word))) continue
+      // Names are written in caps as speakers - store them the way they're read
+      const term = word.toLowerCase().replace(/(^|['-])\p{L}/gu, m => m.toUpperCase())
+      terms.set(termKey(word), { term, variants: [], source: 'character' })
+    }
+  }
+
+  const counts = new Map<string, { term: string; count: number }>()
+  const lowerCase = new Set<string>()
+  for (const line of lines) {
+    if (line.line_type && line.line_type !== 'dialogue') continue
+    for (const sentence of line.content.split(/[.!?]+\s+|\s+--\s+|\n/)) {
+      sentence.split(/\s+/).forEach((raw, i) => {
+        const word = raw.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '').replace(/'s$/i, '')
+        if (word.length < 2) return
+        if (!/^\p{Lu}/u.test(word)) {
+          lowerCase.add(termKey(word))
+          return
+        }
+        // The first word of a sentence is capitalised anyway - only an all-caps acronym counts there
+        if (i === 0 && !/^\p{Lu}+$/u.test(word)) return
+        const entry = counts.get(termKey(word)) || { term: word, count: 0 }
+        entry.count++
+        counts.set(termKey(word), entry)
+      })
+    }
+  }
+
+  Array.from(counts.entries())
+    .filter(([key]) => !terms.has(key) && !lowerCase.has(key) && !COMMON_CAPITALISED.has(key))
+    .sort((a, b) => b[1].count - a[1].count)
+    .forEach(([key, { term }]) => terms.set(key, { term, variants: [], source: 'script' }))
+
+  return Array.from(terms.values())
+}
+
+/**
+ * Combine the seeded terms with the actor's saved edits
+ * Saved entries replace the seeded term of the same spelling; new ones are added at the end.
+ */
+export function mergeLexicon(seed: LexiconTerm[], saved: LexiconTerm[] = []): LexiconTerm[] {
+  const edits = new Map(saved.map(t => [termKey(t.term), t]))
+  const merged = seed.map(t => edits.get(termKey(t.term)) || t)
+  const seeded = new Set(seed.map(t => termKey(t.term)))
+  return [...merged, ...saved.filter(t => !seeded.has(termKey(t.term)))]
+}
+
+/**
+ * Record an edited or new term in the saved edits
+ */
+export function saveLexiconTerm(saved: LexiconTerm[], term: LexiconTerm): LexiconTerm[] {
+  const key = termKey(term.term)
+  if (!key) return saved
+  return saved.some(t => termKey(t.term) === key)
+    ? saved.map(t => termKey(t.term) === key ? term : t)
+    : [...saved, term]
+}
+
+/**
+ * Remove a term: the actor's own terms are dropped, seeded ones are switched off
+ * (they would come back from the script otherwise)
+ */
+export function removeLexiconTerm(saved: LexiconTerm[], term: LexiconTerm): LexiconTerm[] {
+  return term.source === 'user'
+    ? saved.filter(t => termKey(t.term) !== termKey(term.term))
+    : saveLexiconTerm(saved, { ...term, hidden: true })
+}
+
+// ============================================================================
+// USES
+// ============================================================================
+
+/**
+ * Transcriptions a phonetic spelling stands for: "oh-KAH-for" → "ohkahfor", "oh kah for"
+ */
+export function phoneticVariants(phonetic: string | null | undefined): string[] {
+  const syllables = (phonetic || '').toLowerCase().split(/[\s-]+/).map(s => s.replace(/[^\p{L}']/gu, '')).filter(Boolean)
+  if (syllables.length === 0) return []
+  const variants = [syllables.join('')]
+  if (syllables.length > 1) variants.push(syllables.join(' '))
+  return variants
+}
+
+/**
+ * Terms with every accepted spoken form, for accuracy matching (see buildLexiconIndex)
+ */
+export function lexiconEquivalents(lexicon: LexiconTerm[]): { term: string; variants: string[] }[] {
+  return lexicon
+    .filter(t => !t.hidden)
+    .map(t => ({ term: t.term, variants: [...t.variants, ...phoneticVariants(t.phonetic)] }))
+    .filter(t => t.variants.length > 0)
+}
+
+/**
+ * Terms to boost in streaming STT (Deepgram keyterm prompting)
+ */
+export function lexiconKeyterms(lexicon: LexiconTerm[], limit = 50): string[] {
+  return lexicon.filter(t => !t.hidden).slice(0, limit).map(t => t.term)
+}
+
+/**
+ * Whisper prompt: the expected line if known, then the spellings to prefer
+ * Whisper reads the prompt as preceding text, so terms go in as a plain list
+ * (last, so a length cap trims terms before the line).
+ */
+export function lexiconPrompt(lexicon: LexiconTerm[], expectedLine?: string): string {
+  const terms = lexiconKeyterms(lexicon)
+  return [expectedLine?.trim() || '', terms.length > 0 ? `${terms.join(', ')}.` : '']
+    .filter(Boolean)
+    .join(' ')
+}
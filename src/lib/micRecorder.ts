@@ -0,0 +1,60 @@
+/**
+ * Mic recorder
+ * Records the STT microphone stream alongside transcription, for self-record
+ * playback and Whisper judging. Shared by the speech recognition hooks.
+ */
+
+export interface MicRecorder {
+  start: (stream: MediaStream | null) => boolean
+  stop: () => Promise<Blob | null>
+  cancel: () => void   // Stop and drop what was recorded
+}
+
+// webm for Chrome/Android, mp4 for iOS Safari
+const MIME_CANDIDATES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', '']
+
+export function createMicRecorder(): MicRecorder {
+  let recorder: MediaRecorder | null = null
+  let chunks: Blob[] = []
+
+  return {
+    start: (stream) => {
+      if (!stream) return false
+      chunks = []
+      const mimeType = MIME_CANDIDATES.find(c => !c || MediaRecorder.isTypeSupported(c)) || ''
+
+      try {
+        const options: MediaRecorderOptions = { audioBitsPerSecond: 64000 }
+        if (mimeType) options.mimeType = mimeType
+        const next = new MediaRecorder(stream, options)
+        next.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data)
+        }
+        next.start(250) // Collect chunks every 250ms
+        recorder = next
+        return true
+      } catch (err) {
+        console.warn('[Recording] MediaRecorder error:', err)
+        return false
+      }
+    },
+    stop: () => {
+      const current = recorder
+      if (!current || current.state === 'inactive') return Promise.resolve(null)
+      return new Promise<Blob | null>((resolve) => {
+        current.onstop = () => {
+          const blob = new Blob(chunks, { type: current.mimeType || 'audio/webm' })
+          chunks = []
+          recorder = null
+          resolve(blob)
+        }
+        current.stop()
+      })
+    },
+    cancel: () => {
+      if (recorder && recorder.state !== 'inactive') recorder.stop()
+      recorder = null
+      chunks = []
+    },
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getOcrEngine, isImageOnlyPage, ocrLinesToItems, setOcrEngine, OcrEngine } from './ocr'
+import { reconstructScreenplay } from './pdfLayout'
+
+describe('isImageOnlyPage', () => {
+  it('treats pages without a text layer as images', () => {
+    expect(isImageOnlyPage([])).toBe(true)
+    expect(isImageOnlyPage([{ str: '  ' }, { str: '12.' }])).toBe(true)
+  })
+
+  it('keeps pages with real text', () => {
+    expect(isImageOnlyPage([{ str: 'INT. KITCHEN - NIGHT' }, { str: 'Sarah stands at the stove.' }])).toBe(false)
+  })
+})
+
+describe('ocrLinesToItems', () => {
+  // A 2x render of a US Letter page: 1224 x 1584 pixels
+  const line = (text: string, xInches: number, row: number) => {
+    const top = (72 + row * 12) * 2
+    return { text, confidence: 90, bbox: { x0: xInches * 144, y0: top, x1: xInches * 144 + text.length * 14.4, y1: top + 28 } }
+  }
+
+  it('maps pixel boxes back to PDF points', () => {
+    const [item] = ocrLinesToItems([line('SARAH', 3.7, 0)], 2, 792)
+    expect(item.str).toBe('SARAH')
+    expect(item.x).toBeCloseTo(266.4)
+    expect(item.width).toBeCloseTo(36)
+    expect(item.fontSize).toBe(12)
+    expect(item.y).toBeGreaterThan(700)
+    expect(item.y).toBeLessThan(720)
+  })
+
+  it('feeds scanned pages through the layout analysis', () => {
+    const lines = [
+      line('INT. KITCHEN - NIGHT', 1.5, 0),
+      line('SARAH', 3.7, 2),
+      line("You're late.", 2.5, 3),
+      line('', 2.5, 4),
+    ]
+    const blocks = reconstructScreenplay([{ pageNumber: 1, width: 612, height: 792, items: ocrLinesToItems(lines, 2, 792) }])
+    expect(blocks.map(b => b.kind === 'dialogue' ? [b.character, b.text] : b.text)).toEqual([
+      'INT. KITCHEN - NIGHT',
+      ['SARAH', "You're late."],
+    ])
+  })
+})
+
+describe('OCR engine', () => {
+  it('can be swapped for another engine', async () => {
+    const engine: OcrEngine = {
+      name: 'mock',
+      recognize: vi.fn(async () => ({ text: 'HELLO', confidence: 88, lines: [] })),
+      terminate: vi.fn(async () => {}),
+    }
+    setOcrEngine(engine)
+    expect(getOcrEngine().name).toBe('mock')
+    await expect(getOcrEngine().recognize(new Blob())).resolves.toMatchObject({ confidence: 88 })
+
+    setOcrEngine(null)
+    expect(engine.terminate).toHaveBeenCalled()
+    expect(getOcrEngine().name).toBe('tesseract')
+  })
+})
@@ -0,0 +1,143 @@
+// OCR fallback for scanned PDFs
+// Pages with no text layer are rendered to a canvas and read by an OCR engine.
+// The engine is pluggable; the default runs Tesseract (WASM) locally in a worker,
+// with its worker, core and model served by the app (scripts/copy-ocr-assets.mjs).
+
+import type { PdfTextItem } from './pdfLayout'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OcrBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+/** A recognized line, in image pixels (y grows downwards) */
+export interface OcrLine {
+  text: string
+  confidence: number      // 0-100
+  bbox: OcrBox
+}
+
+export interface OcrResult {
+  text: string
+  confidence: number      // 0-100, mean over the page
+  lines: OcrLine[]
+}
+
+export type OcrImage = HTMLCanvasElement | OffscreenCanvas | Blob
+
+export interface OcrEngine {
+  name: string
+  recognize(image: OcrImage): Promise<OcrResult>
+  terminate?(): Promise<void>
+}
+
+/** Per-page OCR outcome shown to the user */
+export interface PageOcrResult {
+  pageNumber: number
+  confidence: number
+  engine: string
+}
+
+// Pages with fewer characters than this in their text layer are treated as images
+export const MIN_TEXT_LAYER_CHARS = 25
+
+// Below this the recognized text needs checking by the user
+export const LOW_OCR_CONFIDENCE = 60
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * True when a page has (almost) no text layer - a scan or photo of sides
+ */
+export function isImageOnlyPage(items: { str: string }[]): boolean {
+  const chars = items.reduce((n, item) => n + item.str.replace(/\s/g, '').length, 0)
+  return chars < MIN_TEXT_LAYER_CHARS
+}
+
+/**
+ * Convert OCR lines (image pixels, y down) into positioned text items
+ * (PDF points, y up) so scanned pages go through the same layout analysis
+ */
+export function ocrLinesToItems(lines: OcrLine[], scale: number, pageHeight: number): PdfTextItem[] {
+  return lines
+    .filter(line => line.text.trim().length > 0)
+    .map(line => {
+      const height = (line.bbox.y1 - line.bbox.y0) / scale
+      return {
+        str: line.text.trim(),
+        x: line.bbox.x0 / scale,
+        // Baseline sits roughly a fifth of the box above the bottom (descenders)
+        y: pageHeight - line.bbox.y1 / scale + height * 0.2,
+        width: (line.bbox.x1 - line.bbox.x0) / scale,
+        // Box height includes ascenders and descenders - roughly 1.2x the font size
+        fontSize: Math.round(height / 1.2) || 12,
+      }
+    })
+}
+
+// ============================================================================
+// ENGINES
+// ============================================================================
+
+// Where scripts/copy-ocr-assets.mjs puts Tesseract's files - nothing is fetched from a CDN
+const TESSERACT_ASSETS = '/tesseract'
+
+/**
+ * Tesseract.js engine - WASM in a web worker, loaded on first use
+ */
+export function createTesseractEngine(language = 'eng'): OcrEngine {
+  let worker: import('tesseract.js').Worker | null = null
+
+  return {
+    name: 'tesseract',
+
+    async recognize(image) {
+      if (!worker) {
+        const { createWorker } = await import('tesseract.js')
+        worker = await createWorker(language, undefined, {
+          workerPath: `${TESSERACT_ASSETS}/worker.min.js`,
+          corePath: `${TESSERACT_ASSETS}/core`,
+          langPath: `${TESSERACT_ASSETS}/lang`,
+        })
+      }
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true })
+      const lines: OcrLine[] = (data.blocks || []).flatMap(block =>
+        block.paragraphs.flatMap(paragraph =>
+          paragraph.lines.map(line => ({ text: line.text.trim(), confidence: line.confidence, bbox: line.bbox }))
+        )
+      )
+      return { text: data.text, confidence: data.confidence, lines }
+    },
+
+    async terminate() {
+      await worker?.terminate()
+      worker = null
+    },
+  }
+}
+
+let activeEngine: OcrEngine | null = null
+
+/**
+ * The OCR engine used by the PDF import - Tesseract unless another is set
+ */
+export function getOcrEngine(): OcrEngine {
+  if (!activeEngine) activeEngine = createTesseractEngine()
+  return activeEngine
+}
+
+/**
+ * Swap the OCR engine (e.g. a different language model or a server-side service)
+ */
+export function setOcrEngine(engine: OcrEngine | null) {
+  if (activeEngine && activeEngine !== engine) activeEngine.terminate?.().catch(() => {})
+  activeEngine = engine
+}
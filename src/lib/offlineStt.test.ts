@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { lineGrammar, offlineTranscript, UNKNOWN_WORD } from './offlineStt'
+import { replayLockedMatch } from './transcriptCorpus'
+
+describe('lineGrammar', () => {
+  it('lists the line as said, then its words, then the unknown word', () => {
+    expect(lineGrammar("I'm not going back.")).toEqual([
+      "i'm not going back", "i'm", 'not', 'going', 'back', UNKNOWN_WORD,
+    ])
+  })
+
+  it('says numbers the first way they would be said, with the other ways as words', () => {
+    const grammar = lineGrammar('Meet me at 9:30.')
+    expect(grammar[0]).toBe('meet me at nine thirty')
+    expect(grammar).toEqual(expect.arrayContaining(['half', 'past']))
+  })
+
+  it('drops region markup and adds keyterms as phrases', () => {
+    const grammar = lineGrammar('Tell {uh} Kowalski [now] -- ', ['Okafor'])
+    expect(grammar.slice(0, 2)).toEqual(['tell uh kowalski now', 'okafor'])
+  })
+})
+
+describe('offlineTranscript', () => {
+  it('drops unknown words', () => {
+    expect(offlineTranscript('[unk] you are [unk] late')).toBe('you are late')
+    expect(offlineTranscript('[unk]')).toBe('')
+  })
+
+  it('locks the line through off-script noise', () => {
+    const expected = "I'm not going back to that house tonight."
+    const result = replayLockedMatch({
+      expected,
+      events: [
+        { at: 600, kind: 'interim', text: offlineTranscript("[unk] i'm not going") },
+        { at: 1400, kind: 'final', text: offlineTranscript("[unk] i'm not going back to that house tonight") },
+      ],
+    })
+    expect(result.firstErrorAt).toBeNull()
+    expect(result.lockedCount).toBe(8)
+  })
+})
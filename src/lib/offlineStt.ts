@@ -0,0 +1,115 @@
+/**
+ * Offline speech recognition
+ * A small Vosk (Kaldi) model run on-device by vosk-browser's WASM worker, for
+ * rehearsing with no signal. The model is downloaded once and kept in Cache
+ * Storage; each line is recognized against a grammar of that line's words, which
+ * is what makes a model this small accurate enough to lock words with.
+ */
+
+import { stripLineMarkup, verbalize } from './accuracy'
+
+// Small English model (~40 MB), served by the app from public/models (see README) -
+// NEXT_PUBLIC_OFFLINE_STT_MODEL_URL points at a copy hosted elsewhere
+export const OFFLINE_MODEL_URL = process.env.NEXT_PUBLIC_OFFLINE_STT_MODEL_URL
+  || '/models/vosk-model-small-en-us-0.15.tar.gz'
+
+const MODEL_CACHE = 'sceneread-stt-models'
+
+// Anything said that isn't in the grammar comes back as this
+export const UNKNOWN_WORD = '[unk]'
+
+// ============================================================================
+// MODEL CACHE
+// ============================================================================
+
+async function openModelCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null
+  return caches.open(MODEL_CACHE)
+}
+
+export async function isOfflineModelCached(url = OFFLINE_MODEL_URL): Promise<boolean> {
+  const cache = await openModelCache()
+  return !!cache && !!(await cache.match(url))
+}
+
+/**
+ * Download the model into Cache Storage (needs the network, once)
+ */
+export async function downloadOfflineModel(url = OFFLINE_MODEL_URL): Promise<void> {
+  const cache = await openModelCache()
+  if (!cache) throw new Error('Offline storage is not available in this browser')
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Model download failed (${response.status})`)
+  await cache.put(url, response)
+}
+
+export async function removeOfflineModel(url = OFFLINE_MODEL_URL): Promise<void> {
+  const cache = await openModelCache()
+  await cache?.delete(url)
+}
+
+/**
+ * A URL the recognizer worker can load the model from without the network -
+ * downloads it first if it isn't cached yet. A blob: URL holds the whole model,
+ * so revoke it once the model has loaded.
+ */
+export async function offlineModelUrl(url = OFFLINE_MODEL_URL): Promise<string> {
+  // The worker runs from a blob: URL, so a path on this site has to be made absolute
+  const absoluteUrl = new URL(url, location.href).href
+  const cache = await openModelCache()
+  if (!cache) return absoluteUrl
+  let cached = await cache.match(url)
+  if (!cached) {
+    await downloadOfflineModel(url)
+    cached = await cache.match(url)
+  }
+  return cached ? URL.createObjectURL(await cached.blob()) : absoluteUrl
+}
+
+// ============================================================================
+// GRAMMAR
+// ============================================================================
+
+// Model vocabulary is lowercase words with apostrophes
+function vocabularyWords(text: string): string[] {
+  return text.split(/[\s-]+/)
+    .map(word => word.replace(/[^\p{L}\p{N}']/gu, '').replace(/^'+|'+$/g, ''))
+    .filter(Boolean)
+}
+
+// Words as they'd be said - the first spoken form of a number, plus every form's words
+function spokenWords(text: string): { said: string[]; vocabulary: string[] } {
+  const said: string[] = []
+  const vocabulary: string[] = []
+  for (const token of text.toLowerCase().split(/\s+/)) {
+    const forms = verbalize(token.replace(/[.,!?;"]+$/, ''))
+    const [first, ...others] = forms.length > 0 ? forms : [token]
+    said.push(...vocabularyWords(first))
+    vocabulary.push(...vocabularyWords(first), ...others.flatMap(vocabularyWords))
+  }
+  return { said, vocabulary }
+}
+
+/**
+ * Phrases to recognize a line against: the line as it'd be said, the keyterms,
+ * each word on its own (other ways of saying its numbers too) so skipped or
+ * reordered words are still heard, and the unknown word so off-script speech
+ * isn't forced onto the line's words
+ */
+export function lineGrammar(expectedLine: string, keyterms: string[] = []): string[] {
+  const line = spokenWords(stripLineMarkup(expectedLine))
+  const phrases = [
+    line.said.join(' '),
+    ...keyterms.map(term => spokenWords(term).said.join(' ')),
+    ...line.vocabulary,
+  ]
+  return [...new Set(phrases.filter(Boolean)), UNKNOWN_WORD]
+}
+
+/**
+ * What the recognizer heard, without the unknown words - they're as often
+ * noise as a wrong word, and a stalled lock is better than a false error
+ */
+export function offlineTranscript(text: string): string {
+  return text.split(/\s+/).filter(word => word && word !== UNKNOWN_WORD).join(' ')
+}
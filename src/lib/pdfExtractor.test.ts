@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { detectScenes, extractScreenplayFromPDF, getPDFInfo, getPDFPreview } from './pdfExtractor'
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+// ============================================================================
+// Fixture PDFs - screenplay pages typeset in Courier 12pt on US Letter
+// Rows are [inches from the left edge, text]; null leaves a blank line
+// ============================================================================
+
+type Row = [x: number, text: string] | null
+
+async function makePdf(pages: Row[][], title?: string): Promise<File> {
+  const pdf = await PDFDocument.create()
+  if (title) pdf.setTitle(title)
+  const courier = await pdf.embedFont(StandardFonts.Courier)
+
+  pages.forEach((rows, pageIndex) => {
+    const page = pdf.addPage([612, 792])
+    if (rows.length > 0 && pageIndex > 0) {
+      page.drawText(`${pageIndex + 1}.`, { x: 7.2 * 72, y: 756, size: 12, font: courier })
+    }
+    rows.forEach((row, i) => {
+      if (row) page.drawText(row[1], { x: row[0] * 72, y: 720 - 12 * (i + 1), size: 12, font: courier })
+    })
+  })
+
+  const bytes = await pdf.save()
+  return new File([bytes.slice().buffer], 'fixture.pdf', { type: 'application/pdf' })
+}
+
+const KITCHEN: Row[] = [
+  [1.5, 'INT. KITCHEN - NIGHT'],
+  null,
+  [1.5, 'Sarah stands at the stove, stirring.'],
+  null,
+  [3.7, 'SARAH'],
+  [2.5, "You're late."],
+  null,
+  [3.7, 'JOHN'],
+  [3.1, '(shrugging)'],
+  [2.5, 'Traffic.'],
+]
+
+const PORCH: Row[] = [
+  [1.5, 'EXT. PORCH - CONTINUOUS'],
+  null,
+  [3.7, 'SARAH'],
+  [2.5, 'Go home, John.'],
+]
+
+// ============================================================================
+// Preview and scene detection
+// ============================================================================
+
+describe('getPDFPreview', () => {
+  it('reads page count and title', async () => {
+    const file = await makePdf([KITCHEN, PORCH], 'Pilot Sides')
+    const info = await getPDFInfo(file)
+    expect(info).toEqual({ totalPages: 2, title: 'Pilot Sides' })
+  })
+
+  it('detects scenes and the page they start on', async () => {
+    const preview = await getPDFPreview(await makePdf([KITCHEN, PORCH]))
+    expect(preview.totalPages).toBe(2)
+    expect(preview.scenes.map(s => [s.heading, s.pageNumber])).toEqual([
+      ['INT. KITCHEN - NIGHT', 1],
+      ['EXT. PORCH - CONTINUOUS', 2],
+    ])
+    expect(preview.scenes[0].fullText).toContain('Traffic.')
+    expect(preview.scenes[0].fullText).not.toContain('Go home')
+    expect(preview.ocrPages).toEqual([])
+  })
+
+  it('falls back to page chunks when there are no headings', async () => {
+    const preview = await getPDFPreview(await makePdf([[[3.7, 'SARAH'], [2.5, 'Where were you all night?']]]))
+    expect(preview.scenes.map(s => s.heading)).toEqual(['Page 1'])
+  })
+
+  it('returns empty text for image-only pages outside the browser', async () => {
+    const preview = await getPDFPreview(await makePdf([[]]))
+    expect(preview.fullText).toBe('')
+  })
+})
+
+describe('detectScenes', () => {
+  it('finds numbered and location-style headings', () => {
+    const text = '12 INT. OFFICE - DAY\nHello.\n\nHALLWAY - NIGHT\nGoodbye.'
+    const scenes = detectScenes(text, [{ pageNum: 1, text }])
+    expect(scenes.map(s => s.heading)).toEqual(['12 INT. OFFICE - DAY', 'HALLWAY - NIGHT'])
+    expect(scenes[0].fullText).toBe('12 INT. OFFICE - DAY\nHello.')
+  })
+})
+
+// ============================================================================
+// Layout-aware extraction
+// ============================================================================
+
+describe('extractScreenplayFromPDF', () => {
+  it('rebuilds screenplay blocks from a real PDF', async () => {
+    const { blocks } = await extractScreenplayFromPDF(await makePdf([KITCHEN, PORCH]))
+    expect(blocks.map(b => b.kind === 'dialogue' ? [b.character, b.parenthetical, b.text] : [b.kind, b.text])).toEqual([
+      ['heading', 'INT. KITCHEN - NIGHT'],
+      ['action', 'Sarah stands at the stove, stirring.'],
+      ['SARAH', null, "You're late."],
+      ['JOHN', 'shrugging', 'Traffic.'],
+      ['heading', 'EXT. PORCH - CONTINUOUS'],
+      ['SARAH', null, 'Go home, John.'],
+    ])
+  })
+
+  it('extracts only the requested pages', async () => {
+    const { blocks } = await extractScreenplayFromPDF(await makePdf([KITCHEN, PORCH]), 2, 2)
+    expect(blocks[0]).toEqual({ kind: 'heading', text: 'EXT. PORCH - CONTINUOUS', sceneNumber: null })
+  })
+})
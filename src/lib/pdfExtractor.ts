@@ -2,21 +2,29 @@
 // Extracts specific pages from a PDF file client-side before uploading
 
 import { PDFDocument } from 'pdf-lib'
+import { reconstructScreenplay, blocksToText, PdfPageContent, PdfTextItem } from './pdfLayout'
+import type { ScreenplayBlock } from './scriptParser'
+import { getOcrEngine, isImageOnlyPage, ocrLinesToItems, OcrResult, PageOcrResult } from './ocr'
 
 let pdfjsLib: typeof import('pdfjs-dist') | null = null
-let workerInitialized = false
 
-async function getPdfJs() {
-  if (pdfjsLib && workerInitialized) return pdfjsLib
-  
+// Served from /public (copied from pdfjs-dist on install) so import works offline
+export const PDF_WORKER_SRC = '/pdf.worker.min.mjs'
+
+/**
+ * Load PDF.js - the browser build with the self-hosted worker, or the legacy
+ * build in Node (server-side parsing and tests), which runs without a worker
+ */
+export async function getPdfJs() {
+  if (pdfjsLib) return pdfjsLib
+
   if (typeof window === 'undefined') {
-    throw new Error('PDF.js can only be used in browser')
+    pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs') as unknown as typeof import('pdfjs-dist')
+  } else {
+    pdfjsLib = await import('pdfjs-dist')
+    pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC
   }
-  
-  pdfjsLib = await import('pdfjs-dist')
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`
-  workerInitialized = true
-  
+
   console.log('[PDF.js] Version:', pdfjsLib.version)
   return pdfjsLib
 }
@@ -35,42 +43,137 @@ export interface DetectedScene {
   fullText: string
 }
 
+export interface PDFScreenplay {
+  blocks: ScreenplayBlock[]   // Structured blocks rebuilt from the page layout
+  text: string                // The same content as screenplay text
+  ocrPages: PageOcrResult[]
+}
+
+export interface PDFReadOptions {
+  onProgress?: (message: string) => void   // Status while scanned pages are OCR'd
+}
+
 export interface PDFPreview {
   totalPages: number
   title?: string
   scenes: DetectedScene[]
   fullText: string
+  ocrPages: PageOcrResult[]   // Image-only pages that were read with OCR
 }
 
-async function extractPageText(pdf: any, pageNum: number): Promise<string> {
-  const page = await pdf.getPage(pageNum)
-  const textContent = await page.getTextContent()
-  
+// Join text items into lines, breaking wherever the baseline moves
+function textFromItems(items: PdfTextItem[]): string {
   let lastY: number | null = null
   let pageText = ''
   
-  for (const item of textContent.items) {
-    const textItem = item as any
-    if (!textItem.str) continue
+  for (const item of items) {
+    if (!item.str) continue
     
-    const currentY = textItem.transform?.[5]
-    if (lastY !== null && currentY !== undefined && Math.abs(currentY - lastY) > 5) {
+    if (lastY !== null && Math.abs(item.y - lastY) > 5) {
       pageText += '\n'
     } else if (pageText.length > 0 && !pageText.endsWith(' ') && !pageText.endsWith('\n')) {
       pageText += ' '
     }
     
-    pageText += textItem.str
-    lastY = currentY
+    pageText += item.str
+    lastY = item.y
   }
   
   return pageText.trim()
 }
 
+interface PageRead {
+  content: PdfPageContent
+  text: string
+  ocr: PageOcrResult | null
+}
+
+const OCR_SCALE = 2   // Render scans at 144 dpi for recognition
+
+// OCR is slow - remember results by what the page looks like, so preview, import and
+// a page range cut out of the same PDF don't read a scan twice
+const ocrCache = new Map<string, { result: OcrResult; engine: string }>()
+const MAX_CACHED_PAGES = 100
+
+// SHA-256 of the rendered page's pixels
+async function renderedPageKey(canvas: HTMLCanvasElement): Promise<string> {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Read a page's text, falling back to OCR when it has no text layer
+ */
+async function readPage(pdf: any, pageNum: number, options: PDFReadOptions = {}): Promise<PageRead> {
+  const content = await extractPageContent(pdf, pageNum)
+  if (!isImageOnlyPage(content.items) || typeof document === 'undefined') {
+    return { content, text: textFromItems(content.items), ocr: null }
+  }
+
+  const engine = getOcrEngine()
+  try {
+    const page = await pdf.getPage(pageNum)
+    const viewport = page.getViewport({ scale: OCR_SCALE })
+    const canvas = document.createElement('canvas')
+    canvas.width = viewport.width
+    canvas.height = viewport.height
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise
+
+    const key = await renderedPageKey(canvas)
+    let cached = ocrCache.get(key)
+    if (!cached) {
+      options.onProgress?.(`Reading scanned page ${pageNum} of ${pdf.numPages}...`)
+      cached = { result: await engine.recognize(canvas), engine: engine.name }
+      console.log(`[OCR] Page ${pageNum}: ${cached.result.text.length} chars, confidence ${Math.round(cached.result.confidence)}%`)
+      // Oldest first out
+      if (ocrCache.size >= MAX_CACHED_PAGES) ocrCache.delete(ocrCache.keys().next().value!)
+      ocrCache.set(key, cached)
+    }
+
+    const { result } = cached
+    return {
+      content: { ...content, items: ocrLinesToItems(result.lines, OCR_SCALE, content.height) },
+      text: result.text.trim(),
+      ocr: { pageNumber: pageNum, confidence: result.confidence, engine: cached.engine },
+    }
+  } catch (err) {
+    console.error(`[OCR] Page ${pageNum} failed:`, err)
+    return { content, text: textFromItems(content.items), ocr: { pageNumber: pageNum, confidence: 0, engine: engine.name } }
+  }
+}
+
+/**
+ * Read a page's text items with their positions and font metrics
+ */
+async function extractPageContent(pdf: any, pageNum: number): Promise<PdfPageContent> {
+  const page = await pdf.getPage(pageNum)
+  const viewport = page.getViewport({ scale: 1 })
+  const textContent = await page.getTextContent()
+
+  const items: PdfTextItem[] = []
+  for (const item of textContent.items) {
+    const textItem = item as any
+    if (!textItem.str || !textItem.transform) continue
+    const [a, b, , , x, y] = textItem.transform
+    const fontFamily = textContent.styles?.[textItem.fontName]?.fontFamily
+    items.push({
+      str: textItem.str,
+      x,
+      y,
+      width: textItem.width || 0,
+      fontSize: Math.hypot(a, b) || textItem.height || 12,
+      fontName: [textItem.fontName, fontFamily].filter(Boolean).join(' '),
+    })
+  }
+
+  return { pageNumber: pageNum, width: viewport.width, height: viewport.height, items }
+}
+
 /**
  * Detect scene headings - very flexible matching
  */
-function detectScenes(fullText: string, pageTexts: { pageNum: number; text: string }[]): DetectedScene[] {
+export function detectScenes(fullText: string, pageTexts: { pageNum: number; text: string }[]): DetectedScene[] {
   const scenes: DetectedScene[] = []
   
   // Build page position map
@@ -213,7 +316,7 @@ export async function getPDFInfo(file: File): Promise<PDFInfo> {
   return { totalPages: pdf.numPages, title }
 }
 
-export async function getPDFPreview(file: File): Promise<PDFPreview> {
+export async function getPDFPreview(file: File, options: PDFReadOptions = {}): Promise<PDFPreview> {
   const pdfjs = await getPdfJs()
   const arrayBuffer = await file.arrayBuffer()
   const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise
@@ -227,9 +330,11 @@ export async function getPDFPreview(file: File): Promise<PDFPreview> {
   console.log('[PDF] Extracting', pdf.numPages, 'pages...')
   
   const pageTexts: { pageNum: number; text: string }[] = []
+  const ocrPages: PageOcrResult[] = []
   for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-    const text = await extractPageText(pdf, pageNum)
+    const { text, ocr } = await readPage(pdf, pageNum, options)
     pageTexts.push({ pageNum, text })
+    if (ocr) ocrPages.push(ocr)
   }
   
   const fullText = pageTexts.map(p => p.text).join('\n\n')
@@ -238,10 +343,10 @@ export async function getPDFPreview(file: File): Promise<PDFPreview> {
   
   const scenes = detectScenes(fullText, pageTexts)
   
-  return { totalPages: pdf.numPages, title, scenes, fullText }
+  return { totalPages: pdf.numPages, title, scenes, fullText, ocrPages }
 }
 
-export async function extractPagesFromPDF(file: File, startPage: number, endPage: number): Promise<string> {
+export async function extractPagesFromPDF(file: File, startPage: number, endPage: number, options: PDFReadOptions = {}): Promise<string> {
   const pdfjs = await getPdfJs()
   const arrayBuffer = await file.arrayBuffer()
   const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise
@@ -251,16 +356,44 @@ export async function extractPagesFromPDF(file: File, startPage: number, endPage
   
   const pages: string[] = []
   for (let pageNum = actualStart; pageNum <= actualEnd; pageNum++) {
-    const text = await extractPageText(pdf, pageNum)
+    const { text } = await readPage(pdf, pageNum, options)
     if (text) pages.push(text)
   }
   
   return pages.join('\n\n')
 }
 
-export async function extractAllPagesFromPDF(file: File): Promise<string> {
+/**
+ * Rebuild screenplay structure from page layout (indentation and fonts)
+ * rather than flattening to text - cues, dialogue and parentheticals come
+ * from their columns, and page-break debris is dropped
+ */
+export async function extractScreenplayFromPDF(
+  file: File,
+  startPage = 1,
+  endPage = Infinity,
+  options: PDFReadOptions = {}
+): Promise<PDFScreenplay> {
+  const pdfjs = await getPdfJs()
+  const arrayBuffer = await file.arrayBuffer()
+  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise
+
+  const pages: PdfPageContent[] = []
+  const ocrPages: PageOcrResult[] = []
+  for (let pageNum = Math.max(1, startPage); pageNum <= Math.min(pdf.numPages, endPage); pageNum++) {
+    const { content, ocr } = await readPage(pdf, pageNum, options)
+    pages.push(content)
+    if (ocr) ocrPages.push(ocr)
+  }
+
+  const blocks = reconstructScreenplay(pages)
+  console.log(`[PDF] Layout analysis: ${blocks.length} blocks from ${pages.length} pages`)
+  return { blocks, text: blocksToText(blocks), ocrPages }
+}
+
+export async function extractAllPagesFromPDF(file: File, options: PDFReadOptions = {}): Promise<string> {
   const info = await getPDFInfo(file)
-  return extractPagesFromPDF(file, 1, info.totalPages)
+  return extractPagesFromPDF(file, 1, info.totalPages, options)
 }
 
 export function extractScenesByIds(scenes: DetectedScene[], selectedIds: string[]): string {
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import { classifyLayout, reconstructScreenplay, blocksToText, PdfPageContent, PdfTextItem } from './pdfLayout'
+
+// ============================================================================
+// Synthetic pages - rows are [inches from the left edge, text], null is a blank row
+// Body starts 1" from the top of a US Letter page at 12pt / 6 lines per inch
+// ============================================================================
+
+type RowSpec = (number | string)[] | null   // x, text pairs
+
+function page(pageNumber: number, rows: RowSpec[], extra: PdfTextItem[] = []): PdfPageContent {
+  const items: PdfTextItem[] = []
+  rows.forEach((row, i) => {
+    if (!row) return
+    const y = 792 - 72 - 12 * (i + 1)
+    for (let k = 0; k < row.length; k += 2) {
+      const text = row[k + 1] as string
+      items.push({ str: text, x: (row[k] as number) * 72, y, width: text.length * 7.2, fontSize: 12, fontName: 'Courier' })
+    }
+  })
+  return { pageNumber, width: 612, height: 792, items: [...items, ...extra] }
+}
+
+const pageNumber = (n: number): PdfTextItem => ({ str: `${n}.`, x: 7.2 * 72, y: 756, width: 21.6, fontSize: 12 })
+
+const PAGE_ONE = page(1, [
+  [0.9, '1', 1.5, 'INT. KITCHEN - NIGHT'],
+  null,
+  [1.5, 'Sarah stands at the stove, stirring'],
+  [1.5, 'something that smells burnt.'],
+  null,
+  [1.5, 'A phone rings.'],
+  null,
+  [3.7, 'SARAH'],
+  [2.5, "You're late. I said seven, and"],
+  [2.5, 'it is'],
+  [3.7, '(MORE)'],
+], [pageNumber(1)])
+
+const PAGE_TWO = page(2, [
+  [1.5, 'CONTINUED:'],
+  [3.7, "SARAH (CONT'D)"],
+  [2.5, 'almost nine.'],
+  null,
+  [3.7, 'JOHN (V.O.)'],
+  [3.1, '(looking out the'],
+  [3.1, 'window)'],
+  [2.5, 'Traffic.'],
+  [3.1, '(beat)'],
+  [2.5, 'Sorry.'],
+  null,
+  [6.4, 'CUT TO:'],
+  null,
+  [0.9, '2A', 1.5, 'EXT. PORCH - NIGHT', 7.6, '2A'],
+], [pageNumber(2)])
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+describe('classifyLayout', () => {
+  const lines = classifyLayout([PAGE_ONE, PAGE_TWO])
+  const kinds = (pageNum: number) => lines.filter(l => l.pageNumber === pageNum).map(l => [l.kind, l.text])
+
+  it('classifies lines by indent', () => {
+    expect(kinds(1)).toEqual([
+      ['artifact', '1.'],
+      ['heading', 'INT. KITCHEN - NIGHT'],
+      ['action', 'Sarah stands at the stove, stirring'],
+      ['action', 'something that smells burnt.'],
+      ['action', 'A phone rings.'],
+      ['character', 'SARAH'],
+      ['dialogue', "You're late. I said seven, and"],
+      ['dialogue', 'it is'],
+      ['more', '(MORE)'],
+    ])
+  })
+
+  it('recognises parentheticals, transitions and page-break markers', () => {
+    expect(kinds(2)).toEqual([
+      ['artifact', '2.'],
+      ['artifact', 'CONTINUED:'],
+      ['character', "SARAH (CONT'D)"],
+      ['dialogue', 'almost nine.'],
+      ['character', 'JOHN (V.O.)'],
+      ['parenthetical', '(looking out the'],
+      ['parenthetical', 'window)'],
+      ['dialogue', 'Traffic.'],
+      ['parenthetical', '(beat)'],
+      ['dialogue', 'Sorry.'],
+      ['transition', 'CUT TO:'],
+      ['heading', 'EXT. PORCH - NIGHT'],
+    ])
+  })
+
+  it('reads scene numbers from the margins', () => {
+    expect(lines.filter(l => l.kind === 'heading').map(l => l.sceneNumber)).toEqual(['1', '2A'])
+  })
+
+  it('measures blank space between lines', () => {
+    const action = lines.filter(l => l.kind === 'action')
+    expect(action.map(l => l.gapBefore)).toEqual([1, 0, 1])
+  })
+
+  it('uses the action margin of the document, not a fixed position', () => {
+    const shifted = page(1, [
+      [1.0, 'INT. ROOM - DAY'],
+      null,
+      [1.0, 'She waits.'],
+      null,
+      [3.2, 'SARAH'],
+      [2.0, 'Well?'],
+    ])
+    expect(classifyLayout([shifted]).map(l => l.kind)).toEqual(['heading', 'action', 'character', 'dialogue'])
+  })
+
+  it('falls back to standard columns for dialogue-only sides', () => {
+    const sides = page(1, [[3.7, 'SARAH'], [2.5, 'Well?'], null, [3.7, 'JOHN'], [2.5, 'Well what?']])
+    expect(classifyLayout([sides]).map(l => l.kind)).toEqual(['character', 'dialogue', 'character', 'dialogue'])
+  })
+
+  it('drops revision asterisks in the right margin', () => {
+    const revised = page(1, [[3.7, 'SARAH'], [2.5, 'Changed line.', 7.7, '*']])
+    expect(classifyLayout([revised]).map(l => l.text)).toEqual(['SARAH', 'Changed line.'])
+  })
+
+  it('joins items split at font changes', () => {
+    const split = page(1, [])
+    split.items.push(
+      { str: 'It was ', x: 180, y: 700, width: 50.4, fontSize: 12 },
+      { str: 'never', x: 230.4, y: 700, width: 36, fontSize: 12, fontName: 'Courier-Bold' },
+      { str: ' hers.', x: 266.4, y: 700, width: 43.2, fontSize: 12 },
+      { str: 'SARAH', x: 266.4, y: 712, width: 36, fontSize: 12 },
+    )
+    expect(classifyLayout([split]).map(l => l.text)).toEqual(['SARAH', 'It was never hers.'])
+  })
+})
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+describe('reconstructScreenplay', () => {
+  const blocks = reconstructScreenplay([PAGE_ONE, PAGE_TWO])
+
+  it('rebuilds structured blocks', () => {
+    expect(blocks).toEqual([
+      { kind: 'heading', text: 'INT. KITCHEN - NIGHT', sceneNumber: '1' },
+      { kind: 'action', text: 'Sarah stands at the stove, stirring something that smells burnt.' },
+      { kind: 'action', text: 'A phone rings.' },
+      {
+        kind: 'dialogue', character: 'SARAH', extension: null, isContinued: false, parenthetical: null,
+        text: "You're late. I said seven, and it is almost nine.",
+      },
+      {
+        kind: 'dialogue', character: 'JOHN', extension: 'V.O.', isContinued: false, parenthetical: 'looking out the window',
+        text: 'Traffic.',
+      },
+      {
+        kind: 'dialogue', character: 'JOHN', extension: 'V.O.', isContinued: true, parenthetical: 'beat',
+        text: 'Sorry.',
+      },
+      { kind: 'transition', text: 'CUT TO:' },
+      { kind: 'heading', text: 'EXT. PORCH - NIGHT', sceneNumber: '2A' },
+    ])
+  })
+
+  it("keeps a genuine (CONT'D) after action as a new continued speech", () => {
+    const p = page(1, [[3.7, 'SARAH'], [2.5, 'Wait.'], null, [1.5, 'She turns.'], null, [3.7, "SARAH (CONT'D)"], [2.5, 'Stay.']])
+    const speeches = reconstructScreenplay([p]).filter(b => b.kind === 'dialogue')
+    expect(speeches.map(b => b.kind === 'dialogue' && [b.text, b.isContinued])).toEqual([['Wait.', false], ['Stay.', true]])
+  })
+
+  it('renders blocks back to screenplay text', () => {
+    expect(blocksToText(blocks.slice(3, 5))).toBe(
+      "SARAH\nYou're late. I said seven, and it is almost nine.\n\nJOHN (V.O.)\n(looking out the window)\nTraffic."
+    )
+  })
+})
@@ -0,0 +1,380 @@
+// Screenplay layout reconstruction from PDF text positions
+// Screenplays encode element type in indentation: action at the left margin,
+// dialogue ~1" in, parentheticals ~1.6", cues ~2.2", transitions on the right.
+// This pass rebuilds structured blocks from pdf.js text items using those columns.
+
+import { isSlugline, isTransition, parseCharacterCue, ScreenplayBlock } from './scriptParser'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One pdf.js text item, flattened (PDF coordinates: y grows upwards) */
+export interface PdfTextItem {
+  str: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+  fontName?: string
+}
+
+export interface PdfPageContent {
+  pageNumber: number
+  width: number
+  height: number
+  items: PdfTextItem[]
+}
+
+export type LayoutLineKind =
+  | 'heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition'
+  | 'more'          // (MORE) - the speech continues on the next page
+  | 'artifact'      // Page numbers, running headers, CONTINUED: markers
+
+export interface LayoutLine {
+  pageNumber: number
+  text: string
+  x: number
+  y: number
+  fontSize: number
+  bold: boolean
+  kind: LayoutLineKind
+  gapBefore: number            // Blank space above, in lines (Infinity at the top of a page)
+  sceneNumber?: string | null  // Scene numbers printed in the margins of a heading
+}
+
+// ============================================================================
+// CONSTANTS (points, 72 per inch)
+// ============================================================================
+
+const INCH = 72
+const STANDARD_ACTION_X = 1.5 * INCH
+const HEADER_ZONE = 0.8 * INCH       // Running headers and page numbers live above the body
+const FOOTER_ZONE = 0.6 * INCH
+const SEGMENT_GAP = 1.5               // Gaps wider than this many em split a row into segments
+const SAME_ROW = 2                   // Baselines within this distance share a row
+
+// Indent boundaries relative to the action margin, in inches
+const DIALOGUE_MIN = 0.5
+const PARENTHETICAL_MIN = 1.35
+const CHARACTER_MIN = 1.9
+const TRANSITION_MIN = 3.2
+
+const PAGE_NUMBER = /^\d+[A-Z]?\.?$/
+const SCENE_NUMBER = /^\d+[A-Z]*\.?$/
+const MORE = /^\(\s*MORE\s*\)$/i
+const CONTINUED_MARKER = /^\(?CONTINUED\)?:?(?:\s*\(\d+\))?$/i
+const REVISION_MARK = /^\*+$/
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+interface Row {
+  y: number
+  segments: { x: number; right: number; text: string; fontSize: number; bold: boolean }[]
+}
+
+function isBold(fontName?: string): boolean {
+  return !!fontName && /bold|black|heavy/i.test(fontName)
+}
+
+/**
+ * Group text items into rows by baseline, then split each row into segments
+ * wherever there is a wide horizontal gap (scene numbers, revision marks)
+ */
+function buildRows(items: PdfTextItem[]): Row[] {
+  const sorted = items
+    .filter(i => i.str.trim().length > 0)
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+
+  const rows: { y: number; items: PdfTextItem[] }[] = []
+  for (const item of sorted) {
+    const row = rows.find(r => Math.abs(r.y - item.y) <= SAME_ROW)
+    if (row) row.items.push(item)
+    else rows.push({ y: item.y, items: [item] })
+  }
+
+  return rows.map(row => {
+    const rowItems = row.items.sort((a, b) => a.x - b.x)
+    const segments: Row['segments'] = []
+    for (const item of rowItems) {
+      const last = segments[segments.length - 1]
+      const gap = last ? item.x - last.right : Infinity
+      if (last && gap < item.fontSize * SEGMENT_GAP) {
+        // pdf.js splits runs at font changes; keep a space when the run had one
+        const spaced = gap > item.fontSize * 0.15 || /\s$/.test(last.text) || /^\s/.test(item.str)
+        last.text = spaced ? `${last.text.trimEnd()} ${item.str.trimStart()}` : last.text + item.str
+        last.right = item.x + item.width
+        last.bold = last.bold && isBold(item.fontName)
+      } else {
+        segments.push({
+          x: item.x,
+          right: item.x + item.width,
+          text: item.str,
+          fontSize: item.fontSize,
+          bold: isBold(item.fontName),
+        })
+      }
+    }
+    segments.forEach(s => { s.text = s.text.replace(/\s+/g, ' ').trim() })
+    return { y: row.y, segments }
+  })
+}
+
+function mostCommon(values: number[]): number | null {
+  const counts = new Map<number, number>()
+  let best: number | null = null
+  for (const v of values) {
+    const n = (counts.get(v) || 0) + 1
+    counts.set(v, n)
+    if (best === null || n > counts.get(best)! || (n === counts.get(best)! && v < best)) best = v
+  }
+  return best
+}
+
+/**
+ * The action margin: the leftmost indent used by a meaningful share of lines
+ * Pages with only dialogue have no action column, so fall back to the standard 1.5"
+ */
+function findActionMargin(xs: number[]): number {
+  const rounded = xs.map(x => Math.round(x / 2) * 2)
+  const counts = new Map<number, number>()
+  rounded.forEach(x => counts.set(x, (counts.get(x) || 0) + 1))
+  const threshold = Math.max(2, rounded.length * 0.08)
+  const candidates = Array.from(counts.entries())
+    .filter(([, n]) => n >= threshold)
+    .map(([x]) => x)
+    .sort((a, b) => a - b)
+  const margin = candidates[0]
+  return margin !== undefined && margin < STANDARD_ACTION_X + 0.4 * INCH ? margin : STANDARD_ACTION_X
+}
+
+function isCueText(text: string): boolean {
+  const name = text.replace(/\([^)]*\)/g, '').replace(/\^$/, '').trim()
+  return name.length > 0 && name.length <= 40 && /[A-Z]/.test(name) && name === name.toUpperCase() && !/[!?]$/.test(name)
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Classify every line of every page by indent and font metrics
+ */
+export function classifyLayout(pages: PdfPageContent[]): LayoutLine[] {
+  const pageRows = pages.map(page => ({ page, rows: buildRows(page.items) }))
+
+  // Body text size and action margin are measured across the whole document
+  const bodyRows = pageRows.flatMap(({ page, rows }) =>
+    rows.filter(r => r.y < page.height - HEADER_ZONE && r.y > FOOTER_ZONE)
+  )
+  const bodySize = mostCommon(bodyRows.flatMap(r => r.segments.map(s => Math.round(s.fontSize)))) || 12
+  const margin = findActionMargin(bodyRows
+    .map(r => r.segments.find(s => !SCENE_NUMBER.test(s.text))?.x)
+    .filter((x): x is number => x !== undefined))
+
+  const lines: LayoutLine[] = []
+  for (const { page, rows } of pageRows) {
+    let prevY: number | null = null
+    let openParen = false
+
+    for (const row of rows) {
+      // Scene numbers and revision asterisks sit in the margins either side of the text
+      let sceneNumber: string | null = null
+      const segments = row.segments.filter(s => {
+        const inLeftMargin = s.x < margin - 0.25 * INCH
+        const inRightMargin = s.x > margin + 5.9 * INCH
+        if ((inLeftMargin || inRightMargin) && SCENE_NUMBER.test(s.text)) {
+          sceneNumber = s.text.replace(/\.$/, '')
+          return false
+        }
+        return !(inRightMargin && REVISION_MARK.test(s.text))
+      })
+      if (segments.length === 0) continue
+
+      const first = segments[0]
+      const text = segments.map(s => s.text).join(' ')
+      const right = segments[segments.length - 1].right
+      const indent = (first.x - margin) / INCH
+      const gapBefore = prevY === null ? Infinity : Math.max(0, (prevY - row.y) / (bodySize * 1.0) - 1)
+      prevY = row.y
+
+      let kind: LayoutLineKind
+      const inHeader = row.y >= page.height - HEADER_ZONE
+      const inFooter = row.y <= FOOTER_ZONE
+
+      if (MORE.test(text)) {
+        kind = 'more'
+      } else if (CONTINUED_MARKER.test(text) || ((inHeader || inFooter || indent > TRANSITION_MIN) && PAGE_NUMBER.test(text))) {
+        kind = 'artifact'
+      } else if (inHeader || inFooter) {
+        // Running headers (revision colours, titles) and footers
+        kind = 'artifact'
+      } else if (first.fontSize > bodySize * 1.3) {
+        // Oversized text is title-page or watermark material, not script body
+        kind = 'artifact'
+      } else if (text.startsWith('(') && indent >= DIALOGUE_MIN - 0.2 && indent < CHARACTER_MIN + 0.2 && !isCueText(text)) {
+        kind = 'parenthetical'
+        openParen = !text.includes(')')
+      } else if (openParen && indent >= PARENTHETICAL_MIN && indent < CHARACTER_MIN) {
+        kind = 'parenthetical'
+        openParen = !text.includes(')')
+      } else if (indent < DIALOGUE_MIN) {
+        if (isSlugline(text)) kind = 'heading'
+        else if (isTransition(text)) kind = 'transition'
+        else kind = 'action'
+      } else if (indent < CHARACTER_MIN) {
+        // Includes the parenthetical column: wrapped dialogue can't start with '('
+        kind = 'dialogue'
+      } else if (indent < TRANSITION_MIN && right < page.width - 1.2 * INCH) {
+        kind = isCueText(text) ? 'character' : 'dialogue'
+      } else {
+        kind = text === text.toUpperCase() ? 'transition' : 'action'
+      }
+      if (kind !== 'parenthetical') openParen = false
+
+      lines.push({
+        pageNumber: page.pageNumber,
+        text,
+        x: first.x,
+        y: row.y,
+        fontSize: first.fontSize,
+        bold: first.bold,
+        kind,
+        gapBefore,
+        sceneNumber,
+      })
+    }
+  }
+  return lines
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+/**
+ * Rebuild screenplay blocks from classified lines
+ * A speech interrupted by (MORE) continues under the next page's (CONT'D) cue
+ * as one block; parentheticals mid-speech start a continued block as elsewhere
+ */
+export function reconstructScreenplay(pages: PdfPageContent[]): ScreenplayBlock[] {
+  return blocksFromLayout(classifyLayout(pages))
+}
+
+export function blocksFromLayout(lines: LayoutLine[]): ScreenplayBlock[] {
+  const blocks: ScreenplayBlock[] = []
+  let cue: ReturnType<typeof parseCharacterCue> | null = null
+  let isContinued = false
+  let parenthetical: string[] = []
+  let speech: string[] = []
+  let more = false
+  let action: string[] = []
+
+  const flushAction = () => {
+    if (action.length > 0) blocks.push({ kind: 'action', text: action.join(' ') })
+    action = []
+  }
+
+  const emitSpeech = () => {
+    if (!cue || speech.length === 0) return
+    blocks.push({
+      kind: 'dialogue',
+      character: cue.name,
+      extension: cue.extension,
+      isContinued,
+      parenthetical: parenthetical.length > 0
+        ? parenthetical.join(' ').replace(/^\(\s*/, '').replace(/\s*\)$/, '').trim()
+        : null,
+      text: speech.join(' '),
+    })
+    speech = []
+    parenthetical = []
+    isContinued = true
+  }
+
+  const endSpeech = () => {
+    emitSpeech()
+    cue = null
+    parenthetical = []
+    more = false
+  }
+
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'artifact':
+        break
+      case 'more':
+        more = true
+        break
+      case 'heading':
+        flushAction()
+        endSpeech()
+        blocks.push({ kind: 'heading', text: line.text, sceneNumber: line.sceneNumber || null })
+        break
+      case 'transition':
+        flushAction()
+        endSpeech()
+        blocks.push({ kind: 'transition', text: line.text })
+        break
+      case 'character': {
+        flushAction()
+        const next = parseCharacterCue(line.text)
+        // Same speaker after (MORE): the page break split one speech, keep it whole
+        if (more && cue && next.name === cue.name) {
+          more = false
+          break
+        }
+        endSpeech()
+        cue = next
+        isContinued = next.isContinued
+        break
+      }
+      case 'parenthetical':
+        if (!cue) {
+          flushAction()
+          action.push(line.text)
+          break
+        }
+        if (parenthetical.length === 0 || parenthetical[parenthetical.length - 1].includes(')')) emitSpeech()
+        parenthetical.push(line.text)
+        break
+      case 'dialogue':
+        if (!cue) {
+          action.push(line.text)
+          break
+        }
+        more = false
+        speech.push(line.text)
+        break
+      case 'action':
+        endSpeech()
+        if (line.gapBefore >= 0.5) flushAction()
+        action.push(line.text)
+        break
+    }
+  }
+
+  flushAction()
+  endSpeech()
+  return blocks
+}
+
+/**
+ * Render blocks back to plain screenplay text (for raw_content and previews)
+ */
+export function blocksToText(blocks: ScreenplayBlock[]): string {
+  return blocks
+    .map(b => {
+      if (b.kind !== 'dialogue') return b.text
+      const cue = [b.character, b.extension && `(${b.extension})`, b.isContinued && "(CONT'D)"].filter(Boolean).join(' ')
+      return [cue, b.parenthetical && `(${b.parenthetical})`, b.text].filter(Boolean).join('\n')
+    })
+    .join('\n\n')
+}
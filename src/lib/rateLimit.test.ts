@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { createRateLimiter } from './rateLimit'
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit within the window, then says when to retry', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 })
+    expect(limiter.take('user-1', 0).allowed).toBe(true)
+    expect(limiter.take('user-1', 10_000).allowed).toBe(true)
+    expect(limiter.take('user-1', 20_000)).toEqual({ allowed: false, retryAfterMs: 40_000 })
+  })
+
+  it('lets uses age out of the window', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 })
+    expect(limiter.take('user-1', 0).allowed).toBe(true)
+    expect(limiter.take('user-1', 59_999).allowed).toBe(false)
+    expect(limiter.take('user-1', 60_000).allowed).toBe(true)
+  })
+
+  it('counts each key separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 })
+    expect(limiter.take('user-1', 0).allowed).toBe(true)
+    expect(limiter.take('user-2', 0).allowed).toBe(true)
+  })
+})
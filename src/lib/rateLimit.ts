@@ -0,0 +1,30 @@
+/**
+ * Rate limiting
+ * A sliding-window limit per key (usually a user id) for API routes that hand out
+ * something billable. Counts live in the server instance's memory, so each instance
+ * limits on its own - enough to stop a runaway reconnect loop or a leaked session
+ * from minting credentials without bound.
+ */
+
+export interface RateLimiter {
+  // Records a use if the key is under its limit; retryAfterMs is 0 when allowed
+  take: (key: string, now?: number) => { allowed: boolean; retryAfterMs: number }
+}
+
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+  const { limit, windowMs } = options
+  const uses = new Map<string, number[]>()
+
+  return {
+    take: (key, now = Date.now()) => {
+      const recent = (uses.get(key) || []).filter(at => now - at < windowMs)
+      if (recent.length >= limit) {
+        uses.set(key, recent)
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) }
+      }
+      recent.push(now)
+      uses.set(key, recent)
+      return { allowed: true, retryAfterMs: 0 }
+    },
+  }
+}
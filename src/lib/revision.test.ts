@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest'
+import { changedSince, diffScript, diffWords, nextRevisionColor, planRevision, revisionColor, withLineRevision } from './revision'
+import { parseScreenplay } from './scriptParser'
+
+let counter = 0
+const generateId = () => `id-${++counter}`
+const now = '2026-01-01T00:00:00.000Z'
+const parse = (text: string) => parseScreenplay(text, { userId: 'u1', userRole: 'SARAH', title: 'Pilot', generateId, now })
+
+const WHITE = parse(`INT. KITCHEN - NIGHT
+
+SARAH
+You're late.
+
+JOHN
+Traffic was terrible on the bridge tonight.
+
+SARAH
+It always is.
+
+EXT. PORCH - NIGHT
+
+SARAH
+Go home, John.`)
+
+const BLUE = parse(`INT. KITCHEN - NIGHT
+
+SARAH
+You're late.
+
+JOHN
+Traffic was awful on the bridge.
+
+JOHN
+I brought wine.
+
+EXT. PORCH - NIGHT
+
+SARAH
+Go home, John.`)
+
+describe('diffWords', () => {
+  it('marks inserted and deleted words', () => {
+    expect(diffWords('Traffic was terrible on the bridge tonight.', 'Traffic was awful on the bridge.')).toEqual([
+      { op: 'equal', text: 'Traffic was' },
+      { op: 'delete', text: 'terrible' },
+      { op: 'insert', text: 'awful' },
+      { op: 'equal', text: 'on the' },
+      { op: 'delete', text: 'bridge tonight.' },
+      { op: 'insert', text: 'bridge.' },
+    ])
+  })
+
+  it('ignores case and spacing', () => {
+    expect(diffWords('go  home', 'Go home')).toEqual([{ op: 'equal', text: 'Go home' }])
+  })
+})
+
+describe('diffScript', () => {
+  const diff = diffScript(WHITE.lines, BLUE.lines)
+
+  it('classifies every line', () => {
+    expect(diff.entries.map(e => [e.change, (e.newLine || e.oldLine)!.content])).toEqual([
+      ['unchanged', "You're late."],
+      ['revised', 'Traffic was awful on the bridge.'],
+      ['added', 'I brought wine.'],
+      ['deleted', 'It always is.'],
+      ['unchanged', 'Go home, John.'],
+    ])
+    expect(diff.counts).toEqual({ unchanged: 2, revised: 1, added: 1, deleted: 1 })
+  })
+
+  it('pairs revised lines with the saved line', () => {
+    const revised = diff.entries.find(e => e.change === 'revised')!
+    expect(revised.oldLine!.id).toBe(WHITE.lines[1].id)
+    expect(revised.words!.some(w => w.op === 'insert' && w.text === 'awful')).toBe(true)
+  })
+
+  it('treats a line given to another character as deleted and added', () => {
+    const swapped = parse(`SARAH\nHello there.`)
+    const original = parse(`JOHN\nHello there.`)
+    expect(diffScript(original.lines, swapped.lines).entries.map(e => e.change)).toEqual(['added', 'deleted'])
+  })
+})
+
+describe('planRevision', () => {
+  const existing = { script: WHITE.script, scenes: WHITE.scenes, characters: WHITE.characters }
+  const withNotes = WHITE.lines.map((l, i) => i === 1 ? { ...l, notes: 'Angry', audio_url: 'https://audio/1.mp3' } : l)
+  const diff = diffScript(withNotes, BLUE.lines)
+
+  it('keeps the IDs of unchanged and revised lines', () => {
+    const plan = planRevision(existing, BLUE, diff, { color: 'blue', now })
+    const ids = plan.lines.upsert.map(l => l.id)
+
+    expect(ids[0]).toBe(WHITE.lines[0].id)
+    expect(ids[1]).toBe(WHITE.lines[1].id)
+    expect(ids[3]).toBe(WHITE.lines[3].id)
+    expect(plan.lines.remove).toEqual([WHITE.lines[2].id])
+    expect(plan.lines.upsert.every(l => l.script_id === WHITE.script.id)).toBe(true)
+  })
+
+  it('flags revised lines, keeps their notes and resets their audio and progress', () => {
+    const plan = planRevision(existing, BLUE, diff, { color: 'blue', now })
+    const revised = plan.lines.upsert[1]
+
+    expect(revised).toMatchObject({
+      content: 'Traffic was awful on the bridge.',
+      previous_content: 'Traffic was terrible on the bridge tonight.',
+      revision_status: 'revised',
+      notes: 'Angry',
+      audio_url: null,
+    })
+    expect(plan.lines.upsert[2].revision_status).toBe('added')
+    expect(plan.lines.upsert[0].revision_status).toBeNull()
+    expect(plan.resetLineIds).toEqual([WHITE.lines[1].id])
+    expect(plan.script).toMatchObject({ revision_color: 'blue', total_lines: 4, revised_at: now })
+  })
+
+  it('upserts saved and added records as rows with the same columns', () => {
+    // Saved rows carry columns the parser never sets
+    const saved = {
+      ...existing,
+      scenes: WHITE.scenes.map(s => ({ ...s, created_at: now })),
+    }
+    const savedLines = withNotes.map(l => ({ ...l, created_at: now, audio_url_name: 'name.mp3' }))
+    const plan = planRevision(saved, BLUE, diffScript(savedLines, BLUE.lines), { color: 'blue', now })
+
+    expect(plan.lines.upsert.map(l => l.revision_status)).toContain('added')
+    const keySets = (rows: object[]) => new Set(rows.map(r => Object.keys(r).sort().join()))
+    expect(keySets(plan.lines.upsert).size).toBe(1)
+    expect(keySets(plan.scenes.upsert).size).toBe(1)
+    expect(plan.lines.upsert[0]).not.toHaveProperty('created_at')
+    expect(plan.lines.upsert.map(l => l.audio_url_name)).toEqual(['name.mp3', null, null, 'name.mp3'])
+  })
+
+  it('reuses scene IDs by heading', () => {
+    const plan = planRevision(existing, BLUE, diff)
+    expect(plan.scenes.upsert.map(s => s.id)).toEqual(WHITE.scenes.map(s => s.id))
+    expect(plan.scenes.remove).toEqual([])
+    expect(new Set(plan.lines.upsert.map(l => l.scene_id))).toEqual(new Set(WHITE.scenes.map(s => s.id)))
+  })
+
+  it('honours rejected additions and deletions', () => {
+    const added = diff.entries.findIndex(e => e.change === 'added')
+    const deleted = diff.entries.findIndex(e => e.change === 'deleted')
+    const plan = planRevision(existing, BLUE, diff, { skip: [added, deleted] })
+
+    expect(plan.lines.upsert.map(l => l.content)).toEqual([
+      "You're late.",
+      'Traffic was awful on the bridge.',
+      'It always is.',
+      'Go home, John.',
+    ])
+    expect(plan.lines.upsert.map(l => l.sort_order)).toEqual([1, 2, 3, 4])
+    expect(plan.lines.remove).toEqual([])
+  })
+
+  it('adds speakers new to the script', () => {
+    const draft = parse(`INT. KITCHEN - NIGHT\n\nSARAH\nYou're late.\n\nMAYA\nHi mum.`)
+    const plan = planRevision(existing, draft, diffScript(WHITE.lines, draft.lines))
+    expect(plan.characters.map(c => [c.name, c.script_id])).toEqual([['MAYA', WHITE.script.id]])
+    expect(plan.scenes.remove).toEqual([WHITE.scenes[1].id])
+  })
+})
+
+describe('nextRevisionColor', () => {
+  it('follows the standard colour order', () => {
+    expect(nextRevisionColor(null)).toBe('white')
+    expect(nextRevisionColor('white')).toBe('blue')
+    expect(nextRevisionColor('cherry')).toBe('white')
+  })
+})
+
+describe('line history', () => {
+  const line = WHITE.lines[0]
+  const editor = { id: 'u1', name: 'Sam' }
+
+  it('records wording changes with who, when and the colour', () => {
+    const updates = withLineRevision(line, { content: 'You are late.' }, editor, 'pink', now)
+    expect(updates).toMatchObject({ content: 'You are late.', revision_status: 'revised', previous_content: "You're late." })
+    expect(updates.revisions).toEqual([
+      { at: now, by: 'u1', by_name: 'Sam', previous_content: "You're late.", color: 'pink', source: 'edit' },
+    ])
+  })
+
+  it('leaves edits that keep the wording alone', () => {
+    expect(withLineRevision(line, { notes: 'Slower' }, editor)).toEqual({ notes: 'Slower' })
+    expect(withLineRevision(line, { content: line.content }, editor)).toEqual({ content: line.content })
+  })
+
+  it('finds lines changed since a time', () => {
+    const edited = { ...line, ...withLineRevision(line, { content: 'Late again.' }, editor, null, '2026-03-02T10:00:00.000Z') }
+    expect(changedSince(edited, '2026-03-01T00:00:00.000Z')).toBe(true)
+    expect(changedSince(edited, '2026-03-03T00:00:00.000Z')).toBe(false)
+    expect(changedSince(line, null)).toBe(false)
+  })
+
+  it('adds imported revisions to the history', () => {
+    const plan = planRevision(
+      { script: WHITE.script, scenes: WHITE.scenes, characters: WHITE.characters },
+      BLUE,
+      diffScript(WHITE.lines, BLUE.lines),
+      { color: 'blue', editor, now }
+    )
+    expect(plan.lines.upsert[1].revisions).toEqual([
+      { at: now, by: 'u1', by_name: 'Sam', previous_content: 'Traffic was terrible on the bridge tonight.', color: 'blue', source: 'revision' },
+    ])
+    expect(plan.lines.upsert[2].revisions?.[0]).toMatchObject({ previous_content: null, color: 'blue' })
+    expect(revisionColor(plan.lines.upsert[1])).toBe('#a7c7e7')
+  })
+})
@@ -0,0 +1,409 @@
+/**
+ * Script revisions
+ * Diffs a re-imported draft (blue pages, pink pages...) against the lines
+ * already saved for a script, so unchanged lines keep their IDs, notes and
+ * practice progress and only the revised text needs re-learning.
+ */
+
+import type { Script, Scene, Line, LineRevision, Character } from './supabase'
+import { characterRow, lineRow, sceneRow, ParsedScreenplay } from './scriptParser'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RevisionChange = 'unchanged' | 'revised' | 'added' | 'deleted'
+
+export interface WordDiff {
+  op: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface RevisionEntry {
+  change: RevisionChange
+  oldLine: Line | null      // Saved line (null for added)
+  newLine: Line | null      // Line from the new draft (null for deleted)
+  words?: WordDiff[]        // Word-level diff for revised lines
+}
+
+export interface RevisionDiff {
+  entries: RevisionEntry[]  // In new-draft order, deletions where they used to be
+  counts: Record<RevisionChange, number>
+}
+
+export interface RevisionEditor {
+  id: string
+  name?: string | null
+}
+
+export interface RevisionOptions {
+  color?: string            // Revision page colour, e.g. 'blue'
+  editor?: RevisionEditor
+  skip?: number[]           // Entry indexes the user rejected (added lines not inserted, deleted lines kept)
+  now?: string
+}
+
+/** A parsed draft alongside the saved script it revises */
+export interface RevisionPreview {
+  script: Script
+  scenes: Scene[]
+  lines: Line[]
+  characters: Character[]
+  parsed: ParsedScreenplay
+  diff: RevisionDiff
+}
+
+/** Database writes needed to apply a revision to a saved script */
+export interface RevisionPlan {
+  script: Partial<Script>
+  scenes: { upsert: Scene[]; remove: string[] }
+  lines: { upsert: Line[]; remove: string[] }
+  characters: Character[]   // Speakers new to this script
+  resetLineIds: string[]    // Revised lines - their memorisation progress no longer applies
+}
+
+// Standard revision page colours, in issue order
+export const REVISION_COLORS = [
+  { value: 'white', label: 'White', hex: '#ffffff' },
+  { value: 'blue', label: 'Blue', hex: '#a7c7e7' },
+  { value: 'pink', label: 'Pink', hex: '#f4c2c2' },
+  { value: 'yellow', label: 'Yellow', hex: '#fdfd96' },
+  { value: 'green', label: 'Green', hex: '#b2e2b2' },
+  { value: 'goldenrod', label: 'Goldenrod', hex: '#daa520' },
+  { value: 'buff', label: 'Buff', hex: '#f0dc82' },
+  { value: 'salmon', label: 'Salmon', hex: '#fa8072' },
+  { value: 'cherry', label: 'Cherry', hex: '#de3163' },
+]
+
+// Revised lines must share at least this much wording with the old line
+const MIN_REVISED_SIMILARITY = 0.4
+
+// Older history entries are dropped beyond this
+const MAX_LINE_REVISIONS = 20
+
+/**
+ * The colour after the current one - what the next set of pages is likely printed on
+ */
+export function nextRevisionColor(current?: string | null): string {
+  const index = REVISION_COLORS.findIndex(c => c.value === current)
+  return REVISION_COLORS[(index + 1) % REVISION_COLORS.length].value
+}
+
+// ============================================================================
+// LINE HISTORY
+// ============================================================================
+
+function appendRevision(line: Line, revision: LineRevision): LineRevision[] {
+  return [...(line.revisions || []), revision].slice(-MAX_LINE_REVISIONS)
+}
+
+/**
+ * Add a history entry to a line edit when its wording changes
+ * Returns the updates to save; edits that leave the text alone pass through.
+ */
+export function withLineRevision(
+  line: Line,
+  updates: Partial<Line>,
+  editor: RevisionEditor | null,
+  color?: string | null,
+  now = new Date().toISOString()
+): Partial<Line> {
+  if (updates.content === undefined || updates.content === line.content) return updates
+  return {
+    ...updates,
+    revision_status: 'revised',
+    previous_content: line.content,
+    revisions: appendRevision(line, {
+      at: now,
+      by: editor?.id || null,
+      by_name: editor?.name || null,
+      previous_content: line.content,
+      color: color || null,
+      source: 'edit',
+    }),
+  }
+}
+
+/**
+ * When the line's wording last changed (null if never)
+ */
+export function lastChangedAt(line: Line): string | null {
+  return line.revisions?.[line.revisions.length - 1]?.at || null
+}
+
+/**
+ * Colour swatch of the revision that last changed the line
+ */
+export function revisionColor(line: Line): string | undefined {
+  const color = line.revisions?.[line.revisions.length - 1]?.color
+  return REVISION_COLORS.find(c => c.value === color)?.hex
+}
+
+/**
+ * True when the line changed after the given time - e.g. since the last practice
+ */
+export function changedSince(line: Line, since: string | null | undefined): boolean {
+  const changed = lastChangedAt(line)
+  return !!changed && (!since || changed > since)
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean)
+const lineKey = (line: Line) =>
+  `${line.line_type || 'dialogue'}|${line.character_name}|${words(line.content).join(' ')}`
+
+/**
+ * Longest common subsequence of two sequences, as index pairs
+ */
+function lcs<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): [number, number][] {
+  const width = b.length + 1
+  const table = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = equal(a[i], b[j])
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  const pairs: [number, number][] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i++, j++])
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+/**
+ * Word-level diff between two versions of a line
+ */
+export function diffWords(before: string, after: string): WordDiff[] {
+  const a = words(before)
+  const b = words(after)
+  const normalize = (w: string) => w.toLowerCase()
+  const pairs = lcs(a, b, (x, y) => normalize(x) === normalize(y))
+
+  const ops: WordDiff[] = []
+  const push = (op: WordDiff['op'], text: string) => {
+    const last = ops[ops.length - 1]
+    if (last && last.op === op) last.text += ` ${text}`
+    else ops.push({ op, text })
+  }
+
+  let i = 0
+  let j = 0
+  for (const [pi, pj] of [...pairs, [a.length, b.length] as [number, number]]) {
+    while (i < pi) push('delete', a[i++])
+    while (j < pj) push('insert', b[j++])
+    if (pi < a.length) push('equal', b[pj])
+    i = pi + 1
+    j = pj + 1
+  }
+  return ops
+}
+
+/**
+ * Share of words two lines have in common (0-1)
+ */
+function similarity(a: string, b: string): number {
+  const total = Math.max(words(a).length, words(b).length)
+  if (total === 0) return 1
+  const common = diffWords(a, b).filter(w => w.op === 'equal').reduce((n, w) => n + words(w.text).length, 0)
+  return common / total
+}
+
+/**
+ * Diff the lines of a new draft against the saved lines of the same script
+ * Identical lines are matched first (in order); the leftovers between two
+ * matches are paired up as revisions when the same character says something
+ * similar, otherwise they count as deleted and added.
+ */
+export function diffScript(oldLines: Line[], newLines: Line[]): RevisionDiff {
+  const before = [...oldLines].sort((a, b) => a.sort_order - b.sort_order)
+  const after = [...newLines].sort((a, b) => a.sort_order - b.sort_order)
+  const anchors = lcs(before.map(lineKey), after.map(lineKey), (x, y) => x === y)
+
+  const entries: RevisionEntry[] = []
+  let i = 0
+  let j = 0
+
+  for (const [ai, aj] of [...anchors, [before.length, after.length] as [number, number]]) {
+    // Pair the unmatched lines in this gap, keeping their relative order
+    const removed = before.slice(i, ai)
+    let next = 0
+    for (const line of after.slice(j, aj)) {
+      const match = removed.findIndex((old, k) => k >= next &&
+        old.character_name === line.character_name &&
+        (old.line_type || 'dialogue') === (line.line_type || 'dialogue') &&
+        similarity(old.content, line.content) >= MIN_REVISED_SIMILARITY)
+
+      if (match >= 0) {
+        removed.slice(next, match).forEach(old => entries.push({ change: 'deleted', oldLine: old, newLine: null }))
+        const old = removed[match]
+        entries.push({ change: 'revised', oldLine: old, newLine: line, words: diffWords(old.content, line.content) })
+        next = match + 1
+      } else {
+        entries.push({ change: 'added', oldLine: null, newLine: line })
+      }
+    }
+    removed.slice(next).forEach(old => entries.push({ change: 'deleted', oldLine: old, newLine: null }))
+
+    if (ai < before.length) entries.push({ change: 'unchanged', oldLine: before[ai], newLine: after[aj] })
+    i = ai + 1
+    j = aj + 1
+  }
+
+  const counts: Record<RevisionChange, number> = { unchanged: 0, revised: 0, added: 0, deleted: 0 }
+  entries.forEach(e => counts[e.change]++)
+  return { entries, counts }
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Work out the writes that turn the saved script into the new draft
+ * Saved lines that survive keep their ID (and with it notes, audio and
+ * progress); revised lines take the new wording and are flagged. Scenes are
+ * matched by heading so their IDs carry over too.
+ */
+export function planRevision(
+  existing: { script: Script; scenes: Scene[]; characters: Character[] },
+  parsed: ParsedScreenplay,
+  diff: RevisionDiff,
+  options: RevisionOptions = {}
+): RevisionPlan {
+  const now = options.now || new Date().toISOString()
+  const scriptId = existing.script.id
+  const skip = new Set(options.skip || [])
+  const revision = (previous: string | null): LineRevision => ({
+    at: now,
+    by: options.editor?.id || null,
+    by_name: options.editor?.name || null,
+    previous_content: previous,
+    color: options.color || null,
+    source: 'revision',
+  })
+
+  // Map each scene of the new draft to a saved scene with the same heading
+  const unusedScenes = [...existing.scenes].sort((a, b) => a.sort_order - b.sort_order)
+  const sceneIds = new Map<string, string>()
+  const scenes: Scene[] = parsed.scenes.map(scene => {
+    const index = unusedScenes.findIndex(s => s.name.trim().toUpperCase() === scene.name.trim().toUpperCase())
+    const saved = index >= 0 ? unusedScenes.splice(index, 1)[0] : null
+    const id = saved?.id || scene.id
+    sceneIds.set(scene.id, id)
+    return { ...saved, ...scene, id, script_id: scriptId, description: saved?.description ?? scene.description }
+  })
+
+  const lines: Line[] = []
+  const remove: string[] = []
+  const resetLineIds: string[] = []
+  let sceneId = scenes[0]?.id || existing.scenes[0]?.id
+
+  diff.entries.forEach((entry, index) => {
+    const { oldLine, newLine } = entry
+    if (newLine) sceneId = sceneIds.get(newLine.scene_id) || sceneId
+
+    switch (entry.change) {
+      case 'unchanged':
+        lines.push({
+          ...oldLine!,
+          scene_id: sceneId,
+          is_user_line: newLine!.is_user_line,
+          cue: newLine!.cue,
+          revision_status: null,
+          previous_content: null,
+        })
+        break
+      case 'revised':
+        resetLineIds.push(oldLine!.id)
+        lines.push({
+          ...oldLine!,
+          scene_id: sceneId,
+          character_name: newLine!.character_name,
+          content: newLine!.content,
+          regions: newLine!.regions ?? null,
+          parenthetical: newLine!.parenthetical,
+          extension: newLine!.extension,
+          is_continued: newLine!.is_continued,
+          is_dual: newLine!.is_dual,
+          is_user_line: newLine!.is_user_line,
+          cue: newLine!.cue,
+          word_count: newLine!.word_count,
+          notes: oldLine!.notes || newLine!.notes || null,
+          // The old recording and segments no longer match the words
+          audio_url: null,
+          audio_generated_at: null,
+          audio_url_name: null,
+          audio_url_parenthetical: null,
+          audio_url_action: null,
+          word_timepoints: null,
+          practice_segments: null,
+          revision_status: 'revised',
+          previous_content: oldLine!.content,
+          revisions: appendRevision(oldLine!, revision(oldLine!.content)),
+        })
+        break
+      case 'added':
+        if (!skip.has(index)) {
+          lines.push({
+            ...newLine!,
+            scene_id: sceneId,
+            script_id: scriptId,
+            revision_status: 'added',
+            previous_content: null,
+            revisions: [revision(null)],
+          })
+        }
+        break
+      case 'deleted':
+        if (skip.has(index)) lines.push({ ...oldLine!, scene_id: sceneId })
+        else remove.push(oldLine!.id)
+        break
+    }
+  })
+
+  lines.forEach((line, i) => {
+    line.line_number = i + 1
+    line.sort_order = i + 1
+  })
+
+  // Scenes that no longer hold any lines are dropped
+  const usedScenes = new Set(lines.map(l => l.scene_id))
+  const keptScenes = scenes.filter(s => usedScenes.has(s.id))
+  keptScenes.forEach((scene, i) => { scene.sort_order = i })
+  const removedScenes = existing.scenes.filter(s => !keptScenes.some(k => k.id === s.id)).map(s => s.id)
+
+  const knownCharacters = new Set(existing.characters.map(c => c.name))
+  const characters = parsed.characters
+    .filter(c => !knownCharacters.has(c.name) && lines.some(l => l.character_name === c.name))
+    .map(c => characterRow({ ...c, script_id: scriptId }))
+
+  return {
+    script: {
+      raw_content: parsed.script.raw_content,
+      total_lines: lines.length,
+      page_count: parsed.script.page_count,
+      revision_color: options.color || null,
+      revised_at: now,
+      updated_at: now,
+    },
+    // Saved and new records go up in one upsert per table, so they need the same columns
+    scenes: { upsert: keptScenes.map(sceneRow), remove: removedScenes },
+    lines: { upsert: lines.map(lineRow), remove },
+    characters,
+    resetLineIds,
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { scoreLine, scoreScript, SCORER_VERSION } from './scorer'
+
+describe('scoreLine', () => {
+  it('returns the accuracy result with per-word results', () => {
+    const score = scoreLine('The cat sat down.', 'the cat sat')
+    expect(score).toMatchObject({ isCorrect: false, missingWords: ['down'], expected: 'The cat sat down.', spoken: 'the cat sat' })
+    expect(score.words).toEqual(['correct', 'correct', 'correct', 'missing'])
+    expect(score.alignment.map(op => op.type)).toEqual(['match', 'match', 'match', 'delete'])
+  })
+
+  it('takes profiles by id, names, lexicon terms and the language', () => {
+    expect(scoreLine("I'm going to go", 'im gonna go', { profile: 'verbatim' }).isCorrect).toBe(false)
+    expect(scoreLine('Page Okafor now', 'page oh car for now', { lexicon: [{ term: 'Okafor', variants: ['oh car for'] }] }).isCorrect).toBe(true)
+    expect(scoreLine('tell sarah', 'tell sara', { characterNames: ['SARAH JONES'] }).isCorrect).toBe(true)
+    expect(scoreLine('Anh không biết.', 'anh ko biết', { language: 'vi-VN' }).isCorrect).toBe(true)
+  })
+})
+
+describe('scoreScript', () => {
+  const lines = [
+    { id: 'a', line_number: 1, character_name: 'SARAH', content: "You're late." },
+    { id: 'b', line_number: 2, character_name: 'JOHN', content: 'Traffic.' },
+    { id: 'c', line_number: 3, character_name: 'SARAH', content: 'Go home, John.' },
+  ]
+
+  it('scores lines with a take, by id or line number', () => {
+    const score = scoreScript(lines, new Map([['a', "you're late"], ['3', 'go home']]))
+    expect(score.lines.map(l => [l.id, l.isCorrect])).toEqual([['a', true], ['c', false]])
+    expect(score.summary).toEqual({ lines: 2, correct: 1, accuracy: 84 })
+  })
+
+  it('records the scorer version, profile and language', () => {
+    const score = scoreScript(lines, new Map(), { profile: 'off-book', language: 'british' })
+    expect(score).toMatchObject({ version: SCORER_VERSION, profile: 'off-book', language: 'en', summary: { lines: 0, accuracy: 0 } })
+  })
+})
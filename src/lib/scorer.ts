@@ -0,0 +1,124 @@
+/**
+ * Line scorer
+ * The accuracy engine behind one stable, versioned entry point, for code outside
+ * the practice screens: server routes, the scripts/accuracy CLI and regression
+ * runs over recorded transcripts. Depends on nothing but lib/accuracy.
+ */
+
+import {
+  AccuracyProfile,
+  AccuracyResult,
+  WordResult,
+  buildLexiconIndex,
+  checkAccuracy,
+  getAccuracyProfile,
+  getWordByWordResults,
+  resolveLanguage,
+} from './accuracy'
+
+// Bump the minor version when the same input can score differently, the major when the API changes
+export const SCORER_VERSION = '1.0.0'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScoreOptions {
+  profile?: AccuracyProfile | string | null                // Profile or built-in profile id (standard by default)
+  characterNames?: string[]                                 // Names matched with proper-noun tolerance
+  lexicon?: { term: string; variants: string[] }[]          // Accepted transcriptions of names and jargon
+  language?: string | null                                  // Language code or accent hint (English by default)
+}
+
+export interface LineScore extends AccuracyResult {
+  expected: string
+  spoken: string
+  words: WordResult[]   // One result per expected word
+}
+
+export interface ScriptLineInput {
+  id?: string
+  line_number?: number
+  character_name?: string
+  content: string
+}
+
+export interface ScriptLineScore extends LineScore {
+  id: string | null
+  line_number: number | null
+  character_name: string | null
+}
+
+export interface ScriptScore {
+  version: string
+  profile: string
+  language: string
+  summary: {
+    lines: number     // Lines with a transcript
+    correct: number
+    accuracy: number  // Mean accuracy over those lines, 0-100
+  }
+  lines: ScriptLineScore[]
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function resolveOptions(options: ScoreOptions) {
+  const profile = typeof options.profile === 'object' && options.profile
+    ? options.profile
+    : getAccuracyProfile(options.profile)
+  const characterNames = new Set<string>()
+  for (const name of options.characterNames || []) {
+    for (const part of name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').split(/\s+/)) {
+      if (part.length >= 2) characterNames.add(part)
+    }
+  }
+  const lexicon = options.lexicon?.length ? buildLexiconIndex(options.lexicon) : undefined
+  return { profile, characterNames, lexicon, language: resolveLanguage(options.language) }
+}
+
+/**
+ * Score one spoken take against its line
+ */
+export function scoreLine(expected: string, spoken: string, options: ScoreOptions = {}): LineScore {
+  const { profile, characterNames, lexicon, language } = resolveOptions(options)
+  const result = checkAccuracy(expected, spoken, profile, characterNames, lexicon, language)
+  const { results } = getWordByWordResults(expected, spoken, characterNames, profile, lexicon, language)
+  return { ...result, expected, spoken, words: results }
+}
+
+/**
+ * Score transcripts against a script's lines
+ * `transcripts` is keyed by line id or line number; lines without one are left out.
+ */
+export function scoreScript(
+  lines: ScriptLineInput[],
+  transcripts: Map<string, string>,
+  options: ScoreOptions = {}
+): ScriptScore {
+  const resolved = resolveOptions(options)
+  const scored: ScriptLineScore[] = []
+
+  for (const line of lines) {
+    const spoken = (line.id && transcripts.get(line.id)) ?? (line.line_number != null ? transcripts.get(String(line.line_number)) : undefined)
+    if (spoken === undefined) continue
+    scored.push({
+      ...scoreLine(line.content, spoken, { ...options, profile: resolved.profile, language: resolved.language }),
+      id: line.id ?? null,
+      line_number: line.line_number ?? null,
+      character_name: line.character_name ?? null,
+    })
+  }
+
+  const correct = scored.filter(l => l.isCorrect).length
+  const accuracy = scored.length > 0 ? Math.round(scored.reduce((sum, l) => sum + l.accuracy, 0) / scored.length) : 0
+  return {
+    version: SCORER_VERSION,
+    profile: resolved.profile.id,
+    language: resolved.language,
+    summary: { lines: scored.length, correct, accuracy },
+    lines: scored,
+  }
+}
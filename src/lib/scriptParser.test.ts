@@ -0,0 +1,353 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseScreenplay,
+  parseSlugline,
+  parseCharacterCue,
+  tokenizeScreenplay,
+  ParseOptions,
+} from './scriptParser'
+
+const options = (overrides: Partial<ParseOptions> = {}): ParseOptions => {
+  let n = 0
+  return {
+    userId: 'user-1',
+    userRole: 'SARAH',
+    generateId: () => `id-${++n}`,
+    now: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// Fixtures — each one is a screenplay snippet plus the lines it should produce
+// ============================================================================
+
+interface Fixture {
+  name: string
+  text: string
+  scenes: string[]
+  lines: Array<[type: string, character: string, content: string]>
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    name: 'standard spaced screenplay',
+    text: `INT. KITCHEN - NIGHT
+
+Sarah stands at the stove, stirring.
+
+SARAH
+You're late.
+
+JOHN
+(shrugging)
+Traffic.
+
+CUT TO:`,
+    scenes: ['INT. KITCHEN - NIGHT'],
+    lines: [
+      ['action', '', 'Sarah stands at the stove, stirring.'],
+      ['dialogue', 'SARAH', "You're late."],
+      ['dialogue', 'JOHN', 'Traffic.'],
+      ['transition', '', 'CUT TO:'],
+    ],
+  },
+  {
+    name: 'PDF text without blank lines',
+    text: `1 EXT. PARK - DAY 1
+SARAH
+Did you bring it?
+JOHN (O.S.)
+Bring what?
+SARAH
+The ring, John.
+2 INT. CAR - CONTINUOUS 2
+JOHN
+I forgot.`,
+    scenes: ['1 EXT. PARK - DAY 1', '2 INT. CAR - CONTINUOUS 2'],
+    lines: [
+      ['dialogue', 'SARAH', 'Did you bring it?'],
+      ['dialogue', 'JOHN', 'Bring what?'],
+      ['dialogue', 'SARAH', 'The ring, John.'],
+      ['dialogue', 'JOHN', 'I forgot.'],
+    ],
+  },
+  {
+    name: 'multi-line dialogue and mid-speech parentheticals',
+    text: `INT. OFFICE - DAY
+
+SARAH
+I have been waiting
+all morning for this.
+(beat)
+Sit down.`,
+    scenes: ['INT. OFFICE - DAY'],
+    lines: [
+      ['dialogue', 'SARAH', 'I have been waiting all morning for this.'],
+      ['dialogue', 'SARAH', 'Sit down.'],
+    ],
+  },
+  {
+    name: 'page-break artifacts are removed',
+    text: `INT. HALLWAY - NIGHT
+
+JOHN
+We need to talk about what
+(MORE)
+
+12.
+
+CONTINUED:
+JOHN (CONT'D)
+happened last night.`,
+    scenes: ['INT. HALLWAY - NIGHT'],
+    lines: [
+      ['dialogue', 'JOHN', 'We need to talk about what'],
+      ['dialogue', 'JOHN', 'happened last night.'],
+    ],
+  },
+  {
+    name: 'preamble before the first heading joins the first scene',
+    text: `FADE IN:
+
+INT. BEDROOM - MORNING
+
+SARAH
+Morning.`,
+    scenes: ['INT. BEDROOM - MORNING'],
+    lines: [
+      ['transition', '', 'FADE IN:'],
+      ['dialogue', 'SARAH', 'Morning.'],
+    ],
+  },
+  {
+    name: 'sides with no scene heading',
+    text: `SARAH
+Where were you?
+
+JOHN
+Out.`,
+    scenes: ['Scene 1'],
+    lines: [
+      ['dialogue', 'SARAH', 'Where were you?'],
+      ['dialogue', 'JOHN', 'Out.'],
+    ],
+  },
+  {
+    name: 'inline "NAME: text" dialogue',
+    text: `SCENE 2
+
+SARAH: (quietly) Is he asleep?
+JOHN: Finally.`,
+    scenes: ['SCENE 2'],
+    lines: [
+      ['dialogue', 'SARAH', 'Is he asleep?'],
+      ['dialogue', 'JOHN', 'Finally.'],
+    ],
+  },
+  {
+    name: 'all-caps action is not a character cue',
+    text: `EXT. STREET - NIGHT
+
+BANG!
+
+A car alarm wails.
+
+SARAH
+What was that?`,
+    scenes: ['EXT. STREET - NIGHT'],
+    lines: [
+      ['action', '', 'BANG!'],
+      ['action', '', 'A car alarm wails.'],
+      ['dialogue', 'SARAH', 'What was that?'],
+    ],
+  },
+  {
+    name: 'ad-lib directions and overlaps',
+    text: `INT. BAR - NIGHT
+
+SARAH
+(ad lib)
+Hey, how are you, good to see you.
+
+JOHN
+Long time. (ad libs) Anyway, I was / just leaving.`,
+    scenes: ['INT. BAR - NIGHT'],
+    lines: [
+      ['dialogue', 'SARAH', 'Hey, how are you, good to see you.'],
+      ['dialogue', 'JOHN', 'Long time. Anyway, I was just leaving.'],
+    ],
+  },
+]
+
+describe('parseScreenplay fixtures', () => {
+  for (const fixture of FIXTURES) {
+    it(fixture.name, () => {
+      const parsed = parseScreenplay(fixture.text, options())
+      expect(parsed.scenes.map(s => s.name)).toEqual(fixture.scenes)
+      expect(parsed.lines.map(l => [l.line_type, l.character_name, l.content])).toEqual(fixture.lines)
+    })
+  }
+
+  it('keeps ad-lib and overlap regions out of the spoken text', () => {
+    const fixture = FIXTURES.find(f => f.name === 'ad-lib directions and overlaps')!
+    const [sarah, john] = parseScreenplay(fixture.text, options()).lines
+    expect(sarah.regions).toEqual([{ kind: 'adlib', start: 0, end: 34 }])
+    expect(john.regions).toEqual([{ kind: 'adlib', start: 11, end: 11 }, { kind: 'overlap', start: 25, end: 38 }])
+    expect(john.word_count).toBe(7)
+  })
+})
+
+// ============================================================================
+// Record building
+// ============================================================================
+
+describe('parseScreenplay records', () => {
+  const text = `INT. KITCHEN - NIGHT
+
+SARAH
+You're late.
+
+JOHN (V.O.)
+(quietly)
+I know.
+
+INT. HALLWAY - CONTINUOUS
+
+SARAH (CONT'D)
+Don't walk away from me.`
+
+  it('links scenes and lines to the script', () => {
+    const parsed = parseScreenplay(text, options())
+    expect(parsed.scenes).toHaveLength(2)
+    for (const line of parsed.lines) {
+      expect(line.script_id).toBe(parsed.script.id)
+      expect(parsed.scenes.map(s => s.id)).toContain(line.scene_id)
+    }
+    expect(parsed.lines[2].scene_id).toBe(parsed.scenes[1].id)
+  })
+
+  it('gives every kind of line the same columns, so they save in one insert', () => {
+    const parsed = parseScreenplay(`INT. KITCHEN - NIGHT\n\nSarah stirs the pot.\n\nSARAH\n{Well.} You're late.\n\nCUT TO:`, options())
+    expect(parsed.lines.map(l => l.line_type)).toEqual(['action', 'dialogue', 'transition'])
+    const [action, ...rest] = parsed.lines.map(l => Object.keys(l).sort())
+    for (const keys of rest) expect(keys).toEqual(action)
+  })
+
+  it('numbers lines and scenes in order', () => {
+    const parsed = parseScreenplay(text, options())
+    expect(parsed.lines.map(l => l.line_number)).toEqual([1, 2, 3])
+    expect(parsed.lines.map(l => l.sort_order)).toEqual([1, 2, 3])
+    expect(parsed.scenes.map(s => s.scene_number)).toEqual([1, 2])
+    expect(parsed.scenes.map(s => s.sort_order)).toEqual([0, 1])
+  })
+
+  it('fills extension, continuation and parenthetical', () => {
+    const [, john, sarah] = parseScreenplay(text, options()).lines
+    expect(john.extension).toBe('V.O.')
+    expect(john.parenthetical).toBe('quietly')
+    expect(john.is_continued).toBe(false)
+    expect(sarah.extension).toBeNull()
+    expect(sarah.is_continued).toBe(true)
+  })
+
+  it("marks the user's lines and character", () => {
+    const parsed = parseScreenplay(text, options({ userRole: 'sarah' }))
+    expect(parsed.lines.filter(l => l.is_user_line).map(l => l.content)).toEqual([
+      "You're late.",
+      "Don't walk away from me.",
+    ])
+    expect(parsed.characters.map(c => [c.name, c.is_user_character])).toEqual([
+      ['SARAH', true],
+      ['JOHN', false],
+    ])
+  })
+
+  it('sets the cue to the previous speaker’s line', () => {
+    const [sarah, john, sarah2] = parseScreenplay(text, options()).lines
+    expect(sarah.cue).toBeNull()
+    expect(john.cue).toBe("You're late.")
+    expect(sarah2.cue).toBe('I know.')
+  })
+
+  it('fills script metadata from options', () => {
+    const parsed = parseScreenplay(text, options({ title: '  Pilot  ', scriptType: 'tv_audition', accentHint: 'en-GB' }))
+    expect(parsed.script.title).toBe('Pilot')
+    expect(parsed.script.script_type).toBe('tv_audition')
+    expect(parsed.script.user_role).toBe('SARAH')
+    expect(parsed.script.total_lines).toBe(3)
+    expect(parsed.script.raw_content).toBe(text)
+    expect(parsed.characters[0].accent_hint).toBe('en-GB')
+  })
+
+  it('counts words per line', () => {
+    const parsed = parseScreenplay(text, options())
+    expect(parsed.lines.map(l => l.word_count)).toEqual([2, 2, 5])
+  })
+})
+
+// ============================================================================
+// Sluglines and cues
+// ============================================================================
+
+describe('parseSlugline', () => {
+  it('splits INT/EXT, location and time of day', () => {
+    expect(parseSlugline('INT. KITCHEN - NIGHT')).toEqual({
+      sceneNumber: null, intExt: 'INT', location: 'KITCHEN', subLocation: null, timeOfDay: 'NIGHT',
+    })
+  })
+
+  it('keeps sub-locations and scene numbers', () => {
+    expect(parseSlugline('12A EXT. FARMHOUSE - PORCH - DUSK 12A')).toEqual({
+      sceneNumber: '12A', intExt: 'EXT', location: 'FARMHOUSE', subLocation: 'PORCH', timeOfDay: 'DUSK',
+    })
+  })
+
+  it('normalizes combined interior/exterior headings', () => {
+    expect(parseSlugline('I/E. CAR - MOVING - DAY').intExt).toBe('INT/EXT')
+    expect(parseSlugline('INT./EXT. CAR - DAY').intExt).toBe('INT/EXT')
+  })
+
+  it('handles headings without a time of day', () => {
+    const s = parseSlugline('INT. WAREHOUSE')
+    expect(s.location).toBe('WAREHOUSE')
+    expect(s.timeOfDay).toBeNull()
+  })
+
+  it('reads theatre scene numbers', () => {
+    expect(parseSlugline('SCENE 3').sceneNumber).toBe('3')
+    expect(parseSlugline('SCENE 3').intExt).toBeNull()
+  })
+})
+
+describe('parseCharacterCue', () => {
+  it.each([
+    ['JOHN', 'JOHN', null, false],
+    ['JOHN (V.O.)', 'JOHN', 'V.O.', false],
+    ["JOHN (CONT'D)", 'JOHN', null, true],
+    ["JOHN (O.S.) (CONT'D)", 'JOHN', 'O.S.', true],
+    ['MR. SMITH (O.C.)', 'MR. SMITH', 'O.C.', false],
+    ['dr. jones', 'DR. JONES', null, false],
+  ])('%s', (cue, name, extension, isContinued) => {
+    expect(parseCharacterCue(cue)).toEqual({ name, extension, isContinued })
+  })
+})
+
+describe('tokenizeScreenplay', () => {
+  it('returns nothing for empty text', () => {
+    expect(tokenizeScreenplay('')).toEqual([])
+    expect(tokenizeScreenplay('\n\n  \n')).toEqual([])
+  })
+
+  it('joins multi-line parentheticals', () => {
+    const blocks = tokenizeScreenplay('SARAH\n(looking out the\nwindow)\nIt stopped raining.')
+    expect(blocks).toEqual([{
+      kind: 'dialogue',
+      character: 'SARAH',
+      extension: null,
+      isContinued: false,
+      parenthetical: 'looking out the window',
+      text: 'It stopped raining.',
+    }])
+  })
+})
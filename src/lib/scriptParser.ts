@@ -0,0 +1,558 @@
+/**
+ * Screenplay Parser
+ * Turns raw screenplay text (pasted, or extracted from a PDF) into the
+ * Script / Scene / Line / Character records the app stores in Supabase.
+ * Runs entirely client-side so import no longer depends on the n8n webhook.
+ */
+
+import { parseLineMarkup } from './accuracy'
+import type { Script, Scene, Line, Character } from './supabase'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Intermediate, format-agnostic representation of a screenplay.
+ * Text, Fountain and FDX importers all produce blocks, and buildScreenplay
+ * turns blocks into database records.
+ */
+export type ScreenplayBlock =
+  | { kind: 'heading'; text: string; sceneNumber?: string | null }
+  | { kind: 'action'; text: string; notes?: string | null }
+  | { kind: 'transition'; text: string; notes?: string | null }
+  | {
+      kind: 'dialogue'
+      character: string
+      extension: string | null
+      isContinued: boolean
+      parenthetical: string | null
+      text: string
+      dual?: boolean          // Spoken at the same time as the previous speech
+      notes?: string | null
+    }
+
+export interface ParseOptions {
+  userId: string
+  userRole: string            // The user's character name (matched case-insensitively)
+  title?: string
+  scriptType?: string
+  accentHint?: string
+  sourceFormat?: string
+  generateId?: () => string   // Override for deterministic IDs in tests
+  now?: string                // ISO timestamp used for created_at / updated_at
+}
+
+export interface ParsedScreenplay {
+  script: Script
+  scenes: Scene[]
+  lines: Line[]
+  characters: Character[]
+}
+
+export interface ParsedSlugline {
+  sceneNumber: string | null
+  intExt: string | null
+  location: string | null
+  subLocation: string | null
+  timeOfDay: string | null
+}
+
+export interface ParsedCharacterCue {
+  name: string
+  extension: string | null
+  isContinued: boolean
+}
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+const SLUGLINE_PREFIX = /^(?:(\d+[A-Z]?)[\.\s]+)?(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\/E|INT|EXT|EST)(?:\.|\s)\s*/i
+const THEATRE_SCENE = /^(?:SCENE|ACT\s+[\dIVXLC]+\s*,?\s*SCENE)\s+[\dIVXLC]+\b/i
+const TRAILING_SCENE_NUMBER = /\s+\d+[A-Z]?\.?$/
+
+const TIMES_OF_DAY = [
+  'DAY', 'NIGHT', 'MORNING', 'AFTERNOON', 'EVENING', 'DAWN', 'DUSK', 'SUNSET', 'SUNRISE',
+  'LATER', 'MOMENTS LATER', 'CONTINUOUS', 'SAME', 'SAME TIME', 'NOON', 'MIDNIGHT',
+]
+
+const TRANSITION_PATTERNS = [
+  /^[A-Z][A-Z\s\.']*\bTO:$/,                         // CUT TO:, SMASH CUT TO:, DISSOLVE TO:
+  /^(?:FADE (?:IN|OUT)|FADE TO BLACK|CUT TO BLACK)[:.]?$/,
+  /^(?:THE END|END OF (?:ACT|EPISODE|SCENE)\b.*)[:.]?$/,
+]
+
+// Page-break debris left behind by PDF extraction and printed sides
+const PAGE_ARTIFACT_PATTERNS = [
+  /^\(MORE\)$/i,
+  /^\(?CONTINUED\)?:?(?:\s*\(\d+\))?$/i,
+  /^CONT(?:'|’)?D\.?:?$/i,
+  /^\d+\.?$/,                                        // Bare page numbers
+  /^page\s+\d+(?:\s+of\s+\d+)?$/i,
+]
+
+// "(ad lib)", "(ad-libs)", "(ad libbing)" - the actor improvises
+const AD_LIB_DIRECTION = /^ad[\s-]?lib/i
+const INLINE_AD_LIB = /\(\s*ad[\s-]?lib[^)]*\)/gi
+
+// All-caps lines that are never character cues
+const NON_CHARACTER_CUES = new Set([
+  'CONTINUED', 'CONTINUOUS', 'THE END', 'END', 'BLACK', 'BLACKOUT', 'MONTAGE', 'END MONTAGE',
+  'INTERCUT', 'BACK TO SCENE', 'FLASHBACK', 'END FLASHBACK', 'SUPER', 'TITLE', 'TITLE CARD',
+  'LATER', 'MOMENTS LATER', 'SILENCE', 'BEAT', 'PAUSE', 'COLD OPEN', 'TEASER', 'TAG',
+])
+
+const CONTINUED_EXTENSION = /^CONT(?:'|’)?D\.?$|^CONTINUING$|^CONT\.?$/i
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function isSlugline(line: string): boolean {
+  return SLUGLINE_PREFIX.test(line) || THEATRE_SCENE.test(line)
+}
+
+export function isTransition(line: string): boolean {
+  return TRANSITION_PATTERNS.some(p => p.test(line))
+}
+
+function isPageArtifact(line: string): boolean {
+  return PAGE_ARTIFACT_PATTERNS.some(p => p.test(line))
+}
+
+function isParenthetical(line: string): boolean {
+  return line.startsWith('(')
+}
+
+/**
+ * Mark ad-lib directions as ad-lib regions, as markup for parseLineMarkup in lib/accuracy:
+ * the whole speech under an "(ad lib)" parenthetical, or an empty slot where one sits in the speech
+ */
+function markAdlibs(text: string, parenthetical: string | null): string {
+  const marked = text.replace(INLINE_AD_LIB, '{}')
+  return parenthetical && AD_LIB_DIRECTION.test(parenthetical) && !marked.includes('{') ? `{${marked}}` : marked
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length
+}
+
+/**
+ * Split a scene heading into its parts
+ * "12 INT. KITCHEN - STOVE - NIGHT 12" → INT / KITCHEN / STOVE / NIGHT
+ */
+export function parseSlugline(heading: string): ParsedSlugline {
+  const result: ParsedSlugline = { sceneNumber: null, intExt: null, location: null, subLocation: null, timeOfDay: null }
+  let text = heading.trim()
+
+  const prefix = text.match(SLUGLINE_PREFIX)
+  if (!prefix) {
+    const numbered = text.match(/^[A-Z\s,]*?SCENE\s+([\dIVXLC]+)/i)
+    if (numbered) result.sceneNumber = numbered[1]
+    return result
+  }
+
+  result.sceneNumber = prefix[1] || null
+  result.intExt = prefix[2].toUpperCase().replace(/\.|\s/g, '').replace('I/E', 'INT/EXT').replace('EXT/INT', 'INT/EXT')
+  text = text.slice(prefix[0].length).replace(TRAILING_SCENE_NUMBER, '').trim()
+
+  const parts = text.split(/\s+[-–—]+\s+|\s*[-–—]{2,}\s*/).map(p => p.trim()).filter(p => p.length > 0)
+  if (parts.length > 1 && TIMES_OF_DAY.includes(parts[parts.length - 1].toUpperCase().replace(/[.()]/g, '').trim())) {
+    result.timeOfDay = parts.pop()!.toUpperCase()
+  }
+  if (parts.length > 0) result.location = parts[0]
+  if (parts.length > 1) result.subLocation = parts.slice(1).join(' - ')
+
+  return result
+}
+
+/**
+ * Split a character cue into name and extensions
+ * "JOHN (V.O.) (CONT'D)" → { name: 'JOHN', extension: 'V.O.', isContinued: true }
+ */
+export function parseCharacterCue(cue: string): ParsedCharacterCue {
+  const extensions: string[] = []
+  let isContinued = false
+
+  const name = cue
+    .replace(/\(([^)]*)\)/g, (_, inner: string) => {
+      const ext = inner.trim()
+      if (CONTINUED_EXTENSION.test(ext)) isContinued = true
+      else if (ext) extensions.push(ext.toUpperCase())
+      return ' '
+    })
+    .replace(/\s+/g, ' ')
+    .replace(/[:\s]+$/, '')
+    .trim()
+    .toUpperCase()
+
+  return { name, extension: extensions.length > 0 ? extensions.join(' ') : null, isContinued }
+}
+
+/**
+ * A character cue is a short all-caps line, optionally followed by extensions
+ */
+function isCharacterCue(line: string): boolean {
+  if (line.length > 50 || isSlugline(line) || isTransition(line) || isPageArtifact(line)) return false
+  const { name } = parseCharacterCue(line)
+  if (!name || name.length > 35 || !/[A-Z]/.test(name)) return false
+  if (name.split(' ').length > 4) return false
+  if (/[!?,;:]$/.test(name)) return false
+  if (NON_CHARACTER_CUES.has(name.replace(/\.$/, ''))) return false
+  // Letters in the name (outside extensions) must all be uppercase
+  const nameOnLine = line.replace(/\([^)]*\)/g, '')
+  return nameOnLine === nameOnLine.toUpperCase() && /^[A-Z0-9@]/.test(nameOnLine.trim())
+}
+
+// "JOHN: Hello there" / "JOHN (V.O.): (quietly) Hello" — common in pasted sides and theatre scripts
+const INLINE_DIALOGUE = /^([A-Z][A-Z0-9 .'\-]{0,30}?)((?:\s*\([^)]*\))*)\s*:\s+(.+)$/
+
+function parseInlineDialogue(line: string): ScreenplayBlock | null {
+  const match = line.match(INLINE_DIALOGUE)
+  if (!match || isTransition(line) || isSlugline(line)) return null
+  const cue = parseCharacterCue(match[1] + match[2])
+  if (!cue.name || NON_CHARACTER_CUES.has(cue.name)) return null
+
+  let text = match[3].trim()
+  let parenthetical: string | null = null
+  const leading = text.match(/^\(([^)]*)\)\s*(.*)$/)
+  if (leading) {
+    parenthetical = leading[1].trim()
+    text = leading[2].trim()
+  }
+  if (!text) return null
+  return { kind: 'dialogue', character: cue.name, extension: cue.extension, isContinued: cue.isContinued, parenthetical, text }
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Classify raw screenplay text into blocks
+ * Handles both properly spaced scripts and PDF text where blank lines are lost
+ */
+export function tokenizeScreenplay(text: string): ScreenplayBlock[] {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n')
+    .split('\n')
+    .map(l => l.trim())
+    .filter(l => !isPageArtifact(l))
+
+  const blocks: ScreenplayBlock[] = []
+  let action: string[] = []
+
+  const flushAction = () => {
+    if (action.length > 0) {
+      blocks.push({ kind: 'action', text: action.join(' ') })
+      action = []
+    }
+  }
+
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line) {
+      flushAction()
+      i++
+      continue
+    }
+
+    if (isSlugline(line)) {
+      flushAction()
+      blocks.push({ kind: 'heading', text: line })
+      i++
+      continue
+    }
+
+    if (isTransition(line)) {
+      flushAction()
+      blocks.push({ kind: 'transition', text: line })
+      i++
+      continue
+    }
+
+    const next = lines[i + 1]
+    if (isCharacterCue(line) && next && !isSlugline(next) && !isTransition(next)) {
+      flushAction()
+      i = readDialogue(lines, i, blocks)
+      continue
+    }
+
+    const inline = parseInlineDialogue(line)
+    if (inline) {
+      flushAction()
+      blocks.push(inline)
+      i++
+      continue
+    }
+
+    action.push(line)
+    i++
+  }
+
+  flushAction()
+  return blocks
+}
+
+/**
+ * Read a character cue and everything spoken under it
+ * A parenthetical in the middle of a speech starts a new line for the same character
+ * Returns the index of the first line after the dialogue block
+ */
+function readDialogue(lines: string[], cueIndex: number, blocks: ScreenplayBlock[]): number {
+  const cue = parseCharacterCue(lines[cueIndex])
+  let parenthetical: string | null = null
+  let speech: string[] = []
+  let isContinued = cue.isContinued
+
+  const emit = () => {
+    if (speech.length === 0) return
+    blocks.push({
+      kind: 'dialogue',
+      character: cue.name,
+      extension: cue.extension,
+      isContinued,
+      parenthetical,
+      text: speech.join(' '),
+    })
+    speech = []
+    parenthetical = null
+    isContinued = true
+  }
+
+  let j = cueIndex + 1
+  while (j < lines.length) {
+    const line = lines[j]
+    if (!line || isSlugline(line) || isTransition(line)) break
+    // Without blank lines (PDF text) the next cue ends the speech
+    if (speech.length > 0 && isCharacterCue(line) && lines[j + 1]) break
+
+    if (isParenthetical(line)) {
+      emit()
+      const parts = [line]
+      while (!parts[parts.length - 1].includes(')') && j + 1 < lines.length && lines[j + 1]) {
+        j++
+        parts.push(lines[j])
+      }
+      parenthetical = parts.join(' ').replace(/^\(\s*/, '').replace(/\s*\)$/, '').trim()
+      j++
+      continue
+    }
+
+    speech.push(line)
+    j++
+  }
+
+  emit()
+  return j
+}
+
+// ============================================================================
+// RECORD BUILDER
+// ============================================================================
+
+const defaultGenerateId = () => crypto.randomUUID()
+
+/**
+ * Turn screenplay blocks into Script / Scene / Line / Character records
+ * Content before the first heading goes into an implicit first scene
+ */
+export function buildScreenplay(blocks: ScreenplayBlock[], options: ParseOptions): ParsedScreenplay {
+  const generateId = options.generateId || defaultGenerateId
+  const now = options.now || new Date().toISOString()
+  const scriptId = generateId()
+  const userRole = parseCharacterCue(options.userRole || '').name
+
+  const scenes: Scene[] = []
+  const lines: Line[] = []
+  const characters = new Map<string, Character>()
+  let currentScene: Scene | null = null
+  let currentSceneImplicit = false
+  let lastDialogue: Line | null = null
+
+  const startScene = (heading: string | null, explicitNumber?: string | null) => {
+    const slug = heading ? parseSlugline(heading) : null
+    const numberText = explicitNumber || slug?.sceneNumber
+    // A heading after only preamble (FADE IN:, title action) takes over the implicit scene
+    const takeOver = !!heading && !!currentScene && currentSceneImplicit &&
+      !lines.some(l => l.scene_id === currentScene!.id && l.line_type === 'dialogue')
+    const sceneNumber = takeOver ? currentScene!.scene_number : scenes.length + 1
+    const fields = {
+      scene_number: numberText && /^\d+$/.test(numberText) ? parseInt(numberText, 10) : sceneNumber,
+      name: heading || `Scene ${sceneNumber}`,
+      location: slug?.location || null,
+      time_of_day: slug?.timeOfDay || null,
+      int_ext: slug?.intExt || null,
+      sub_location: slug?.subLocation || null,
+    }
+
+    if (takeOver) {
+      Object.assign(currentScene!, fields)
+      currentSceneImplicit = false
+      return
+    }
+
+    currentScene = {
+      id: generateId(),
+      script_id: scriptId,
+      description: null,
+      sort_order: scenes.length,
+      ...fields,
+    }
+    currentSceneImplicit = !heading
+    scenes.push(currentScene)
+  }
+
+  const addLine = (fields: Partial<Line> & Pick<Line, 'character_name' | 'content' | 'line_type'>): Line => {
+    if (!currentScene) startScene(null)
+    const lineNumber = lines.length + 1
+    const line: Line = {
+      id: generateId(),
+      scene_id: currentScene!.id,
+      script_id: scriptId,
+      is_user_line: false,
+      emotion_tag: null,
+      emotion: null,
+      stage_direction: null,
+      line_number: lineNumber,
+      word_count: countWords(fields.content),
+      sort_order: lineNumber,
+      audio_url: null,
+      audio_generated_at: null,
+      parenthetical: null,
+      delivery_note: null,
+      extension: null,
+      is_continued: false,
+      is_dual: false,
+      regions: null,
+      notes: null,
+      cue: null,
+      ...fields,
+    }
+    lines.push(line)
+    return line
+  }
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading':
+        startScene(block.text, block.sceneNumber)
+        break
+      case 'action':
+        addLine({ character_name: '', content: block.text, line_type: 'action', notes: block.notes || null })
+        break
+      case 'transition':
+        addLine({ character_name: '', content: block.text, line_type: 'transition', notes: block.notes || null })
+        break
+      case 'dialogue': {
+        const isUser = !!userRole && block.character === userRole
+        const line = addLine({
+          character_name: block.character,
+          ...parseLineMarkup(markAdlibs(block.text, block.parenthetical)),
+          line_type: 'dialogue',
+          is_user_line: isUser,
+          parenthetical: block.parenthetical,
+          extension: block.extension,
+          is_continued: block.isContinued,
+          cue: lastDialogue && lastDialogue.character_name !== block.character ? lastDialogue.content : null,
+          notes: block.notes || null,
+          is_dual: block.dual || false,
+        })
+        lastDialogue = line
+        if (!characters.has(block.character)) {
+          characters.set(block.character, {
+            id: generateId(),
+            script_id: scriptId,
+            name: block.character,
+            voice_id: null,
+            voice_name: null,
+            gender: null,
+            suggested_voice_id: null,
+            is_user_character: isUser,
+            accent_hint: options.accentHint || null,
+            created_at: now,
+          })
+        }
+        break
+      }
+    }
+  }
+
+  const rawContent = blocks.map(b => b.kind === 'dialogue' ? `${b.character}\n${b.text}` : b.text).join('\n\n')
+
+  const script: Script = {
+    id: scriptId,
+    user_id: options.userId,
+    title: options.title?.trim() || 'Untitled Script',
+    episode: null,
+    type: options.scriptType || 'other',
+    script_type: options.scriptType || 'other',
+    user_role: userRole,
+    raw_content: rawContent,
+    parsed_content: null,
+    page_count: Math.max(1, Math.ceil(lines.length / 55)),
+    total_lines: lines.length,
+    source_format: options.sourceFormat || 'text',
+    is_archived: false,
+    voices_ready: false,
+    accent_hint: options.accentHint,
+    created_at: now,
+    updated_at: now,
+  }
+
+  return { script, scenes, lines, characters: Array.from(characters.values()) }
+}
+
+/**
+ * Parse raw screenplay text into database records
+ */
+export function parseScreenplay(text: string, options: ParseOptions): ParsedScreenplay {
+  const parsed = buildScreenplay(tokenizeScreenplay(text), options)
+  parsed.script.raw_content = text
+  return parsed
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+// PostgREST bulk writes reject arrays whose objects have different keys, so rows
+// written together - copied database rows and fresh parser rows alike - are built
+// from one column list, with the value a new record starts with where one is missing
+
+const SCENE_COLUMNS = [
+  'id', 'script_id', 'scene_number', 'name', 'description', 'location', 'time_of_day', 'sort_order',
+  'int_ext', 'sub_location', 'source_script_id', 'source_scene_id', 'source_label',
+] as const satisfies readonly (keyof Scene)[]
+
+const LINE_COLUMNS = [
+  'id', 'scene_id', 'script_id', 'character_name', 'is_user_line', 'content', 'regions', 'emotion_tag', 'emotion',
+  'stage_direction', 'line_number', 'word_count', 'sort_order', 'audio_url', 'audio_generated_at', 'line_type',
+  'parenthetical', 'delivery_note', 'extension', 'is_continued', 'is_dual', 'notes', 'cue', 'source_line_id',
+  'revision_status', 'previous_content', 'revisions', 'word_timepoints', 'practice_segments',
+  'audio_url_name', 'audio_url_parenthetical', 'audio_url_action',
+] as const satisfies readonly (keyof Line)[]
+
+const CHARACTER_COLUMNS = [
+  'id', 'script_id', 'name', 'voice_id', 'voice_name', 'gender', 'suggested_voice_id', 'is_user_character',
+  'age_range', 'archetype', 'vocal_tone', 'accent_hint', 'description', 'default_emotion', 'created_at',
+] as const satisfies readonly (keyof Character)[]
+
+const LINE_DEFAULTS: Partial<Line> = { is_user_line: false, line_type: 'dialogue', is_continued: false, is_dual: false }
+const CHARACTER_DEFAULTS: Partial<Character> = { is_user_character: false }
+
+function toRow<T>(record: T, columns: readonly (keyof T)[], defaults: Partial<T> = {}): T {
+  const row = {} as T
+  for (const column of columns) {
+    row[column] = (record[column] ?? defaults[column] ?? null) as T[keyof T]
+  }
+  return row
+}
+
+export const sceneRow = (scene: Scene): Scene => toRow(scene, SCENE_COLUMNS)
+export const lineRow = (line: Line): Line => toRow(line, LINE_COLUMNS, LINE_DEFAULTS)
+export const characterRow = (character: Character): Character => toRow(character, CHARACTER_COLUMNS, CHARACTER_DEFAULTS)
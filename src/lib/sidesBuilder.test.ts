@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import { buildSides, describeProvenance, movePick, SidesPick } from './sidesBuilder'
+import { parseScreenplay } from './scriptParser'
+
+let counter = 0
+const generateId = () => `id-${++counter}`
+const now = '2026-01-01T00:00:00.000Z'
+
+const PILOT = parseScreenplay(`INT. KITCHEN - NIGHT
+
+SARAH
+You're late.
+
+JOHN
+Traffic.
+
+EXT. PORCH - NIGHT
+
+SARAH
+Go home, John.`, { userId: 'u1', userRole: 'JOHN', title: 'Pilot', generateId, now })
+
+const FINALE = parseScreenplay(`INT. HOSPITAL - DAY
+
+NURSE
+He's awake.
+
+SARAH
+Can I see him?`, { userId: 'u1', userRole: 'SARAH', title: 'Finale', generateId, now })
+
+const scriptPick = (source: typeof PILOT, sceneIndex: number, name?: string): SidesPick => ({
+  kind: 'script',
+  script: source.script,
+  scene: source.scenes[sceneIndex],
+  lines: source.lines,
+  name,
+})
+
+const pdfPick: SidesPick = {
+  kind: 'pdf',
+  fileName: 'callback.pdf',
+  scene: {
+    id: 'scene-0',
+    heading: 'INT. CAR - NIGHT',
+    pageNumber: 3,
+    startLine: 0,
+    preview: '',
+    fullText: 'INT. CAR - NIGHT\n\nSARAH\nDrive.\n\nJOHN\nWhere?',
+  },
+}
+
+describe('buildSides', () => {
+  const options = { userId: 'u1', userRole: 'sarah', title: 'Callback Sides', generateId, now }
+
+  it('combines scenes from several sources in pick order', () => {
+    const sides = buildSides([scriptPick(FINALE, 0), pdfPick, scriptPick(PILOT, 1)], options)
+
+    expect(sides.script.title).toBe('Callback Sides')
+    expect(sides.scenes.map(s => [s.scene_number, s.name])).toEqual([
+      [1, 'INT. HOSPITAL - DAY'],
+      [2, 'INT. CAR - NIGHT'],
+      [3, 'EXT. PORCH - NIGHT'],
+    ])
+    expect(sides.lines.map(l => [l.line_number, l.character_name, l.content])).toEqual([
+      [1, 'NURSE', "He's awake."],
+      [2, 'SARAH', 'Can I see him?'],
+      [3, 'SARAH', 'Drive.'],
+      [4, 'JOHN', 'Where?'],
+      [5, 'SARAH', 'Go home, John.'],
+    ])
+    expect(sides.script.total_lines).toBe(5)
+  })
+
+  it('records provenance back to the source script and scene', () => {
+    const sides = buildSides([scriptPick(PILOT, 1), pdfPick], options)
+    const [porch, car] = sides.scenes
+
+    expect(porch).toMatchObject({
+      source_script_id: PILOT.script.id,
+      source_scene_id: PILOT.scenes[1].id,
+      source_label: 'Pilot · Sc. 2',
+    })
+    expect(car).toMatchObject({ source_script_id: null, source_label: 'callback.pdf · p. 3' })
+
+    const copied = sides.lines.find(l => l.content === 'Go home, John.')
+    const original = PILOT.lines.find(l => l.content === 'Go home, John.')
+    expect(copied?.source_line_id).toBe(original?.id)
+    expect(copied?.id).not.toBe(original?.id)
+  })
+
+  it('gives every record fresh ids under the new script', () => {
+    const sides = buildSides([scriptPick(PILOT, 0)], options)
+    const sceneIds = new Set(sides.scenes.map(s => s.id))
+
+    expect(sides.scenes.every(s => s.script_id === sides.script.id)).toBe(true)
+    expect(sides.lines.every(l => l.script_id === sides.script.id && sceneIds.has(l.scene_id))).toBe(true)
+    expect(sceneIds.has(PILOT.scenes[0].id)).toBe(false)
+  })
+
+  it('renames scenes and recomputes the user lines for the new role', () => {
+    const sides = buildSides([scriptPick(PILOT, 0, '  The argument ')], options)
+
+    expect(sides.scenes[0].name).toBe('The argument')
+    expect(sides.lines.filter(l => l.is_user_line).map(l => l.character_name)).toEqual(['SARAH'])
+    expect(sides.characters.find(c => c.name === 'SARAH')?.is_user_character).toBe(true)
+  })
+
+  it('drops revision marks and cues each line from the line before it in the sides', () => {
+    const revised = PILOT.lines.map(l => l.content === 'Go home, John.'
+      ? { ...l, revision_status: 'revised' as const, previous_content: 'Go home.', revisions: [], cue: 'Not in the sides.' }
+      : l)
+    const sides = buildSides([scriptPick(FINALE, 0), scriptPick({ ...PILOT, lines: revised }, 1)], options)
+    const copied = sides.lines.find(l => l.content === 'Go home, John.')
+
+    expect(copied).toMatchObject({ revision_status: null, previous_content: null, revisions: null })
+    expect(sides.lines.map(l => l.cue)).toEqual([null, "He's awake.", null])
+  })
+
+  it('builds script and PDF picks into rows with the same columns', () => {
+    // Saved rows carry columns the parser never sets
+    const saved = { ...PILOT, scenes: PILOT.scenes.map(s => ({ ...s, created_at: now })), lines: PILOT.lines.map(l => ({ ...l, created_at: now, audio_url_name: 'name.mp3' })) }
+    const sides = buildSides([scriptPick(saved, 1), pdfPick], options)
+
+    const sameKeys = (rows: object[]) => new Set(rows.map(r => Object.keys(r).sort().join())).size
+    expect(sameKeys(sides.scenes)).toBe(1)
+    expect(sameKeys(sides.lines)).toBe(1)
+    expect(sameKeys(sides.characters)).toBe(1)
+    expect(sides.lines[0]).not.toHaveProperty('created_at')
+    expect(sides.lines.map(l => l.audio_url_name)).toEqual(['name.mp3', null, null])
+  })
+
+  it('carries voices over from the source characters', () => {
+    const sourceCharacters = PILOT.characters.map(c => c.name === 'JOHN'
+      ? { ...c, voice_id: 'en-AU-Neural2-B', voice_name: 'Liam', gender: 'male' }
+      : c)
+    const sides = buildSides([scriptPick(PILOT, 0), pdfPick], { ...options, sourceCharacters })
+
+    expect(sides.characters.map(c => c.name)).toEqual(['SARAH', 'JOHN'])
+    const john = sides.characters.find(c => c.name === 'JOHN')
+    expect(john).toMatchObject({ voice_id: 'en-AU-Neural2-B', voice_name: 'Liam', script_id: sides.script.id })
+    expect(john?.id).not.toBe(PILOT.characters.find(c => c.name === 'JOHN')?.id)
+  })
+})
+
+describe('movePick', () => {
+  it('moves an item up or down', () => {
+    expect(movePick(['a', 'b', 'c'], 2, -1)).toEqual(['a', 'c', 'b'])
+    expect(movePick(['a', 'b', 'c'], 0, 1)).toEqual(['b', 'a', 'c'])
+  })
+
+  it('ignores moves past either end', () => {
+    const picks = ['a', 'b']
+    expect(movePick(picks, 0, -1)).toBe(picks)
+    expect(movePick(picks, 1, 1)).toBe(picks)
+  })
+})
+
+describe('describeProvenance', () => {
+  it('labels script and PDF scenes', () => {
+    expect(describeProvenance(scriptPick(FINALE, 0))).toBe('Finale · Sc. 1')
+    expect(describeProvenance(pdfPick)).toBe('callback.pdf · p. 3')
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Sides builder
+ * Assembles scenes picked from several imported scripts and/or uploaded PDFs
+ * into one new practice script. Each new scene records where it came from.
+ */
+
+import type { Script, Scene, Line, Character } from './supabase'
+import type { DetectedScene } from './pdfExtractor'
+import { buildScreenplay, characterRow, lineRow, sceneRow, tokenizeScreenplay, ParsedScreenplay } from './scriptParser'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SidesPick =
+  | {
+      kind: 'script'
+      script: Pick<Script, 'id' | 'title'>
+      scene: Scene
+      lines: Line[]             // The scene's lines (other scenes' lines are ignored)
+      name?: string             // Rename the scene in the sides
+    }
+  | {
+      kind: 'pdf'
+      fileName: string
+      scene: DetectedScene
+      name?: string
+    }
+
+export interface SidesOptions {
+  userId: string
+  userRole: string
+  title: string
+  scriptType?: string
+  accentHint?: string
+  sourceCharacters?: Character[]  // Characters of the source scripts - voices carry over
+  generateId?: () => string
+  now?: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Where a picked scene came from, for display ("Pilot · Sc. 3" / "sides.pdf · p. 4")
+ */
+export function describeProvenance(pick: SidesPick): string {
+  return pick.kind === 'script'
+    ? `${pick.script.title} · Sc. ${pick.scene.scene_number}`
+    : `${pick.fileName} · p. ${pick.scene.pageNumber}`
+}
+
+/**
+ * Move a pick up or down, returning a new array
+ */
+export function movePick<T>(picks: T[], index: number, delta: number): T[] {
+  const target = index + delta
+  if (index < 0 || index >= picks.length || target < 0 || target >= picks.length) return picks
+  const next = [...picks]
+  const [item] = next.splice(index, 1)
+  next.splice(target, 0, item)
+  return next
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Build the records for a new sides script from the picked scenes, in order
+ * Script scenes are copied line for line (notes, delivery and audio kept, revision
+ * marks dropped); PDF scenes are parsed from their text. Lines and scenes are
+ * renumbered and cues redone in the sides' order. Every record is rebuilt as a
+ * row of the same columns, so the sides save in one insert per table.
+ */
+export function buildSides(picks: SidesPick[], options: SidesOptions): ParsedScreenplay {
+  const generateId = options.generateId || (() => crypto.randomUUID())
+  const now = options.now || new Date().toISOString()
+  const userRole = options.userRole.trim().toUpperCase()
+
+  // Start from an empty script so ids, title and metadata are filled consistently
+  const base = buildScreenplay([], {
+    userId: options.userId,
+    userRole,
+    title: options.title,
+    scriptType: options.scriptType,
+    accentHint: options.accentHint,
+    sourceFormat: 'sides',
+    generateId,
+    now,
+  })
+  const scriptId = base.script.id
+
+  const scenes: Scene[] = []
+  const lines: Line[] = []
+
+  for (const pick of picks) {
+    const provenance = describeProvenance(pick)
+
+    if (pick.kind === 'script') {
+      const sceneId = generateId()
+      scenes.push(sceneRow({
+        ...pick.scene,
+        id: sceneId,
+        script_id: scriptId,
+        name: pick.name?.trim() || pick.scene.name,
+        source_script_id: pick.script.id,
+        source_scene_id: pick.scene.id,
+        source_label: provenance,
+      }))
+      pick.lines
+        .filter(l => l.scene_id === pick.scene.id)
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .forEach(line => {
+          lines.push(lineRow({
+            ...line,
+            id: generateId(),
+            scene_id: sceneId,
+            script_id: scriptId,
+            source_line_id: line.id,
+            // The sides are a new script - their history starts here
+            revision_status: null,
+            previous_content: null,
+            revisions: null,
+          }))
+        })
+    } else {
+      const parsed = buildScreenplay(tokenizeScreenplay(pick.scene.fullText), {
+        userId: options.userId,
+        userRole,
+        generateId,
+        now,
+      })
+      // A PDF scene is one scene even if the text holds a stray heading
+      const sceneId = generateId()
+      const [first] = parsed.scenes
+      scenes.push(sceneRow({
+        id: sceneId,
+        script_id: scriptId,
+        scene_number: 0,
+        sort_order: 0,
+        name: pick.name?.trim() || first?.name || pick.scene.heading,
+        description: null,
+        location: first?.location ?? null,
+        time_of_day: first?.time_of_day ?? null,
+        int_ext: first?.int_ext ?? null,
+        sub_location: first?.sub_location ?? null,
+        source_script_id: null,
+        source_scene_id: null,
+        source_label: provenance,
+      }))
+      parsed.lines.forEach(line => lines.push(lineRow({ ...line, scene_id: sceneId, script_id: scriptId })))
+    }
+  }
+
+  // Renumber across the whole sides script
+  scenes.forEach((scene, i) => {
+    scene.sort_order = i
+    scene.scene_number = i + 1
+  })
+  let lastDialogue: Line | null = null
+  for (const [i, line] of lines.entries()) {
+    line.line_number = i + 1
+    line.sort_order = i + 1
+    line.is_user_line = line.line_type === 'dialogue' && line.character_name.toUpperCase() === userRole
+    if (line.line_type !== 'dialogue') continue
+    // The line before may now come from another scene or script
+    line.cue = lastDialogue && lastDialogue.character_name !== line.character_name ? lastDialogue.content : null
+    lastDialogue = line
+  }
+
+  // One character per speaker; keep voices already chosen in the source scripts
+  const characters = new Map<string, Character>()
+  for (const line of lines) {
+    if (line.line_type !== 'dialogue' || !line.character_name || characters.has(line.character_name)) continue
+    const source = options.sourceCharacters?.find(c => c.name === line.character_name && c.voice_id)
+      || options.sourceCharacters?.find(c => c.name === line.character_name)
+    const isUser = line.character_name.toUpperCase() === userRole
+    characters.set(line.character_name, characterRow({
+      voice_id: null,
+      voice_name: null,
+      gender: null,
+      suggested_voice_id: null,
+      accent_hint: options.accentHint || null,
+      ...source,
+      id: generateId(),
+      script_id: scriptId,
+      name: line.character_name,
+      is_user_character: isUser,
+      created_at: now,
+    }))
+  }
+
+  const script: Script = {
+    ...base.script,
+    raw_content: lines
+      .map(l => l.line_type === 'dialogue' && l.character_name ? `${l.character_name}\n${l.content}` : l.content)
+      .join('\n\n'),
+    total_lines: lines.length,
+    page_count: Math.max(1, Math.ceil(lines.length / 55)),
+  }
+
+  return { script, scenes, lines, characters: Array.from(characters.values()) }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest'
+import { PDFDocument, PDFPage } from 'pdf-lib'
+import { exportSidesPDF, layoutSides } from './sidesPdf'
+import { parseScreenplay, ParseOptions } from './scriptParser'
+
+const options = (overrides: Partial<ParseOptions> = {}): ParseOptions => {
+  let n = 0
+  return {
+    userId: 'user-1',
+    userRole: 'SARAH',
+    generateId: () => `id-${++n}`,
+    now: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const SCRIPT = `INT. KITCHEN - NIGHT
+
+Sarah stands at the stove, stirring.
+
+SARAH
+You're late.
+
+JOHN (V.O.)
+(quietly)
+I know.
+(beat)
+I'm sorry.
+
+CUT TO:
+
+EXT. PORCH - NIGHT
+
+SARAH
+Go home, John.`
+
+const rowTexts = (page: { rows: { text: string }[] }) => page.rows.map(r => r.text)
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+describe('layoutSides', () => {
+  const parsed = parseScreenplay(SCRIPT, options())
+
+  it('lays out headings, action, cues, parentheticals and transitions', () => {
+    const [page] = layoutSides(parsed.scenes, parsed.lines)
+    expect(rowTexts(page)).toEqual([
+      '1', '1', 'INT. KITCHEN - NIGHT',
+      'Sarah stands at the stove, stirring.',
+      'SARAH', "You're late.",
+      'JOHN (V.O.)', '(quietly)', 'I know.', '(beat)', "I'm sorry.",
+      'CUT TO:',
+      '2', '2', 'EXT. PORCH - NIGHT',
+      'SARAH', 'Go home, John.',
+    ])
+  })
+
+  it('skips empty dialogue and transitions', () => {
+    const emptied = parsed.lines.map(l => l.content === "You're late." || l.content === 'CUT TO:'
+      ? { ...l, content: '  ', parenthetical: null, notes: 'Cut this' }
+      : l)
+    const [page] = layoutSides(parsed.scenes, emptied)
+    expect(rowTexts(page)).not.toContain("You're late.")
+    expect(rowTexts(page)).not.toContain('CUT TO:')
+    expect(rowTexts(page).filter(t => t === 'SARAH')).toHaveLength(1)
+  })
+
+  it('keeps a continued speech under one cue', () => {
+    const [page] = layoutSides(parsed.scenes, parsed.lines)
+    const rows = page.rows.filter(r => ['JOHN (V.O.)', '(quietly)', 'I know.', '(beat)', "I'm sorry."].includes(r.text))
+    expect(rows.map(r => r.row)).toEqual([7, 8, 9, 10, 11])
+  })
+
+  it('highlights user lines only', () => {
+    const [page] = layoutSides(parsed.scenes, parsed.lines)
+    expect(page.rows.filter(r => r.highlight).map(r => r.text)).toEqual(['SARAH', "You're late.", 'SARAH', 'Go home, John.'])
+    const [plain] = layoutSides(parsed.scenes, parsed.lines, { highlightUserLines: false })
+    expect(plain.rows.some(r => r.highlight)).toBe(false)
+  })
+
+  it('puts notes and delivery notes in the margin', () => {
+    const lines = parsed.lines.map(l => l.content === "You're late." ? { ...l, notes: 'Beat first', delivery_note: 'Cold' } : l)
+    const [page] = layoutSides(parsed.scenes, lines)
+    const lateRow = page.rows.find(r => r.text === "You're late.")!.row
+    expect(page.annotations).toEqual([{ row: lateRow, text: 'Delivery: Cold\nNote: Beat first' }])
+    expect(layoutSides(parsed.scenes, lines, { includeAnnotations: false })[0].annotations).toEqual([])
+  })
+
+  it('exports only the selected scene range', () => {
+    const [page] = layoutSides(parsed.scenes, parsed.lines, { sceneRange: [1, 1] })
+    expect(rowTexts(page)).toEqual(['2', '2', 'EXT. PORCH - NIGHT', 'SARAH', 'Go home, John.'])
+  })
+
+  it('wraps dialogue at 35 characters', () => {
+    const long = parseScreenplay('SARAH\n' + 'word '.repeat(20), options())
+    const dialogue = layoutSides(long.scenes, long.lines)[0].rows.filter(r => r.text.startsWith('word'))
+    expect(dialogue.length).toBe(3)
+    expect(dialogue.every(r => r.text.length <= 35)).toBe(true)
+  })
+
+  it("adds (MORE) and (CONT'D) when a speech crosses a page", () => {
+    const filler = Array.from({ length: 24 }, (_, i) => `Beat ${i + 1}.`).join('\n\n')
+    const speech = 'word '.repeat(40)
+    const long = parseScreenplay(`INT. ROOM - DAY\n\n${filler}\n\nSARAH\n${speech}`, options())
+    const pages = layoutSides(long.scenes, long.lines)
+    expect(pages).toHaveLength(2)
+    expect(rowTexts(pages[0]).slice(-1)).toEqual(['(MORE)'])
+    expect(rowTexts(pages[1])[0]).toBe("SARAH (CONT'D)")
+  })
+})
+
+// ============================================================================
+// PDF output
+// ============================================================================
+
+describe('exportSidesPDF', () => {
+  it('produces a readable PDF with one page per layout page', async () => {
+    const parsed = parseScreenplay(SCRIPT, options())
+    const bytes = await exportSidesPDF({ title: 'Pilot “Night”' }, parsed.scenes, parsed.lines)
+    const pdf = await PDFDocument.load(bytes)
+    expect(pdf.getPageCount()).toBe(1)
+    expect(pdf.getTitle()).toBe('Pilot “Night” - Sides')
+  })
+
+  it('puts each note paragraph on its own line', async () => {
+    const parsed = parseScreenplay('SARAH\nYou\'re late.', options())
+    const noted = parsed.lines.map(l => ({ ...l, delivery_note: 'Flat', notes: 'Hold the look' }))
+    const drawText = vi.spyOn(PDFPage.prototype, 'drawText')
+    await exportSidesPDF({ title: 'Test' }, parsed.scenes, noted)
+    const drawn = drawText.mock.calls.map(([text]) => text)
+    drawText.mockRestore()
+    expect(drawn).toContain('Delivery: Flat')
+    expect(drawn).toContain('Note: Hold the look')
+  })
+
+  it('replaces characters the standard font cannot encode', async () => {
+    const parsed = parseScreenplay('SARAH\nこんにちは 👋', options())
+    await expect(exportSidesPDF({ title: 'Test' }, parsed.scenes, parsed.lines)).resolves.toBeInstanceOf(Uint8Array)
+  })
+})
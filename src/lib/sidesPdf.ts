@@ -0,0 +1,340 @@
+// Script export to industry-format PDF sides using pdf-lib
+// Courier 12pt on US Letter: 6 lines per inch, 10 characters per inch
+
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib'
+import type { Script, Scene, Line } from './supabase'
+
+// ============================================================================
+// PAGE GEOMETRY (points - 72 per inch)
+// ============================================================================
+
+const INCH = 72
+const PAGE_WIDTH = 8.5 * INCH
+const PAGE_HEIGHT = 11 * INCH
+const FONT_SIZE = 12
+const LEADING = 12
+const CHAR_WIDTH = FONT_SIZE * 0.6          // Courier advance width
+const TOP = 1 * INCH
+const ROWS_PER_PAGE = 54                    // 9 inches of text
+
+// Element positions (left edge) and widths in characters
+const ACTION_X = 1.5 * INCH
+const ACTION_CHARS = 60
+const CUE_X = 3.7 * INCH
+const PAREN_X = 3.1 * INCH
+const PAREN_CHARS = 25
+const DIALOGUE_X = 2.5 * INCH
+const DIALOGUE_CHARS = 35
+const RIGHT_EDGE = 7.5 * INCH
+const SCENE_NUMBER_LEFT_X = 0.9 * INCH
+const SCENE_NUMBER_RIGHT_X = 7.6 * INCH
+
+// Margin annotations sit in the left margin, clear of the action column
+const NOTE_X = 0.25 * INCH
+const NOTE_WIDTH = 1.1 * INCH
+const NOTE_SIZE = 7
+const NOTE_LEADING = 8.5
+
+const HIGHLIGHT = rgb(1, 0.93, 0.5)
+const NOTE_COLOR = rgb(0.55, 0.1, 0.1)
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SidesExportOptions {
+  sceneRange?: [number, number]     // Inclusive indexes into the scenes in sort order
+  highlightUserLines?: boolean      // Default true
+  includeAnnotations?: boolean      // Notes and delivery notes in the margin, default true
+}
+
+export interface SidesRow {
+  row: number                       // 0-based row on the page
+  x: number
+  text: string
+  align?: 'left' | 'right'          // Right-aligned rows end at x
+  highlight?: boolean
+}
+
+export interface SidesPage {
+  number: number
+  rows: SidesRow[]
+  annotations: { row: number; text: string }[]
+}
+
+interface RowSpec {
+  x: number
+  text: string
+  align?: 'left' | 'right'
+  highlight?: boolean
+  annotation?: string
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Word-wrap to a fixed character width (Courier is monospaced)
+ */
+function wrap(text: string, width: number): string[] {
+  const out: string[] = []
+  let current = ''
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    if (!word) continue
+    let piece = word
+    // Break words longer than the column
+    while (piece.length > width) {
+      if (current) { out.push(current); current = '' }
+      out.push(piece.slice(0, width))
+      piece = piece.slice(width)
+    }
+    if (!current) current = piece
+    else if (current.length + 1 + piece.length <= width) current += ` ${piece}`
+    else { out.push(current); current = piece }
+  }
+  if (current) out.push(current)
+  return out
+}
+
+function formatCue(line: Line, continued: boolean): string {
+  let cue = line.character_name.trim().toUpperCase()
+  if (line.extension) cue += ` (${line.extension})`
+  if (continued) cue += ` (CONT'D)`
+  return cue
+}
+
+function annotationFor(line: Line): string | undefined {
+  const parts: string[] = []
+  if (line.delivery_note?.trim()) parts.push(`Delivery: ${line.delivery_note.trim()}`)
+  if (line.notes?.trim()) parts.push(`Note: ${line.notes.trim()}`)
+  return parts.length > 0 ? parts.join('\n') : undefined
+}
+
+/**
+ * Lay scenes and lines out onto pages of fixed rows
+ * Dialogue that crosses a page break gets (MORE) and a (CONT'D) cue,
+ * and scene headings are never left alone at the bottom of a page
+ */
+export function layoutSides(
+  scenes: Scene[],
+  lines: Line[],
+  options: SidesExportOptions = {}
+): SidesPage[] {
+  const { highlightUserLines = true, includeAnnotations = true } = options
+  const ordered = [...scenes].sort((a, b) => a.sort_order - b.sort_order)
+  const [from, to] = options.sceneRange || [0, ordered.length - 1]
+  const selected = ordered.slice(Math.max(0, from), Math.min(ordered.length - 1, to) + 1)
+
+  const pages: SidesPage[] = []
+  let page: SidesPage = { number: 1, rows: [], annotations: [] }
+  let row = 0
+
+  const newPage = () => {
+    pages.push(page)
+    page = { number: page.number + 1, rows: [], annotations: [] }
+    row = 0
+  }
+
+  const place = (spec: RowSpec) => {
+    page.rows.push({ row, x: spec.x, text: spec.text, align: spec.align, highlight: spec.highlight })
+    if (spec.annotation && includeAnnotations) page.annotations.push({ row, text: spec.annotation })
+    row++
+  }
+
+  // Blank row between elements, unless at the top of a page
+  const gap = () => {
+    if (row > 0) row++
+    if (row >= ROWS_PER_PAGE) newPage()
+  }
+
+  const placeBlock = (rows: RowSpec[]) => {
+    gap()
+    if (row + rows.length > ROWS_PER_PAGE && row > 0) newPage()
+    for (const spec of rows) {
+      if (row >= ROWS_PER_PAGE) newPage()
+      place(spec)
+    }
+  }
+
+  // tight: the speech continues the block above, so no blank row and no cue
+  // unless it lands at the top of a new page
+  const placeDialogue = (cue: RowSpec, body: RowSpec[], continuedCue: RowSpec, tight: boolean) => {
+    if (!tight) gap()
+    else if (row >= ROWS_PER_PAGE) newPage()
+    let head: RowSpec | null = tight && row > 0 ? null : tight ? continuedCue : cue
+
+    if (row + (head ? 1 : 0) + body.length > ROWS_PER_PAGE) {
+      // Split with (MORE) when at least two rows of speech fit, otherwise start fresh
+      const room = ROWS_PER_PAGE - row - (head ? 1 : 0) - 1
+      if (room >= 2) {
+        if (head) place(head)
+        body.slice(0, room).forEach(place)
+        place({ x: CUE_X, text: '(MORE)' })
+        body = body.slice(room)
+      }
+      newPage()
+      head = room >= 2 || tight ? continuedCue : cue
+    }
+
+    if (head) place(head)
+    body.forEach((spec, i) => {
+      if (row >= ROWS_PER_PAGE - 1 && i < body.length - 1) {
+        place({ x: CUE_X, text: '(MORE)' })
+        newPage()
+        place(continuedCue)
+      }
+      place(spec)
+    })
+  }
+
+  for (const scene of selected) {
+    // Keep the heading with at least two rows of what follows
+    gap()
+    if (row + 4 > ROWS_PER_PAGE && row > 0) newPage()
+    const heading = scene.name.trim().toUpperCase()
+    const number = scene.scene_number ? String(scene.scene_number) : ''
+    const headingRows = wrap(heading, ACTION_CHARS)
+    headingRows.forEach((text, i) => {
+      if (i === 0 && number) {
+        page.rows.push({ row, x: SCENE_NUMBER_LEFT_X, text: number, align: 'right' })
+        page.rows.push({ row, x: SCENE_NUMBER_RIGHT_X, text: number })
+      }
+      place({ x: ACTION_X, text })
+    })
+
+    const sceneLines = lines
+      .filter(l => l.scene_id === scene.id)
+      .sort((a, b) => a.sort_order - b.sort_order)
+
+    let previous: Line | null = null
+    for (const line of sceneLines) {
+      const highlight = highlightUserLines && line.is_user_line
+      const annotation = annotationFor(line)
+      const type = line.line_type || 'dialogue'
+
+      if (type === 'dialogue' && line.character_name) {
+        // A continuation of the same speech (split at a parenthetical) shares the cue above it
+        const sameSpeech = previous?.line_type === 'dialogue' && previous.character_name === line.character_name && !!line.is_continued
+        const body: RowSpec[] = []
+        if (line.parenthetical) {
+          const paren = `(${line.parenthetical.replace(/^\(|\)$/g, '').trim()})`
+          wrap(paren, PAREN_CHARS).forEach(text => body.push({ x: PAREN_X, text }))
+        }
+        wrap(line.content, DIALOGUE_CHARS).forEach(text => body.push({ x: DIALOGUE_X, text, highlight }))
+        if (body.length === 0) continue
+        body[0].annotation = annotation
+
+        const cue: RowSpec = { x: CUE_X, text: formatCue(line, !!line.is_continued), highlight }
+        const continuedCue: RowSpec = { x: CUE_X, text: formatCue(line, true), highlight }
+        placeDialogue(cue, body, continuedCue, sameSpeech)
+      } else if (type === 'transition') {
+        const rows = wrap(line.content.toUpperCase(), ACTION_CHARS)
+          .map((text): RowSpec => ({ x: RIGHT_EDGE, text, align: 'right', highlight }))
+        if (rows.length === 0) continue
+        rows[0].annotation = annotation
+        placeBlock(rows)
+      } else {
+        const rows = wrap(line.content, ACTION_CHARS).map((text): RowSpec => ({ x: ACTION_X, text, highlight }))
+        if (rows.length === 0) continue
+        rows[0].annotation = annotation
+        placeBlock(rows)
+      }
+      previous = line
+    }
+  }
+
+  if (page.rows.length > 0 || pages.length === 0) pages.push(page)
+  return pages
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+// Standard fonts only encode WinAnsi - swap anything else for '?'
+function encodable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text).map(ch => supported.has(ch.codePointAt(0)!) ? ch : '?').join('')
+}
+
+// Paragraphs are split before encoding - WinAnsi has no newline
+function wrapAnnotation(font: PDFFont, text: string): string[] {
+  const out: string[] = []
+  for (const paragraph of text.split('\n').map(p => encodable(font, p))) {
+    let current = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = current ? `${current} ${word}` : word
+      if (current && font.widthOfTextAtSize(next, NOTE_SIZE) > NOTE_WIDTH) {
+        out.push(current)
+        current = word
+      } else {
+        current = next
+      }
+    }
+    if (current) out.push(current)
+  }
+  return out
+}
+
+function rowY(row: number): number {
+  return PAGE_HEIGHT - TOP - row * LEADING - FONT_SIZE + 2
+}
+
+/**
+ * Render a script (or a range of its scenes) to PDF sides
+ * User lines are highlighted and notes appear as margin annotations
+ */
+export async function exportSidesPDF(
+  script: Pick<Script, 'title'>,
+  scenes: Scene[],
+  lines: Line[],
+  options: SidesExportOptions = {}
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`${script.title} - Sides`)
+  pdf.setCreator('SceneRead')
+
+  const courier = await pdf.embedFont(StandardFonts.Courier)
+  const noteFont = await pdf.embedFont(StandardFonts.HelveticaOblique)
+  const title = encodable(courier, script.title.toUpperCase())
+
+  for (const layout of layoutSides(scenes, lines, options)) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+    // Header: title on the left, page number on the right
+    page.drawText(title, { x: ACTION_X, y: PAGE_HEIGHT - 0.5 * INCH, size: FONT_SIZE - 2, font: courier })
+    const pageLabel = `${layout.number}.`
+    page.drawText(pageLabel, {
+      x: RIGHT_EDGE - courier.widthOfTextAtSize(pageLabel, FONT_SIZE),
+      y: PAGE_HEIGHT - 0.5 * INCH,
+      size: FONT_SIZE,
+      font: courier,
+    })
+
+    for (const item of layout.rows) {
+      const text = encodable(courier, item.text)
+      const width = text.length * CHAR_WIDTH
+      const x = item.align === 'right' ? item.x - width : item.x
+      const y = rowY(item.row)
+      if (item.highlight) {
+        page.drawRectangle({ x: x - 2, y: y - 3, width: width + 4, height: LEADING, color: HIGHLIGHT })
+      }
+      page.drawText(text, { x, y, size: FONT_SIZE, font: courier })
+    }
+
+    // Annotations flow downwards and never overlap the one above
+    let noteBottom = PAGE_HEIGHT
+    for (const note of layout.annotations) {
+      let y = Math.min(rowY(note.row) + 2, noteBottom - NOTE_LEADING)
+      for (const text of wrapAnnotation(noteFont, note.text)) {
+        if (y < 0.5 * INCH) break
+        page.drawText(text, { x: NOTE_X, y, size: NOTE_SIZE, font: noteFont, color: NOTE_COLOR })
+        noteBottom = y
+        y -= NOTE_LEADING
+      }
+    }
+  }
+
+  return pdf.save()
+}
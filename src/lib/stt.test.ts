@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { createMockSpeechEngine } from './stt'
+
+function mock() {
+  let listening = true
+  let time = 0
+  const heard: [number, 'interim' | 'final', string][] = []
+  let disconnects = 0
+  const engine = createMockSpeechEngine({
+    isListening: () => listening,
+    onPartialTranscript: ({ text }) => heard.push([time, 'interim', text]),
+    onCommittedTranscript: ({ text }) => heard.push([time, 'final', text]),
+    onDisconnect: () => disconnects++,
+    sleep: async (ms) => { time += ms },
+  })
+  return { engine, heard, setListening: (v: boolean) => { listening = v }, disconnects: () => disconnects }
+}
+
+describe('createMockSpeechEngine', () => {
+  it('grows an interim a word at a time, then finalizes the line', async () => {
+    const { engine, heard } = mock()
+    await engine.say('You are late.', { wordMs: 200 })
+    expect(heard).toEqual([
+      [200, 'interim', 'you'],
+      [400, 'interim', 'you are'],
+      [600, 'interim', 'you are late'],
+      [800, 'final', 'You are late.'],
+    ])
+  })
+
+  it('replays recorded events with their timing', async () => {
+    const { engine, heard } = mock()
+    await engine.play([
+      { at: 900, kind: 'interim', text: "i'm not" },
+      { at: 1900, kind: 'final', text: "I'm not going back." },
+    ])
+    expect(heard).toEqual([
+      [900, 'interim', "i'm not"],
+      [1900, 'final', "I'm not going back."],
+    ])
+  })
+
+  it('delivers nothing while not listening', () => {
+    const { engine, heard, setListening } = mock()
+    setListening(false)
+    engine.interim('hello')
+    engine.final('Hello.')
+    setListening(true)
+    engine.final('  ')
+    expect(heard).toEqual([])
+  })
+
+  it('reports a dropped connection', () => {
+    const { engine, disconnects } = mock()
+    engine.disconnect()
+    expect(disconnects()).toBe(1)
+  })
+})
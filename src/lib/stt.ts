@@ -0,0 +1,135 @@
+/**
+ * Speech recognition providers
+ * One interface over the streaming STT hooks (Deepgram, OpenAI Realtime, Web Speech, on-device Vosk)
+ * so screens can switch provider from settings, plus a scripted mock engine that
+ * lets screens be driven without a microphone or network.
+ */
+
+import type { LexiconTerm } from './lexicon'
+import type { TranscriptEvent } from './transcriptCorpus'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SttProviderId = 'deepgram' | 'openai' | 'webspeech' | 'offline' | 'mock'
+
+export const STT_PROVIDERS: { id: SttProviderId; label: string; description: string }[] = [
+  { id: 'deepgram', label: 'Deepgram', description: 'Fast streaming, word timings, script names as keyterms' },
+  { id: 'openai', label: 'OpenAI', description: 'Whisper-style transcripts, prompted with the line' },
+  { id: 'webspeech', label: 'Browser', description: "Your browser's built-in recognition - free, varies by browser" },
+  { id: 'offline', label: 'Offline', description: 'Runs on this device with no connection, English only - download the model first' },
+  { id: 'mock', label: 'Mock', description: 'Scripted transcripts for testing, no microphone' },
+]
+
+export interface TranscriptWord {
+  word: string
+  start: number               // Seconds from the start of the audio sent
+  end: number
+  confidence: number
+  punctuated_word: string
+}
+
+// An interim covers the speech since the last final; finals are new chunks, not cumulative
+export interface TranscriptData {
+  text: string
+  words: TranscriptWord[]     // Empty when the provider has no word timings
+}
+
+export interface SpeechRecognitionOptions {
+  onPartialTranscript?: (data: TranscriptData) => void
+  onCommittedTranscript?: (data: TranscriptData) => void
+  onSessionStarted?: () => void
+  onError?: (error: Error) => void
+  onDisconnect?: () => void
+  onAudioLevel?: (level: number) => void   // 0-1, while listening
+  language?: string                         // Script language to recognize, e.g. "vi" (see resolveLanguage in lib/accuracy)
+}
+
+// What a provider can do with the line about to be said, besides keyterms
+export interface RecognitionHints {
+  expectedLine?: string       // As markup (see markLineRegions in lib/accuracy)
+  lexicon?: LexiconTerm[]
+}
+
+export interface SpeechRecognitionProvider {
+  id: SttProviderId
+  isConnected: boolean
+  isListening: boolean
+  startSession: (keyterms?: string[]) => Promise<boolean>   // Mic + connection, transcripts held until startListening
+  startListening: () => boolean                              // False when not connected
+  pauseListening: () => void                                 // Stop transcribing, keep the connection
+  stopSession: () => void                                    // Full disconnect, mic released
+  updateKeyterms: (keyterms: string[], hints?: RecognitionHints) => Promise<boolean | void>
+  reconnect: () => Promise<boolean>                          // New session with the last keyterms
+  checkConnected: () => boolean                              // Ref-based, never stale
+  startRecording: () => boolean                              // Record the mic for playback
+  stopRecording: () => Promise<Blob | null>
+}
+
+// ============================================================================
+// MOCK ENGINE
+// ============================================================================
+
+export interface MockSpeechEngine {
+  say: (text: string, options?: { wordMs?: number }) => Promise<void>
+  play: (events: Pick<TranscriptEvent, 'at' | 'kind' | 'text'>[]) => Promise<void>
+  interim: (text: string) => void
+  final: (text: string) => void
+  disconnect: () => void
+}
+
+interface MockSpeechTarget {
+  isListening: () => boolean
+  onPartialTranscript?: (data: TranscriptData) => void
+  onCommittedTranscript?: (data: TranscriptData) => void
+  onDisconnect?: () => void
+  sleep?: (ms: number) => Promise<void>
+}
+
+const sleepFor = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Scripted transcripts, delivered like a streaming provider's
+ * Nothing is delivered while the target isn't listening - audio isn't sent then either.
+ * say() grows an interim a word at a time and then finalizes it; play() replays a
+ * recording from the transcript corpus with its own timing.
+ */
+export function createMockSpeechEngine(target: MockSpeechTarget): MockSpeechEngine {
+  const sleep = target.sleep || sleepFor
+
+  const interim = (text: string) => {
+    if (!target.isListening() || !text.trim()) return
+    target.onPartialTranscript?.({ text, words: [] })
+  }
+
+  const final = (text: string) => {
+    if (!target.isListening() || !text.trim()) return
+    target.onCommittedTranscript?.({ text, words: [] })
+  }
+
+  return {
+    interim,
+    final,
+    say: async (text, options = {}) => {
+      const wordMs = options.wordMs ?? 250
+      const words = text.trim().split(/\s+/).filter(Boolean)
+      for (let i = 1; i <= words.length; i++) {
+        await sleep(wordMs)
+        interim(words.slice(0, i).join(' ').toLowerCase().replace(/[.,!?;:]+$/, ''))
+      }
+      await sleep(wordMs)
+      final(text)
+    },
+    play: async (events) => {
+      let at = 0
+      for (const event of events) {
+        await sleep(Math.max(0, event.at - at))
+        at = event.at
+        if (event.kind === 'final') final(event.text)
+        else interim(event.text)
+      }
+    },
+    disconnect: () => target.onDisconnect?.(),
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { createSttHealth, hasFailedOver, reportSttFailure, reportSttSuccess } from './sttFailover'
+
+describe('createSttHealth', () => {
+  it('tries the preferred provider, then the others, then self-grading', () => {
+    expect(createSttHealth('deepgram').chain).toEqual(['deepgram', 'openai', 'webspeech', 'self-grade'])
+    expect(createSttHealth('openai').chain).toEqual(['openai', 'deepgram', 'webspeech', 'self-grade'])
+    expect(createSttHealth('offline').chain).toEqual(['offline', 'deepgram', 'openai', 'webspeech', 'self-grade'])
+  })
+})
+
+describe('reportSttFailure', () => {
+  it('moves on as soon as a provider cannot connect', () => {
+    const health = reportSttFailure(createSttHealth('deepgram'), 'deepgram', 'connect')
+    expect(health.active).toBe('openai')
+    expect(health.lastFailure).toEqual({ engine: 'deepgram', reason: 'connect' })
+    expect(hasFailedOver(health)).toBe(true)
+  })
+
+  it('gives a silent provider a second line', () => {
+    let health = reportSttFailure(createSttHealth('deepgram'), 'deepgram', 'silent')
+    expect(health.active).toBe('deepgram')
+    expect(hasFailedOver(health)).toBe(false)
+    health = reportSttFailure(health, 'deepgram', 'silent')
+    expect(health.active).toBe('openai')
+  })
+
+  it('forgets failures once a transcript arrives', () => {
+    let health = reportSttFailure(createSttHealth('deepgram'), 'deepgram', 'silent')
+    health = reportSttSuccess(health, 'deepgram')
+    health = reportSttFailure(health, 'deepgram', 'silent')
+    expect(health.active).toBe('deepgram')
+  })
+
+  it('ignores late reports about an engine already left behind', () => {
+    const health = reportSttFailure(createSttHealth('deepgram'), 'deepgram', 'connect')
+    expect(reportSttFailure(health, 'deepgram', 'connect')).toBe(health)
+  })
+
+  it('ends in self-grading, which never fails', () => {
+    let health = createSttHealth('deepgram')
+    for (const engine of ['deepgram', 'openai', 'webspeech'] as const) {
+      health = reportSttFailure(health, engine, 'disconnect')
+    }
+    expect(health.active).toBe('self-grade')
+    expect(reportSttFailure(health, 'self-grade', 'error')).toBe(health)
+  })
+})
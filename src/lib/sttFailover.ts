@@ -0,0 +1,81 @@
+/**
+ * STT failover
+ * Which speech recognition engine practice is using, and when to give up on it.
+ * Each failure is counted against the provider; once a provider reaches the limit
+ * for that kind of failure, the next engine in the chain takes over. The chain
+ * always ends in self-grading (the actor taps whether they got the line), so
+ * practice never stalls at "connecting".
+ */
+
+import { STT_PROVIDERS, SttProviderId } from './stt'
+
+export type SttEngine = SttProviderId | 'self-grade'
+
+export type SttFailure =
+  | 'connect'      // Couldn't open a session, after retries
+  | 'disconnect'   // Dropped and couldn't reconnect
+  | 'silent'       // Heard speech on the mic, got no transcript
+  | 'error'        // The provider reported an error mid-session
+
+export interface SttHealth {
+  chain: SttEngine[]
+  active: SttEngine
+  failures: Partial<Record<SttEngine, number>>
+  lastFailure: { engine: SttEngine; reason: SttFailure } | null
+}
+
+// Failures of each kind before moving on - one silent line can be a quiet actor,
+// one stray error is usually recoverable
+const FAILOVER_AFTER: Record<SttFailure, number> = {
+  connect: 1,
+  disconnect: 1,
+  silent: 2,
+  error: 3,
+}
+
+// After the preferred provider, in the order they're tried
+const FAILOVER_ORDER: SttProviderId[] = ['deepgram', 'openai', 'webspeech']
+
+// How long the mic can hear speech with no transcript before it counts as silent
+export const SILENT_SPEECH_MS = 5000
+
+export const STT_ENGINE_LABELS: Record<SttEngine, string> = {
+  ...Object.fromEntries(STT_PROVIDERS.map(p => [p.id, p.label])) as Record<SttProviderId, string>,
+  'self-grade': 'Self-grade',
+}
+
+/**
+ * The chain for a preferred provider: it, then the others in order, then self-grading.
+ * Offline and mock are only in the chain when they were chosen - offline needs its
+ * model downloaded first, mock isn't recognition at all.
+ */
+export function createSttHealth(preferred: SttProviderId): SttHealth {
+  const chain: SttEngine[] = [preferred, ...FAILOVER_ORDER.filter(id => id !== preferred), 'self-grade']
+  return { chain, active: preferred, failures: {}, lastFailure: null }
+}
+
+export function reportSttFailure(health: SttHealth, engine: SttEngine, reason: SttFailure): SttHealth {
+  // A late report about an engine already left behind changes nothing
+  if (engine !== health.active || engine === 'self-grade') return health
+
+  const count = (health.failures[engine] || 0) + 1
+  const next: SttHealth = {
+    ...health,
+    failures: { ...health.failures, [engine]: count },
+    lastFailure: { engine, reason },
+  }
+  if (count < FAILOVER_AFTER[reason]) return next
+
+  const index = health.chain.indexOf(engine)
+  return { ...next, active: health.chain[Math.min(index + 1, health.chain.length - 1)] }
+}
+
+// A transcript arrived - the engine is working, so earlier failures no longer count
+export function reportSttSuccess(health: SttHealth, engine: SttEngine): SttHealth {
+  if (engine !== health.active || !health.failures[engine]) return health
+  return { ...health, failures: { ...health.failures, [engine]: 0 } }
+}
+
+export function hasFailedOver(health: SttHealth): boolean {
+  return health.active !== health.chain[0]
+}
@@ -1,6 +1,7 @@
 // Browser client for client components
 import { createBrowserClient } from '@supabase/ssr'
 import type { Session } from '@supabase/supabase-js'
+import type { AlignmentOp, LineRegion } from './accuracy'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -113,7 +114,10 @@ export interface Script {
   writer?: string | null
   status?: string
   accent_hint?: string
+  language?: string | null              // Language the lines are written in (accuracy matching); accent_hint's when unset
   folder_id?: string | null
+  revision_color?: string | null        // Colour of the latest imported revision (blue, pink...)
+  revised_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -129,6 +133,20 @@ export interface Scene {
   sort_order: number
   int_ext?: string | null
   sub_location?: string | null
+  // Provenance for scenes assembled by the sides builder
+  source_script_id?: string | null      // Script the scene was copied from
+  source_scene_id?: string | null       // Scene it was copied from
+  source_label?: string | null          // Human-readable origin, e.g. "Pilot · Sc. 3" or "sides.pdf · p. 4"
+}
+
+// One change to a line (Line.revisions is oldest first)
+export interface LineRevision {
+  at: string
+  by: string | null                 // User who made the change
+  by_name?: string | null
+  previous_content: string | null   // Null when the line was added
+  color: string | null              // Revision colour the change belongs to
+  source: 'edit' | 'revision'       // Edited in the app or from imported pages
 }
 
 export interface Line {
@@ -137,7 +155,8 @@ export interface Line {
   script_id: string
   character_name: string
   is_user_line: boolean
-  content: string
+  content: string                       // As said - region markup is kept in regions
+  regions?: LineRegion[] | null         // Ad-lib, optional and overlap stretches of content
   emotion_tag: string | null
   emotion?: string | null
   stage_direction: string | null
@@ -151,8 +170,13 @@ export interface Line {
   delivery_note?: string | null
   extension?: string | null
   is_continued?: boolean
+  is_dual?: boolean                     // Spoken simultaneously with the previous line (dual dialogue)
   notes?: string | null
   cue?: string | null
+  source_line_id?: string | null        // Line this was copied from (sides builder)
+  revision_status?: 'revised' | 'added' | null  // Changed by the latest imported revision
+  previous_content?: string | null      // Wording before the latest revision
+  revisions?: LineRevision[] | null     // Change history, oldest first
   word_timepoints?: { word: string; start_time: number | null }[] | null
   practice_segments?: string[] | null
   // Additional audio URLs for narrator voice
@@ -212,6 +236,33 @@ export interface PracticeSession {
   overall_accuracy: number | null
 }
 
+// One scored take, written by /api/accuracy
+export interface LineAttempt {
+  id: string
+  user_id: string
+  line_id: string | null
+  script_id: string | null
+  session_id: string | null
+  stt_provider: string | null          // Speech recognition engine that heard the take
+  expected_text: string
+  spoken_text: string
+  is_correct: boolean | null          // Null for self-graded takes - nothing was scored,
+  accuracy: number | null             // so they stay out of accuracy stats
+  self_graded: boolean | null         // The actor's own got-it/missed call, when there was no transcript
+  shown_correct: boolean | null       // The verdict the app showed the actor, which can differ from the
+  shown_accuracy: number | null       // server's score above - and what decided it (scorer, azure, realtime)
+  shown_source: string | null
+  missing_words: string[]
+  extra_words: string[]
+  wrong_words: string[]
+  paraphrased_words: string[]
+  alignment: AlignmentOp[]
+  profile_id: string
+  language: string | null
+  scorer_version: string               // SCORER_VERSION that produced the score
+  created_at: string
+}
+
 // ============================================================================
 // GOOGLE CLOUD TTS VOICES - Chirp 3 HD
 // ============================================================================
@@ -284,6 +335,17 @@ export const ACCENTS = [
   { code: 'vi-VN', name: 'Vietnamese' },
 ]
 
+// Languages a script can be written in - lines are matched with that language's fillers and equivalents
+export const SCRIPT_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+]
+
 export function buildVoiceId(voiceName: string, locale: string = 'en-AU'): string {
   return `${locale}-Chirp3-HD-${voiceName}`
 }
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import { createTranscriptRecorder, replayLockedMatch, TranscriptEvent, TranscriptRecording } from './transcriptCorpus'
+
+// ============================================================================
+// Recorder
+// ============================================================================
+
+describe('createTranscriptRecorder', () => {
+  function recorder() {
+    let time = 1000
+    const saved: TranscriptRecording[] = []
+    const rec = createTranscriptRecorder('deepgram', { now: () => time, save: r => saved.push(r) })
+    return { rec, saved, advance: (ms: number) => { time += ms } }
+  }
+
+  it('times events from the start of the line', () => {
+    const { rec, saved, advance } = recorder()
+    rec.startLine('You are late.', { lineId: 'l1', profileId: 'standard', language: 'en' })
+    advance(800)
+    rec.record('interim', 'you are')
+    advance(400)
+    rec.record('final', 'You are late.')
+    rec.endLine()
+
+    expect(saved).toHaveLength(1)
+    expect(saved[0]).toMatchObject({ provider: 'deepgram', expected: 'You are late.', lineId: 'l1', profileId: 'standard', language: 'en' })
+    expect(saved[0].events).toEqual([
+      { at: 800, kind: 'interim', text: 'you are' },
+      { at: 1200, kind: 'final', text: 'You are late.' },
+    ])
+  })
+
+  it("takes a line's provider over the recorder's", () => {
+    const { rec, saved } = recorder()
+    rec.startLine('You are late.', { provider: 'webspeech' })
+    rec.record('final', 'You are late.')
+    rec.endLine()
+    expect(saved[0].provider).toBe('webspeech')
+  })
+
+  it('drops events outside a line and lines with nothing heard', () => {
+    const { rec, saved } = recorder()
+    rec.record('final', 'before the line')
+    rec.startLine('You are late.')
+    rec.record('interim', '  ')
+    expect(rec.endLine()?.events).toEqual([])
+    rec.record('final', 'after the line')
+    expect(rec.endLine()).toBeNull()
+    expect(saved).toHaveLength(0)
+  })
+})
+
+// ============================================================================
+// Replay — recorded interim/final sequences and when their words lock.
+// Recordings downloaded from Profile > Matching can be added here as they are.
+// ============================================================================
+
+interface ReplayFixture {
+  name: string
+  expected: string
+  events: [number, TranscriptEvent['kind'], string][]
+  characterNames?: string[]
+  lockedAt: number[]          // When each expected word locked
+  errorAt: number | null      // When an error was first flagged
+}
+
+const HOUSE = "I'm not going back to that house tonight."
+
+const FIXTURES: ReplayFixture[] = [
+  {
+    name: 'locks words as interims grow, across two finals',
+    expected: HOUSE,
+    events: [
+      [900, 'interim', "i'm not"],
+      [1300, 'interim', "i'm not going back"],
+      [1700, 'interim', "i'm not going back to that"],
+      [1900, 'final', "I'm not going back to that house"],
+      [2300, 'interim', 'tonight'],
+      [2700, 'final', 'tonight.'],
+    ],
+    lockedAt: [900, 900, 1300, 1300, 1700, 1700, 1900, 2300],
+    errorAt: null,
+  },
+  {
+    name: 'waits for the rest of a spoken time',
+    expected: 'Meet me at the docks at 9:30.',
+    events: [
+      [700, 'interim', 'meet me'],
+      [1100, 'interim', 'meet me at the docks'],
+      [1500, 'interim', 'meet me at the docks at nine'],
+      [1800, 'interim', 'meet me at the docks at nine thirty'],
+      [2200, 'final', 'Meet me at the docks at nine thirty.'],
+    ],
+    lockedAt: [700, 700, 1100, 1100, 1100, 1500, 1800],
+    errorAt: null,
+  },
+  {
+    name: 'ignores re-transcription of words already locked',
+    expected: HOUSE,
+    events: [
+      [900, 'interim', "i'm knot going"],
+      [1400, 'interim', "i'm not going back to"],
+      [1900, 'final', "I'm not going back to that house tonight."],
+    ],
+    lockedAt: [900, 900, 900, 1400, 1400, 1900, 1900, 1900],
+    errorAt: null,
+  },
+  {
+    name: 'flags a wrong word as soon as it is heard',
+    expected: HOUSE,
+    events: [
+      [900, 'interim', "i'm not going"],
+      [1400, 'interim', "i'm not going back to that home"],
+      [1900, 'final', "I'm not going back to that home tonight."],
+    ],
+    lockedAt: [900, 900, 900, 1400, 1400, 1400],
+    errorAt: 1400,
+  },
+  {
+    name: 'locks a misheard character name',
+    expected: 'Tell Kowalski I said so.',
+    events: [
+      [700, 'interim', 'tell kovalski'],
+      [1200, 'final', 'Tell Kovalski I said so.'],
+    ],
+    characterNames: ['kowalski'],
+    lockedAt: [700, 700, 1200, 1200, 1200],
+    errorAt: null,
+  },
+]
+
+describe('replayLockedMatch fixtures', () => {
+  for (const fixture of FIXTURES) {
+    it(fixture.name, () => {
+      const events = fixture.events.map(([at, kind, text]) => ({ at, kind, text }))
+      const result = replayLockedMatch(
+        { expected: fixture.expected, events },
+        { characterNames: fixture.characterNames && new Set(fixture.characterNames) }
+      )
+      expect(result.lockedAt).toEqual(fixture.lockedAt)
+      expect(result.firstErrorAt).toBe(fixture.errorAt)
+      expect(result.lockedCount).toBe(fixture.lockedAt.length)
+    })
+  }
+})
+
+describe('replayLockedMatch', () => {
+  it('matches interims on top of the finals so far', () => {
+    const result = replayLockedMatch({
+      expected: HOUSE,
+      events: [
+        { at: 500, kind: 'final', text: "I'm not going" },
+        { at: 900, kind: 'interim', text: 'back to' },
+        { at: 1300, kind: 'final', text: 'back to that house' },
+      ],
+    })
+    expect(result.steps.map(s => s.transcript)).toEqual([
+      "I'm not going",
+      "I'm not going back to",
+      "I'm not going back to that house",
+    ])
+    expect(result.steps.map(s => s.lockedCount)).toEqual([3, 5, 7])
+  })
+})
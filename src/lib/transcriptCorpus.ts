@@ -0,0 +1,160 @@
+/**
+ * Transcript corpus
+ * Opt-in recording of what streaming STT sends while a line is said - every
+ * interim and final transcript, timed - and a replay of those recordings through
+ * getLockedWordMatch, so word locking can be tuned against real re-transcriptions
+ * (see the fixtures in transcriptCorpus.test.ts).
+ */
+
+import { AccuracyProfile, createFreshLockedState, getLockedWordMatch, LexiconIndex, LockedWordState } from './accuracy'
+import type { SttProviderId } from './stt'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TranscriptEvent {
+  at: number                  // ms since listening for the line started
+  kind: 'interim' | 'final'
+  text: string                // As the hook emitted it (an interim covers the speech since the last final)
+}
+
+export interface TranscriptRecording {
+  id: string
+  provider: SttProviderId
+  expected: string
+  lineId: string | null
+  profileId: string | null
+  language: string | null
+  recordedAt: string
+  events: TranscriptEvent[]
+}
+
+export interface TranscriptRecorder {
+  startLine: (expected: string, meta?: { provider?: SttProviderId; lineId?: string | null; profileId?: string | null; language?: string | null }) => void
+  record: (kind: TranscriptEvent['kind'], text: string) => void
+  endLine: () => TranscriptRecording | null   // Also saved to the corpus when it has events
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+const STORAGE_KEY = 'sceneread-transcript-corpus'
+// Oldest recordings drop off first
+const MAX_STORED_RECORDINGS = 200
+
+export function loadTranscriptCorpus(): TranscriptRecording[] {
+  if (typeof localStorage === 'undefined') return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function saveTranscriptRecording(recording: TranscriptRecording) {
+  if (typeof localStorage === 'undefined') return
+  const corpus = [...loadTranscriptCorpus(), recording].slice(-MAX_STORED_RECORDINGS)
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(corpus))
+  } catch (err) {
+    console.warn('[TranscriptCorpus] Could not save recording:', err)
+  }
+}
+
+export function clearTranscriptCorpus() {
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY)
+}
+
+/**
+ * Record the transcripts of one line at a time
+ * Events outside startLine/endLine are dropped, so the hook callbacks can record unconditionally.
+ * A line's provider overrides the recorder's when it can change between lines.
+ */
+export function createTranscriptRecorder(
+  provider: TranscriptRecording['provider'],
+  options: { now?: () => number; save?: (recording: TranscriptRecording) => void } = {}
+): TranscriptRecorder {
+  const now = options.now || (() => Date.now())
+  const save = options.save || saveTranscriptRecording
+  let current: { recording: TranscriptRecording; startedAt: number } | null = null
+
+  return {
+    startLine: (expected, meta = {}) => {
+      current = {
+        startedAt: now(),
+        recording: {
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          provider: meta.provider || provider,
+          expected,
+          lineId: meta.lineId ?? null,
+          profileId: meta.profileId ?? null,
+          language: meta.language ?? null,
+          recordedAt: new Date().toISOString(),
+          events: [],
+        },
+      }
+    },
+    record: (kind, text) => {
+      if (!current || !text.trim()) return
+      current.recording.events.push({ at: Math.round(now() - current.startedAt), kind, text })
+    },
+    endLine: () => {
+      const recording = current?.recording || null
+      current = null
+      if (recording && recording.events.length > 0) save(recording)
+      return recording
+    },
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+export interface ReplayStep extends LockedWordState {
+  at: number
+  kind: TranscriptEvent['kind']
+  transcript: string   // What getLockedWordMatch saw: finals so far plus the current interim
+}
+
+export interface ReplayResult {
+  steps: ReplayStep[]
+  lockedAt: number[]            // Time each locked word locked, in line order
+  firstErrorAt: number | null   // Time an error was first flagged
+  lockedCount: number           // Words locked at the end
+}
+
+/**
+ * Feed a recording through getLockedWordMatch the way the record screen does:
+ * finals accumulate, each interim is matched on top of the finals so far
+ */
+export function replayLockedMatch(
+  recording: Pick<TranscriptRecording, 'expected' | 'events'>,
+  options: { profile?: AccuracyProfile; characterNames?: Set<string>; lexicon?: LexiconIndex; language?: string | null } = {}
+): ReplayResult {
+  let state = createFreshLockedState()
+  let committed = ''
+  const steps: ReplayStep[] = []
+  const lockedAt: number[] = []
+  let firstErrorAt: number | null = null
+
+  for (const event of recording.events) {
+    let transcript: string
+    if (event.kind === 'final') {
+      committed = committed ? `${committed} ${event.text}` : event.text
+      transcript = committed
+    } else {
+      transcript = committed ? `${committed} ${event.text}` : event.text
+    }
+
+    state = getLockedWordMatch(recording.expected, transcript, state, options.characterNames, options.profile, options.lexicon, options.language)
+    while (lockedAt.length < state.lockedCount) lockedAt.push(event.at)
+    if (state.hasError && firstErrorAt === null) firstErrorAt = event.at
+    steps.push({ ...state, at: event.at, kind: event.kind, transcript })
+  }
+
+  return { steps, lockedAt, firstErrorAt, lockedCount: state.lockedCount }
+}
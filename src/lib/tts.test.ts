@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_VOICE, parseTtsRequest, ttsCacheKey, voiceLanguageCode } from './tts'
+
+describe('parseTtsRequest', () => {
+  it('fills in the default voice, rate and pitch', () => {
+    expect(parseTtsRequest({ text: ' You are late. ' })).toEqual({ text: 'You are late.', voice: DEFAULT_VOICE, rate: 1, pitch: 0 })
+  })
+
+  it('rejects missing text, odd voices and out-of-range settings', () => {
+    expect(parseTtsRequest(null)).toBe('Body must be a JSON object')
+    expect(parseTtsRequest({ text: '  ' })).toBe('text is required')
+    expect(parseTtsRequest({ text: 'Hi', voice: '../secrets' })).toBe('voice must be a Google voice name')
+    expect(parseTtsRequest({ text: 'Hi', rate: 10 })).toBe('rate must be between 0.25 and 4')
+    expect(parseTtsRequest({ text: 'Hi', pitch: '-2' })).toBe('pitch must be between -20 and 20')
+  })
+})
+
+describe('voiceLanguageCode', () => {
+  it('takes the language and region from the voice name', () => {
+    expect(voiceLanguageCode('en-GB-Chirp3-HD-Puck')).toBe('en-GB')
+  })
+})
+
+describe('ttsCacheKey', () => {
+  it('is the same for the same audio and differs when anything that changes it does', async () => {
+    const request = { text: 'You are late.', voice: DEFAULT_VOICE, rate: 1, pitch: 0 }
+    const key = await ttsCacheKey(request)
+    expect(key).toMatch(/^[0-9a-f]{64}$/)
+    expect(await ttsCacheKey({ ...request })).toBe(key)
+    expect(await ttsCacheKey({ ...request, pitch: -2 })).not.toBe(key)
+    expect(await ttsCacheKey({ ...request, voice: 'en-GB-Chirp3-HD-Puck' })).not.toBe(key)
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Text to speech for /api/tts
+ * Checks what to synthesize and names the result by its content - the same voice,
+ * text, rate and pitch always hash to the same cached file, so a line is only
+ * synthesized once however often it's rehearsed.
+ */
+
+export const DEFAULT_VOICE = 'en-AU-Chirp3-HD-Aoede'
+export const NARRATOR_VOICE = 'en-AU-Chirp3-HD-Rasalgethi'
+
+// A long speech, not a monologue's worth of requests
+const MAX_TEXT_LENGTH = 1500
+
+// Google voice names: language-REGION-Family-Name, e.g. en-AU-Chirp3-HD-Aoede
+const VOICE_PATTERN = /^[a-z]{2,3}-[A-Z]{2}-[A-Za-z0-9-]+$/
+
+export interface TtsRequest {
+  text: string
+  voice: string
+  rate: number      // Google speakingRate, 0.25-4
+  pitch: number     // Semitones, -20 to 20
+}
+
+/**
+ * The request body as a TtsRequest, or what's wrong with it
+ */
+export function parseTtsRequest(body: unknown): TtsRequest | string {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object'
+  const { text, voice, rate, pitch } = body as Record<string, unknown>
+
+  if (typeof text !== 'string' || !text.trim()) return 'text is required'
+  if (text.length > MAX_TEXT_LENGTH) return `text must be at most ${MAX_TEXT_LENGTH} characters`
+  if (voice !== undefined && (typeof voice !== 'string' || !VOICE_PATTERN.test(voice))) return 'voice must be a Google voice name'
+  if (rate !== undefined && (typeof rate !== 'number' || !(rate >= 0.25 && rate <= 4))) return 'rate must be between 0.25 and 4'
+  if (pitch !== undefined && (typeof pitch !== 'number' || !(pitch >= -20 && pitch <= 20))) return 'pitch must be between -20 and 20'
+
+  return {
+    text: text.trim(),
+    voice: (voice as string | undefined) || DEFAULT_VOICE,
+    rate: (rate as number | undefined) ?? 1,
+    pitch: (pitch as number | undefined) ?? 0,
+  }
+}
+
+// "en-AU-Chirp3-HD-Aoede" -> "en-AU"
+export function voiceLanguageCode(voice: string): string {
+  return voice.split('-').slice(0, 2).join('-')
+}
+
+/**
+ * SHA-256 of everything that changes the audio, as hex
+ */
+export async function ttsCacheKey(request: TtsRequest): Promise<string> {
+  const content = JSON.stringify([request.voice, request.text, request.rate, request.pitch])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { Script, Scene, Line, Character, Folder, getAuthHeaders } from '@/lib/supabase'
+import { DEFAULT_ACCURACY_PROFILE_ID, AccuracyProfile } from '@/lib/accuracy'
+import { LexiconTerm } from '@/lib/lexicon'
+import type { SttProviderId } from '@/lib/stt'
 
 // === PRACTICE SETTINGS (Global defaults) ===
 export interface PracticeSettings {
@@ -12,7 +15,10 @@ export interface PracticeSettings {
   silenceDuration: number
   showLiveTranscript: boolean
   showAccuracyScore: boolean
-  strictMode: boolean
+  accuracyProfileId: string // Default profile for scripts without their own
+  accuracyProfiles: AccuracyProfile[] // User-edited built-ins and custom profiles
+  recordTranscripts: boolean // Keep STT transcripts of each line on this device for tuning
+  sttProvider: SttProviderId // Speech recognition while practicing
   aiVoice: string
   aiVoiceSpeed: number
   playbackSpeed: number
@@ -57,6 +63,8 @@ export interface ScriptPracticeState {
   speedRunBestTime?: number
   lastPracticedAt: string
   totalPracticeTimeMs: number
+  accuracyProfileId?: string // Falls back to the global default
+  lexicon?: LexiconTerm[]    // Actor's edits to the script lexicon (seeded terms are added at runtime)
 }
 
 // Extended Profile with settings
@@ -194,7 +202,10 @@ export const defaultSettings: PracticeSettings = {
   silenceDuration: 2500,
   showLiveTranscript: true,
   showAccuracyScore: false,
-  strictMode: false,
+  accuracyProfileId: DEFAULT_ACCURACY_PROFILE_ID,
+  accuracyProfiles: [],
+  recordTranscripts: false,
+  sttProvider: 'deepgram',
   aiVoice: 'rachel',
   aiVoiceSpeed: 1.0,
   playbackSpeed: 1.0,
@@ -287,10 +298,11 @@ export const useSettings = create<SettingsState>((set, get) => ({
     }
   },
   hydrate: (userId, savedSettings) => {
-    set({ 
-      userId,
-      settings: savedSettings ? { ...defaultSettings, ...savedSettings } : defaultSettings 
-    })
+    const settings = savedSettings ? { ...defaultSettings, ...savedSettings } : defaultSettings
+    // Settings saved before profiles existed only had a strict mode flag
+    const legacy = savedSettings as (PracticeSettings & { strictMode?: boolean }) | undefined
+    if (legacy?.strictMode && !legacy.accuracyProfileId) settings.accuracyProfileId = 'off-book'
+    set({ userId, settings })
   },
 }))
 
@@ -310,8 +322,11 @@ interface ScriptPracticeStore {
     includeDirections?: boolean
     directionsMode?: 'spoken' | 'shown' | 'muted'
     loop?: boolean
+    accuracyProfileId?: string
+    lexicon?: LexiconTerm[]
   }) => void
   markLineCompleted: (scriptId: string, lineId: string) => void
+  forgetLines: (scriptId: string, lineIds: string[]) => void
   recordAttempt: (scriptId: string, correct: boolean) => void
   saveRepeatProgress: (scriptId: string, segmentIndex: number, buildProgress: number) => void
   resetScriptProgress: (scriptId: string) => void
@@ -370,6 +385,23 @@ export const useScriptPractice = create<ScriptPracticeStore>((set, get) => ({
     }
   },
   
+  // Drop lines that were revised or removed from the completed set
+  forgetLines: (scriptId, lineIds) => {
+    const state = get().getScriptState(scriptId)
+    const forget = new Set(lineIds)
+    if (!state.completedLineIds.some(id => forget.has(id))) return
+    // Not a practice session - leave lastPracticedAt alone
+    const newStates = {
+      ...get().scriptStates,
+      [scriptId]: { ...state, completedLineIds: state.completedLineIds.filter(id => !forget.has(id)) }
+    }
+    set({ scriptStates: newStates })
+    const userId = get().userId
+    if (userId) {
+      debouncedSave(userId, { script_states: newStates })
+    }
+  },
+  
   recordAttempt: (scriptId, correct) => {
     const state = get().getScriptState(scriptId)
     get().updateScriptState(scriptId, {